@@ -0,0 +1,115 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Block Format — Versioned Hashing & Serialization
+ * ============================================================
+ *
+ * PURPOSE:
+ * A block's hash is only reproducible if every node serializes it
+ * the same way it was serialized when it was mined. Each block
+ * therefore carries a format version, and hashing dispatches on it:
+ * new fields or a new hash function become a new version, and every
+ * block already on a chain keeps verifying under the version it was
+ * mined with.
+ *
+ * VERSIONS:
+ *   1 → JSON.stringify of { index, timestamp, data, previousHash,
+ *       nonce, merkleRoot } in that key order, SHA-256 via crypto-js.
+ *       Blocks with no version field are version 1 (includes genesis).
+ *   2 → Canonical JSON (keys sorted at every level, undefined values
+ *       dropped, no whitespace) of the same fields plus `version`,
+ *       SHA-256 via Node's native crypto. The version is hashed, so a
+ *       block cannot be re-labelled to another format.
+ *
+ * ADDING A VERSION:
+ * Add a serializer to FORMATS and bump CURRENT_BLOCK_VERSION. Never
+ * change an existing entry — that would invalidate stored chains.
+ */
+
+import crypto from 'crypto';
+import CryptoJS from 'crypto-js';
+import type { BlockPayload } from './BlockchainService.js';
+
+// ─── Types ─────────────────────────────────────────────────
+
+/**
+ * Everything that goes into a block's hash.
+ */
+export interface BlockHeader {
+  version?: number;           // Absent on blocks mined before versioning (= 1)
+  index: number;
+  timestamp: number;
+  data: BlockPayload;
+  previousHash: string;
+  nonce: number;
+  merkleRoot?: string;
+}
+
+interface BlockFormat {
+  hash(header: BlockHeader): string;
+}
+
+// ─── Constants ──────────────────────────────────────────────
+
+export const LEGACY_BLOCK_VERSION = 1;
+
+// Version given to newly mined blocks
+export const CURRENT_BLOCK_VERSION = 2;
+
+// ─── Canonical Serialization ────────────────────────────────
+
+/**
+ * Deterministic JSON: object keys sorted, undefined members dropped.
+ * Arrays keep their order (it is part of the data).
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(v => (v === undefined ? 'null' : canonicalJson(v))).join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .sort()
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+// ─── Formats ────────────────────────────────────────────────
+
+const FORMATS: Record<number, BlockFormat> = {
+  1: {
+    // Field order is part of the format — do not reorder
+    hash: ({ index, timestamp, data, previousHash, nonce, merkleRoot }) =>
+      CryptoJS.SHA256(JSON.stringify({ index, timestamp, data, previousHash, nonce, merkleRoot }))
+        .toString(CryptoJS.enc.Hex),
+  },
+  2: {
+    hash: ({ index, timestamp, data, previousHash, nonce, merkleRoot }) =>
+      crypto.createHash('sha256')
+        .update(canonicalJson({ version: 2, index, timestamp, data, previousHash, nonce, merkleRoot }), 'utf8')
+        .digest('hex'),
+  },
+};
+
+export function getBlockVersion(header: { version?: number }): number {
+  return header.version ?? LEGACY_BLOCK_VERSION;
+}
+
+export function isSupportedBlockVersion(version: number): boolean {
+  return Object.prototype.hasOwnProperty.call(FORMATS, version);
+}
+
+/**
+ * Hashes a block under the format its version names.
+ * Throws for a version this node does not know.
+ */
+export function hashBlockHeader(header: BlockHeader): string {
+  const version = getBlockVersion(header);
+  if (!isSupportedBlockVersion(version)) {
+    throw new Error(`[BlockFormat] Unsupported block version ${version}`);
+  }
+  return FORMATS[version].hash(header);
+}
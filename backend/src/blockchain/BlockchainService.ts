@@ -18,19 +18,36 @@
  *
  * STRUCTURE:
  * Block {
+ *   version     → Block format: how the block is serialized & hashed (see BlockFormat)
  *   index       → Position in the chain
  *   timestamp   → When the report was filed
- *   data        → The encrypted report payload
+ *   data        → The report payload, or a status event for a report
  *   previousHash → Hash of the previous block (links chain)
- *   hash        → SHA-256 of all above fields
+ *   merkleRoot  → Merkle root over the hashes of all earlier blocks
+ *   hash        → SHA-256 of all above fields, serialized per version
  *   nonce       → Proof-of-work value (light difficulty)
+ *   signature   → Server Ed25519 signature over hash (see KeyRing)
  * }
  */
 
 import CryptoJS from 'crypto-js';
+import { MerkleTree, MerkleFrontier, MerkleProof } from './MerkleTree.js';
+import {
+  BlockHeader,
+  CURRENT_BLOCK_VERSION,
+  LEGACY_BLOCK_VERSION,
+  getBlockVersion,
+  hashBlockHeader,
+  isSupportedBlockVersion,
+} from './BlockFormat.js';
+import type { BlockSigner, BlockSignature } from './KeyRing.js';
+import type { ReportStatus, DismissalReason } from '../services/ReportLifecycle.js';
 
 // ─── Types ─────────────────────────────────────────────────
 
+// Statuses and their transitions are defined in services/ReportLifecycle.ts
+export type { ReportStatus };
+
 export interface BlockData {
   reportId: string;
   category: string;
@@ -41,42 +58,163 @@ export interface BlockData {
     nearestStation: string;
   };
   descriptionHash: string;    // SHA-256 of actual description (privacy)
-  evidenceHashes: string[];   // SHA-256 of each evidence file
+  evidenceHashes: string[];   // Legacy: per-file hashes in the clear (empty once evidenceRoot is used)
+  evidenceRoot?: string;      // Merkle root over salted evidence commitments (see EvidenceSet)
+  evidenceCount?: number;
   identity: 'name' | 'anonymous';
   citizenId?: string;         // Only present if named report
   timestamp: number;
   authorityRouted: string[];
-  status: 'PENDING' | 'UNDER_REVIEW' | 'RESOLVED' | 'DISMISSED';
+  status: ReportStatus;
+}
+
+/**
+ * A status change for an existing report, appended as its own block.
+ * It points back at the original report block, so the full status
+ * history of a report can be replayed from the chain alone.
+ */
+export interface StatusEventData {
+  type: 'STATUS_EVENT';
+  reportId: string;
+  reportBlockIndex: number;   // Block that recorded the original report
+  reportBlockHash: string;
+  previousStatus: ReportStatus;
+  status: ReportStatus;
+  actor: string;
+  reasonCode?: DismissalReason;   // Why it was dismissed (absent on older events)
+  reasonHash?: string;            // SHA-256 of the free-text reason; the text stays in status_history
+  reason?: string;                // Older events carried the text itself
+  timestamp: number;
 }
 
+export type BlockPayload = BlockData | StatusEventData;
+
 export interface Block {
+  version?: number;           // Block format (absent on blocks mined before versioning = 1)
   index: number;
   timestamp: number;
-  data: BlockData;
+  data: BlockPayload;
   previousHash: string;
   hash: string;
   nonce: number;
+  merkleRoot?: string;        // Root over blocks 0..index-1 (absent on genesis & legacy blocks)
+  signature?: BlockSignature; // Not part of the hash — it signs the hash
+}
+
+/**
+ * Append-only persistence backend for the chain.
+ * Blocks are written one at a time and read back in index order.
+ */
+export interface BlockStore {
+  append(block: Block): void;
+  iterate(): Iterable<Block>;
+  count(): number;
+}
+
+/**
+ * A block that has been laid out on top of the current head but not
+ * mined yet. Mining only has to find the nonce; everything else that
+ * goes into the hash is fixed here.
+ */
+export interface BlockCandidate {
+  version: number;
+  index: number;
+  timestamp: number;
+  data: BlockPayload;
+  previousHash: string;
+  merkleRoot: string;
+}
+
+/**
+ * One problem found by a forensic scan of the chain.
+ * expected/actual carry the values that disagreed, where there are any.
+ */
+export type BlockIssueKind =
+  | 'GENESIS_MISMATCH'
+  | 'UNSUPPORTED_VERSION'
+  | 'HASH_MISMATCH'
+  | 'BROKEN_LINK'
+  | 'MISSING_INDEX'
+  | 'REORDERED_TIMESTAMP'
+  | 'MERKLE_ROOT_MISMATCH'
+  | 'SIGNATURE_INVALID'
+  | 'SIGNATURE_MISSING';
+
+export interface BlockIssue {
+  index: number;
+  kind: BlockIssueKind;
+  detail: string;
+  expected?: string | number;
+  actual?: string | number;
+}
+
+export interface ChainInspection {
+  valid: boolean;
+  blocksScanned: number;
+  firstBadIndex: number | null;
+  issues: BlockIssue[];
 }
 
 // ─── Constants ──────────────────────────────────────────────
 
 // Adjust difficulty for performance vs. security tradeoff
-// In production, increase to 3 or 4
-const MINING_DIFFICULTY = 2;
-const DIFFICULTY_PREFIX = '0'.repeat(MINING_DIFFICULTY);
+// In production, increase to 3 or 4 (set MINING_DIFFICULTY in .env).
+// Mining runs on a worker thread (see MiningQueue), so higher values
+// slow down block settlement but never block the API.
+const DEFAULT_MINING_DIFFICULTY = 2;
+
+export function getMiningDifficulty(): number {
+  const difficulty = Number(process.env.MINING_DIFFICULTY);
+  return Number.isInteger(difficulty) && difficulty > 0 ? difficulty : DEFAULT_MINING_DIFFICULTY;
+}
+
+// ─── Hashing & Proof-of-Work ────────────────────────────────
+
+/**
+ * Computes SHA-256 hash of a block's contents, serialized the way
+ * its version prescribes (see BlockFormat). Any change to input will
+ * produce a completely different hash.
+ */
+export function computeBlockHash(header: BlockHeader): string {
+  return hashBlockHeader(header);
+}
+
+/**
+ * Proof-of-Work: finds a nonce that produces a hash starting with
+ * `difficulty` zeros. This makes retroactive tampering computationally
+ * expensive. CPU-bound — call it from a worker thread in the server.
+ */
+export function mineCandidate(candidate: BlockCandidate, difficulty: number): { hash: string; nonce: number } {
+  const prefix = '0'.repeat(difficulty);
+  let nonce = 0;
+  let hash = '';
+
+  while (!hash.startsWith(prefix)) {
+    nonce++;
+    hash = computeBlockHash({ ...candidate, nonce });
+  }
+
+  return { hash, nonce };
+}
 
 // ─── Blockchain Class ───────────────────────────────────────
 
 export class Blockchain {
   private chain: Block[];
+  private merkleFrontier: MerkleFrontier;
+  private store: BlockStore | null = null;
+  private signer: BlockSigner | null = null;
+  private blockListeners: ((block: Block) => void)[] = [];
 
   constructor() {
     this.chain = [this.createGenesisBlock()];
+    this.merkleFrontier = this.buildFrontier(this.chain);
   }
 
   /**
    * Genesis block — the origin block with no previous hash.
-   * This is always the first block and never changes.
+   * This is always the first block and never changes, so it stays on
+   * the legacy format whatever CURRENT_BLOCK_VERSION is.
    */
   private createGenesisBlock(): Block {
     const genesisData: BlockData = {
@@ -92,73 +230,121 @@ export class Blockchain {
       status: 'RESOLVED',
     };
 
-    return {
+    const header: BlockHeader = {
+      version: LEGACY_BLOCK_VERSION,
       index: 0,
       timestamp: new Date('2024-01-01').getTime(),
       data: genesisData,
       previousHash: '0000000000000000',
-      hash: this.computeHash(0, new Date('2024-01-01').getTime(), genesisData, '0000000000000000', 0),
       nonce: 0,
     };
+    return { ...header, hash: this.computeHash(header) };
   }
 
   /**
-   * Computes SHA-256 hash of a block's contents.
-   * Any change to input will produce a completely different hash.
+   * Computes SHA-256 hash of a block's contents (see computeBlockHash).
    */
-  computeHash(
-    index: number,
-    timestamp: number,
-    data: BlockData,
-    previousHash: string,
-    nonce: number
-  ): string {
-    const content = JSON.stringify({ index, timestamp, data, previousHash, nonce });
-    return CryptoJS.SHA256(content).toString(CryptoJS.enc.Hex);
+  computeHash(header: BlockHeader): string {
+    return computeBlockHash(header);
   }
 
   /**
-   * Proof-of-Work: Mines a block by finding a nonce that produces
-   * a hash starting with DIFFICULTY_PREFIX zeros.
-   * This makes retroactive tampering computationally expensive.
+   * Enables block signing. Must be set before attachStore() so the
+   * stored chain's signatures are checked when it is loaded.
    */
-  private mineBlock(index: number, timestamp: number, data: BlockData, previousHash: string): { hash: string; nonce: number } {
-    let nonce = 0;
-    let hash = '';
+  setSigner(signer: BlockSigner): void {
+    this.signer = signer;
+  }
 
-    while (!hash.startsWith(DIFFICULTY_PREFIX)) {
-      nonce++;
-      hash = this.computeHash(index, timestamp, data, previousHash, nonce);
+  /**
+   * Connects the chain to persistent storage.
+   * An empty store is seeded with the in-memory chain; otherwise the
+   * stored chain is validated and loaded. Returns false (and leaves the
+   * store detached and untouched) if the stored chain is invalid.
+   */
+  attachStore(store: BlockStore): boolean {
+    if (store.count() === 0) {
+      this.chain.forEach(b => store.append(b));
+    } else if (!this.loadChain(store.iterate())) {
+      return false;
     }
 
-    return { hash, nonce };
+    this.store = store;
+    return true;
+  }
+
+  private buildFrontier(chain: Block[]): MerkleFrontier {
+    const frontier = new MerkleFrontier();
+    chain.forEach(b => frontier.append(b.hash));
+    return frontier;
   }
 
   /**
-   * Adds a new verified report to the blockchain.
-   * Returns the newly created block.
+   * Lays out the next block on top of the current head.
    */
-  addBlock(data: BlockData): Block {
+  prepareBlock(data: BlockPayload): BlockCandidate {
     const previousBlock = this.getLatestBlock();
-    const index = previousBlock.index + 1;
-    const timestamp = Date.now();
-    const previousHash = previousBlock.hash;
+    return {
+      version: CURRENT_BLOCK_VERSION,
+      index: previousBlock.index + 1,
+      timestamp: Date.now(),
+      data,
+      previousHash: previousBlock.hash,
+      merkleRoot: this.merkleFrontier.getRoot(),
+    };
+  }
+
+  /**
+   * Appends a mined candidate. Returns null (and appends nothing) if
+   * another block was appended since the candidate was prepared.
+   * Throws if the nonce does not reproduce the claimed hash.
+   * The block is persisted before it becomes visible in memory,
+   * so a failed write never leaves the two out of step.
+   */
+  commitBlock(candidate: BlockCandidate, mined: { hash: string; nonce: number }): Block | null {
+    const head = this.getLatestBlock();
+    if (candidate.previousHash !== head.hash || candidate.index !== head.index + 1) {
+      return null;
+    }
 
-    const { hash, nonce } = this.mineBlock(index, timestamp, data, previousHash);
+    const { version, index, timestamp, data, previousHash, merkleRoot } = candidate;
+    if (this.computeHash({ ...candidate, nonce: mined.nonce }) !== mined.hash) {
+      throw new Error(`[Blockchain] Mined hash for block ${index} does not match its contents`);
+    }
 
     const newBlock: Block = {
+      version,
       index,
       timestamp,
       data,
       previousHash,
-      hash,
-      nonce,
+      hash: mined.hash,
+      nonce: mined.nonce,
+      merkleRoot,
     };
 
+    if (this.signer) {
+      newBlock.signature = this.signer.sign(mined.hash);
+    }
+
+    this.store?.append(newBlock);
     this.chain.push(newBlock);
+    this.merkleFrontier.append(mined.hash);
+    this.notifyBlockAdded(newBlock);
     return newBlock;
   }
 
+  /**
+   * Adds a new verified report (or status event) to the blockchain,
+   * mining on the calling thread. The server goes through MiningQueue
+   * instead; this is for scripts and tools.
+   * Returns the newly created block.
+   */
+  addBlock(data: BlockPayload): Block {
+    const candidate = this.prepareBlock(data);
+    return this.commitBlock(candidate, mineCandidate(candidate, getMiningDifficulty()))!;
+  }
+
   /**
    * Returns the most recently added block.
    */
@@ -176,45 +362,263 @@ export class Blockchain {
   /**
    * Verifies chain integrity — detects any tampering or deletion.
    * Returns true if the chain is valid, false if corrupted.
-   *
-   * Checks:
-   * 1. Each block's hash matches its recomputed hash
-   * 2. Each block's previousHash matches the actual previous block hash
+   * When a store is attached, the persisted rows are verified
+   * rather than the in-memory copy.
    */
   isChainValid(): boolean {
-    for (let i = 1; i < this.chain.length; i++) {
-      const current = this.chain[i];
-      const previous = this.chain[i - 1];
-
-      // Verify this block's hash is correct
-      const recomputedHash = this.computeHash(
-        current.index,
-        current.timestamp,
-        current.data,
-        current.previousHash,
-        current.nonce
-      );
+    return this.validateBlocks(this.store ? this.store.iterate() : this.chain);
+  }
 
-      if (current.hash !== recomputedHash) {
-        console.error(`[Blockchain] Block ${i} hash mismatch! TAMPERING DETECTED.`);
-        return false;
+  /**
+   * Streams through blocks in order, holding only the previous block
+   * and the Merkle frontier in memory.
+   */
+  private validateBlocks(blocks: Iterable<Block>, onBlock?: (block: Block) => void): boolean {
+    const frontier = new MerkleFrontier();
+    let previous: Block | null = null;
+
+    for (const current of blocks) {
+      onBlock?.(current);
+
+      if (previous === null) {
+        // Genesis block must be exactly the one this node would create
+        if (current.hash !== this.createGenesisBlock().hash) {
+          console.error('[Blockchain] Genesis block mismatch! TAMPERING DETECTED.');
+          return false;
+        }
+        frontier.append(current.hash);
+        previous = current;
+        continue;
       }
 
-      // Verify chain linkage
-      if (current.previousHash !== previous.hash) {
-        console.error(`[Blockchain] Block ${i} chain link broken! TAMPERING DETECTED.`);
+      const problem = this.checkBlock(current, previous, frontier);
+      if (problem) {
+        console.error(`[Blockchain] Block ${current.index} ${problem}! TAMPERING DETECTED.`);
         return false;
       }
+
+      frontier.append(current.hash);
+      previous = current;
+    }
+
+    return previous !== null;
+  }
+
+  /**
+   * Checks one block against the block before it and the Merkle
+   * frontier over every earlier block. Returns the first problem
+   * that invalidates the chain, or null if the block is valid.
+   */
+  private checkBlock(current: Block, previous: Block, frontier: MerkleFrontier): string | null {
+    const issue = this.inspectBlock(current, previous, frontier).find(i => i.kind !== 'REORDERED_TIMESTAMP');
+    return issue ? issue.detail : null;
+  }
+
+  /**
+   * Lists every problem with one block, not just the first.
+   *
+   * Checks:
+   * 1. The block's hash matches its hash recomputed under its own
+   *    format version (a version this node does not know is an issue)
+   * 2. Its index directly follows the previous block's index
+   * 3. Its previousHash matches the actual previous block hash
+   * 4. Its timestamp is not earlier than the previous block's
+   * 5. Its merkleRoot (if present) matches the root over earlier blocks
+   * 6. Its signature (required once signing was enabled) is valid
+   *
+   * A reordered timestamp alone does not invalidate the chain (clocks
+   * can step backwards), but it is reported for forensics.
+   */
+  private inspectBlock(current: Block, previous: Block, frontier: MerkleFrontier): BlockIssue[] {
+    const issues: BlockIssue[] = [];
+    const issue = (kind: BlockIssueKind, detail: string, expected?: string | number, actual?: string | number) =>
+      issues.push({ index: current.index, kind, detail, expected, actual });
+
+    const version = getBlockVersion(current);
+    if (!isSupportedBlockVersion(version)) {
+      issue('UNSUPPORTED_VERSION', `has unsupported format version ${version}`, CURRENT_BLOCK_VERSION, version);
+    } else {
+      const recomputedHash = this.computeHash(current);
+      if (current.hash !== recomputedHash) {
+        issue('HASH_MISMATCH', 'hash mismatch', recomputedHash, current.hash);
+      }
+    }
+
+    if (current.index > previous.index + 1) {
+      const missing = current.index - previous.index === 2
+        ? `block ${previous.index + 1}`
+        : `blocks ${previous.index + 1}-${current.index - 1}`;
+      issue('MISSING_INDEX', `chain link broken (${missing} missing)`, previous.index + 1, current.index);
+    } else if (current.index !== previous.index + 1) {
+      issue('BROKEN_LINK', `chain link broken (index follows ${previous.index})`, previous.index + 1, current.index);
+    } else if (current.previousHash !== previous.hash) {
+      issue('BROKEN_LINK', 'chain link broken', previous.hash, current.previousHash);
+    }
+
+    if (current.timestamp < previous.timestamp) {
+      issue('REORDERED_TIMESTAMP', `timestamp earlier than block ${previous.index}`, previous.timestamp, current.timestamp);
+    }
+
+    if (current.merkleRoot !== undefined && current.merkleRoot !== frontier.getRoot()) {
+      issue('MERKLE_ROOT_MISMATCH', 'Merkle root mismatch', frontier.getRoot(), current.merkleRoot);
     }
 
+    if (this.signer) {
+      if (current.signature) {
+        if (!this.signer.verify(current.hash, current.signature)) {
+          issue('SIGNATURE_INVALID', 'signature invalid', undefined, current.signature.keyId);
+        }
+      } else if (this.signer.requiresSignature(current.index)) {
+        issue('SIGNATURE_MISSING', 'is missing its signature');
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Full forensic scan: unlike isChainValid(), it keeps going past the
+   * first broken block and returns every issue found. Scans the stored
+   * rows when a store is attached (that is what an attacker would edit).
+   */
+  inspectChain(
+    blocks: Iterable<Block> = this.store ? this.store.iterate() : this.chain,
+    onBlock?: (block: Block) => void
+  ): ChainInspection {
+    const frontier = new MerkleFrontier();
+    const issues: BlockIssue[] = [];
+    let previous: Block | null = null;
+    let blocksScanned = 0;
+
+    for (const current of blocks) {
+      onBlock?.(current);
+      blocksScanned++;
+
+      if (previous === null) {
+        const genesisHash = this.createGenesisBlock().hash;
+        if (current.index !== 0 || current.hash !== genesisHash) {
+          issues.push({
+            index: current.index,
+            kind: 'GENESIS_MISMATCH',
+            detail: 'genesis block mismatch',
+            expected: genesisHash,
+            actual: current.hash,
+          });
+        }
+      } else {
+        issues.push(...this.inspectBlock(current, previous, frontier));
+      }
+
+      // Later blocks are checked against what is actually stored
+      frontier.append(current.hash);
+      previous = current;
+    }
+
+    const firstBreak = issues.find(i => i.kind !== 'REORDERED_TIMESTAMP');
+    return {
+      valid: blocksScanned > 0 && !firstBreak,
+      blocksScanned,
+      firstBadIndex: firstBreak ? firstBreak.index : null,
+      issues,
+    };
+  }
+
+  /**
+   * Appends a block that was mined elsewhere — used for replicas of
+   * peer chains. The block must extend the current head and pass the
+   * same checks as a stored block. Returns false (appending nothing)
+   * otherwise.
+   */
+  appendExternalBlock(block: Block): boolean {
+    const problem = this.checkBlock(block, this.getLatestBlock(), this.merkleFrontier);
+    if (problem) {
+      console.error(`[Blockchain] Rejected external block ${block.index}: ${problem}`);
+      return false;
+    }
+
+    this.store?.append(block);
+    this.chain.push(block);
+    this.merkleFrontier.append(block.hash);
+    this.notifyBlockAdded(block);
     return true;
   }
 
   /**
-   * Finds a block by its report ID.
+   * Registers a listener called after every block appended to this
+   * chain (used to gossip new blocks to peers).
+   */
+  onBlockAdded(listener: (block: Block) => void): void {
+    this.blockListeners.push(listener);
+  }
+
+  private notifyBlockAdded(block: Block): void {
+    for (const listener of this.blockListeners) {
+      try {
+        listener(block);
+      } catch (error) {
+        console.error('[Blockchain] Block listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Finds the block that originally recorded a report.
    */
   findBlockByReportId(reportId: string): Block | null {
-    return this.chain.find(b => b.data.reportId === reportId) || null;
+    return this.chain.find(b => !isStatusEvent(b.data) && b.data.reportId === reportId) || null;
+  }
+
+  /**
+   * Finds a block by its hash.
+   */
+  findBlockByHash(hash: string): Block | null {
+    return this.chain.find(b => b.hash === hash) || null;
+  }
+
+  /**
+   * Returns every status event block for a report, oldest first.
+   */
+  getStatusEvents(reportId: string): Block[] {
+    return this.chain.filter(b => isStatusEvent(b.data) && b.data.reportId === reportId);
+  }
+
+  /**
+   * Current Merkle root over every block hash in the chain.
+   * This is the value to publish so citizens can check proofs offline.
+   */
+  getMerkleRoot(): string {
+    return this.merkleFrontier.getRoot();
+  }
+
+  /**
+   * Merkle roots the chain had at each of the given sizes, computed in
+   * a single pass. Sizes beyond the current length are omitted.
+   * Used to compare the chain against historical checkpoints.
+   */
+  getMerkleRootsAt(treeSizes: number[]): Map<number, string> {
+    const wanted = new Set(treeSizes);
+    const roots = new Map<number, string>();
+    const frontier = new MerkleFrontier();
+
+    for (const block of this.chain) {
+      frontier.append(block.hash);
+      if (wanted.has(frontier.getSize())) {
+        roots.set(frontier.getSize(), frontier.getRoot());
+      }
+    }
+    return roots;
+  }
+
+  /**
+   * Builds an inclusion proof for a block against the current Merkle root.
+   */
+  getInclusionProof(index: number): MerkleProof {
+    const block = this.chain[index];
+    if (!block) {
+      throw new RangeError(`[Blockchain] No block at index ${index}`);
+    }
+    const tree = new MerkleTree(this.chain.map(b => b.hash));
+    return tree.getProof(index, block.hash);
   }
 
   /**
@@ -226,18 +630,18 @@ export class Blockchain {
 
   /**
    * Loads a serialized chain (e.g., from database persistence).
-   * Validates before loading to prevent loading a tampered chain.
+   * Validates while reading to prevent loading a tampered chain.
    */
-  loadChain(chain: Block[]): boolean {
-    const tempChain = this.chain;
-    this.chain = chain;
+  loadChain(chain: Iterable<Block>): boolean {
+    const loaded: Block[] = [];
 
-    if (!this.isChainValid()) {
+    if (!this.validateBlocks(chain, b => loaded.push(b))) {
       console.error('[Blockchain] Loaded chain is invalid! Reverting.');
-      this.chain = tempChain;
       return false;
     }
 
+    this.chain = loaded;
+    this.merkleFrontier = this.buildFrontier(this.chain);
     return true;
   }
 
@@ -250,5 +654,11 @@ export class Blockchain {
   }
 }
 
+// ─── Helpers ────────────────────────────────────────────────
+
+export function isStatusEvent(data: BlockPayload): data is StatusEventData {
+  return 'type' in data && data.type === 'STATUS_EVENT';
+}
+
 // Export a singleton instance
 export const blockchain = new Blockchain();
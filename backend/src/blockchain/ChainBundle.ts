@@ -0,0 +1,182 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Chain Bundle — Signed Ledger Export for Courts & Auditors
+ * ============================================================
+ *
+ * PURPOSE:
+ * Hands the whole ledger to someone outside the system (a court,
+ * an auditor, an RTI applicant) in a form they can check on their
+ * own machine: no database, no network, no trust in this server
+ * beyond the public keys it publishes.
+ *
+ * FORMAT (one JSON document, *.chain.json):
+ *   manifest → Signed receipt over { nodeId, exportedAt, length,
+ *              headHash, merkleRoot, signedFromIndex, keysDigest }
+ *   keys     → Ed25519 public keys that signed the blocks
+ *   blocks   → Every block, exactly as stored (genesis first)
+ *
+ * VERIFICATION (verifyChainBundle):
+ *   1. Each key ID is the fingerprint of its public key
+ *   2. keysDigest covers the key list; the manifest is signed by one of them
+ *   3. Every block passes the same checks as a stored chain
+ *      (Blockchain.inspectChain → computeHash per block version)
+ *   4. length, headHash and merkleRoot match the blocks
+ *
+ * Blocks are exported whole — hashes only verify over the original
+ * data — so a bundle includes named citizens' IDs and addresses.
+ * Share it like the database it came from.
+ *
+ * This module must not import the database or network code: the
+ * offline verifier (cli/verifyChainBundle.ts) is built on it.
+ */
+
+import crypto from 'crypto';
+import { Blockchain, Block, ChainInspection } from './BlockchainService.js';
+import { MerkleFrontier } from './MerkleTree.js';
+import { canonicalJson } from './BlockFormat.js';
+import { PeerKeySet } from './replication/PeerKeySet.js';
+import type { KeyRing, PublicKeyInfo, SignedReceipt } from './KeyRing.js';
+
+export const BUNDLE_FORMAT = 'JAAGRUK_CHAIN_BUNDLE';
+export const BUNDLE_FORMAT_VERSION = 1;
+
+// ─── Types ─────────────────────────────────────────────────
+
+export interface ChainBundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  nodeId: string;
+  exportedAt: string;
+  length: number;
+  headHash: string;
+  merkleRoot: string;                 // Over every block hash (see MerkleTree)
+  signedFromIndex: number | null;     // First block that must carry a signature
+  keysDigest: string;                 // SHA-256 of the canonical key list
+}
+
+export interface ChainBundle {
+  manifest: SignedReceipt<ChainBundleManifest>;
+  keys: PublicKeyInfo[];
+  blocks: Block[];
+}
+
+export interface BundleVerification {
+  valid: boolean;
+  manifest: ChainBundleManifest | null;
+  signedBy: string | null;            // Key that signed the manifest, if it verified
+  problems: string[];                 // Bundle-level problems (manifest, keys)
+  inspection: ChainInspection;        // Block-level issues
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/**
+ * Key ID as KeyRing derives it: first 16 hex chars of SHA-256(SPKI).
+ */
+export function keyFingerprint(publicKeyPem: string): string {
+  const spki = crypto.createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(spki).digest('hex').slice(0, 16);
+}
+
+function digestKeys(keys: PublicKeyInfo[]): string {
+  const listed = keys.map(k => ({ keyId: k.keyId, algorithm: k.algorithm, publicKeyPem: k.publicKeyPem }));
+  return crypto.createHash('sha256').update(canonicalJson(listed), 'utf8').digest('hex');
+}
+
+function merkleRootOf(blocks: Block[]): string {
+  const frontier = new MerkleFrontier();
+  blocks.forEach(b => frontier.append(b.hash));
+  return frontier.getRoot();
+}
+
+// ─── Export ─────────────────────────────────────────────────
+
+/**
+ * Packs a chain into a bundle whose manifest is signed with the
+ * key ring's active key.
+ */
+export function exportChainBundle(chain: Blockchain, keyRing: KeyRing, nodeId: string): ChainBundle {
+  const blocks = chain.getChain();
+  const keys = keyRing.getPublicKeys();
+
+  const manifest: ChainBundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    nodeId,
+    exportedAt: new Date().toISOString(),
+    length: blocks.length,
+    headHash: chain.getLatestBlock().hash,
+    merkleRoot: chain.getMerkleRoot(),
+    signedFromIndex: keyRing.getSignedFromIndex(),
+    keysDigest: digestKeys(keys),
+  };
+
+  return { manifest: keyRing.signReceipt(manifest), keys, blocks: [...blocks] };
+}
+
+// ─── Verification ───────────────────────────────────────────
+
+/**
+ * Checks a bundle end to end. Never throws on a malformed bundle —
+ * everything wrong with it is reported in `problems`.
+ */
+export function verifyChainBundle(bundle: ChainBundle): BundleVerification {
+  const manifest = bundle.manifest?.payload ?? null;
+  const keys = Array.isArray(bundle.keys) ? bundle.keys : [];
+  const blocks = Array.isArray(bundle.blocks) ? bundle.blocks : [];
+  const problems: string[] = [];
+
+  if (!manifest || manifest.format !== BUNDLE_FORMAT) {
+    problems.push('Not a JAAGRUK chain bundle');
+  } else if (manifest.formatVersion !== BUNDLE_FORMAT_VERSION) {
+    problems.push(`Unsupported bundle format version ${manifest.formatVersion}`);
+  }
+
+  const validKeys = keys.filter(key => {
+    try {
+      if (keyFingerprint(key.publicKeyPem) === key.keyId) return true;
+      problems.push(`Key ${key.keyId} does not match its public key`);
+    } catch {
+      problems.push(`Key ${key.keyId} is not a valid public key`);
+    }
+    return false;
+  });
+
+  const keySet = new PeerKeySet(validKeys, manifest?.signedFromIndex ?? null);
+  let signedBy: string | null = null;
+
+  if (manifest) {
+    if (manifest.keysDigest !== digestKeys(keys)) {
+      problems.push('Key list does not match the manifest');
+    }
+    if (keySet.verifyReceipt(bundle.manifest)) {
+      signedBy = bundle.manifest.keyId;
+    } else {
+      problems.push('Manifest signature is invalid or made with a key not in the bundle');
+    }
+
+    if (manifest.length !== blocks.length) {
+      problems.push(`Manifest lists ${manifest.length} blocks, bundle contains ${blocks.length}`);
+    }
+    if (blocks.length > 0 && manifest.headHash !== blocks[blocks.length - 1].hash) {
+      problems.push('Head hash does not match the last block');
+    }
+    if (manifest.merkleRoot !== merkleRootOf(blocks)) {
+      problems.push('Merkle root does not match the blocks');
+    }
+  }
+
+  // Same checks a node runs on its own stored chain
+  const verifier = new Blockchain();
+  verifier.setSigner(keySet);
+  const inspection = verifier.inspectChain(blocks);
+
+  return {
+    valid: problems.length === 0 && inspection.valid,
+    manifest,
+    signedBy,
+    problems,
+    inspection,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Evidence Set — Merkle Commitment over a Report's Files
+ * ============================================================
+ *
+ * PURPOSE:
+ * A report's block carries one Merkle root over all of its
+ * evidence files instead of a list of file hashes. Any single
+ * file can later be proven to belong to the report with a short
+ * sibling path, without revealing anything about the others.
+ *
+ * COMMITMENTS:
+ *   fileHash   = SHA-256(file bytes), computed when it is uploaded
+ *   commitment = SHA-256(salt || fileHash), salt = 16 random bytes
+ *   root       = MerkleTree(commitments).root   (see MerkleTree.ts)
+ *
+ * The salt is what hides the other files: a proof's siblings are
+ * commitments, and without their salts nobody can test a guessed
+ * file against them. Salts are kept in the evidence table and only
+ * handed out with the proof for their own file.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import CryptoJS from 'crypto-js';
+import { MerkleTree, MerkleProof } from './MerkleTree.js';
+
+const SALT_BYTES = 16;
+
+// ─── Types ─────────────────────────────────────────────────
+
+export interface EvidenceCommitment {
+  fileId: string;
+  fileHash: string;
+  salt: string;
+  leafIndex: number;
+  commitment: string;
+}
+
+// ─── Hashing ────────────────────────────────────────────────
+
+/**
+ * SHA-256 of a file's bytes, streamed from disk.
+ */
+export function hashFileBytes(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+export function commitEvidence(fileHash: string, salt: string): string {
+  return CryptoJS.SHA256(CryptoJS.enc.Hex.parse(salt + fileHash)).toString(CryptoJS.enc.Hex);
+}
+
+// ─── Evidence Set ───────────────────────────────────────────
+
+/**
+ * Salts and commits to a report's files, in the order given.
+ * Returns the root to put in BlockData.evidenceRoot.
+ */
+export function buildEvidenceSet(files: { fileId: string; fileHash: string }[]): {
+  root: string;
+  commitments: EvidenceCommitment[];
+} {
+  const commitments = files.map((file, leafIndex) => {
+    const salt = crypto.randomBytes(SALT_BYTES).toString('hex');
+    return { ...file, salt, leafIndex, commitment: commitEvidence(file.fileHash, salt) };
+  });
+
+  return { root: new MerkleTree(commitments.map(c => c.commitment)).getRoot(), commitments };
+}
+
+/**
+ * Inclusion proof for one file. `commitments` must be the report's
+ * full set in leaf order; the proof's leaf is that file's commitment.
+ */
+export function getEvidenceProof(commitments: string[], leafIndex: number): MerkleProof {
+  return new MerkleTree(commitments).getProof(leafIndex, commitments[leafIndex]);
+}
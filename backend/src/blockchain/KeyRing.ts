@@ -0,0 +1,285 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Key Ring — Ed25519 Block & Receipt Signing
+ * ============================================================
+ *
+ * PURPOSE:
+ * Hashing alone lets anyone with write access to the database
+ * rebuild and re-mine the whole chain. Signing every block with
+ * a server key kept on disk (outside the database) means a
+ * rewritten chain is detectable unless the key was stolen too.
+ *
+ * LAYOUT (SIGNING_KEYS_DIR, default backend/data/keys):
+ *   keyring.json          → Manifest: active key, key history
+ *   <keyId>.key.pem       → Ed25519 private key (PKCS#8)
+ *   <keyId>.pub.pem       → Ed25519 public key (SPKI)
+ *
+ * ROTATION:
+ * rotate() creates a new key and makes it active. Retired keys
+ * stay in the ring so blocks and receipts they signed still
+ * verify. Private keys of retired keys may be deleted safely.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_KEYS_DIR = path.join(__dirname, '../../data/keys');
+
+// ─── Types ─────────────────────────────────────────────────
+
+export interface BlockSignature {
+  keyId: string;
+  value: string;      // Base64 Ed25519 signature over the block hash bytes
+}
+
+export interface PublicKeyInfo {
+  keyId: string;
+  algorithm: 'Ed25519';
+  publicKeyPem: string;
+  createdAt: string;
+  retiredAt: string | null;
+  active: boolean;
+}
+
+export interface SignedReceipt<T> {
+  payload: T;
+  algorithm: 'Ed25519';
+  keyId: string;
+  signature: string;  // Base64 signature over JSON.stringify(payload)
+}
+
+interface KeyManifest {
+  activeKeyId: string;
+  // First block index that must carry a signature. Blocks before it
+  // were mined before signing was enabled on this ledger.
+  signedFromIndex: number | null;
+  keys: { keyId: string; createdAt: string; retiredAt: string | null }[];
+}
+
+/**
+ * Signs and verifies block hashes. Injected into the Blockchain so
+ * the chain itself stays free of key-management concerns.
+ */
+export interface BlockSigner {
+  sign(blockHash: string): BlockSignature;
+  verify(blockHash: string, signature: BlockSignature): boolean;
+  requiresSignature(blockIndex: number): boolean;
+}
+
+// ─── Key Ring ───────────────────────────────────────────────
+
+export class KeyRing implements BlockSigner {
+  private dirOverride: string | undefined;
+  private manifest: KeyManifest | null = null;
+  private activeKeyId: string | null = null;
+  private publicKeys = new Map<string, crypto.KeyObject>();
+  private activePrivateKey: crypto.KeyObject | null = null;
+
+  constructor(dir?: string) {
+    this.dirOverride = dir;
+  }
+
+  // Resolved lazily so .env values loaded after import still apply
+  private get dir(): string {
+    return this.dirOverride || process.env.SIGNING_KEYS_DIR || DEFAULT_KEYS_DIR;
+  }
+
+  /**
+   * Loads the ring from disk, creating a first key if none exists.
+   * SIGNING_KEY_ID overrides the manifest's active key.
+   */
+  load(): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    if (!fs.existsSync(this.manifestPath())) {
+      const keyId = this.generateKeyFiles();
+      this.manifest = {
+        activeKeyId: keyId,
+        signedFromIndex: null,
+        keys: [{ keyId, createdAt: new Date().toISOString(), retiredAt: null }],
+      };
+      this.saveManifest();
+      console.log(`[KeyRing] Generated first signing key ${keyId}`);
+    } else {
+      this.manifest = JSON.parse(fs.readFileSync(this.manifestPath(), 'utf8')) as KeyManifest;
+    }
+
+    this.publicKeys.clear();
+    for (const key of this.manifest.keys) {
+      this.publicKeys.set(key.keyId, crypto.createPublicKey(fs.readFileSync(this.publicKeyPath(key.keyId))));
+    }
+
+    const activeKeyId = process.env.SIGNING_KEY_ID || this.manifest.activeKeyId;
+    if (!this.publicKeys.has(activeKeyId)) {
+      throw new Error(`[KeyRing] Active signing key ${activeKeyId} is not in the key ring`);
+    }
+    this.activeKeyId = activeKeyId;
+    this.activePrivateKey = crypto.createPrivateKey(fs.readFileSync(this.privateKeyPath(activeKeyId)));
+  }
+
+  /**
+   * Creates a new key pair, makes it active and retires the old one.
+   * Returns the new key ID.
+   */
+  rotate(): string {
+    const manifest = this.requireManifest();
+    const keyId = this.generateKeyFiles();
+    const now = new Date().toISOString();
+
+    manifest.keys.forEach(k => {
+      if (k.keyId === manifest.activeKeyId && !k.retiredAt) k.retiredAt = now;
+    });
+    manifest.keys.push({ keyId, createdAt: now, retiredAt: null });
+    manifest.activeKeyId = keyId;
+    this.saveManifest();
+    this.load();
+
+    return keyId;
+  }
+
+  /**
+   * Records the first block index that must be signed. Only set once,
+   * the first time the ring is attached to a ledger.
+   */
+  ensureSignedFrom(blockIndex: number): void {
+    const manifest = this.requireManifest();
+    if (manifest.signedFromIndex === null) {
+      manifest.signedFromIndex = blockIndex;
+      this.saveManifest();
+    }
+  }
+
+  /**
+   * Adds another ledger's public keys as retired, verify-only keys.
+   * Used when this node is seeded from an exported chain bundle: that
+   * ledger's history becomes this node's, so its signedFromIndex is
+   * adopted too. Returns the IDs of keys that were new to the ring.
+   */
+  importPublicKeys(keys: PublicKeyInfo[], signedFromIndex: number | null): string[] {
+    const manifest = this.requireManifest();
+    const now = new Date().toISOString();
+    const imported: string[] = [];
+
+    for (const key of keys) {
+      if (manifest.keys.some(k => k.keyId === key.keyId)) continue;
+      fs.writeFileSync(this.publicKeyPath(key.keyId), key.publicKeyPem);
+      manifest.keys.push({ keyId: key.keyId, createdAt: key.createdAt, retiredAt: key.retiredAt ?? now });
+      imported.push(key.keyId);
+    }
+
+    manifest.signedFromIndex = signedFromIndex;
+    this.saveManifest();
+    this.load();
+    return imported;
+  }
+
+  getActiveKeyId(): string {
+    if (!this.activeKeyId) throw new Error('[KeyRing] Not loaded. Call load() first.');
+    return this.activeKeyId;
+  }
+
+  /**
+   * First block index that must carry a signature (null until the
+   * chain has been attached). Published so peers can verify replicas.
+   */
+  getSignedFromIndex(): number | null {
+    return this.requireManifest().signedFromIndex;
+  }
+
+  getPublicKeys(): PublicKeyInfo[] {
+    const manifest = this.requireManifest();
+    return manifest.keys.map(k => ({
+      keyId: k.keyId,
+      algorithm: 'Ed25519',
+      publicKeyPem: fs.readFileSync(this.publicKeyPath(k.keyId), 'utf8'),
+      createdAt: k.createdAt,
+      retiredAt: k.retiredAt,
+      active: k.keyId === this.activeKeyId,
+    }));
+  }
+
+  // ── BlockSigner ──
+
+  sign(blockHash: string): BlockSignature {
+    return { keyId: this.getActiveKeyId(), value: this.signBytes(Buffer.from(blockHash, 'hex')) };
+  }
+
+  verify(blockHash: string, signature: BlockSignature): boolean {
+    return this.verifyBytes(Buffer.from(blockHash, 'hex'), signature.keyId, signature.value);
+  }
+
+  requiresSignature(blockIndex: number): boolean {
+    const signedFrom = this.requireManifest().signedFromIndex;
+    return signedFrom !== null && blockIndex >= signedFrom;
+  }
+
+  // ── Receipts ──
+
+  signReceipt<T>(payload: T): SignedReceipt<T> {
+    return {
+      payload,
+      algorithm: 'Ed25519',
+      keyId: this.getActiveKeyId(),
+      signature: this.signBytes(Buffer.from(JSON.stringify(payload), 'utf8')),
+    };
+  }
+
+  verifyReceipt<T>(receipt: SignedReceipt<T>): boolean {
+    return this.verifyBytes(Buffer.from(JSON.stringify(receipt.payload), 'utf8'), receipt.keyId, receipt.signature);
+  }
+
+  // ── Internals ──
+
+  private signBytes(data: Buffer): string {
+    if (!this.activePrivateKey) throw new Error('[KeyRing] Not loaded. Call load() first.');
+    return crypto.sign(null, data, this.activePrivateKey).toString('base64');
+  }
+
+  private verifyBytes(data: Buffer, keyId: string, signature: string): boolean {
+    const publicKey = this.publicKeys.get(keyId);
+    if (!publicKey) return false;
+    try {
+      return crypto.verify(null, data, publicKey, Buffer.from(signature, 'base64'));
+    } catch {
+      return false;
+    }
+  }
+
+  private generateKeyFiles(): string {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    const spki = publicKey.export({ type: 'spki', format: 'der' });
+    const keyId = crypto.createHash('sha256').update(spki).digest('hex').slice(0, 16);
+
+    fs.writeFileSync(this.publicKeyPath(keyId), publicKey.export({ type: 'spki', format: 'pem' }));
+    fs.writeFileSync(this.privateKeyPath(keyId), privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+    return keyId;
+  }
+
+  private requireManifest(): KeyManifest {
+    if (!this.manifest) throw new Error('[KeyRing] Not loaded. Call load() first.');
+    return this.manifest;
+  }
+
+  private saveManifest(): void {
+    fs.writeFileSync(this.manifestPath(), JSON.stringify(this.manifest, null, 2));
+  }
+
+  private manifestPath(): string {
+    return path.join(this.dir, 'keyring.json');
+  }
+
+  private publicKeyPath(keyId: string): string {
+    return path.join(this.dir, `${keyId}.pub.pem`);
+  }
+
+  private privateKeyPath(keyId: string): string {
+    return path.join(this.dir, `${keyId}.key.pem`);
+  }
+}
+
+// Export a singleton instance
+export const keyRing = new KeyRing();
@@ -0,0 +1,153 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Merkle Tree — Inclusion Proofs for Ledger Entries
+ * ============================================================
+ *
+ * PURPOSE:
+ * Lets a citizen prove that their block is part of the ledger
+ * using only their block hash, a short list of sibling hashes
+ * and a published root — no trust in the server required.
+ *
+ * HASHING (domain separated, RFC 6962 style):
+ *   leaf = SHA-256(0x00 || leafBytes)
+ *   node = SHA-256(0x01 || leftBytes || rightBytes)
+ *
+ * An odd node at the end of a level is promoted unchanged to
+ * the next level (no duplication), so the tree shape is the
+ * same as folding the binary decomposition of the leaf count.
+ */
+
+import CryptoJS from 'crypto-js';
+
+// ─── Types ─────────────────────────────────────────────────
+
+export interface MerkleProofStep {
+  position: 'left' | 'right';   // Side of the sibling relative to the running hash
+  hash: string;
+}
+
+export interface MerkleProof {
+  leaf: string;         // Raw leaf value (e.g. a block hash), hex
+  leafIndex: number;
+  treeSize: number;
+  root: string;
+  path: MerkleProofStep[];
+}
+
+// ─── Hash Primitives ────────────────────────────────────────
+
+const LEAF_PREFIX = '00';
+const NODE_PREFIX = '01';
+
+export function hashLeaf(leafHex: string): string {
+  return CryptoJS.SHA256(CryptoJS.enc.Hex.parse(LEAF_PREFIX + leafHex)).toString(CryptoJS.enc.Hex);
+}
+
+export function hashNode(leftHex: string, rightHex: string): string {
+  return CryptoJS.SHA256(CryptoJS.enc.Hex.parse(NODE_PREFIX + leftHex + rightHex)).toString(CryptoJS.enc.Hex);
+}
+
+// ─── Merkle Tree ────────────────────────────────────────────
+
+export class MerkleTree {
+  private levels: string[][];
+
+  constructor(leaves: string[]) {
+    this.levels = [leaves.map(hashLeaf)];
+
+    while (this.levels[this.levels.length - 1].length > 1) {
+      const current = this.levels[this.levels.length - 1];
+      const next: string[] = [];
+      for (let i = 0; i < current.length; i += 2) {
+        next.push(i + 1 < current.length ? hashNode(current[i], current[i + 1]) : current[i]);
+      }
+      this.levels.push(next);
+    }
+  }
+
+  /**
+   * Root of the tree, or an empty string for an empty tree.
+   */
+  getRoot(): string {
+    return this.levels[this.levels.length - 1][0] || '';
+  }
+
+  getSize(): number {
+    return this.levels[0].length;
+  }
+
+  /**
+   * Builds the sibling path from a leaf up to the root.
+   */
+  getProof(leafIndex: number, leaf: string): MerkleProof {
+    if (leafIndex < 0 || leafIndex >= this.getSize()) {
+      throw new RangeError(`[Merkle] Leaf index ${leafIndex} out of range`);
+    }
+
+    const path: MerkleProofStep[] = [];
+    let idx = leafIndex;
+
+    for (let level = 0; level < this.levels.length - 1; level++) {
+      const nodes = this.levels[level];
+      const isRight = idx % 2 === 1;
+      const siblingIdx = isRight ? idx - 1 : idx + 1;
+
+      // Promoted odd node — no sibling at this level
+      if (siblingIdx < nodes.length) {
+        path.push({ position: isRight ? 'left' : 'right', hash: nodes[siblingIdx] });
+      }
+      idx = Math.floor(idx / 2);
+    }
+
+    return { leaf, leafIndex, treeSize: this.getSize(), root: this.getRoot(), path };
+  }
+
+  /**
+   * Verifies an inclusion proof. Needs nothing but the proof itself
+   * and the root the verifier trusts.
+   */
+  static verifyProof(proof: Pick<MerkleProof, 'leaf' | 'path'>, root: string): boolean {
+    let running = hashLeaf(proof.leaf);
+    for (const step of proof.path) {
+      running = step.position === 'left' ? hashNode(step.hash, running) : hashNode(running, step.hash);
+    }
+    return running === root;
+  }
+}
+
+// ─── Merkle Frontier ────────────────────────────────────────
+
+/**
+ * Append-only root accumulator. Keeps one perfect subtree root per
+ * set bit of the leaf count, so appending and reading the root are
+ * O(log n) instead of rebuilding the whole tree on every block.
+ * Produces the same root as MerkleTree over the same leaves.
+ */
+export class MerkleFrontier {
+  private subtrees: { size: number; hash: string }[] = [];
+  private size = 0;
+
+  append(leaf: string): void {
+    let node = { size: 1, hash: hashLeaf(leaf) };
+    while (this.subtrees.length > 0 && this.subtrees[this.subtrees.length - 1].size === node.size) {
+      const left = this.subtrees.pop()!;
+      node = { size: left.size * 2, hash: hashNode(left.hash, node.hash) };
+    }
+    this.subtrees.push(node);
+    this.size++;
+  }
+
+  getRoot(): string {
+    if (this.subtrees.length === 0) return '';
+    let root = this.subtrees[this.subtrees.length - 1].hash;
+    for (let i = this.subtrees.length - 2; i >= 0; i--) {
+      root = hashNode(this.subtrees[i].hash, root);
+    }
+    return root;
+  }
+
+  getSize(): number {
+    return this.size;
+  }
+}
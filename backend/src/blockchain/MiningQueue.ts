@@ -0,0 +1,269 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Mining Queue — Serialized Block Appends
+ * ============================================================
+ *
+ * PURPOSE:
+ * Proof-of-work is a CPU-bound loop. Running it inside a request
+ * handler stalls every other request for as long as mining takes.
+ * The queue hands mining to a worker thread and appends blocks
+ * strictly one at a time, in the order they were queued.
+ *
+ * FLOW:
+ * 1. enqueue() records a mining job in SQLite and returns its id
+ * 2. The queue lays the block out on the current head
+ * 3. A worker thread finds the nonce (see miningWorker.ts)
+ * 4. The block is signed, appended, and the job settled
+ *
+ * Report jobs still QUEUED or MINING when the server stops are picked
+ * up again by resume() on the next start. A status change is only
+ * recorded by the request that made it, so its unmined job fails
+ * instead: mined after a restart, the chain would move on without
+ * reports.status and status_history.
+ */
+
+import { Worker } from 'worker_threads';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  blockchain,
+  Blockchain,
+  Block,
+  BlockCandidate,
+  BlockPayload,
+  getMiningDifficulty,
+  isStatusEvent,
+} from './BlockchainService.js';
+import type { MiningTask, MiningResult } from './miningWorker.js';
+import {
+  insertMiningJob,
+  markMiningJob,
+  settleMiningJob,
+  settleRecoveredStatusEvent,
+  getUnsettledMiningJobs,
+  MiningJobRecord,
+} from '../services/DatabaseService.js';
+
+const __filename = fileURLToPath(import.meta.url);
+
+// Same extension as this module: .ts when run through tsx, .js from dist/
+const MODULE_EXT = path.extname(__filename);
+const WORKER_PATH = path.join(path.dirname(__filename), `miningWorker${MODULE_EXT}`);
+
+/**
+ * Worker threads do not inherit tsx's loader hooks, so under tsx the
+ * worker registers them itself before importing the .ts entry point.
+ */
+function spawnWorker(): Worker {
+  if (MODULE_EXT !== '.ts') return new Worker(WORKER_PATH);
+
+  const entry = JSON.stringify(pathToFileURL(WORKER_PATH).href);
+  return new Worker(
+    `import('tsx/esm/api').then(({ register }) => { register(); return import(${entry}); })`,
+    { eval: true }
+  );
+}
+
+// ─── Types ─────────────────────────────────────────────────
+
+interface QueuedJob {
+  id: string;
+  kind: MiningJobRecord['kind'];
+  reportId: string;
+  data: BlockPayload;
+  waiter?: { resolve: (block: Block) => void; reject: (error: unknown) => void };
+}
+
+// ─── Mining Queue Class ─────────────────────────────────────
+
+export class MiningQueue {
+  private queue: QueuedJob[] = [];
+  private draining = false;
+  private worker: Worker | null = null;
+  private nextTaskId = 1;
+  private inFlight: { taskId: number; resolve: (r: MiningResult) => void; reject: (e: unknown) => void } | null = null;
+
+  constructor(private chain: Blockchain) {}
+
+  /**
+   * Queues a payload for mining and returns the job id immediately.
+   * The job's progress is tracked in the mining_jobs table.
+   */
+  enqueue(data: BlockPayload): string {
+    return this.push(this.createJob(data));
+  }
+
+  /**
+   * Queues a payload and resolves once its block is on the chain.
+   */
+  submit(data: BlockPayload): Promise<Block> {
+    return new Promise((resolve, reject) => {
+      this.push({ ...this.createJob(data), waiter: { resolve, reject } });
+    });
+  }
+
+  /**
+   * Number of jobs ahead of this one (0 = being mined now),
+   * or null if the job is not in the queue.
+   */
+  getPosition(jobId: string): number | null {
+    const position = this.queue.findIndex(j => j.id === jobId);
+    return position === -1 ? null : position;
+  }
+
+  getLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Re-queues report jobs left unsettled by a previous run and fails
+   * status event jobs. A job whose block made it onto the chain before
+   * the stop is settled without mining (a status event together with
+   * the report row it changes). Returns the number of jobs recovered.
+   */
+  resume(): number {
+    const records = getUnsettledMiningJobs();
+
+    for (const record of records) {
+      const existing = this.chain.getChain().find(b => JSON.stringify(b.data) === record.payload_json);
+      if (existing) {
+        if (record.kind === 'STATUS_EVENT') settleRecoveredStatusEvent(record, existing);
+        else settleMiningJob(record, existing);
+        continue;
+      }
+      if (record.kind === 'STATUS_EVENT') {
+        console.warn(`[MiningQueue] Status change job ${record.id} was not mined before the stop; failing it`);
+        markMiningJob(record.id, 'FAILED', 'Server stopped before the status change was mined');
+        continue;
+      }
+
+      this.queue.push({
+        id: record.id,
+        kind: record.kind,
+        reportId: record.report_id,
+        data: JSON.parse(record.payload_json),
+      });
+    }
+
+    this.drain();
+    return records.length;
+  }
+
+  /**
+   * Stops the worker thread. Queued jobs stay in SQLite for resume().
+   */
+  async stop(): Promise<void> {
+    await this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private createJob(data: BlockPayload): QueuedJob {
+    const job: QueuedJob = {
+      id: uuidv4(),
+      kind: isStatusEvent(data) ? 'STATUS_EVENT' : 'REPORT',
+      reportId: data.reportId,
+      data,
+    };
+
+    insertMiningJob({
+      id: job.id,
+      kind: job.kind,
+      report_id: job.reportId,
+      payload_json: JSON.stringify(data),
+    });
+    return job;
+  }
+
+  private push(job: QueuedJob): string {
+    this.queue.push(job);
+    this.drain();
+    return job.id;
+  }
+
+  /**
+   * Works through the queue one job at a time. Only one drain loop
+   * runs at once, which is what keeps appends serialized.
+   */
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    while (this.queue.length > 0) {
+      const job = this.queue[0];
+      let block: Block;
+      try {
+        markMiningJob(job.id, 'MINING');
+        block = await this.mineAndCommit(job.data);
+      } catch (error) {
+        console.error(`[MiningQueue] Job ${job.id} failed:`, error);
+        markMiningJob(job.id, 'FAILED', String(error));
+        job.waiter?.reject(error);
+        this.queue.shift();
+        continue;
+      }
+
+      // The block is on the chain whatever happens here. A job that
+      // cannot be settled now stays MINING for resume() to settle.
+      try {
+        settleMiningJob({ id: job.id, kind: job.kind, report_id: job.reportId }, block);
+      } catch (error) {
+        console.error(`[MiningQueue] Job ${job.id} mined block #${block.index} but could not be settled:`, error);
+      }
+      job.waiter?.resolve(block);
+      this.queue.shift();
+    }
+
+    this.draining = false;
+  }
+
+  private async mineAndCommit(data: BlockPayload): Promise<Block> {
+    for (;;) {
+      const candidate = this.chain.prepareBlock(data);
+      const mined = await this.mine(candidate);
+      const block = this.chain.commitBlock(candidate, mined);
+      if (block) return block;
+
+      // A block was appended outside the queue while mining — re-mine on the new head
+      console.warn(`[MiningQueue] Head moved while mining block ${candidate.index}, retrying`);
+    }
+  }
+
+  private mine(candidate: BlockCandidate): Promise<MiningResult> {
+    return new Promise((resolve, reject) => {
+      const taskId = this.nextTaskId++;
+      this.inFlight = { taskId, resolve, reject };
+      this.getWorker().postMessage({ taskId, candidate, difficulty: getMiningDifficulty() } satisfies MiningTask);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = spawnWorker();
+    worker.unref();
+
+    worker.on('message', (result: MiningResult) => {
+      if (this.inFlight?.taskId === result.taskId) {
+        this.inFlight.resolve(result);
+        this.inFlight = null;
+      }
+    });
+
+    // A crashed worker fails the current task; the next task starts a fresh one
+    const fail = (error: unknown) => {
+      if (this.worker === worker) this.worker = null;
+      this.inFlight?.reject(error);
+      this.inFlight = null;
+    };
+    worker.on('error', fail);
+    worker.on('exit', code => fail(new Error(`[MiningQueue] Mining worker exited with code ${code}`)));
+
+    this.worker = worker;
+    return worker;
+  }
+}
+
+// Export a singleton instance
+export const miningQueue = new MiningQueue(blockchain);
@@ -0,0 +1,224 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Report Reconciliation — SQLite Rows vs. the Ledger
+ * ============================================================
+ *
+ * PURPOSE:
+ * The reports table duplicates fields that are fixed on-chain
+ * (block link, category, urgency, location...) and tracks a status
+ * that is only ever changed through status event blocks. Nothing
+ * stops those columns from drifting — a manual UPDATE, a bad
+ * migration, a restored backup. Reconciliation recomputes what each
+ * row should say from its BlockData and status events, and reports
+ * or quarantines the rows that disagree.
+ *
+ * A quarantined report keeps its row (as evidence) but cannot change
+ * status until a later reconciliation finds it consistent again.
+ */
+
+import { Blockchain, blockchain, Block, BlockData, isStatusEvent, ReportStatus } from './BlockchainService.js';
+import {
+  iterateReports,
+  getReportMiningJob,
+  quarantineReport,
+  releaseReportQuarantine,
+  logAudit,
+  ReportRecord,
+} from '../services/DatabaseService.js';
+
+// ─── Types ─────────────────────────────────────────────────
+
+export type ReconciledField =
+  | 'block_index'
+  | 'block_hash'
+  | 'category'
+  | 'urgency'
+  | 'status'
+  | 'description_hash'
+  | 'identity_type'
+  | 'citizen_id'
+  | 'location_area'
+  | 'location_address'
+  | 'nearest_station';
+
+export interface FieldDrift {
+  field: ReconciledField;
+  recorded: string | number | null;
+  expected: string | number | null;
+}
+
+export interface ReportDrift {
+  reportId: string;
+  referenceId: string;
+  reason: 'NOT_ON_CHAIN' | 'FIELD_DRIFT';
+  fields: FieldDrift[];
+  quarantined: boolean;
+}
+
+export interface ReconciliationReport {
+  reconciledAt: string;
+  reportsChecked: number;
+  consistent: number;
+  pendingMining: number;
+  released: string[];         // Previously quarantined reports that now match
+  drifted: ReportDrift[];
+}
+
+interface LedgerEntry {
+  block: Block;
+  data: BlockData;
+  status: ReportStatus;       // After replaying every status event
+}
+
+// ─── Report Reconciler Class ────────────────────────────────
+
+export class ReportReconciler {
+  constructor(private chain: Blockchain) {}
+
+  /**
+   * Walks every report row and compares it with the ledger.
+   * With quarantine on, drifted rows are quarantined and rows that
+   * match again are released; otherwise nothing is written.
+   */
+  reconcile(options: { quarantine?: boolean; actor?: string; ipAddress?: string } = {}): ReconciliationReport {
+    const ledger = this.indexLedger();
+    const report: ReconciliationReport = {
+      reconciledAt: new Date().toISOString(),
+      reportsChecked: 0,
+      consistent: 0,
+      pendingMining: 0,
+      released: [],
+      drifted: [],
+    };
+    const toRelease: string[] = [];
+    const newlyQuarantined = new Set<string>();
+
+    // Collect first — SQLite cannot write while the row iterator is open
+    for (const row of iterateReports()) {
+      report.reportsChecked++;
+      const entry = ledger.get(row.id);
+      const drifted = (reason: ReportDrift['reason'], fields: FieldDrift[]) => {
+        report.drifted.push(this.drift(row, reason, fields, options.quarantine));
+        if (row.quarantined_at == null) newlyQuarantined.add(row.id);
+      };
+
+      if (!entry) {
+        const job = getReportMiningJob(row.id);
+        if (row.block_index == null && job && (job.state === 'QUEUED' || job.state === 'MINING')) {
+          report.pendingMining++;
+          continue;
+        }
+        drifted('NOT_ON_CHAIN', [{ field: 'block_index', recorded: row.block_index ?? null, expected: null }]);
+        continue;
+      }
+
+      const fields = this.compare(row, entry);
+      if (fields.length > 0) {
+        drifted('FIELD_DRIFT', fields);
+      } else {
+        report.consistent++;
+        if (row.quarantined_at != null) toRelease.push(row.id);
+      }
+    }
+
+    if (options.quarantine) {
+      this.applyQuarantine(report, newlyQuarantined, toRelease, options.actor, options.ipAddress);
+      logAudit({
+        event_type: 'REPORTS_RECONCILED',
+        actor: options.actor ?? 'SYSTEM',
+        details: `${report.reportsChecked} checked, ${report.drifted.length} drifted ` +
+          `(${newlyQuarantined.size} newly quarantined), ${report.released.length} released`,
+        ip_address: options.ipAddress,
+      });
+    }
+    return report;
+  }
+
+  /**
+   * One pass over the chain: each report's block plus its latest status.
+   */
+  private indexLedger(): Map<string, LedgerEntry> {
+    const ledger = new Map<string, LedgerEntry>();
+
+    for (const block of this.chain.getChain()) {
+      if (block.index === 0) continue;
+      if (isStatusEvent(block.data)) {
+        const entry = ledger.get(block.data.reportId);
+        if (entry) entry.status = block.data.status;
+      } else if (!ledger.has(block.data.reportId)) {
+        ledger.set(block.data.reportId, { block, data: block.data, status: block.data.status });
+      }
+    }
+    return ledger;
+  }
+
+  private compare(row: ReportRecord, entry: LedgerEntry): FieldDrift[] {
+    const { block, data } = entry;
+    const expected: Record<ReconciledField, string | number | null> = {
+      block_index: block.index,
+      block_hash: block.hash,
+      category: data.category,
+      urgency: data.urgency,
+      status: entry.status,
+      description_hash: data.descriptionHash,
+      identity_type: data.identity,
+      citizen_id: data.citizenId ?? null,
+      location_area: data.location.area,
+      location_address: data.location.address,
+      nearest_station: data.location.nearestStation,
+    };
+
+    return (Object.keys(expected) as ReconciledField[])
+      .filter(field => (row[field] ?? null) !== expected[field])
+      .map(field => ({ field, recorded: row[field] ?? null, expected: expected[field] }));
+  }
+
+  private drift(row: ReportRecord, reason: ReportDrift['reason'], fields: FieldDrift[], quarantine = false): ReportDrift {
+    return { reportId: row.id, referenceId: row.reference_id, reason, fields, quarantined: quarantine };
+  }
+
+  /**
+   * Every drifted row gets its quarantine reason refreshed; only rows
+   * quarantined for the first time get an audit entry.
+   */
+  private applyQuarantine(
+    report: ReconciliationReport,
+    newlyQuarantined: Set<string>,
+    toRelease: string[],
+    actor = 'SYSTEM',
+    ipAddress?: string
+  ): void {
+    for (const drift of report.drifted) {
+      const summary = drift.reason === 'NOT_ON_CHAIN'
+        ? 'Report has no block on the ledger'
+        : `Columns disagree with the ledger: ${drift.fields.map(f => f.field).join(', ')}`;
+
+      quarantineReport(drift.reportId, summary);
+      if (!newlyQuarantined.has(drift.reportId)) continue;
+
+      logAudit({
+        event_type: 'REPORT_QUARANTINED',
+        report_id: drift.reportId,
+        actor,
+        details: JSON.stringify({ reason: drift.reason, fields: drift.fields }),
+        ip_address: ipAddress,
+      });
+    }
+
+    for (const reportId of toRelease) {
+      releaseReportQuarantine(reportId);
+      logAudit({
+        event_type: 'REPORT_QUARANTINE_RELEASED',
+        report_id: reportId,
+        actor,
+        details: 'Report matches the ledger again',
+        ip_address: ipAddress,
+      });
+    }
+    report.released = toRelease;
+  }
+}
+
+// Export a singleton instance
+export const reportReconciler = new ReportReconciler(blockchain);
@@ -0,0 +1,258 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Anchoring — Checkpoint Publisher & Divergence Checker
+ * ============================================================
+ *
+ * PURPOSE:
+ * An operator who controls jaagruk.db (and the signing keys) can
+ * still rewrite history wholesale. Periodically publishing the
+ * chain head and Merkle root to independent witnesses makes that
+ * visible: a rewritten chain no longer matches past checkpoints.
+ *
+ * Checkpoints are signed with this node's KeyRing. Only checkpoints
+ * carrying a valid signature count when comparing, so a checkpoint
+ * forged onto a witness cannot make the chain look rewritten.
+ *
+ * CONFIG (.env):
+ *   NODE_ID                  → Identity of this node in checkpoints
+ *   ANCHOR_WITNESSES         → Comma list of: log, peer, tsa (default: log)
+ *   ANCHOR_LOG_PATH          → Transparency log file
+ *   ANCHOR_TSA_ARCHIVE       → Timestamp token archive (stub TSA)
+ *   ANCHOR_PEER_URLS         → Comma list of witness node base URLs
+ *   ANCHOR_INTERVAL_MINUTES  → How often to publish (default: 60)
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Blockchain, blockchain } from '../BlockchainService.js';
+import { keyRing } from '../KeyRing.js';
+import { insertAnchor, getLatestAnchor } from '../../services/DatabaseService.js';
+import { AnchorReceipt, Checkpoint, Witness, checkpointReceipt, isWellFormedCheckpoint } from './Witness.js';
+import { TransparencyLogWitness } from './TransparencyLogWitness.js';
+import { PeerNodeWitness } from './PeerNodeWitness.js';
+import { TimestampServiceWitness } from './TimestampServiceWitness.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_ANCHOR_DIR = path.join(__dirname, '../../../data/anchors');
+
+// ─── Types ─────────────────────────────────────────────────
+
+export type DivergenceReason = 'BLOCK_MISSING' | 'BLOCK_HASH_MISMATCH' | 'MERKLE_ROOT_MISMATCH';
+
+export interface Divergence {
+  witness: string;
+  checkpoint: Checkpoint;
+  reason: DivergenceReason;
+  currentBlockHash: string | null;
+  currentMerkleRoot: string | null;
+}
+
+export interface WitnessCheck {
+  witness: string;
+  checkpointsChecked: number;
+  rejected: number;             // Unsigned, forged or malformed — ignored
+  consistent: boolean;
+  error?: string;
+}
+
+export interface DivergenceReport {
+  nodeId: string;
+  checkedAt: string;
+  chainLength: number;
+  consistent: boolean;
+  witnesses: WitnessCheck[];
+  divergences: Divergence[];
+}
+
+// ─── Witness Configuration ──────────────────────────────────
+
+export function getNodeId(): string {
+  return process.env.NODE_ID || 'jaagruk-node';
+}
+
+export function createWitnessesFromEnv(): Witness[] {
+  const kinds = (process.env.ANCHOR_WITNESSES || 'log').split(',').map(k => k.trim()).filter(Boolean);
+  const witnesses: Witness[] = [];
+
+  for (const kind of kinds) {
+    switch (kind) {
+      case 'log':
+        witnesses.push(new TransparencyLogWitness(
+          process.env.ANCHOR_LOG_PATH || path.join(DEFAULT_ANCHOR_DIR, 'transparency.log')
+        ));
+        break;
+      case 'tsa':
+        witnesses.push(new TimestampServiceWitness(
+          process.env.ANCHOR_TSA_ARCHIVE || path.join(DEFAULT_ANCHOR_DIR, 'timestamps.log')
+        ));
+        break;
+      case 'peer':
+        (process.env.ANCHOR_PEER_URLS || '')
+          .split(',')
+          .map(u => u.trim())
+          .filter(Boolean)
+          .forEach(url => witnesses.push(new PeerNodeWitness(url)));
+        break;
+      default:
+        console.warn(`[Anchoring] Unknown witness type "${kind}" — ignored`);
+    }
+  }
+
+  return witnesses;
+}
+
+// ─── Anchor Service ─────────────────────────────────────────
+
+export class AnchorService {
+  private timer: NodeJS.Timeout | null = null;
+  private witnesses: Witness[] = [];
+
+  constructor(private chain: Blockchain) {}
+
+  setWitnesses(witnesses: Witness[]): void {
+    this.witnesses = witnesses;
+  }
+
+  /**
+   * Signed snapshot of the current chain head.
+   */
+  createCheckpoint(): Checkpoint {
+    const latest = this.chain.getLatestBlock();
+    const receipt = keyRing.signReceipt({
+      nodeId: getNodeId(),
+      blockIndex: latest.index,
+      blockHash: latest.hash,
+      treeSize: this.chain.getLength(),
+      merkleRoot: this.chain.getMerkleRoot(),
+      createdAt: new Date().toISOString(),
+    });
+    return { ...receipt.payload, signature: { keyId: receipt.keyId, value: receipt.signature } };
+  }
+
+  /**
+   * Publishes the current checkpoint to every witness. Skips the
+   * round if the head has not moved since the last anchor, unless
+   * force is set. A failing witness does not block the others.
+   */
+  async anchorNow(force = false): Promise<{
+    checkpoint: Checkpoint;
+    skipped: boolean;
+    anchored: AnchorReceipt[];
+    failed: { witness: string; error: string }[];
+  }> {
+    const checkpoint = this.createCheckpoint();
+    const last = getLatestAnchor();
+
+    if (!force && last && last.block_hash === checkpoint.blockHash) {
+      return { checkpoint, skipped: true, anchored: [], failed: [] };
+    }
+
+    const anchored: AnchorReceipt[] = [];
+    const failed: { witness: string; error: string }[] = [];
+
+    for (const witness of this.witnesses) {
+      try {
+        const receipt = await witness.publish(checkpoint);
+        insertAnchor(receipt);
+        anchored.push(receipt);
+      } catch (error) {
+        console.error(`[Anchoring] Witness ${witness.name} failed:`, error);
+        failed.push({ witness: witness.name, error: String(error) });
+      }
+    }
+
+    return { checkpoint, skipped: false, anchored, failed };
+  }
+
+  /**
+   * Compares the current chain with every checkpoint the witnesses
+   * hold for this node. Any mismatch means history was rewritten
+   * (or truncated) after that checkpoint was published. Checkpoints
+   * this node did not sign are left out and counted as rejected.
+   */
+  async checkDivergence(): Promise<DivergenceReport> {
+    const nodeId = getNodeId();
+    const chainBlocks = this.chain.getChain();
+    const witnessChecks: WitnessCheck[] = [];
+    const divergences: Divergence[] = [];
+
+    for (const witness of this.witnesses) {
+      let held: Checkpoint[];
+      try {
+        held = await witness.fetchCheckpoints(nodeId);
+      } catch (error) {
+        witnessChecks.push({ witness: witness.name, checkpointsChecked: 0, rejected: 0, consistent: false, error: String(error) });
+        continue;
+      }
+
+      const checkpoints = held.filter(checkpoint => {
+        const receipt = checkpointReceipt(checkpoint);
+        return receipt != null && keyRing.verifyReceipt(receipt) && isWellFormedCheckpoint(checkpoint);
+      });
+
+      const roots = this.chain.getMerkleRootsAt(checkpoints.map(c => c.treeSize));
+      const before = divergences.length;
+
+      for (const checkpoint of checkpoints) {
+        const block = chainBlocks[checkpoint.blockIndex];
+        const currentRoot = roots.get(checkpoint.treeSize) ?? null;
+
+        let reason: DivergenceReason | null = null;
+        if (!block || currentRoot === null) reason = 'BLOCK_MISSING';
+        else if (block.hash !== checkpoint.blockHash) reason = 'BLOCK_HASH_MISMATCH';
+        else if (currentRoot !== checkpoint.merkleRoot) reason = 'MERKLE_ROOT_MISMATCH';
+
+        if (reason) {
+          divergences.push({
+            witness: witness.name,
+            checkpoint,
+            reason,
+            currentBlockHash: block ? block.hash : null,
+            currentMerkleRoot: currentRoot,
+          });
+        }
+      }
+
+      witnessChecks.push({
+        witness: witness.name,
+        checkpointsChecked: checkpoints.length,
+        rejected: held.length - checkpoints.length,
+        consistent: divergences.length === before,
+      });
+    }
+
+    return {
+      nodeId,
+      checkedAt: new Date().toISOString(),
+      chainLength: this.chain.getLength(),
+      consistent: divergences.length === 0 && witnessChecks.every(w => !w.error),
+      witnesses: witnessChecks,
+      divergences,
+    };
+  }
+
+  getWitnessNames(): string[] {
+    return this.witnesses.map(w => w.name);
+  }
+
+  /**
+   * Starts periodic anchoring. Safe to call once at startup.
+   */
+  start(intervalMinutes: number = Number(process.env.ANCHOR_INTERVAL_MINUTES) || 60): void {
+    if (this.timer || this.witnesses.length === 0) return;
+
+    this.timer = setInterval(() => {
+      this.anchorNow().catch(error => console.error('[Anchoring] Scheduled anchor failed:', error));
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+// Export a singleton instance (witnesses are configured at startup)
+export const anchorService = new AnchorService(blockchain);
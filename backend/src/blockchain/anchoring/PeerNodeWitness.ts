@@ -0,0 +1,57 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Anchoring — Independent JAAGRUK Node Witness
+ * ============================================================
+ *
+ * Sends checkpoints to another JAAGRUK node (run by a different
+ * operator, e.g. an NGO observer), which stores them in its own
+ * database via POST /api/anchors/witness. Reading them back
+ * later shows what this node's chain looked like at the time.
+ */
+
+import { AnchorReceipt, Checkpoint, Witness } from './Witness.js';
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+export class PeerNodeWitness implements Witness {
+  readonly name: string;
+
+  constructor(private peerUrl: string) {
+    this.peerUrl = peerUrl.replace(/\/+$/, '');
+    this.name = `peer:${this.peerUrl}`;
+  }
+
+  async publish(checkpoint: Checkpoint): Promise<AnchorReceipt> {
+    const response = await fetch(`${this.peerUrl}/api/anchors/witness`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(checkpoint),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    const body = await response.json() as { success: boolean; message?: string; data?: { id: number; receivedAt: string } };
+    if (!response.ok || !body.success) {
+      throw new Error(`[Anchoring] Peer ${this.peerUrl} rejected checkpoint: ${body.message || response.status}`);
+    }
+
+    return {
+      witness: this.name,
+      checkpoint,
+      anchoredAt: new Date().toISOString(),
+      proof: { peerUrl: this.peerUrl, witnessRecordId: body.data?.id, receivedAt: body.data?.receivedAt },
+    };
+  }
+
+  async fetchCheckpoints(nodeId: string): Promise<Checkpoint[]> {
+    const response = await fetch(`${this.peerUrl}/api/anchors/witness?nodeId=${encodeURIComponent(nodeId)}`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    const body = await response.json() as { success: boolean; data: Checkpoint[] };
+    if (!response.ok || !body.success) {
+      throw new Error(`[Anchoring] Could not read checkpoints from peer ${this.peerUrl}`);
+    }
+    return body.data;
+  }
+}
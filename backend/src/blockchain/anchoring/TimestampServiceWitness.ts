@@ -0,0 +1,81 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Anchoring — RFC 3161-style Timestamp Service Witness (STUB)
+ * ============================================================
+ *
+ * Models the RFC 3161 flow: the checkpoint is reduced to a
+ * message imprint (SHA-256), sent to a Time-Stamping Authority,
+ * and the returned token binds that imprint to a time.
+ *
+ * This is a STUB: tokens are issued locally and kept in a
+ * JSON-lines archive so the rest of the anchoring pipeline can
+ * be exercised end-to-end. A real client would DER-encode a
+ * TimeStampReq, POST it to the TSA and store the signed
+ * TimeStampResp — only requestToken() needs to change.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Blockchain } from '../BlockchainService.js';
+import { AnchorReceipt, Checkpoint, Witness } from './Witness.js';
+
+interface TimestampToken {
+  tsa: string;
+  policy: string;
+  serialNumber: string;
+  genTime: string;
+  messageImprint: { hashAlgorithm: 'SHA-256'; hashedMessage: string };
+  nonce: string;
+}
+
+interface ArchivedToken {
+  checkpoint: Checkpoint;
+  token: TimestampToken;
+}
+
+export class TimestampServiceWitness implements Witness {
+  readonly name = 'timestamp-service-stub';
+
+  constructor(private archivePath: string, private tsaName: string = 'jaagruk-local-tsa-stub') {}
+
+  async publish(checkpoint: Checkpoint): Promise<AnchorReceipt> {
+    const hashedMessage = Blockchain.hashData(JSON.stringify(checkpoint));
+    const token = await this.requestToken(hashedMessage);
+
+    fs.mkdirSync(path.dirname(this.archivePath), { recursive: true });
+    fs.appendFileSync(this.archivePath, JSON.stringify({ checkpoint, token } satisfies ArchivedToken) + '\n');
+
+    return {
+      witness: this.name,
+      checkpoint,
+      anchoredAt: token.genTime,
+      proof: { ...token },
+    };
+  }
+
+  async fetchCheckpoints(nodeId: string): Promise<Checkpoint[]> {
+    if (!fs.existsSync(this.archivePath)) return [];
+
+    return fs.readFileSync(this.archivePath, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .map(line => JSON.parse(line) as ArchivedToken)
+      // A token only vouches for the checkpoint whose imprint it carries
+      .filter(a => a.token.messageImprint.hashedMessage === Blockchain.hashData(JSON.stringify(a.checkpoint)))
+      .map(a => a.checkpoint)
+      .filter(c => c.nodeId === nodeId);
+  }
+
+  private async requestToken(hashedMessage: string): Promise<TimestampToken> {
+    return {
+      tsa: this.tsaName,
+      policy: 'stub',
+      serialNumber: crypto.randomBytes(8).toString('hex'),
+      genTime: new Date().toISOString(),
+      messageImprint: { hashAlgorithm: 'SHA-256', hashedMessage },
+      nonce: crypto.randomBytes(8).toString('hex'),
+    };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Anchoring — Append-only Transparency Log Witness
+ * ============================================================
+ *
+ * Writes each checkpoint as one JSON line to a log file that
+ * lives outside the SQLite database (ideally on separate,
+ * append-only or write-once storage). Every entry carries the
+ * hash of the previous entry, so editing or truncating the log
+ * itself is detectable when it is read back.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Blockchain } from '../BlockchainService.js';
+import { AnchorReceipt, Checkpoint, Witness } from './Witness.js';
+
+interface LogEntry {
+  seq: number;
+  checkpoint: Checkpoint;
+  previousEntryHash: string;
+  entryHash: string;
+}
+
+const LOG_GENESIS_HASH = '0'.repeat(64);
+
+export class TransparencyLogWitness implements Witness {
+  readonly name = 'transparency-log';
+
+  constructor(private logPath: string) {}
+
+  async publish(checkpoint: Checkpoint): Promise<AnchorReceipt> {
+    const entries = this.readEntries();
+    const last = entries[entries.length - 1];
+    const seq = last ? last.seq + 1 : 0;
+    const previousEntryHash = last ? last.entryHash : LOG_GENESIS_HASH;
+    const entryHash = this.hashEntry(seq, checkpoint, previousEntryHash);
+
+    const entry: LogEntry = { seq, checkpoint, previousEntryHash, entryHash };
+    fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+    fs.appendFileSync(this.logPath, JSON.stringify(entry) + '\n');
+
+    return {
+      witness: this.name,
+      checkpoint,
+      anchoredAt: new Date().toISOString(),
+      proof: { logPath: this.logPath, seq, entryHash },
+    };
+  }
+
+  async fetchCheckpoints(nodeId: string): Promise<Checkpoint[]> {
+    return this.readEntries()
+      .map(e => e.checkpoint)
+      .filter(c => c.nodeId === nodeId);
+  }
+
+  /**
+   * Reads and verifies the log's own hash chain.
+   * Throws if any entry was altered, removed or reordered.
+   */
+  private readEntries(): LogEntry[] {
+    if (!fs.existsSync(this.logPath)) return [];
+
+    const lines = fs.readFileSync(this.logPath, 'utf8').split('\n').filter(Boolean);
+    const entries = lines.map(line => JSON.parse(line) as LogEntry);
+
+    let previousEntryHash = LOG_GENESIS_HASH;
+    entries.forEach((entry, i) => {
+      const expected = this.hashEntry(i, entry.checkpoint, previousEntryHash);
+      if (entry.seq !== i || entry.previousEntryHash !== previousEntryHash || entry.entryHash !== expected) {
+        throw new Error(`[Anchoring] Transparency log corrupted at entry ${i}`);
+      }
+      previousEntryHash = entry.entryHash;
+    });
+
+    return entries;
+  }
+
+  private hashEntry(seq: number, checkpoint: Checkpoint, previousEntryHash: string): string {
+    return Blockchain.hashData(JSON.stringify({ seq, checkpoint, previousEntryHash }));
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Anchoring — Witness Interface
+ * ============================================================
+ *
+ * A witness is anything outside this node's database that can
+ * hold a copy of a chain checkpoint: a local append-only log,
+ * another JAAGRUK node, a timestamping authority. Once a
+ * checkpoint is witnessed, rewriting history on this node can
+ * be detected by comparing the chain with what witnesses hold.
+ *
+ * Checkpoints are signed by the node's KeyRing, so a witness (or
+ * anyone posting to one) cannot put words in the node's mouth.
+ */
+
+import type { SignedReceipt } from '../KeyRing.js';
+
+// ─── Types ─────────────────────────────────────────────────
+
+export interface Checkpoint {
+  nodeId: string;         // Which JAAGRUK node produced this checkpoint
+  blockIndex: number;     // Latest block index at checkpoint time
+  blockHash: string;      // Latest block hash
+  treeSize: number;       // Number of blocks covered by merkleRoot
+  merkleRoot: string;     // Merkle root over blocks 0..treeSize-1
+  createdAt: string;
+  signature?: CheckpointSignature;  // Missing on checkpoints anchored before signing
+}
+
+export interface CheckpointSignature {
+  keyId: string;
+  value: string;          // Base64 Ed25519 signature over the other fields (KeyRing.signReceipt)
+}
+
+export type UnsignedCheckpoint = Omit<Checkpoint, 'signature'>;
+
+export interface AnchorReceipt {
+  witness: string;
+  checkpoint: Checkpoint;
+  anchoredAt: string;
+  proof: Record<string, unknown>;   // Witness-specific evidence (entry hash, token, ...)
+}
+
+export interface Witness {
+  readonly name: string;
+
+  /** Hands a checkpoint to the witness. Throws if the witness is unreachable. */
+  publish(checkpoint: Checkpoint): Promise<AnchorReceipt>;
+
+  /** Reads back every checkpoint this witness holds for the given node. */
+  fetchCheckpoints(nodeId: string): Promise<Checkpoint[]>;
+}
+
+// ─── Signatures ────────────────────────────────────────────
+
+/**
+ * The fields a checkpoint signature covers, always in this order so
+ * the signed JSON is the same on every node.
+ */
+export function unsignedCheckpoint(checkpoint: Checkpoint): UnsignedCheckpoint {
+  return {
+    nodeId: checkpoint.nodeId,
+    blockIndex: checkpoint.blockIndex,
+    blockHash: checkpoint.blockHash,
+    treeSize: checkpoint.treeSize,
+    merkleRoot: checkpoint.merkleRoot,
+    createdAt: checkpoint.createdAt,
+  };
+}
+
+/**
+ * A checkpoint in the receipt form its signature was made over, for
+ * KeyRing / PeerKeySet.verifyReceipt. Null if it is unsigned.
+ */
+export function checkpointReceipt(checkpoint: Checkpoint): SignedReceipt<UnsignedCheckpoint> | null {
+  if (!checkpoint.signature) return null;
+  return {
+    payload: unsignedCheckpoint(checkpoint),
+    algorithm: 'Ed25519',
+    keyId: checkpoint.signature.keyId,
+    signature: checkpoint.signature.value,
+  };
+}
+
+/**
+ * A checkpoint covers the chain up to and including its block.
+ */
+export function isWellFormedCheckpoint(checkpoint: Checkpoint): boolean {
+  return checkpoint.treeSize === checkpoint.blockIndex + 1;
+}
@@ -0,0 +1,34 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Mining Worker — Proof-of-Work off the Event Loop
+ * ============================================================
+ *
+ * Runs in a worker thread started by MiningQueue. Receives one
+ * block candidate at a time, searches for the nonce and posts
+ * the result back. It never touches the chain or the database.
+ */
+
+import { parentPort } from 'worker_threads';
+import { BlockCandidate, mineCandidate } from './BlockchainService.js';
+
+// ─── Types ─────────────────────────────────────────────────
+
+export interface MiningTask {
+  taskId: number;
+  candidate: BlockCandidate;
+  difficulty: number;
+}
+
+export interface MiningResult {
+  taskId: number;
+  hash: string;
+  nonce: number;
+}
+
+// ─── Worker Loop ────────────────────────────────────────────
+
+parentPort?.on('message', (task: MiningTask) => {
+  const { hash, nonce } = mineCandidate(task.candidate, task.difficulty);
+  parentPort!.postMessage({ taskId: task.taskId, hash, nonce } satisfies MiningResult);
+});
@@ -0,0 +1,86 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Replication — Peer Public Keys (Verify-Only Signer)
+ * ============================================================
+ *
+ * A replica of a peer's chain is checked against that peer's
+ * published Ed25519 keys. This signer can verify but never sign,
+ * so a replica can only grow with blocks the peer really signed.
+ * Exported chain bundles are checked the same way (see ChainBundle).
+ */
+
+import crypto from 'crypto';
+import type { BlockSigner, BlockSignature, PublicKeyInfo, SignedReceipt } from '../KeyRing.js';
+
+export class PeerKeySet implements BlockSigner {
+  private keys = new Map<string, PublicKeyInfo>();
+  private publicKeys = new Map<string, crypto.KeyObject>();
+
+  constructor(keys: PublicKeyInfo[], private signedFromIndex: number | null) {
+    this.update(keys, signedFromIndex);
+  }
+
+  /**
+   * Adds newly published keys (e.g. after the peer rotated).
+   * Known keys are never dropped, and signedFromIndex can only move
+   * earlier — a peer cannot later exempt blocks from signing.
+   */
+  update(keys: PublicKeyInfo[], signedFromIndex: number | null): void {
+    for (const key of keys) {
+      if (!this.publicKeys.has(key.keyId)) {
+        this.publicKeys.set(key.keyId, crypto.createPublicKey(key.publicKeyPem));
+        this.keys.set(key.keyId, key);
+      }
+    }
+
+    if (signedFromIndex !== null && (this.signedFromIndex === null || signedFromIndex < this.signedFromIndex)) {
+      this.signedFromIndex = signedFromIndex;
+    }
+  }
+
+  hasKey(keyId: string): boolean {
+    return this.publicKeys.has(keyId);
+  }
+
+  getSignedFromIndex(): number | null {
+    return this.signedFromIndex;
+  }
+
+  getKeys(): PublicKeyInfo[] {
+    return [...this.keys.values()];
+  }
+
+  // ── BlockSigner ──
+
+  sign(): BlockSignature {
+    throw new Error('[Replication] Peer replicas are read-only and cannot sign blocks');
+  }
+
+  verify(blockHash: string, signature: BlockSignature): boolean {
+    return this.verifyBytes(Buffer.from(blockHash, 'hex'), signature.keyId, signature.value);
+  }
+
+  requiresSignature(blockIndex: number): boolean {
+    return this.signedFromIndex !== null && blockIndex >= this.signedFromIndex;
+  }
+
+  // ── Receipts ──
+
+  /**
+   * Checks a receipt (or bundle manifest) signed by the peer's KeyRing.
+   */
+  verifyReceipt<T>(receipt: SignedReceipt<T>): boolean {
+    return this.verifyBytes(Buffer.from(JSON.stringify(receipt.payload), 'utf8'), receipt.keyId, receipt.signature);
+  }
+
+  private verifyBytes(data: Buffer, keyId: string, signature: string): boolean {
+    const publicKey = this.publicKeys.get(keyId);
+    if (!publicKey) return false;
+    try {
+      return crypto.verify(null, data, publicKey, Buffer.from(signature, 'base64'));
+    } catch {
+      return false;
+    }
+  }
+}
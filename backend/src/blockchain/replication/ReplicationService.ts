@@ -0,0 +1,509 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Replication — Peer Mirrors & Consensus-lite
+ * ============================================================
+ *
+ * PURPOSE:
+ * A single node's chain is only as honest as the box it runs on.
+ * Every JAAGRUK node (one per district, one per NGO observer, ...)
+ * therefore keeps a verified, append-only mirror of each peer's
+ * chain. Deleting or rewriting a report on one node then shows up
+ * as divergence on every node that mirrored it.
+ *
+ * PROTOCOL:
+ * - Push: each new local block is gossiped to every peer
+ *   (POST /api/replication/blocks)
+ * - Pull: peers are polled periodically and on gaps
+ *   (GET /api/replication/blocks?from=N), overlapping one block so
+ *   a rewritten head is noticed. Raw blocks name citizens and staff,
+ *   so each pull is signed by the pulling node (X-Replication-Request)
+ *   and served only to peers the serving node lists in turn
+ *
+ * CONSENSUS-LITE RULES (per peer mirror):
+ * - A block is accepted only if it extends the validated mirror
+ *   head and passes hash, link, Merkle root and signature checks
+ * - A different block at an index already mirrored is a FORK; a
+ *   peer that reports fewer blocks than mirrored is TRUNCATED.
+ *   Either marks the peer DIVERGED — sticky, with the evidence kept
+ * - Pushed blocks must be signed by the peer and hash-consistent,
+ *   so nobody can get a peer flagged by posting forged blocks
+ *
+ * CONFIG (.env):
+ *   NODE_ID                   → Identity of this node (shared with anchoring)
+ *   REPLICATION_PEERS         → Comma list of peer node base URLs
+ *   REPLICATION_SYNC_SECONDS  → Pull interval (default: 30)
+ */
+
+import { Blockchain, Block, blockchain, computeBlockHash } from '../BlockchainService.js';
+import { getBlockVersion, isSupportedBlockVersion } from '../BlockFormat.js';
+import { keyRing, PublicKeyInfo, SignedReceipt } from '../KeyRing.js';
+import { getNodeId } from '../anchoring/AnchorService.js';
+import { PeerKeySet } from './PeerKeySet.js';
+import {
+  createPeerBlockStore,
+  getReplicationPeer,
+  upsertReplicationPeer,
+  updateReplicationPeerStatus,
+  logAudit,
+  ReplicationPeerRecord,
+} from '../../services/DatabaseService.js';
+
+const REQUEST_TIMEOUT_MS = 5000;
+const SYNC_PAGE_SIZE = 200;
+
+export const PULL_REQUEST_HEADER = 'X-Replication-Request';
+// How long a signed pull request stays valid, either side of now
+const PULL_REQUEST_MAX_AGE_MS = 5 * 60 * 1000;
+
+// ─── Types ─────────────────────────────────────────────────
+
+export type PeerStatus = ReplicationPeerRecord['status'];
+
+export type DivergenceReason = 'FORK' | 'TRUNCATED' | 'INVALID_BLOCK' | 'REPLICA_INVALID';
+
+export interface PeerDivergence {
+  reason: DivergenceReason;
+  blockIndex: number;
+  expectedHash: string | null;   // What our mirror holds
+  receivedHash: string | null;   // What the peer sent or reports
+  detectedAt: string;
+}
+
+export interface NodeInfo {
+  nodeId: string;
+  length: number;
+  headHash: string;
+  merkleRoot: string;
+  signedFromIndex: number | null;
+  keys: PublicKeyInfo[];
+}
+
+export type ReceiveOutcome =
+  | 'APPENDED'      // Extended the mirror
+  | 'DUPLICATE'     // Already mirrored
+  | 'GAP'           // Ahead of the mirror — a pull sync was started
+  | 'FORK'          // Conflicts with mirrored history — peer flagged
+  | 'INVALID'       // Failed validation — a pull sync was started
+  | 'UNAUTHENTIC'   // Not signed by the peer, or hash does not match contents
+  | 'UNSUPPORTED'   // Block format version this node cannot verify (upgrade needed)
+  | 'UNKNOWN_PEER'  // Sender is not a configured (or connected) peer
+  | 'DIVERGED';     // Peer already flagged; nothing more is accepted
+
+// What a node signs to pull a page of a peer's raw blocks
+export interface PullRequest {
+  type: 'JAAGRUK_REPLICATION_PULL';
+  nodeId: string;             // The pulling node
+  from: number;
+  limit: number;
+  issuedAt: string;
+}
+
+export type PullAuthorization = 'VERIFIED' | 'MALFORMED' | 'EXPIRED' | 'UNKNOWN_PEER' | 'UNAUTHENTIC';
+
+export interface PeerStatusReport {
+  url: string;
+  nodeId: string | null;
+  status: PeerStatus;
+  replicaLength: number;
+  replicaHeadHash: string | null;
+  reportedLength: number | null;
+  lastError: string | null;
+  divergence: PeerDivergence | null;
+}
+
+interface Peer {
+  url: string;
+  nodeId: string | null;
+  keys: PeerKeySet | null;
+  replica: Blockchain | null;
+  status: PeerStatus;
+  divergence: PeerDivergence | null;
+  reportedLength: number | null;
+  lastError: string | null;
+  syncing: Promise<void> | null;
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+export function parsePeerUrls(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(u => u.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+async function fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  const body = await response.json() as T & { success?: boolean; message?: string };
+  if (!response.ok || body.success === false) {
+    throw new Error(`[Replication] ${url} responded ${response.status}: ${body.message || 'request failed'}`);
+  }
+  return body;
+}
+
+/**
+ * This node's signed request for a page of a peer's raw blocks,
+ * encoded for the X-Replication-Request header.
+ */
+function signPullRequest(from: number, limit: number): string {
+  const request: PullRequest = {
+    type: 'JAAGRUK_REPLICATION_PULL',
+    nodeId: getNodeId(),
+    from,
+    limit,
+    issuedAt: new Date().toISOString(),
+  };
+  return Buffer.from(JSON.stringify(keyRing.signReceipt(request)), 'utf8').toString('base64');
+}
+
+// ─── Replication Service ────────────────────────────────────
+
+export class ReplicationService {
+  private peers: Peer[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private gossiping = false;
+
+  constructor(private chain: Blockchain) {}
+
+  /**
+   * Sets the peer list and starts gossiping local blocks to it.
+   */
+  configure(urls: string[]): void {
+    this.peers = urls.map(url => ({
+      url,
+      nodeId: null,
+      keys: null,
+      replica: null,
+      status: 'SYNCING',
+      divergence: null,
+      reportedLength: null,
+      lastError: null,
+      syncing: null,
+    }));
+
+    if (!this.gossiping) {
+      this.chain.onBlockAdded(block => this.broadcast(block));
+      this.gossiping = true;
+    }
+  }
+
+  /**
+   * What this node publishes about its own chain.
+   */
+  getNodeInfo(): NodeInfo {
+    const head = this.chain.getLatestBlock();
+    return {
+      nodeId: getNodeId(),
+      length: this.chain.getLength(),
+      headHash: head.hash,
+      merkleRoot: this.chain.getMerkleRoot(),
+      signedFromIndex: keyRing.getSignedFromIndex(),
+      keys: keyRing.getPublicKeys(),
+    };
+  }
+
+  getStatus(): PeerStatusReport[] {
+    return this.peers.map(peer => ({
+      url: peer.url,
+      nodeId: peer.nodeId,
+      status: peer.status,
+      replicaLength: peer.replica?.getLength() ?? 0,
+      replicaHeadHash: peer.replica?.getLatestBlock().hash ?? null,
+      reportedLength: peer.reportedLength,
+      lastError: peer.lastError,
+      divergence: peer.divergence,
+    }));
+  }
+
+  /**
+   * Pulls from every peer. Resolves once all syncs have finished.
+   */
+  async syncAll(): Promise<void> {
+    await Promise.all(this.peers.map(peer => this.syncPeer(peer)));
+  }
+
+  /**
+   * Handles a block gossiped by a peer.
+   */
+  async receiveBlock(nodeId: string, block: Block): Promise<ReceiveOutcome> {
+    const peer = this.peers.find(p => p.nodeId === nodeId);
+    if (!peer || !peer.keys || !peer.replica) {
+      // Possibly a configured peer we have not reached yet
+      this.peers.filter(p => !p.nodeId).forEach(p => this.syncPeer(p));
+      return 'UNKNOWN_PEER';
+    }
+    if (peer.status === 'DIVERGED') return 'DIVERGED';
+
+    // Anyone can POST here. Only a block the peer really signed, whose
+    // hash matches its contents, may extend the mirror or flag a fork.
+    if (!isSupportedBlockVersion(getBlockVersion(block))) return 'UNSUPPORTED';
+    if (!block.signature) return 'UNAUTHENTIC';
+    if (!peer.keys.hasKey(block.signature.keyId)) {
+      // The peer may have rotated its key since we last connected
+      await this.connect(peer).catch(() => undefined);
+    }
+    if (computeBlockHash(block) !== block.hash || !peer.keys.verify(block.hash, block.signature)) {
+      return 'UNAUTHENTIC';
+    }
+
+    const outcome = this.applyBlock(peer, block);
+    if (outcome === 'APPENDED') {
+      peer.reportedLength = Math.max(peer.reportedLength ?? 0, block.index + 1);
+    }
+    if (outcome === 'GAP' || outcome === 'INVALID') {
+      this.syncPeer(peer);
+    }
+    return outcome;
+  }
+
+  /**
+   * Checks that a receipt (e.g. an anchoring checkpoint) was signed
+   * by a peer, against the keys it published. Only configured peers
+   * are known; a key we have not seen yet triggers a reconnect.
+   */
+  async verifyPeerReceipt<T>(nodeId: string, receipt: SignedReceipt<T>): Promise<'VERIFIED' | 'UNKNOWN_PEER' | 'UNAUTHENTIC'> {
+    let peer = this.peers.find(p => p.nodeId === nodeId);
+    if (!peer) {
+      // Possibly a configured peer we have not reached yet
+      await Promise.all(this.peers.filter(p => !p.nodeId).map(p => this.connect(p).catch(() => undefined)));
+      peer = this.peers.find(p => p.nodeId === nodeId);
+    }
+    if (!peer || !peer.keys) return 'UNKNOWN_PEER';
+
+    if (!peer.keys.hasKey(receipt.keyId)) {
+      await this.connect(peer).catch(() => undefined);
+    }
+    return peer.keys.verifyReceipt(receipt) ? 'VERIFIED' : 'UNAUTHENTIC';
+  }
+
+  /**
+   * Checks the X-Replication-Request header of a pull: a recent
+   * request for exactly this page, signed by a configured peer.
+   */
+  async authorizePull(header: string, from: number, limit: number): Promise<PullAuthorization> {
+    let receipt: SignedReceipt<PullRequest>;
+    try {
+      receipt = JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+    } catch {
+      return 'MALFORMED';
+    }
+
+    const request = receipt?.payload;
+    if (
+      typeof receipt?.keyId !== 'string' || typeof receipt.signature !== 'string' ||
+      request?.type !== 'JAAGRUK_REPLICATION_PULL' || typeof request.nodeId !== 'string' ||
+      request.from !== from || request.limit !== limit
+    ) {
+      return 'MALFORMED';
+    }
+
+    const age = Date.now() - Date.parse(request.issuedAt);
+    if (!(Math.abs(age) <= PULL_REQUEST_MAX_AGE_MS)) return 'EXPIRED';
+
+    return this.verifyPeerReceipt(request.nodeId, receipt);
+  }
+
+  /**
+   * Starts periodic pull sync. Safe to call once at startup.
+   */
+  start(intervalSeconds: number = Number(process.env.REPLICATION_SYNC_SECONDS) || 30): void {
+    if (this.timer || this.peers.length === 0) return;
+
+    this.syncAll().catch(error => console.error('[Replication] Initial sync failed:', error));
+    this.timer = setInterval(() => {
+      this.syncAll().catch(error => console.error('[Replication] Scheduled sync failed:', error));
+    }, intervalSeconds * 1000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // ── Internals ──
+
+  private syncPeer(peer: Peer): Promise<void> {
+    // One sync per peer at a time; callers share the running one
+    if (!peer.syncing) {
+      peer.syncing = this.pull(peer).finally(() => { peer.syncing = null; });
+    }
+    return peer.syncing;
+  }
+
+  private async pull(peer: Peer): Promise<void> {
+    try {
+      const info = await this.connect(peer);
+      if (peer.status === 'DIVERGED') return;
+
+      const replica = peer.replica!;
+      if (info.length < replica.getLength()) {
+        this.markDiverged(peer, {
+          reason: 'TRUNCATED',
+          blockIndex: replica.getLength() - 1,
+          expectedHash: replica.getLatestBlock().hash,
+          receivedHash: info.headHash,
+        });
+        return;
+      }
+
+      // Start one block back so a rewritten head is caught as a fork
+      let from = replica.getLength() - 1;
+      for (;;) {
+        const page = await fetchJson<{ data: Block[] }>(
+          `${peer.url}/api/replication/blocks?from=${from}&limit=${SYNC_PAGE_SIZE}`,
+          { headers: { [PULL_REQUEST_HEADER]: signPullRequest(from, SYNC_PAGE_SIZE) } }
+        );
+
+        for (const block of page.data) {
+          const outcome = this.applyBlock(peer, block);
+          if (outcome === 'FORK') return;
+          if (outcome === 'INVALID' || outcome === 'GAP') {
+            // Served directly by the peer, so this is the peer's own history
+            this.markDiverged(peer, {
+              reason: 'INVALID_BLOCK',
+              blockIndex: block.index,
+              expectedHash: null,
+              receivedHash: block.hash,
+            });
+            return;
+          }
+        }
+
+        if (page.data.length < SYNC_PAGE_SIZE) break;
+        from += page.data.length;
+      }
+
+      peer.lastError = null;
+      this.setStatus(peer, 'SYNCED');
+    } catch (error) {
+      peer.lastError = String(error);
+      if (peer.status !== 'DIVERGED') this.setStatus(peer, 'UNREACHABLE');
+    }
+  }
+
+  /**
+   * Fetches the peer's info, and on first contact opens its mirror.
+   */
+  private async connect(peer: Peer): Promise<NodeInfo> {
+    const info = await fetchJson<{ data: NodeInfo }>(`${peer.url}/api/replication/info`).then(r => r.data);
+
+    if (info.nodeId === getNodeId()) {
+      throw new Error(`[Replication] Peer ${peer.url} has this node's own NODE_ID (${info.nodeId})`);
+    }
+    if (peer.nodeId && peer.nodeId !== info.nodeId) {
+      throw new Error(`[Replication] Peer ${peer.url} now reports NODE_ID ${info.nodeId} instead of ${peer.nodeId}`);
+    }
+
+    const stored = getReplicationPeer(info.nodeId);
+    if (!peer.keys) {
+      peer.keys = stored
+        ? new PeerKeySet(JSON.parse(stored.keys_json), stored.signed_from_index)
+        : new PeerKeySet([], null);
+    }
+    peer.keys.update(info.keys, info.signedFromIndex);
+
+    upsertReplicationPeer({
+      node_id: info.nodeId,
+      url: peer.url,
+      keys_json: JSON.stringify(peer.keys.getKeys()),
+      signed_from_index: peer.keys.getSignedFromIndex(),
+    });
+
+    peer.nodeId = info.nodeId;
+    peer.reportedLength = info.length;
+
+    if (!peer.replica) {
+      this.openReplica(peer, stored);
+    }
+    return info;
+  }
+
+  private openReplica(peer: Peer, stored: ReplicationPeerRecord | null): void {
+    const replica = new Blockchain();
+    replica.setSigner(peer.keys!);
+    peer.replica = replica;
+
+    if (stored?.status === 'DIVERGED') {
+      peer.status = 'DIVERGED';
+      peer.divergence = stored.divergence_json ? JSON.parse(stored.divergence_json) : null;
+    }
+
+    if (!replica.attachStore(createPeerBlockStore(peer.nodeId!))) {
+      // Our own copy no longer verifies — it was altered on this node
+      this.markDiverged(peer, { reason: 'REPLICA_INVALID', blockIndex: 0, expectedHash: null, receivedHash: null });
+    }
+  }
+
+  /**
+   * Applies one block to a peer's mirror under the consensus-lite rules.
+   */
+  private applyBlock(peer: Peer, block: Block): ReceiveOutcome {
+    const replica = peer.replica!;
+    const length = replica.getLength();
+
+    if (block.index < length) {
+      const mirrored = replica.getChain()[block.index];
+      if (mirrored.hash === block.hash) return 'DUPLICATE';
+
+      this.markDiverged(peer, {
+        reason: 'FORK',
+        blockIndex: block.index,
+        expectedHash: mirrored.hash,
+        receivedHash: block.hash,
+      });
+      return 'FORK';
+    }
+
+    if (block.index > length) return 'GAP';
+
+    if (block.previousHash !== replica.getLatestBlock().hash) {
+      this.markDiverged(peer, {
+        reason: 'FORK',
+        blockIndex: length - 1,
+        expectedHash: replica.getLatestBlock().hash,
+        receivedHash: block.previousHash,
+      });
+      return 'FORK';
+    }
+
+    return replica.appendExternalBlock(block) ? 'APPENDED' : 'INVALID';
+  }
+
+  private markDiverged(peer: Peer, divergence: Omit<PeerDivergence, 'detectedAt'>): void {
+    peer.divergence = { ...divergence, detectedAt: new Date().toISOString() };
+    this.setStatus(peer, 'DIVERGED', peer.divergence);
+
+    console.error(`[Replication] ⚠ Peer ${peer.nodeId} (${peer.url}) DIVERGED at block #${divergence.blockIndex}: ${divergence.reason}`);
+    logAudit({
+      event_type: 'PEER_DIVERGED',
+      details: `Peer ${peer.nodeId} (${peer.url}) diverged at block #${divergence.blockIndex}: ${divergence.reason}`,
+    });
+  }
+
+  private setStatus(peer: Peer, status: PeerStatus, divergence?: PeerDivergence): void {
+    peer.status = status;
+    if (peer.nodeId) updateReplicationPeerStatus(peer.nodeId, status, divergence);
+  }
+
+  /**
+   * Best-effort push of a new local block. Peers that miss it
+   * catch up on their next pull.
+   */
+  private broadcast(block: Block): void {
+    const body = JSON.stringify({ nodeId: getNodeId(), block });
+    for (const peer of this.peers) {
+      fetchJson(`${peer.url}/api/replication/blocks`, { method: 'POST', body })
+        .catch(error => { peer.lastError = String(error); });
+    }
+  }
+}
+
+// Export a singleton instance (peers are configured at startup)
+export const replicationService = new ReplicationService(blockchain);
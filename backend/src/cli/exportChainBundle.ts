@@ -0,0 +1,49 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * CLI — Export the Ledger as a Signed Bundle
+ * ============================================================
+ *
+ * USAGE:
+ *   npm run chain:export                          # ./jaagruk-<length>-<head>.chain.json
+ *   npm run chain:export -- path/to/out.chain.json
+ *
+ * Writes every stored block, the public signing keys and a manifest
+ * signed with the active key (see ChainBundle). Refuses to export a
+ * chain that fails its integrity check. Safe to run next to a live
+ * server.
+ */
+
+import dotenv from 'dotenv';
+import fs from 'fs';
+import { initDatabase, blockStore, logAudit } from '../services/DatabaseService.js';
+import { blockchain } from '../blockchain/BlockchainService.js';
+import { keyRing } from '../blockchain/KeyRing.js';
+import { exportChainBundle } from '../blockchain/ChainBundle.js';
+import { getNodeId } from '../blockchain/anchoring/AnchorService.js';
+
+dotenv.config();
+
+initDatabase();
+keyRing.load();
+blockchain.setSigner(keyRing);
+
+if (!blockchain.attachStore(blockStore)) {
+  console.error('[Export] The stored chain fails its integrity check. Run `npm run chain:forensics` instead.');
+  process.exit(1);
+}
+
+const bundle = exportChainBundle(blockchain, keyRing, getNodeId());
+const { length, headHash, merkleRoot } = bundle.manifest.payload;
+const outPath = process.argv[2] || `jaagruk-${length}-${headHash.slice(0, 12)}.chain.json`;
+
+fs.writeFileSync(outPath, JSON.stringify(bundle, null, 2));
+logAudit({
+  event_type: 'CHAIN_EXPORTED',
+  actor: 'ADMIN_CLI',
+  details: `Exported ${length} blocks (head ${headHash}) to ${outPath}`,
+});
+
+console.log(`[Export] ${length} blocks → ${outPath}`);
+console.log(`[Export] Head ${headHash}`);
+console.log(`[Export] Merkle root ${merkleRoot}, signed by ${bundle.manifest.keyId}`);
@@ -0,0 +1,87 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * CLI — Read & Answer an Anonymous Follow-up Thread
+ * ============================================================
+ *
+ * USAGE:
+ *   curl -H "Authorization: Bearer $TOKEN" "$API/api/followups/<reportId>" > thread.json
+ *   npm run followup:decrypt -- thread.json <keyId>.vault-key.pem
+ *   npm run followup:decrypt -- thread.json <keyId>.vault-key.pem --reply "Which gate was it?"
+ *
+ * Unwraps the thread key with the authority's private key and prints
+ * every message. With --reply, also prints the encrypted body to POST
+ * to /api/followups/<reportId>/messages. Needs no database or
+ * network. Exits with code 1 if any message fails to decrypt.
+ */
+
+import fs from 'fs';
+import {
+  openFollowUpKey, decryptFollowUpMessage, encryptFollowUpMessage,
+  FollowUpKeyGrant, FollowUpSender, EncryptedFollowUpMessage, MAX_MESSAGE_LENGTH,
+} from '../services/FollowUpChannel.js';
+
+interface Thread {
+  reportId: string;
+  referenceId: string;
+  grants?: FollowUpKeyGrant[];
+  messages: (EncryptedFollowUpMessage & { sender: FollowUpSender; officerId?: string; createdAt: string })[];
+}
+
+const args = process.argv.slice(2);
+const replyAt = args.indexOf('--reply');
+const reply = replyAt >= 0 ? args[replyAt + 1] : undefined;
+const [threadPath, keyPath] = args.filter((_, i) => replyAt < 0 || (i !== replyAt && i !== replyAt + 1));
+
+if (!threadPath || !keyPath || (replyAt >= 0 && !reply)) {
+  console.error('Usage: npm run followup:decrypt -- <thread.json> <private-key.pem> [--reply "<text>"]');
+  process.exit(2);
+}
+if (reply && reply.length > MAX_MESSAGE_LENGTH) {
+  console.error(`[FollowUp] Replies are limited to ${MAX_MESSAGE_LENGTH} characters`);
+  process.exit(2);
+}
+
+// Accept the raw API response as well as its data field
+const parsed = JSON.parse(fs.readFileSync(threadPath, 'utf8'));
+const thread = (parsed.data ?? parsed) as Thread;
+const privateKeyPem = fs.readFileSync(keyPath, 'utf8');
+
+// Try each grant in the file; admins download all of them
+let threadKey: Buffer | null = null;
+for (const grant of thread.grants ?? []) {
+  try {
+    threadKey = openFollowUpKey(thread.reportId, grant, privateKeyPem);
+    console.log(`[FollowUp] Report ${thread.referenceId} (${thread.reportId}) — opened with ${grant.authority}'s key ${grant.keyId}`);
+    break;
+  } catch {
+    // Not this authority's grant
+  }
+}
+if (!threadKey) {
+  console.error('[FollowUp] None of the grants in this thread belong to this private key');
+  process.exit(1);
+}
+
+let failures = 0;
+console.log('─'.repeat(60));
+for (const message of thread.messages) {
+  const from = message.sender === 'REPORTER' ? 'Reporter' : `Officer ${message.officerId ?? ''}`.trim();
+  try {
+    const text = decryptFollowUpMessage(threadKey, thread.reportId, message.sender, message);
+    console.log(`[${message.createdAt}] ${from}:\n${text}\n`);
+  } catch {
+    failures++;
+    console.log(`[${message.createdAt}] ${from}: ✗ could not be decrypted (altered or not for this thread)\n`);
+  }
+}
+if (thread.messages.length === 0) console.log('(no messages yet)');
+console.log('─'.repeat(60));
+
+if (reply) {
+  console.log(`[FollowUp] POST /api/followups/${thread.reportId}/messages with:`);
+  console.log(JSON.stringify(encryptFollowUpMessage(threadKey, thread.reportId, 'OFFICER', reply)));
+}
+
+threadKey.fill(0);
+process.exitCode = failures > 0 ? 1 : 0;
@@ -0,0 +1,54 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * CLI — Grant a Role
+ * ============================================================
+ *
+ * USAGE:
+ *   npm run users:grant-role -- admin@example.org ADMIN
+ *   npm run users:grant-role -- 9876543210 OFFICER "Park Street Police Station"
+ *
+ * Looks the account up by email or verified phone number and sets
+ * its role (CITIZEN, OFFICER, SUPERVISOR or ADMIN). Officers and
+ * supervisors need the authority they work for. Used to create the
+ * first admin; after that, admins use PATCH /api/users/:id/role.
+ * Recorded in audit_log as ROLE_CHANGED by ADMIN_CLI.
+ */
+
+import dotenv from 'dotenv';
+import {
+  initDatabase, getUserByEmail, getUserByVerifiedPhone, updateUserRole, logAudit,
+} from '../services/DatabaseService.js';
+import { ROLES, isRole, isAuthorityScoped } from '../services/AccessControl.js';
+import { normalizeIndianMobile } from '../services/OtpService.js';
+
+dotenv.config();
+
+const [account, role, authority] = process.argv.slice(2);
+if (!account || !isRole(role)) {
+  console.error(`Usage: npm run users:grant-role -- <email|phone> <${ROLES.join('|')}> ["<authority>"]`);
+  process.exit(2);
+}
+if (isAuthorityScoped(role) && !authority) {
+  console.error(`[Users] ${role} accounts must belong to an authority`);
+  process.exit(2);
+}
+
+initDatabase();
+
+const phone = account.includes('@') ? null : normalizeIndianMobile(account);
+const user = account.includes('@') ? getUserByEmail(account.toLowerCase()) : phone && getUserByVerifiedPhone(phone);
+if (!user) {
+  console.error(`[Users] No account found for ${account}`);
+  process.exit(1);
+}
+
+const scopedAuthority = isAuthorityScoped(role) ? authority : null;
+updateUserRole(user.id, role, scopedAuthority);
+logAudit({
+  event_type: 'ROLE_CHANGED',
+  actor: 'ADMIN_CLI',
+  details: `User ${user.id}: ${user.role}${user.authority ? ` (${user.authority})` : ''} → ${role}${scopedAuthority ? ` (${scopedAuthority})` : ''}`,
+});
+
+console.log(`[Users] ${user.name} (${user.email ?? user.phone}) is now ${role}${scopedAuthority ? ` at ${scopedAuthority}` : ''}`);
@@ -0,0 +1,76 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * CLI — Seed a Node from a Chain Bundle
+ * ============================================================
+ *
+ * USAGE:
+ *   npm run chain:import -- bundle.chain.json
+ *
+ * Stands up a node (an auditor's copy, a restore after disk loss)
+ * from an exported bundle. Only an empty ledger can be seeded —
+ * this never merges into or overwrites an existing chain.
+ *
+ * STEPS:
+ *   1. verifyChainBundle — manifest signature, keys, every block
+ *   2. Blockchain.loadChain with the bundle's keys as verifier
+ *   3. Blocks written in one transaction (CHAIN_IMPORTED audit entry)
+ *   4. Bundle keys added to the local key ring as retired keys, so
+ *      the server keeps verifying the imported blocks on startup
+ *
+ * Report rows are not part of a bundle; the imported node serves the
+ * ledger (explorer, verification) but has no report details.
+ * Stop the server before importing.
+ */
+
+import dotenv from 'dotenv';
+import fs from 'fs';
+import { initDatabase, blockStore, importBlocks } from '../services/DatabaseService.js';
+import { blockchain } from '../blockchain/BlockchainService.js';
+import { keyRing } from '../blockchain/KeyRing.js';
+import { verifyChainBundle, ChainBundle } from '../blockchain/ChainBundle.js';
+import { PeerKeySet } from '../blockchain/replication/PeerKeySet.js';
+
+dotenv.config();
+
+const file = process.argv[2];
+if (!file) {
+  console.error('Usage: npm run chain:import -- <bundle.chain.json>');
+  process.exit(2);
+}
+
+const bundle = JSON.parse(fs.readFileSync(file, 'utf8')) as ChainBundle;
+const verification = verifyChainBundle(bundle);
+if (!verification.valid || !verification.manifest) {
+  console.error('[Import] Bundle does not verify:');
+  verification.problems.forEach(p => console.error(`[Import]   ${p}`));
+  verification.inspection.issues.forEach(i => console.error(`[Import]   Block ${i.index}: ${i.kind} — ${i.detail}`));
+  process.exit(1);
+}
+const manifest = verification.manifest;
+
+initDatabase();
+const storedBlocks = blockStore.count();
+if (storedBlocks > 1) {
+  console.error(`[Import] This node already has ${storedBlocks} blocks. Only an empty ledger can be seeded from a bundle.`);
+  process.exit(1);
+}
+
+// Load through the same path as a stored chain, verified by the bundle's own keys
+blockchain.setSigner(new PeerKeySet(bundle.keys, manifest.signedFromIndex));
+if (!blockchain.loadChain(bundle.blocks)) {
+  console.error('[Import] Chain was rejected by loadChain. Nothing was written.');
+  process.exit(1);
+}
+
+const added = importBlocks(
+  blockchain.getChain(),
+  `Imported ${manifest.length} blocks from ${manifest.nodeId} (head ${manifest.headHash}, exported ${manifest.exportedAt})`
+);
+
+keyRing.load();
+const importedKeys = keyRing.importPublicKeys(bundle.keys, manifest.signedFromIndex);
+
+console.log(`[Import] ✓ ${added} blocks imported from ${manifest.nodeId} (head ${manifest.headHash})`);
+console.log(`[Import] ✓ Verification keys added: ${importedKeys.join(', ') || 'none (already known)'}`);
+console.log(`[Import] New blocks will be signed with this node's key ${keyRing.getActiveKeyId()}.`);
@@ -0,0 +1,27 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * CLI — Rotate the Block Signing Key
+ * ============================================================
+ *
+ * USAGE:
+ *   npm run keys:rotate
+ *
+ * Creates a new Ed25519 key in SIGNING_KEYS_DIR and makes it the
+ * active signer. Older keys stay in the ring for verification.
+ * Restart the server afterwards to pick up the new key.
+ */
+
+import dotenv from 'dotenv';
+import { KeyRing } from '../blockchain/KeyRing.js';
+
+dotenv.config();
+
+const ring = new KeyRing();
+ring.load();
+
+const previousKeyId = ring.getActiveKeyId();
+const newKeyId = ring.rotate();
+
+console.log(`[KeyRing] Rotated signing key: ${previousKeyId} → ${newKeyId}`);
+console.log('[KeyRing] Restart the server to start signing with the new key.');
@@ -0,0 +1,44 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * CLI — Read a Sealed Report Description
+ * ============================================================
+ *
+ * USAGE:
+ *   curl -H "Authorization: Bearer $TOKEN" "$API/api/reports/<id>/description" > envelope.json
+ *   npm run vault:decrypt -- envelope.json <keyId>.vault-key.pem
+ *
+ * Opens the envelope with the authority's private key and checks the
+ * text against descriptionHash (the value recorded on-chain). Needs
+ * no database or network. Exits with code 1 if the text does not
+ * match the hash.
+ */
+
+import fs from 'fs';
+import { openDescriptionEnvelope, DescriptionEnvelope } from '../services/DescriptionVault.js';
+
+const [envelopePath, keyPath] = process.argv.slice(2);
+if (!envelopePath || !keyPath) {
+  console.error('Usage: npm run vault:decrypt -- <envelope.json> <private-key.pem>');
+  process.exit(2);
+}
+
+// Accept the raw API response as well as its data field
+const parsed = JSON.parse(fs.readFileSync(envelopePath, 'utf8'));
+const envelope = (parsed.data ?? parsed) as DescriptionEnvelope;
+
+try {
+  const { description, hashMatches } = openDescriptionEnvelope(envelope, fs.readFileSync(keyPath, 'utf8'));
+
+  console.log(`[Vault] Report ${envelope.reportId} (key ${envelope.grant.keyId})`);
+  console.log('─'.repeat(60));
+  console.log(description);
+  console.log('─'.repeat(60));
+  console.log(hashMatches
+    ? `[Vault] ✓ Matches descriptionHash ${envelope.descriptionHash}`
+    : `[Vault] ✗ Does NOT match descriptionHash ${envelope.descriptionHash}`);
+  process.exitCode = hashMatches ? 0 : 1;
+} catch (error) {
+  console.error(`[Vault] Cannot open envelope: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+}
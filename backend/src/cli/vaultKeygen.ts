@@ -0,0 +1,35 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * CLI — Create an Authority Vault Key
+ * ============================================================
+ *
+ * USAGE:
+ *   npm run vault:keygen -- "Park Street Police Station" [outDir]
+ *
+ * Run on the authority's own machine. Writes the P-256 private key
+ * to <outDir>/<keyId>.vault-key.pem (mode 600) and prints the JSON
+ * body to POST to /api/authorities/keys. Needs no database; the
+ * private key never has to leave this machine.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { generateAuthorityKeyPair } from '../services/DescriptionVault.js';
+
+const [authority, outDir = '.'] = process.argv.slice(2);
+if (!authority) {
+  console.error('Usage: npm run vault:keygen -- "<authority name>" [outDir]');
+  process.exit(2);
+}
+
+const { keyId, publicKeyPem, privateKeyPem } = generateAuthorityKeyPair();
+const keyPath = path.join(outDir, `${keyId}.vault-key.pem`);
+
+fs.mkdirSync(outDir, { recursive: true });
+fs.writeFileSync(keyPath, privateKeyPem, { mode: 0o600 });
+
+console.log(`[Vault] Key ${keyId} for ${authority}`);
+console.log(`[Vault] Private key → ${keyPath} (keep it secret; it cannot be recovered)`);
+console.log('[Vault] Register the public key with POST /api/authorities/keys:');
+console.log(JSON.stringify({ authority, publicKeyPem }, null, 2));
@@ -0,0 +1,77 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * CLI — Verify a Chain Bundle Offline
+ * ============================================================
+ *
+ * USAGE:
+ *   npm run chain:verify-bundle -- bundle.chain.json
+ *   npm run chain:verify-bundle -- bundle.chain.json --trust-key <keyId>   # pin a signer
+ *   npm run chain:verify-bundle -- bundle.chain.json --json
+ *
+ * For courts, auditors and RTI applicants. Needs no database, no
+ * network and no .env: it recomputes every block hash with the same
+ * code the server uses and checks every signature against the keys
+ * in the bundle. Pass --trust-key with a key ID obtained from
+ * JAAGRUK directly (e.g. GET /api/reports/blockchain/keys, or a
+ * published notice) so a bundle re-signed with someone else's key
+ * is rejected. Exits with code 1 if the bundle does not verify.
+ */
+
+import fs from 'fs';
+import { verifyChainBundle, ChainBundle } from '../blockchain/ChainBundle.js';
+
+const args = process.argv.slice(2);
+const file = args.find((arg, i) => !arg.startsWith('--') && args[i - 1] !== '--trust-key');
+const trustedKeys = args.filter((_, i) => args[i - 1] === '--trust-key');
+
+if (!file) {
+  console.error('Usage: npm run chain:verify-bundle -- <bundle.chain.json> [--trust-key <keyId>] [--json]');
+  process.exit(2);
+}
+
+let bundle: ChainBundle;
+try {
+  bundle = JSON.parse(fs.readFileSync(file, 'utf8')) as ChainBundle;
+} catch (error) {
+  console.error(`[Verify] Cannot read ${file}: ${error instanceof Error ? error.message : error}`);
+  process.exit(2);
+}
+
+const result = verifyChainBundle(bundle);
+
+// A bundle only proves who signed it; pinning says who that must be
+if (trustedKeys.length > 0) {
+  const signers = new Set([bundle.manifest?.keyId, ...(bundle.blocks ?? []).map(b => b.signature?.keyId)]);
+  const untrusted = [...signers].filter((keyId): keyId is string => !!keyId && !trustedKeys.includes(keyId));
+  if (untrusted.length > 0) {
+    result.problems.push(`Signed with key(s) not passed to --trust-key: ${untrusted.join(', ')}`);
+    result.valid = false;
+  }
+}
+
+if (args.includes('--json')) {
+  console.log(JSON.stringify(result, null, 2));
+} else {
+  const manifest = result.manifest;
+  if (manifest) {
+    console.log(`[Verify] Bundle from ${manifest.nodeId}, exported ${manifest.exportedAt}`);
+    console.log(`[Verify] ${manifest.length} blocks, head ${manifest.headHash}`);
+    console.log(`[Verify] Merkle root ${manifest.merkleRoot}`);
+  }
+  console.log(`[Verify] Keys: ${(bundle.keys ?? []).map(k => k.keyId).join(', ') || 'none'}`);
+  console.log(`[Verify] Manifest signed by: ${result.signedBy ?? 'NOT VERIFIED'}`);
+
+  for (const problem of result.problems) {
+    console.log(`[Verify]   ${problem}`);
+  }
+  for (const issue of result.inspection.issues) {
+    console.log(`[Verify]   Block ${issue.index}: ${issue.kind} — ${issue.detail}`);
+  }
+
+  console.log(result.valid
+    ? `[Verify] ✓ Bundle verified: ${result.inspection.blocksScanned} blocks intact.`
+    : '[Verify] ✗ Bundle does NOT verify.');
+}
+
+process.exitCode = result.valid ? 0 : 1;
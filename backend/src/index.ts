@@ -7,7 +7,12 @@
  * Starts the REST API server with:
  * - Security middleware (helmet, cors, rate limiting)
  * - SQLite database initialization
+ * - Access token secret & SMS provider configuration
  * - Blockchain state restoration from persistence
+ * - Reconciliation of report rows against the ledger
+ * - Periodic checkpoint anchoring to external witnesses
+ * - Chain replication with peer nodes
+ * - SLA deadline scans and automatic escalation
  * - Route mounting
  * - Error handling
  *
@@ -23,12 +28,31 @@ import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
-import { initDatabase, loadBlockchainState, logAudit } from './services/DatabaseService.js';
+import { initDatabase, blockStore, logAudit } from './services/DatabaseService.js';
 import { blockchain } from './blockchain/BlockchainService.js';
+import { keyRing } from './blockchain/KeyRing.js';
+import { miningQueue } from './blockchain/MiningQueue.js';
+import { chainForensics } from './blockchain/ChainForensics.js';
+import { reportReconciler } from './blockchain/ReportReconciler.js';
+import { anchorService, createWitnessesFromEnv } from './blockchain/anchoring/AnchorService.js';
+import { replicationService, parsePeerUrls } from './blockchain/replication/ReplicationService.js';
+import { tokenService } from './services/TokenService.js';
+import { otpService, createSmsProviderFromEnv } from './services/OtpService.js';
+import { slaMonitor } from './services/SlaMonitor.js';
+import { backfillStatusHistory } from './services/ReportLifecycle.js';
 import reportsRouter from './routes/reports.js';
 import authRouter from './routes/auth.js';
 import filesRouter from './routes/files.js';
+import authoritiesRouter from './routes/authorities.js';
 import locationRouter from './routes/location.js';
+import anchorsRouter from './routes/anchors.js';
+import replicationRouter from './routes/replication.js';
+import explorerRouter from './routes/explorer.js';
+import usersRouter from './routes/users.js';
+import meRouter from './routes/me.js';
+import followUpsRouter from './routes/followUps.js';
+import casesRouter from './routes/cases.js';
+import slaRouter from './routes/sla.js';
 
 dotenv.config();
 
@@ -50,7 +74,7 @@ app.use(helmet({
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   methods: ['GET', 'POST', 'PATCH', 'DELETE'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Report-Claims', 'X-Follow-Up-Key'],
   credentials: true,
 }));
 
@@ -64,6 +88,8 @@ const reportLimiter = rateLimit({
   },
   standardHeaders: true,
   legacyHeaders: false,
+  // Reads (receipt polling, verification) fall under the general limit only
+  skip: (req) => req.method === 'GET',
 });
 
 const generalLimiter = rateLimit({
@@ -71,6 +97,15 @@ const generalLimiter = rateLimit({
   max: 100,
   standardHeaders: true,
   legacyHeaders: false,
+  // Peer nodes sync continuously; they have their own limit below
+  skip: (req) => req.path.startsWith('/api/replication'),
+});
+
+const replicationLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 2000,
+  standardHeaders: true,
+  legacyHeaders: false,
 });
 
 app.use(generalLimiter);
@@ -100,6 +135,33 @@ app.use('/api/files', filesRouter);
 // Location routes
 app.use('/api/location', locationRouter);
 
+// Public block explorer
+app.use('/api/blockchain', explorerRouter);
+
+// Authority vault keys for sealed descriptions
+app.use('/api/authorities', authoritiesRouter);
+
+// External anchoring & peer witnessing
+app.use('/api/anchors', anchorsRouter);
+
+// Peer-to-peer chain replication
+app.use('/api/replication', replicationLimiter, replicationRouter);
+
+// Staff roles (admin)
+app.use('/api/users', usersRouter);
+
+// The caller's own reports
+app.use('/api/me', meRouter);
+
+// Anonymous follow-up channels (end-to-end encrypted)
+app.use('/api/followups', followUpsRouter);
+
+// Authority case management (acknowledge, assign, notes, transfer)
+app.use('/api/cases', casesRouter);
+
+// SLA policies, escalation paths and missed deadlines
+app.use('/api/sla', slaRouter);
+
 // Health check endpoint
 app.get('/api/health', (_req, res) => {
   res.json({
@@ -141,21 +203,40 @@ async function start() {
     initDatabase();
     console.log('[Startup] ✓ Database initialized');
 
-    // 2. Restore blockchain from database
-    const savedChain = loadBlockchainState();
-    if (savedChain && savedChain.length > 1) {
-      const loaded = blockchain.loadChain(savedChain);
-      if (loaded) {
-        console.log(`[Startup] ✓ Blockchain restored: ${savedChain.length} blocks`);
+    // 2. Load block signing keys
+    keyRing.load();
+    blockchain.setSigner(keyRing);
+    console.log(`[Startup] ✓ Signing key loaded: ${keyRing.getActiveKeyId()}`);
+
+    // 3. Login: access token secret (throws in production without JWT_SECRET), SMS for OTP codes
+    tokenService.configure();
+    otpService.setProvider(createSmsProviderFromEnv());
+    console.log(`[Startup] ✓ Phone login codes via: ${otpService.getProviderName()}`);
+
+    // 4. Restore blockchain from the blocks table
+    const storedBlocks = blockStore.count();
+    const restored = blockchain.attachStore(blockStore);
+    if (restored) {
+      // Every block from here on must carry a signature
+      keyRing.ensureSignedFrom(blockchain.getLength());
+      if (storedBlocks > 1) {
+        console.log(`[Startup] ✓ Blockchain restored: ${blockchain.getLength()} blocks`);
       } else {
-        console.warn('[Startup] ⚠ Blockchain restore failed — starting fresh');
+        console.log('[Startup] ✓ Blockchain initialized with genesis block');
       }
     } else {
-      console.log('[Startup] ✓ Blockchain initialized with genesis block');
+      // Stored rows are left untouched as evidence; new blocks stay in memory only
+      console.warn('[Startup] ⚠ Blockchain restore failed — running on in-memory chain, ledger rows left untouched');
     }
 
-    // 3. Verify chain integrity on startup
-    const isValid = blockchain.isChainValid();
+    // 5. Resume mining jobs left unfinished by the previous run
+    const resumed = miningQueue.resume();
+    if (resumed > 0) {
+      console.log(`[Startup] ✓ Resumed ${resumed} unsettled mining job(s)`);
+    }
+
+    // 6. Verify chain integrity, then reconcile report rows with it
+    const isValid = restored && blockchain.isChainValid();
     if (!isValid) {
       console.error('[Startup] ⚠ CRITICAL: Blockchain integrity check FAILED on startup!');
       logAudit({
@@ -163,11 +244,51 @@ async function start() {
         actor: 'SYSTEM',
         details: 'Integrity check failed on server startup',
       });
+
+      // Record exactly what is broken as a TAMPER_INCIDENT
+      const incident = chainForensics.investigate();
+      console.error(
+        `[Startup] ⚠ Forensics incident ${incident.incidentId}: ${incident.issues.length} block issue(s), ` +
+        `${incident.reportMismatches.length} mismatched report(s) — run \`npm run chain:forensics\` for details`
+      );
     } else {
       console.log('[Startup] ✓ Blockchain integrity verified');
+
+      // Report rows must agree with the (now verified) ledger
+      const reconciliation = reportReconciler.reconcile({ quarantine: true });
+      if (reconciliation.drifted.length > 0) {
+        console.warn(`[Startup] ⚠ ${reconciliation.drifted.length} report row(s) drifted from the ledger and were quarantined`);
+      } else {
+        console.log(`[Startup] ✓ ${reconciliation.consistent} report row(s) match the ledger`);
+      }
+
+      // Reports filed before status history was kept get theirs from the ledger
+      const backfilled = backfillStatusHistory();
+      if (backfilled > 0) {
+        console.log(`[Startup] ✓ Status history rebuilt from the ledger for ${backfilled} report(s)`);
+      }
+    }
+
+    // 7. Publish checkpoints to external witnesses
+    anchorService.setWitnesses(createWitnessesFromEnv());
+    if (isValid) {
+      anchorService.start();
+      console.log(`[Startup] ✓ Anchoring to: ${anchorService.getWitnessNames().join(', ') || 'none'}`);
     }
 
-    // 4. Start server
+    // 8. Mirror peer nodes and gossip new blocks to them
+    const peerUrls = parsePeerUrls(process.env.REPLICATION_PEERS);
+    replicationService.configure(peerUrls);
+    replicationService.start();
+    if (peerUrls.length > 0) {
+      console.log(`[Startup] ✓ Replicating with ${peerUrls.length} peer(s) as ${replicationService.getNodeInfo().nodeId}`);
+    }
+
+    // 9. Escalate cases that miss their SLA deadlines
+    slaMonitor.start();
+    console.log('[Startup] ✓ SLA deadlines monitored');
+
+    // 10. Start server
     app.listen(PORT, () => {
       console.log('');
       console.log('╔═══════════════════════════════════════╗');
@@ -0,0 +1,196 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Anchors Router — External Checkpoint Anchoring
+ * ============================================================
+ *
+ * ENDPOINTS:
+ * GET    /api/anchors              → Checkpoints this node has anchored
+ * POST   /api/anchors              → Anchor the current chain head now (admin)
+ * GET    /api/anchors/verify       → Compare chain against witnessed checkpoints
+ * POST   /api/anchors/witness      → Accept a checkpoint signed by a replication peer
+ * GET    /api/anchors/witness?nodeId= → Checkpoints held for another node
+ *
+ * A node only witnesses checkpoints of its replication peers, whose
+ * signing keys it knows (see REPLICATION_PEERS).
+ */
+
+import { Router, Request, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+
+import { anchorService } from '../blockchain/anchoring/AnchorService.js';
+import { requirePermission, getPrincipal } from './auth.js';
+import { Checkpoint, checkpointReceipt, isWellFormedCheckpoint } from '../blockchain/anchoring/Witness.js';
+import { replicationService } from '../blockchain/replication/ReplicationService.js';
+import {
+  getAnchors,
+  insertWitnessedCheckpoint,
+  getWitnessedCheckpoints,
+  logAudit,
+} from '../services/DatabaseService.js';
+
+const router = Router();
+
+// ─── GET /api/anchors — Anchor History ──────────────────────
+
+router.get('/', (_req: Request, res: Response) => {
+  try {
+    const anchors = getAnchors().map(a => ({
+      id: a.id,
+      witness: a.witness,
+      blockIndex: a.block_index,
+      blockHash: a.block_hash,
+      treeSize: a.tree_size,
+      merkleRoot: a.merkle_root,
+      receipt: JSON.parse(a.receipt_json),
+      anchoredAt: new Date(a.anchored_at * 1000).toISOString(),
+    }));
+
+    return res.json({
+      success: true,
+      witnesses: anchorService.getWitnessNames(),
+      count: anchors.length,
+      data: anchors,
+    });
+  } catch (error) {
+    console.error('[Anchors] List error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch anchors.' });
+  }
+});
+
+// ─── POST /api/anchors — Anchor Now ─────────────────────────
+
+router.post('/', requirePermission('anchors:publish'), [
+  body('force').optional().isBoolean().withMessage('force must be a boolean'),
+], async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const result = await anchorService.anchorNow(req.body.force === true);
+
+    if (!result.skipped) {
+      logAudit({
+        event_type: 'CHAIN_ANCHORED',
+        actor: getPrincipal(req)!.userId,
+        details: `Block #${result.checkpoint.blockIndex} anchored with ${result.anchored.length} witness(es), ${result.failed.length} failed`,
+        ip_address: req.ip,
+      });
+    }
+
+    return res.json({
+      success: result.failed.length === 0,
+      message: result.skipped
+        ? 'Chain head unchanged since the last anchor. Nothing to do.'
+        : `Checkpoint anchored with ${result.anchored.length} witness(es).`,
+      data: result,
+    });
+  } catch (error) {
+    console.error('[Anchors] Anchor error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to anchor checkpoint.' });
+  }
+});
+
+// ─── GET /api/anchors/verify — Divergence Check ─────────────
+
+router.get('/verify', async (req: Request, res: Response) => {
+  try {
+    const report = await anchorService.checkDivergence();
+
+    if (report.divergences.length > 0) {
+      logAudit({
+        event_type: 'CHAIN_DIVERGENCE_DETECTED',
+        details: `${report.divergences.length} witnessed checkpoint(s) no longer match the chain`,
+        ip_address: req.ip,
+      });
+    }
+
+    return res.json({
+      success: true,
+      status: report.consistent ? 'CONSISTENT' : report.divergences.length > 0 ? 'DIVERGED' : 'INCOMPLETE',
+      message: report.divergences.length > 0
+        ? 'WARNING: The chain no longer matches checkpoints published to witnesses. History may have been rewritten.'
+        : report.consistent
+          ? 'Chain matches every checkpoint held by the witnesses.'
+          : 'No divergence found, but some witnesses could not be reached.',
+      data: report,
+    });
+  } catch (error) {
+    console.error('[Anchors] Verify error:', error);
+    return res.status(500).json({ success: false, message: 'Divergence check failed.' });
+  }
+});
+
+// ─── POST /api/anchors/witness — Witness a Peer Checkpoint ──
+
+router.post('/witness', [
+  body('nodeId').notEmpty().withMessage('nodeId is required'),
+  body('blockIndex').isInt({ min: 0 }).withMessage('blockIndex must be a non-negative integer'),
+  body('blockHash').matches(/^[0-9a-f]{64}$/).withMessage('blockHash must be a SHA-256 hex digest'),
+  body('treeSize').isInt({ min: 1 }).withMessage('treeSize must be a positive integer'),
+  body('merkleRoot').matches(/^[0-9a-f]{64}$/).withMessage('merkleRoot must be a SHA-256 hex digest'),
+  body('createdAt').isISO8601().withMessage('createdAt must be an ISO 8601 timestamp'),
+  body('signature.keyId').notEmpty().withMessage('signature.keyId is required'),
+  body('signature.value').isBase64().withMessage('signature.value must be a base64 signature'),
+], async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const checkpoint: Checkpoint = {
+      nodeId: req.body.nodeId,
+      blockIndex: req.body.blockIndex,
+      blockHash: req.body.blockHash,
+      treeSize: req.body.treeSize,
+      merkleRoot: req.body.merkleRoot,
+      createdAt: req.body.createdAt,
+      signature: { keyId: req.body.signature.keyId, value: req.body.signature.value },
+    };
+    if (!isWellFormedCheckpoint(checkpoint)) {
+      return res.status(400).json({ success: false, message: 'treeSize must be blockIndex + 1.' });
+    }
+
+    // Anyone can POST here. Only checkpoints the node really signed are
+    // kept, so nobody can get a node flagged as rewritten by forging one.
+    const verification = await replicationService.verifyPeerReceipt(checkpoint.nodeId, checkpointReceipt(checkpoint)!);
+    if (verification === 'UNKNOWN_PEER') {
+      return res.status(403).json({ success: false, message: `${checkpoint.nodeId} is not a replication peer of this node.` });
+    }
+    if (verification === 'UNAUTHENTIC') {
+      return res.status(401).json({ success: false, message: `Checkpoint is not signed by ${checkpoint.nodeId}.` });
+    }
+
+    const { id } = insertWitnessedCheckpoint(checkpoint, req.ip);
+
+    return res.status(201).json({
+      success: true,
+      message: `Checkpoint for ${checkpoint.nodeId} witnessed.`,
+      data: { id, receivedAt: new Date().toISOString() },
+    });
+  } catch (error) {
+    console.error('[Anchors] Witness error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to store checkpoint.' });
+  }
+});
+
+// ─── GET /api/anchors/witness — Checkpoints Held for a Node ─
+
+router.get('/witness', [
+  query('nodeId').notEmpty().withMessage('nodeId query parameter is required'),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  return res.json({
+    success: true,
+    data: getWitnessedCheckpoints(String(req.query.nodeId)),
+  });
+});
+
+export default router;
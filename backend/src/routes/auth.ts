@@ -7,77 +7,154 @@
  * ENDPOINTS:
  * POST   /api/auth/signup     → Create new user account
  * POST   /api/auth/login      → Login with email/password
+ * POST   /api/auth/otp/request → Text a login code to a phone number
+ * POST   /api/auth/otp/verify → Log in (or register) with the code
+ * POST   /api/auth/refresh    → Trade a refresh token for a new token pair
+ * POST   /api/auth/logout     → Revoke the current session
  * GET    /api/auth/profile    → Get current user profile
  * PATCH  /api/auth/profile    → Update user profile
+ *
+ * Signup and both logins return a short-lived access token (JWT, sent as
+ * `Authorization: Bearer`) and a refresh token. See TokenService.
  */
 
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { body, validationResult } from 'express-validator';
-import CryptoJS from 'crypto-js';
-import { logAudit, insertUser, getUserByEmail, getUserById, updateUser } from '../services/DatabaseService.js';
+import { tokenService } from '../services/TokenService.js';
+import { hashPassword, verifyPassword, verifyAgainstDummy, checkPasswordPolicy } from '../services/PasswordService.js';
+import { otpService, normalizeIndianMobile } from '../services/OtpService.js';
+import { Principal, Permission, hasPermission } from '../services/AccessControl.js';
+import {
+  logAudit, insertUser, getUserByEmail, getUserById, updateUser, updateUserPasswordHash,
+  getUserByVerifiedPhone, insertPhoneUser, UserRecord,
+} from '../services/DatabaseService.js';
 
 const router = Router();
 
-// Simple JWT-like token generation (for demo purposes)
-const SECRET = process.env.JWT_SECRET || 'jaagruk-secret-key-2024';
+// ─── Middleware ──────────────────────────────────────────────
+
+/**
+ * Resolves the bearer token to the caller: undefined if no token was
+ * sent, null if it is invalid, expired or its session was revoked.
+ */
+function authenticateRequest(req: Request): { principal: Principal; sessionId: string } | null | undefined {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return undefined;
+
+  const session = tokenService.authenticate(authHeader.slice(7));
+  const user = session ? getUserById(session.userId) : null;
+  if (!session || !user) return null;
 
-function generateToken(userId: string): string {
-  const payload = {
-    userId,
-    iat: Date.now(),
-    exp: Date.now() + 7 * 24 * 60 * 60 * 1000, // 7 days
+  return {
+    principal: { userId: user.id, role: user.role, authority: user.authority },
+    sessionId: session.sessionId,
   };
-  const encoded = CryptoJS.AES.encrypt(JSON.stringify(payload), SECRET).toString();
-  return encoded;
 }
 
-function verifyToken(token: string): { userId: string } | null {
-  try {
-    const bytes = CryptoJS.AES.decrypt(token, SECRET);
-    const decrypted = bytes.toString(CryptoJS.enc.Utf8);
-    const payload = JSON.parse(decrypted);
-    if (payload.exp < Date.now()) return null;
-    return { userId: payload.userId };
-  } catch {
-    return null;
-  }
+function attachCaller(req: Request, caller: { principal: Principal; sessionId: string }): void {
+  (req as any).principal = caller.principal;
+  (req as any).userId = caller.principal.userId;
+  (req as any).sessionId = caller.sessionId;
 }
 
-function hashPassword(password: string): string {
-  return CryptoJS.SHA256(password + SECRET).toString();
+export function getPrincipal(req: Request): Principal | undefined {
+  return (req as any).principal;
 }
 
-// Auth middleware
+// Auth middleware — a valid access token whose session is still live
 export function authMiddleware(req: Request, res: Response, next: () => void) {
-  const authHeader = req.headers.authorization;
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+  const caller = authenticateRequest(req);
+  if (caller === undefined) {
     return res.status(401).json({ success: false, message: 'Authentication required' });
   }
-  
-  const token = authHeader.slice(7);
-  const payload = verifyToken(token);
-  
-  if (!payload) {
+  if (caller === null) {
     return res.status(401).json({ success: false, message: 'Invalid or expired token' });
   }
-  
-  (req as any).userId = payload.userId;
+
+  attachCaller(req, caller);
   next();
 }
 
+// Anonymous callers pass through; a token that was sent must be valid
+export function optionalAuth(req: Request, res: Response, next: () => void) {
+  const caller = authenticateRequest(req);
+  if (caller === null) {
+    return res.status(401).json({ success: false, message: 'Invalid or expired token' });
+  }
+
+  if (caller) attachCaller(req, caller);
+  next();
+}
+
+/**
+ * Authenticates, then requires the caller's role to grant a
+ * permission. Report-level scoping is up to the route
+ * (canAccessReport).
+ */
+export function requirePermission(permission: Permission) {
+  return [
+    authMiddleware,
+    (req: Request, res: Response, next: () => void) => {
+      const principal = getPrincipal(req)!;
+      if (!hasPermission(principal.role, permission)) {
+        logAudit({
+          event_type: 'ACCESS_DENIED',
+          actor: principal.userId,
+          details: `${principal.role} lacks ${permission}: ${req.method} ${req.originalUrl}`,
+          ip_address: req.ip,
+        });
+        return res.status(403).json({ success: false, message: 'You do not have permission to do this.' });
+      }
+      next();
+    },
+  ];
+}
+
+function clientInfo(req: Request) {
+  return { userAgent: req.get('user-agent'), ipAddress: req.ip };
+}
+
+function publicUser(user: UserRecord) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    phone: user.phone,
+    role: user.role,
+    authority: user.authority,
+    verified: Boolean(user.verified),
+    createdAt: new Date(user.created_at * 1000).toISOString(),
+  };
+}
+
 // ─── Validation ──────────────────────────────────────────────
 
 const validateSignup = [
   body('name').trim().notEmpty().withMessage('Name is required'),
   body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
   body('phone').notEmpty().withMessage('Phone number is required'),
-  body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
+  body('password').isString().withMessage('Password is required'),
 ];
 
 const validateLogin = [
   body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
-  body('password').notEmpty().withMessage('Password is required'),
+  body('password').isString().notEmpty().withMessage('Password is required'),
+];
+
+const validateOtpRequest = [
+  body('phone').isString().customSanitizer(normalizeIndianMobile).notEmpty()
+    .withMessage('A valid 10-digit Indian mobile number is required'),
+];
+
+const validateOtpVerify = [
+  ...validateOtpRequest,
+  body('code').isString().matches(/^\d{6}$/).withMessage('The code has 6 digits'),
+  body('name').optional().isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be 1–100 characters'),
+];
+
+const validateRefresh = [
+  body('refreshToken').isString().notEmpty().withMessage('refreshToken is required'),
 ];
 
 // ─── POST /api/auth/signup ───────────────────────────────────
@@ -91,6 +168,15 @@ router.post('/signup', validateSignup, async (req: Request, res: Response) => {
   try {
     const { name, email, phone, password } = req.body;
 
+    // Length, breached/common denylist, no personal details
+    const policyProblem = checkPasswordPolicy(password, { name, email, phone });
+    if (policyProblem) {
+      return res.status(400).json({
+        success: false,
+        message: policyProblem,
+      });
+    }
+
     // Check if user already exists
     const existingUser = getUserByEmail(email);
     if (existingUser) {
@@ -102,7 +188,7 @@ router.post('/signup', validateSignup, async (req: Request, res: Response) => {
 
     // Create new user
     const userId = uuidv4();
-    const passwordHash = hashPassword(password);
+    const passwordHash = await hashPassword(password);
 
     insertUser({
       id: userId,
@@ -113,7 +199,7 @@ router.post('/signup', validateSignup, async (req: Request, res: Response) => {
       verified: false,
     });
 
-    const token = generateToken(userId);
+    const tokens = tokenService.issueSession(userId, clientInfo(req));
 
     // Log the signup
     logAudit({
@@ -135,7 +221,7 @@ router.post('/signup', validateSignup, async (req: Request, res: Response) => {
           verified: false,
           createdAt: new Date().toISOString(),
         },
-        token,
+        ...tokens,
       },
     });
 
@@ -159,9 +245,10 @@ router.post('/login', validateLogin, async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
 
-    // Find user
+    // Find user (phone-OTP accounts have no password)
     const user = getUserByEmail(email);
-    if (!user) {
+    if (!user || !user.password_hash) {
+      await verifyAgainstDummy(password);
       return res.status(401).json({
         success: false,
         message: 'Invalid email or password',
@@ -169,15 +256,26 @@ router.post('/login', validateLogin, async (req: Request, res: Response) => {
     }
 
     // Verify password
-    const passwordHash = hashPassword(password);
-    if (user.password_hash !== passwordHash) {
+    const { valid, needsRehash } = await verifyPassword(password, user.password_hash);
+    if (!valid) {
       return res.status(401).json({
         success: false,
         message: 'Invalid email or password',
       });
     }
 
-    const token = generateToken(user.id);
+    // Legacy SHA-256 (or weaker scrypt) hash → replace it while we have the password
+    if (needsRehash) {
+      updateUserPasswordHash(user.id, await hashPassword(password));
+      logAudit({
+        event_type: 'PASSWORD_REHASHED',
+        actor: user.id,
+        details: 'Password hash upgraded to scrypt on login',
+        ip_address: req.ip,
+      });
+    }
+
+    const tokens = tokenService.issueSession(user.id, clientInfo(req));
 
     // Log the login
     logAudit({
@@ -191,15 +289,8 @@ router.post('/login', validateLogin, async (req: Request, res: Response) => {
       success: true,
       message: 'Logged in successfully',
       data: {
-        user: {
-          id: user.id,
-          name: user.name,
-          email: user.email,
-          phone: user.phone,
-          verified: Boolean(user.verified),
-          createdAt: new Date(user.created_at * 1000).toISOString(),
-        },
-        token,
+        user: publicUser(user),
+        ...tokens,
       },
     });
 
@@ -212,6 +303,217 @@ router.post('/login', validateLogin, async (req: Request, res: Response) => {
   }
 });
 
+// ─── POST /api/auth/otp/request ──────────────────────────────
+
+router.post('/otp/request', validateOtpRequest, async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, message: errors.array()[0].msg, errors: errors.array() });
+  }
+
+  try {
+    const phone: string = req.body.phone;
+    const outcome = await otpService.request(phone, req.ip);
+
+    if (outcome.status === 'RATE_LIMITED') {
+      res.setHeader('Retry-After', String(outcome.retryAfter));
+      return res.status(429).json({
+        success: false,
+        message: `Too many codes requested. Please try again in ${outcome.retryAfter} seconds.`,
+        retryAfter: outcome.retryAfter,
+      });
+    }
+    if (outcome.status === 'SEND_FAILED') {
+      return res.status(502).json({
+        success: false,
+        message: 'Could not send the code. Please try again shortly.',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Code sent',
+      data: { phone, expiresIn: outcome.expiresIn, resendIn: outcome.resendIn },
+    });
+
+  } catch (error) {
+    console.error('[Auth] OTP request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send code',
+    });
+  }
+});
+
+// ─── POST /api/auth/otp/verify ───────────────────────────────
+
+router.post('/otp/verify', validateOtpVerify, (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, message: errors.array()[0].msg, errors: errors.array() });
+  }
+
+  try {
+    const { phone, code, name } = req.body as { phone: string; code: string; name?: string };
+    const outcome = otpService.check(phone, code);
+
+    if (outcome.status !== 'VALID') {
+      const messages = {
+        NO_CODE: 'No code is pending for this number. Please request a new one.',
+        EXPIRED: 'This code has expired. Please request a new one.',
+        LOCKED: 'Too many wrong attempts. Please request a new code.',
+        WRONG_CODE: 'Incorrect code',
+      };
+      return res.status(outcome.status === 'LOCKED' ? 429 : 401).json({
+        success: false,
+        message: messages[outcome.status],
+        ...(outcome.status === 'WRONG_CODE' && { attemptsLeft: outcome.attemptsLeft }),
+      });
+    }
+
+    // A new number needs a name first; the code stays valid until then
+    let user = getUserByVerifiedPhone(phone);
+    if (!user && !name) {
+      return res.json({
+        success: true,
+        message: 'Phone verified. Tell us your name to finish signing up.',
+        data: { registrationRequired: true },
+      });
+    }
+
+    if (!otpService.consume(outcome.challenge)) {
+      return res.status(401).json({
+        success: false,
+        message: 'This code has already been used. Please request a new one.',
+      });
+    }
+
+    const isNewUser = !user;
+    if (!user) {
+      const userId = uuidv4();
+      insertPhoneUser({ id: userId, name: name!, phone });
+      user = getUserById(userId)!;
+    }
+
+    const tokens = tokenService.issueSession(user.id, clientInfo(req));
+
+    logAudit({
+      event_type: isNewUser ? 'USER_SIGNUP' : 'USER_LOGIN',
+      actor: user.id,
+      details: `${isNewUser ? 'New user registered' : 'User logged in'} with phone OTP (number ending ${phone.slice(-4)})`,
+      ip_address: req.ip,
+    });
+
+    res.status(isNewUser ? 201 : 200).json({
+      success: true,
+      message: isNewUser ? 'Account created successfully' : 'Logged in successfully',
+      data: {
+        user: publicUser(user),
+        ...tokens,
+      },
+    });
+
+  } catch (error) {
+    console.error('[Auth] OTP verify error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Verification failed',
+    });
+  }
+});
+
+// ─── POST /api/auth/refresh ──────────────────────────────────
+
+router.post('/refresh', validateRefresh, (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const outcome = tokenService.refresh(req.body.refreshToken);
+
+    if (outcome.status === 'REUSED') {
+      // A rotated-out token came back: whoever holds it is not the client that rotated it
+      logAudit({
+        event_type: 'SESSION_REVOKED',
+        actor: outcome.userId,
+        details: `Session ${outcome.sessionId} revoked: refresh token reused`,
+        ip_address: req.ip,
+      });
+      return res.status(401).json({
+        success: false,
+        message: 'This session has been signed out for your security. Please log in again.',
+      });
+    }
+
+    if (outcome.status !== 'ROTATED') {
+      return res.status(401).json({
+        success: false,
+        message: outcome.status === 'INVALID' ? 'Invalid refresh token' : 'Session has ended. Please log in again.',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Session refreshed',
+      data: outcome.tokens,
+    });
+
+  } catch (error) {
+    console.error('[Auth] Refresh error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to refresh session',
+    });
+  }
+});
+
+// ─── POST /api/auth/logout ───────────────────────────────────
+
+router.post('/logout', (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body ?? {};
+    const authHeader = req.headers.authorization;
+
+    // Either credential identifies the session to end
+    let session: { sessionId: string; userId: string } | null = null;
+    if (typeof refreshToken === 'string' && refreshToken) {
+      const record = tokenService.sessionForRefreshToken(refreshToken);
+      if (record) session = { sessionId: record.id, userId: record.user_id };
+    } else if (authHeader?.startsWith('Bearer ')) {
+      session = tokenService.authenticate(authHeader.slice(7));
+    } else {
+      return res.status(400).json({
+        success: false,
+        message: 'A refresh token or access token is required',
+      });
+    }
+
+    if (session && tokenService.revoke(session.sessionId, 'LOGOUT')) {
+      logAudit({
+        event_type: 'USER_LOGOUT',
+        actor: session.userId,
+        details: `Session ${session.sessionId} ended by logout`,
+        ip_address: req.ip,
+      });
+    }
+
+    // Logging out of a session that is already gone is not an error
+    res.json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+
+  } catch (error) {
+    console.error('[Auth] Logout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Logout failed',
+    });
+  }
+});
+
 // ─── GET /api/auth/profile ───────────────────────────────────
 
 router.get('/profile', authMiddleware, (req: Request, res: Response) => {
@@ -228,14 +530,7 @@ router.get('/profile', authMiddleware, (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      data: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        phone: user.phone,
-        verified: Boolean(user.verified),
-        createdAt: new Date(user.created_at * 1000).toISOString(),
-      },
+      data: publicUser(user),
     });
 
   } catch (error) {
@@ -262,6 +557,14 @@ router.patch('/profile', authMiddleware, (req: Request, res: Response) => {
       });
     }
 
+    // The phone number is the login of an OTP account
+    if (phone && user.phone_verified_at !== null && phone !== user.phone) {
+      return res.status(400).json({
+        success: false,
+        message: 'A verified phone number cannot be changed',
+      });
+    }
+
     updateUser(userId, { name, phone });
 
     res.json({
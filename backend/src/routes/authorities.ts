@@ -0,0 +1,89 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Authorities Router — Description Vault Keys
+ * ============================================================
+ *
+ * Each authority registers a P-256 public key (made with
+ * `npm run vault:keygen`). Descriptions of reports routed to it from
+ * then on are sealed to that key; the private key never reaches the
+ * server.
+ *
+ * ENDPOINTS:
+ * GET    /api/authorities/keys     → Registered vault keys (active and retired)
+ * POST   /api/authorities/keys     → Register / rotate an authority's key (admin)
+ */
+
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+
+import { authorityKeyId } from '../services/DescriptionVault.js';
+import { registerAuthorityKey, getAuthorityKeys, logAudit } from '../services/DatabaseService.js';
+import { requirePermission, getPrincipal } from './auth.js';
+
+const router = Router();
+
+// ─── GET /api/authorities/keys — Registered Keys ────────────
+
+router.get('/keys', (_req: Request, res: Response) => {
+  try {
+    const keys = getAuthorityKeys().map(k => ({
+      keyId: k.key_id,
+      authority: k.authority,
+      publicKeyPem: k.public_key_pem,
+      active: k.retired_at === null,
+      createdAt: new Date(k.created_at * 1000).toISOString(),
+      retiredAt: k.retired_at ? new Date(k.retired_at * 1000).toISOString() : null,
+    }));
+    return res.json({ success: true, count: keys.length, data: keys });
+  } catch (error) {
+    console.error('[Authorities] List keys error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch authority keys.' });
+  }
+});
+
+// ─── POST /api/authorities/keys — Register a Key ────────────
+
+router.post('/keys', requirePermission('authorities:manage-keys'), [
+  body('authority').isString().trim().notEmpty().withMessage('authority is required'),
+  body('publicKeyPem').isString().notEmpty().withMessage('publicKeyPem is required'),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  const { authority, publicKeyPem } = req.body as { authority: string; publicKeyPem: string };
+
+  let keyId: string;
+  try {
+    keyId = authorityKeyId(publicKeyPem);
+  } catch {
+    return res.status(400).json({ success: false, message: 'publicKeyPem must be a P-256 (prime256v1) public key in PEM format.' });
+  }
+
+  try {
+    const registered = registerAuthorityKey({ key_id: keyId, authority, public_key_pem: publicKeyPem });
+    if (!registered) {
+      return res.json({ success: true, message: 'This key is already registered.', data: { keyId, authority } });
+    }
+
+    logAudit({
+      event_type: 'AUTHORITY_KEY_REGISTERED',
+      actor: getPrincipal(req)!.userId,
+      details: `Vault key ${keyId} registered for ${authority}`,
+      ip_address: req.ip,
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: `Reports routed to ${authority} from now on are readable with key ${keyId}.`,
+      data: { keyId, authority },
+    });
+  } catch (error) {
+    console.error('[Authorities] Register key error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to register authority key.' });
+  }
+});
+
+export default router;
@@ -0,0 +1,360 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Cases Router — Authority Case Management
+ * ============================================================
+ *
+ * A case is one authority's handling of a report it was routed to.
+ * Officers acknowledge their cases and keep internal notes;
+ * supervisors assign them to officers and hand them to other
+ * authorities. Every action is written to the audit log.
+ *
+ * ENDPOINTS:
+ * GET    /api/cases/:reportId              → The report's cases, SLA deadlines, escalations and internal notes (officer of a routed authority, admin)
+ * POST   /api/cases/:reportId/acknowledge  → Acknowledge receipt of the case
+ * POST   /api/cases/:reportId/assign       → Assign an unassigned case to an officer (supervisor, admin)
+ * POST   /api/cases/:reportId/reassign     → Move an assigned case to another officer (supervisor, admin)
+ * POST   /api/cases/:reportId/notes        → Add an internal note
+ * POST   /api/cases/:reportId/transfer     → Hand the case to another authority (supervisor, admin)
+ *
+ * Officers and supervisors always act on their own authority's case;
+ * admins name it with `authority` in the request body.
+ */
+
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  getReportById, getUserById, getCases, getCase, acknowledgeCase, assignCase, transferCase, insertCaseNote,
+  getCaseNotes, isAuthorityRouted, isKnownAuthority, getDescriptionGrantAuthorities, getSlaEscalations, logAudit,
+  CaseRecord, CaseNoteRecord, UserRecord,
+} from '../services/DatabaseService.js';
+import { resolveSlaTerms, slaDueDates, escalationView } from '../services/SlaMonitor.js';
+import { canAccessReport, isAuthorityScoped } from '../services/AccessControl.js';
+import { requirePermission, getPrincipal } from './auth.js';
+
+const router = Router();
+
+const MAX_NOTE_LENGTH = 2000;
+const MAX_REASON_LENGTH = 500;
+
+const caseAuthority = body('authority').optional().isString().trim().notEmpty().withMessage('authority must name a routed authority');
+const reason = body('reason').trim().isLength({ min: 1, max: MAX_REASON_LENGTH })
+  .withMessage(`reason is required (at most ${MAX_REASON_LENGTH} characters)`);
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+/**
+ * The case the caller acts on, or null once an error response has
+ * been sent. Missing and out-of-scope cases both answer 404, like
+ * reports do.
+ */
+function resolveCase(req: Request, res: Response): CaseRecord | null {
+  const principal = getPrincipal(req)!;
+  const report = getReportById(req.params.reportId);
+  const notFound = () => {
+    res.status(404).json({ success: false, message: 'Case not found.' });
+    return null;
+  };
+
+  if (!report || !canAccessReport(principal, report.id)) return notFound();
+
+  if (!isAuthorityScoped(principal.role) && !req.body.authority) {
+    res.status(400).json({ success: false, message: 'Name the authority whose case this is (authority).' });
+    return null;
+  }
+  const authority = isAuthorityScoped(principal.role) ? principal.authority! : String(req.body.authority);
+
+  return getCase(report.id, authority) ?? notFound();
+}
+
+/**
+ * Officers and supervisors of the case's own authority can take it.
+ */
+function assignableOfficer(officerId: string, authority: string): UserRecord | null {
+  const user = getUserById(officerId);
+  return user && isAuthorityScoped(user.role) && user.authority === authority ? user : null;
+}
+
+function toIso(unixSeconds: number | null): string | null {
+  return unixSeconds == null ? null : new Date(unixSeconds * 1000).toISOString();
+}
+
+function caseView(record: CaseRecord) {
+  return {
+    authority: record.authority,
+    routedAt: toIso(record.routed_at),
+    acknowledged: record.acknowledged === 1,
+    acknowledgedAt: toIso(record.ack_at),
+    assignee: record.assigned_to ? { id: record.assigned_to, name: record.assignee_name } : null,
+    assignedAt: toIso(record.assigned_at),
+  };
+}
+
+function noteView(note: CaseNoteRecord) {
+  return {
+    id: note.id,
+    authority: note.authority,
+    author: { id: note.author_id, name: note.author_name },
+    body: note.body,
+    createdAt: toIso(note.created_at),
+  };
+}
+
+// ─── GET /api/cases/:reportId — Cases & Notes ───────────────
+
+router.get('/:reportId', requirePermission('cases:work'), (req: Request, res: Response) => {
+  try {
+    const report = getReportById(req.params.reportId);
+    if (!report || !canAccessReport(getPrincipal(req)!, report.id)) {
+      return res.status(404).json({ success: false, message: 'Case not found.' });
+    }
+
+    const terms = resolveSlaTerms(report.category, report.urgency);
+
+    return res.json({
+      success: true,
+      data: {
+        reportId: report.id,
+        referenceId: report.reference_id,
+        status: report.status,
+        sla: { ackMinutes: terms.ackMinutes, resolveMinutes: terms.resolveMinutes, source: terms.source },
+        cases: getCases(report.id).map(record => {
+          const { ackDueAt, resolveDueAt } = slaDueDates(record.routed_at, terms);
+          return { ...caseView(record), ackDueAt: toIso(ackDueAt), resolveDueAt: toIso(resolveDueAt) };
+        }),
+        escalations: getSlaEscalations(report.id).map(escalationView),
+        notes: getCaseNotes(report.id).map(noteView),
+      },
+    });
+  } catch (error) {
+    console.error('[Cases] Fetch error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch the case.' });
+  }
+});
+
+// ─── POST /api/cases/:reportId/acknowledge — Acknowledge ────
+
+router.post('/:reportId/acknowledge', requirePermission('cases:work'), [caseAuthority], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const principal = getPrincipal(req)!;
+    const record = resolveCase(req, res);
+    if (!record) return;
+
+    if (!acknowledgeCase(record.report_id, record.authority)) {
+      return res.status(409).json({ success: false, message: `${record.authority} already acknowledged this case.` });
+    }
+
+    logAudit({
+      event_type: 'CASE_ACKNOWLEDGED',
+      report_id: record.report_id,
+      actor: principal.userId,
+      details: `Acknowledged for ${record.authority}`,
+      ip_address: req.ip,
+    });
+
+    return res.json({ success: true, data: caseView(getCase(record.report_id, record.authority)!) });
+  } catch (error) {
+    console.error('[Cases] Acknowledge error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to acknowledge the case.' });
+  }
+});
+
+// ─── POST /api/cases/:reportId/assign — Assign ──────────────
+
+router.post('/:reportId/assign', requirePermission('cases:assign'), [
+  caseAuthority,
+  body('officerId').isString().notEmpty().withMessage('officerId is required'),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const principal = getPrincipal(req)!;
+    const record = resolveCase(req, res);
+    if (!record) return;
+
+    if (record.assigned_to) {
+      return res.status(409).json({
+        success: false,
+        message: `Case is already assigned to ${record.assignee_name ?? record.assigned_to}. Reassign it instead.`,
+      });
+    }
+
+    const officer = assignableOfficer(req.body.officerId, record.authority);
+    if (!officer) {
+      return res.status(400).json({ success: false, message: `officerId is not an officer or supervisor of ${record.authority}.` });
+    }
+
+    assignCase(record.report_id, record.authority, officer.id);
+
+    logAudit({
+      event_type: 'CASE_ASSIGNED',
+      report_id: record.report_id,
+      actor: principal.userId,
+      details: `${record.authority} case assigned to ${officer.id}`,
+      ip_address: req.ip,
+    });
+
+    return res.json({ success: true, data: caseView(getCase(record.report_id, record.authority)!) });
+  } catch (error) {
+    console.error('[Cases] Assign error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to assign the case.' });
+  }
+});
+
+// ─── POST /api/cases/:reportId/reassign — Reassign ──────────
+
+router.post('/:reportId/reassign', requirePermission('cases:assign'), [
+  caseAuthority,
+  body('officerId').isString().notEmpty().withMessage('officerId is required'),
+  reason,
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const principal = getPrincipal(req)!;
+    const record = resolveCase(req, res);
+    if (!record) return;
+
+    if (!record.assigned_to) {
+      return res.status(409).json({ success: false, message: 'Case is not assigned yet. Assign it instead.' });
+    }
+    if (record.assigned_to === req.body.officerId) {
+      return res.status(400).json({ success: false, message: 'Case is already assigned to this officer.' });
+    }
+
+    const officer = assignableOfficer(req.body.officerId, record.authority);
+    if (!officer) {
+      return res.status(400).json({ success: false, message: `officerId is not an officer or supervisor of ${record.authority}.` });
+    }
+
+    assignCase(record.report_id, record.authority, officer.id);
+
+    logAudit({
+      event_type: 'CASE_REASSIGNED',
+      report_id: record.report_id,
+      actor: principal.userId,
+      details: `${record.authority} case reassigned from ${record.assigned_to} to ${officer.id}: ${req.body.reason}`,
+      ip_address: req.ip,
+    });
+
+    return res.json({ success: true, data: caseView(getCase(record.report_id, record.authority)!) });
+  } catch (error) {
+    console.error('[Cases] Reassign error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to reassign the case.' });
+  }
+});
+
+// ─── POST /api/cases/:reportId/notes — Internal Note ────────
+
+router.post('/:reportId/notes', requirePermission('cases:work'), [
+  caseAuthority,
+  body('body').trim().isLength({ min: 1, max: MAX_NOTE_LENGTH })
+    .withMessage(`body is required (at most ${MAX_NOTE_LENGTH} characters)`),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const principal = getPrincipal(req)!;
+    const record = resolveCase(req, res);
+    if (!record) return;
+
+    const note = insertCaseNote({
+      id: uuidv4(),
+      report_id: record.report_id,
+      authority: record.authority,
+      author_id: principal.userId,
+      body: req.body.body,
+    });
+
+    // The note itself stays out of the audit log; only that it was written
+    logAudit({
+      event_type: 'CASE_NOTE_ADDED',
+      report_id: record.report_id,
+      actor: principal.userId,
+      details: `Internal note ${note.id} on the ${record.authority} case`,
+      ip_address: req.ip,
+    });
+
+    return res.status(201).json({ success: true, data: noteView(note) });
+  } catch (error) {
+    console.error('[Cases] Note error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to add the note.' });
+  }
+});
+
+// ─── POST /api/cases/:reportId/transfer — Hand Off ──────────
+
+/**
+ * Moves the case to another authority, which gains access to the
+ * report while the sender loses it. Descriptions and follow-up
+ * threads stay sealed to the authorities that held keys at the
+ * time, so the response says whether the receiver can read them.
+ */
+router.post('/:reportId/transfer', requirePermission('cases:transfer'), [
+  caseAuthority,
+  body('toAuthority').isString().trim().notEmpty().withMessage('toAuthority is required'),
+  reason,
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const principal = getPrincipal(req)!;
+    const record = resolveCase(req, res);
+    if (!record) return;
+
+    // A case sent to an authority nobody belongs to would vanish from every queue
+    const toAuthority: string = req.body.toAuthority;
+    if (!isKnownAuthority(toAuthority)) {
+      return res.status(400).json({
+        success: false,
+        message: `${toAuthority} has no staff or vault key registered. Check the authority name.`,
+      });
+    }
+    if (isAuthorityRouted(record.report_id, toAuthority)) {
+      return res.status(409).json({ success: false, message: `This report is already routed to ${toAuthority}.` });
+    }
+
+    transferCase(record.report_id, record.authority, toAuthority);
+
+    logAudit({
+      event_type: 'CASE_TRANSFERRED',
+      report_id: record.report_id,
+      actor: principal.userId,
+      details: `Case transferred from ${record.authority} to ${toAuthority}: ${req.body.reason}`,
+      ip_address: req.ip,
+    });
+
+    return res.json({
+      success: true,
+      message: `Case handed to ${toAuthority}.`,
+      data: {
+        ...caseView(getCase(record.report_id, toAuthority)!),
+        descriptionReadable: getDescriptionGrantAuthorities(record.report_id).includes(toAuthority),
+      },
+    });
+  } catch (error) {
+    console.error('[Cases] Transfer error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to transfer the case.' });
+  }
+});
+
+export default router;
@@ -0,0 +1,280 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Explorer Router — Public Block Explorer
+ * ============================================================
+ *
+ * Lets anyone browse the ledger and confirm that the block hash
+ * on their receipt is really on it. Blocks are served through a
+ * privacy-safe projection: no citizenId and no street address.
+ *
+ * ENDPOINTS:
+ * GET    /api/blockchain/chain?page=&limit=&order=  → Paginated blocks (newest first by default)
+ * GET    /api/blockchain/blocks/:index              → Block at an index
+ * GET    /api/blockchain/blocks/hash/:hash          → Block with a hash
+ * GET    /api/blockchain/reports/:referenceId       → A report's block and its status events
+ * GET    /api/blockchain/search?q=                  → Any of the above, by index, hash or reference ID
+ */
+
+import { Router, Request, Response } from 'express';
+import { param, query, validationResult } from 'express-validator';
+
+import { blockchain, Block, isStatusEvent, ReportStatus } from '../blockchain/BlockchainService.js';
+import { getBlockVersion } from '../blockchain/BlockFormat.js';
+import { getReportById } from '../services/DatabaseService.js';
+
+const router = Router();
+
+const MAX_PAGE_SIZE = 50;
+
+// ─── Types ─────────────────────────────────────────────────
+
+interface PublicReportData {
+  reportId: string;
+  category: string;
+  urgency: string;
+  area: string;
+  nearestStation: string;
+  descriptionHash: string;
+  evidenceHashes: string[];
+  evidenceRoot: string | null;
+  evidenceCount: number;
+  identity: 'name' | 'anonymous';
+  authorityRouted: string[];
+  status: ReportStatus;
+  timestamp: number;
+}
+
+interface PublicStatusEvent {
+  reportId: string;
+  reportBlockIndex: number;
+  reportBlockHash: string;
+  previousStatus: ReportStatus;
+  status: ReportStatus;
+  reasonCode?: string;
+  reasonHash?: string;        // The reason text itself is never public
+  timestamp: number;
+}
+
+export interface PublicBlock {
+  version: number;            // Block format (see BlockFormat)
+  index: number;
+  type: 'GENESIS' | 'REPORT' | 'STATUS_EVENT';
+  timestamp: number;
+  hash: string;
+  previousHash: string;
+  merkleRoot: string | null;
+  nonce: number;
+  signedBy: string | null;    // Signing key id (see /api/reports/blockchain/keys)
+  data: PublicReportData | PublicStatusEvent;
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/**
+ * Public view of a block. Everything that identifies the citizen
+ * (citizenId) or pinpoints them (street address) is left out; the
+ * hashes still let them match the block to their own receipt.
+ */
+export function toPublicBlock(block: Block): PublicBlock {
+  const base = {
+    version: getBlockVersion(block),
+    index: block.index,
+    timestamp: block.timestamp,
+    hash: block.hash,
+    previousHash: block.previousHash,
+    merkleRoot: block.merkleRoot ?? null,
+    nonce: block.nonce,
+    signedBy: block.signature?.keyId ?? null,
+  };
+
+  if (isStatusEvent(block.data)) {
+    const event = block.data;
+    return {
+      ...base,
+      type: 'STATUS_EVENT',
+      data: {
+        reportId: event.reportId,
+        reportBlockIndex: event.reportBlockIndex,
+        reportBlockHash: event.reportBlockHash,
+        previousStatus: event.previousStatus,
+        status: event.status,
+        reasonCode: event.reasonCode,
+        reasonHash: event.reasonHash,
+        timestamp: event.timestamp,
+      },
+    };
+  }
+
+  const data = block.data;
+  return {
+    ...base,
+    type: block.index === 0 ? 'GENESIS' : 'REPORT',
+    data: {
+      reportId: data.reportId,
+      category: data.category,
+      urgency: data.urgency,
+      area: data.location.area,
+      nearestStation: data.location.nearestStation,
+      descriptionHash: data.descriptionHash,
+      evidenceHashes: data.evidenceHashes,
+      evidenceRoot: data.evidenceRoot ?? null,
+      evidenceCount: data.evidenceCount ?? data.evidenceHashes.length,
+      identity: data.identity,
+      authorityRouted: data.authorityRouted,
+      status: data.status,
+      timestamp: data.timestamp,
+    },
+  };
+}
+
+/**
+ * A block together with the status events recorded for it
+ * (only report blocks have any).
+ */
+function withStatusEvents(block: Block): { block: PublicBlock; statusEvents: PublicBlock[] } {
+  const isReport = block.index > 0 && !isStatusEvent(block.data);
+  return {
+    block: toPublicBlock(block),
+    statusEvents: isReport ? blockchain.getStatusEvents(block.data.reportId).map(toPublicBlock) : [],
+  };
+}
+
+/**
+ * A report's original block plus every status event for it,
+ * looked up by reference ID (or report id).
+ */
+function findReportBlocks(referenceId: string): { referenceId: string; block: PublicBlock; statusEvents: PublicBlock[] } | null {
+  const report = getReportById(referenceId);
+  const block = report && blockchain.findBlockByReportId(report.id);
+  if (!report || !block) return null;
+
+  return { referenceId: report.reference_id, ...withStatusEvents(block) };
+}
+
+// ─── GET /api/blockchain/chain — Paginated Blocks ───────────
+
+router.get('/chain', [
+  query('page').optional().isInt({ min: 1 }).withMessage('page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: MAX_PAGE_SIZE }).withMessage(`limit must be 1-${MAX_PAGE_SIZE}`),
+  query('order').optional().isIn(['asc', 'desc']).withMessage('order must be asc or desc'),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  const page = Number(req.query.page ?? 1);
+  const limit = Number(req.query.limit ?? 20);
+  const order = (req.query.order ?? 'desc') as 'asc' | 'desc';
+  const length = blockchain.getLength();
+  const chain = blockchain.getChain();
+
+  // Page 1 of "desc" starts at the head
+  const start = (page - 1) * limit;
+  const blocks = order === 'asc'
+    ? chain.slice(start, start + limit)
+    : chain.slice(Math.max(0, length - start - limit), Math.max(0, length - start)).reverse();
+
+  return res.json({
+    success: true,
+    length,
+    page,
+    limit,
+    order,
+    totalPages: Math.ceil(length / limit),
+    merkleRoot: blockchain.getMerkleRoot(),
+    data: blocks.map(toPublicBlock),
+  });
+});
+
+// ─── GET /api/blockchain/blocks/hash/:hash — Lookup by Hash ─
+
+router.get('/blocks/hash/:hash', [
+  param('hash').matches(/^[0-9a-f]{64}$/).withMessage('hash must be 64 hex characters'),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  const block = blockchain.findBlockByHash(req.params.hash);
+  if (!block) {
+    return res.status(404).json({ success: false, message: 'No block with this hash is on the ledger.' });
+  }
+  return res.json({ success: true, data: toPublicBlock(block) });
+});
+
+// ─── GET /api/blockchain/blocks/:index — Lookup by Index ────
+
+router.get('/blocks/:index', [
+  param('index').isInt({ min: 0 }).withMessage('index must be a non-negative integer'),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  const block = blockchain.getChain()[Number(req.params.index)];
+  if (!block) {
+    return res.status(404).json({ success: false, message: `Block #${req.params.index} does not exist yet.` });
+  }
+  return res.json({ success: true, data: toPublicBlock(block) });
+});
+
+// ─── GET /api/blockchain/reports/:referenceId — By Reference ─
+
+router.get('/reports/:referenceId', (req: Request, res: Response) => {
+  try {
+    const result = findReportBlocks(req.params.referenceId);
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: 'No recorded block for this reference ID. It may still be being mined.',
+      });
+    }
+    return res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('[Explorer] Report lookup error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to look up report.' });
+  }
+});
+
+// ─── GET /api/blockchain/search — Index, Hash or Reference ──
+
+router.get('/search', [
+  query('q').trim().notEmpty().withMessage('q is required'),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const q = String(req.query.q);
+
+    if (/^\d+$/.test(q)) {
+      const block = blockchain.getChain()[Number(q)];
+      return block
+        ? res.json({ success: true, type: 'index', data: withStatusEvents(block) })
+        : res.status(404).json({ success: false, message: `Block #${q} does not exist yet.` });
+    }
+
+    if (/^(0x)?[0-9a-fA-F]{64}$/.test(q)) {
+      const block = blockchain.findBlockByHash(q.replace(/^0x/, '').toLowerCase());
+      return block
+        ? res.json({ success: true, type: 'hash', data: withStatusEvents(block) })
+        : res.status(404).json({ success: false, message: 'No block with this hash is on the ledger.' });
+    }
+
+    const result = findReportBlocks(q.startsWith('#') ? q : `#${q}`) ?? findReportBlocks(q);
+    return result
+      ? res.json({ success: true, type: 'reference', data: result })
+      : res.status(404).json({ success: false, message: 'Nothing on the ledger matches this search.' });
+  } catch (error) {
+    console.error('[Explorer] Search error:', error);
+    return res.status(500).json({ success: false, message: 'Search failed.' });
+  }
+});
+
+export default router;
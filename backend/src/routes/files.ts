@@ -5,7 +5,11 @@
  * ============================================================
  *
  * ENDPOINTS:
- * POST   /api/files/upload    → Upload a single file
+ * POST   /api/files/upload    → Upload a single file (returns its fileId and SHA-256)
+ *
+ * The fileId is what a report's `evidence` list refers to; the
+ * report's evidence Merkle root is built from the hashes of the
+ * stored bytes, never from anything the client claims.
  */
 
 import { Router, Request, Response } from 'express';
@@ -14,7 +18,9 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
-import { logAudit } from '../services/DatabaseService.js';
+import { logAudit, insertUploadedFile } from '../services/DatabaseService.js';
+import { hashFileBytes } from '../blockchain/EvidenceSet.js';
+import { optionalAuth } from './auth.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const UPLOADS_DIR = path.join(__dirname, '../../uploads');
@@ -70,7 +76,7 @@ const router = Router();
 
 // ─── POST /api/files/upload ──────────────────────────────────
 
-router.post('/upload', upload.single('file'), async (req: Request, res: Response) => {
+router.post('/upload', optionalAuth, upload.single('file'), async (req: Request, res: Response) => {
   try {
     const file = req.file;
     
@@ -83,12 +89,22 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
 
     const fileId = uuidv4();
     const fileUrl = `/uploads/${file.filename}`;
+    const fileHash = await hashFileBytes(file.path);
+
+    insertUploadedFile({
+      id: fileId,
+      file_hash: fileHash,
+      file_name: file.originalname,
+      file_type: file.mimetype,
+      file_size: file.size,
+      stored_path: file.path,
+    });
 
     // Log the upload
     logAudit({
       event_type: 'FILE_UPLOADED',
       actor: (req as any).userId || 'ANONYMOUS',
-      details: `File uploaded: ${file.originalname} (${file.size} bytes)`,
+      details: `File uploaded: ${file.originalname} (${file.size} bytes, sha256 ${fileHash})`,
       ip_address: req.ip,
     });
 
@@ -101,6 +117,7 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
         filename: file.originalname,
         mimetype: file.mimetype,
         size: file.size,
+        fileHash,
       },
     });
 
@@ -0,0 +1,218 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Follow-ups Router — Anonymous Reporter ↔ Officer Channel
+ * ============================================================
+ *
+ * ENDPOINTS:
+ * POST   /api/followups                       → Open the channel for an anonymous report (claim token)
+ * GET    /api/followups/:reportId             → Thread: encrypted messages (+ key grants for officers)
+ * POST   /api/followups/:reportId/messages    → Post an encrypted message
+ *
+ * The reporter authenticates with X-Follow-Up-Key (derived from the
+ * follow-up secret); officers with their access token, for reports
+ * routed to their authority. Messages are end-to-end encrypted (see
+ * services/FollowUpChannel.ts). Nothing about the reporter — account,
+ * IP address or claim token — is stored with the channel or logged.
+ */
+
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  getReportById, isAuthorityRouted, getActiveAuthorityKeys, insertFollowUpChannel, getFollowUpAccessKeyHash,
+  getFollowUpGrants, insertFollowUpMessage, getFollowUpMessages, logAudit, FollowUpMessageRecord,
+} from '../services/DatabaseService.js';
+import {
+  FOLLOW_UP_GRANT_ALGORITHM, MAX_CIPHERTEXT_LENGTH, FollowUpKeyGrant, FollowUpSender, hashAccessKey,
+} from '../services/FollowUpChannel.js';
+import { verifyClaimToken } from '../services/ReportClaims.js';
+import { canAccessReport, Principal } from '../services/AccessControl.js';
+import { requirePermission, getPrincipal } from './auth.js';
+
+const router = Router();
+
+// ─── Participants ────────────────────────────────────────────
+
+type Participant = { side: 'REPORTER' } | { side: 'OFFICER'; principal: Principal };
+
+const officerAccess = requirePermission('reports:read');
+
+/**
+ * Resolves who is talking: the reporter (X-Follow-Up-Key) or an
+ * officer whose authority the report was routed to. Either way an
+ * unknown channel and a wrong key look the same.
+ */
+function participant(req: Request, res: Response, next: () => void) {
+  const reportId = req.params.reportId;
+  const accessKey = req.get('X-Follow-Up-Key');
+  const notFound = () => res.status(404).json({ success: false, message: 'No follow-up channel found for this report.' });
+
+  if (accessKey !== undefined) {
+    const stored = getFollowUpAccessKeyHash(reportId);
+    if (!stored || stored !== hashAccessKey(accessKey)) return notFound();
+    (req as any).participant = { side: 'REPORTER' } satisfies Participant;
+    return next();
+  }
+
+  const [authenticate, authorize] = officerAccess;
+  authenticate(req, res, () => authorize(req, res, () => {
+    const principal = getPrincipal(req)!;
+    if (!getFollowUpAccessKeyHash(reportId) || !canAccessReport(principal, reportId)) return notFound();
+    (req as any).participant = { side: 'OFFICER', principal } satisfies Participant;
+    next();
+  }));
+}
+
+function getParticipant(req: Request): Participant {
+  return (req as any).participant;
+}
+
+function messageView(message: FollowUpMessageRecord, participant: Participant) {
+  return {
+    id: message.id,
+    sender: message.sender,
+    // Officers see which colleague wrote; the reporter does not
+    ...(participant.side === 'OFFICER' && message.officer_id && { officerId: message.officer_id }),
+    iv: message.iv,
+    ciphertext: message.ciphertext,
+    createdAt: new Date(message.created_at * 1000).toISOString(),
+  };
+}
+
+// ─── POST /api/followups — Open a Channel ───────────────────
+
+router.post('/', [
+  body('reportId').isUUID().withMessage('reportId is required'),
+  body('claimToken').isString().notEmpty().withMessage('claimToken is required'),
+  body('accessKeyHash').isString().matches(/^[0-9a-f]{64}$/).withMessage('accessKeyHash must be a hex SHA-256'),
+  body('grants').isArray({ min: 1, max: 20 }).withMessage('grants must list at least one authority'),
+  body('grants.*.authority').isString().notEmpty(),
+  body('grants.*.keyId').isString().notEmpty(),
+  body('grants.*.algorithm').equals(FOLLOW_UP_GRANT_ALGORITHM),
+  body(['grants.*.ephemeralPublicKey', 'grants.*.iv', 'grants.*.authTag', 'grants.*.wrappedKey']).isBase64(),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  const { reportId, claimToken, accessKeyHash, grants } = req.body as {
+    reportId: string; claimToken: string; accessKeyHash: string; grants: FollowUpKeyGrant[];
+  };
+
+  try {
+    const report = getReportById(reportId);
+    if (!report || report.identity_type !== 'anonymous' || !verifyClaimToken(reportId, claimToken)) {
+      return res.status(404).json({ success: false, message: 'Report not found.' });
+    }
+    if (getFollowUpAccessKeyHash(reportId)) {
+      return res.status(409).json({ success: false, message: 'A follow-up channel is already open for this report.' });
+    }
+
+    // Each grant must be for a routed authority's current vault key
+    const authorities = [...new Set(grants.map(g => g.authority))];
+    const activeKeys = new Set(getActiveAuthorityKeys(authorities).map(k => `${k.authority}|${k.key_id}`));
+    const invalid = grants.filter(g => !isAuthorityRouted(reportId, g.authority) || !activeKeys.has(`${g.authority}|${g.keyId}`));
+    if (invalid.length > 0 || authorities.length !== grants.length) {
+      return res.status(400).json({
+        success: false,
+        message: `Grants must use the active vault key of an authority this report was routed to: ${invalid.map(g => g.authority).join(', ') || 'duplicate authority'}`,
+      });
+    }
+
+    insertFollowUpChannel(reportId, accessKeyHash, grants);
+
+    // No IP address: it could identify the reporter
+    logAudit({
+      event_type: 'FOLLOWUP_OPENED',
+      report_id: reportId,
+      actor: 'ANONYMOUS',
+      details: `Follow-up channel readable by ${authorities.join(', ')}`,
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Follow-up channel open. Keep your follow-up key: it cannot be shown again.',
+      data: { reportId, authorities },
+    });
+  } catch (error) {
+    console.error('[FollowUps] Open channel error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to open the follow-up channel.' });
+  }
+});
+
+// ─── GET /api/followups/:reportId — Thread ──────────────────
+
+router.get('/:reportId', participant, (req: Request, res: Response) => {
+  try {
+    const reportId = req.params.reportId;
+    const who = getParticipant(req);
+    const report = getReportById(reportId)!;
+
+    // Officers get their authority's grant (admins every grant) to unwrap the thread key
+    let grants: FollowUpKeyGrant[] = [];
+    if (who.side === 'OFFICER') {
+      grants = who.principal.role === 'ADMIN'
+        ? getFollowUpGrants(reportId)
+        : getFollowUpGrants(reportId, who.principal.authority!);
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        reportId,
+        referenceId: report.reference_id,
+        status: report.status,
+        ...(who.side === 'OFFICER' && { grants }),
+        messages: getFollowUpMessages(reportId).map(m => messageView(m, who)),
+      },
+    });
+  } catch (error) {
+    console.error('[FollowUps] Thread error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch the follow-up thread.' });
+  }
+});
+
+// ─── POST /api/followups/:reportId/messages — Send ──────────
+
+router.post('/:reportId/messages', participant, [
+  body('iv').isBase64().isLength({ min: 16, max: 16 }).withMessage('iv must be 12 bytes, Base64'),
+  body('ciphertext').isBase64().isLength({ min: 24, max: MAX_CIPHERTEXT_LENGTH }).withMessage('ciphertext is missing or too long'),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const reportId = req.params.reportId;
+    const who = getParticipant(req);
+    const sender: FollowUpSender = who.side;
+
+    const message = insertFollowUpMessage({
+      id: uuidv4(),
+      report_id: reportId,
+      sender,
+      officer_id: who.side === 'OFFICER' ? who.principal.userId : null,
+      iv: req.body.iv,
+      ciphertext: req.body.ciphertext,
+    });
+
+    logAudit({
+      event_type: 'FOLLOWUP_MESSAGE',
+      report_id: reportId,
+      actor: who.side === 'OFFICER' ? who.principal.userId : 'ANONYMOUS',
+      details: `Encrypted message from ${sender.toLowerCase()}`,
+      ...(who.side === 'OFFICER' && { ip_address: req.ip }),
+    });
+
+    return res.status(201).json({ success: true, data: messageView(message, who) });
+  } catch (error) {
+    console.error('[FollowUps] Send error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to send the message.' });
+  }
+});
+
+export default router;
@@ -0,0 +1,248 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Me Router — The Caller's Own Reports
+ * ============================================================
+ *
+ * ENDPOINTS:
+ * GET    /api/me/reports           → Reports filed by the caller, with their status history
+ * POST   /api/me/reports/:id/reopen → Dispute a resolved or dismissed report (moves it to REOPENED)
+ * POST   /api/me/reports/:id/link  → "Me too": link the report to an earlier report of the same issue
+ *
+ * Named reports are matched to the account in the access token.
+ * Anonymous reports are matched only by the claim tokens the filing
+ * device sends in X-Report-Claims (comma-separated); the server
+ * never records which account, if any, presented them.
+ */
+
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+
+import {
+  getReportsByCitizen, getReportById, getSlaEscalations, getStatusHistory, getReportLink, getLinkedReports, linkReport,
+  sharesRoutedAuthority, logAudit, ReportRecord,
+} from '../services/DatabaseService.js';
+import { findClaimedReports, verifyClaimToken } from '../services/ReportClaims.js';
+import { escalationView } from '../services/SlaMonitor.js';
+import {
+  allowedTransitions, changeReportStatus, followPrimary, statusHistoryView, CLOSED_STATUSES, ReportStatus,
+} from '../services/ReportLifecycle.js';
+import { isLikelyDuplicate, probeFromReport, scoreDuplicate } from '../services/DuplicateDetector.js';
+import { Principal } from '../services/AccessControl.js';
+import { optionalAuth, getPrincipal } from './auth.js';
+
+const router = Router();
+
+function presentedClaims(req: Request): string[] {
+  return (req.get('X-Report-Claims') ?? '')
+    .split(',')
+    .map(token => token.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether the caller filed this report: by account for named reports,
+ * by claim token for anonymous ones.
+ */
+function isOwnReport(report: ReportRecord, principal: Principal | undefined, claims: string[]): boolean {
+  if (report.identity_type === 'anonymous') {
+    return claims.some(token => verifyClaimToken(report.id, token));
+  }
+  return !!principal && report.citizen_id === principal.userId;
+}
+
+function ownReport(report: ReportRecord) {
+  const link = getReportLink(report.id);
+  const primary = link && getReportById(link.primary_id);
+  return {
+    id: report.id,
+    referenceId: report.reference_id,
+    category: report.category,
+    urgency: report.urgency,
+    status: report.status,
+    identity: report.identity_type,
+    location: {
+      area: report.location_area,
+      address: report.location_address,
+      nearestStation: report.nearest_station,
+    },
+    isEmergency: Boolean(report.is_emergency),
+    aiSummary: report.ai_summary ?? null,
+    blockIndex: report.block_index ?? null,
+    blockHash: report.block_hash ?? null,
+    // Deadlines an authority missed, and who the report went to next
+    escalations: getSlaEscalations(report.id).map(escalationView),
+    statusHistory: getStatusHistory(report.id).map(statusHistoryView),
+    canReopen: allowedTransitions(report.status, 'REPORTER').includes('REOPENED'),
+    // The earlier report of the same issue this one follows
+    duplicateOf: primary ? { reportId: primary.id, referenceId: primary.reference_id, status: primary.status } : null,
+    createdAt: new Date(report.created_at * 1000).toISOString(),
+    updatedAt: new Date(report.updated_at * 1000).toISOString(),
+  };
+}
+
+// ─── GET /api/me/reports — My Reports ───────────────────────
+
+router.get('/reports', optionalAuth, (req: Request, res: Response) => {
+  const principal = getPrincipal(req);
+  const claims = presentedClaims(req);
+
+  if (!principal && claims.length === 0) {
+    return res.status(401).json({ success: false, message: 'Log in or present a report claim token.' });
+  }
+
+  try {
+    const byId = new Map<string, ReportRecord>();
+    for (const report of principal ? getReportsByCitizen(principal.userId) : []) byId.set(report.id, report);
+    for (const report of findClaimedReports(claims)) byId.set(report.id, report);
+
+    const reports = [...byId.values()]
+      .sort((a, b) => b.created_at - a.created_at)
+      .map(ownReport);
+
+    return res.json({ success: true, count: reports.length, data: reports });
+  } catch (error) {
+    console.error('[Me] List reports error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch your reports.' });
+  }
+});
+
+// ─── POST /api/me/reports/:id/reopen — Dispute an Outcome ───
+
+router.post('/reports/:id/reopen', optionalAuth, [
+  body('reason').isString().trim().isLength({ min: 1, max: 500 }).withMessage('Say why you dispute the outcome (at most 500 characters)'),
+], async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  const principal = getPrincipal(req);
+  const claims = presentedClaims(req);
+  if (!principal && claims.length === 0) {
+    return res.status(401).json({ success: false, message: 'Log in or present a report claim token.' });
+  }
+
+  try {
+    const report = getReportById(req.params.id);
+
+    // Someone else's report looks the same as a missing one
+    if (!report || !isOwnReport(report, principal, claims)) {
+      return res.status(404).json({ success: false, message: 'Report not found.' });
+    }
+
+    const anonymous = report.identity_type === 'anonymous';
+    const reason = req.body.reason as string;
+    const change = await changeReportStatus(report, {
+      status: 'REOPENED',
+      by: 'REPORTER',
+      actor: anonymous ? 'ANONYMOUS' : principal!.userId,
+      actorRole: 'CITIZEN',
+      reason,
+    });
+    if (change.outcome !== 'CHANGED') {
+      const httpStatus = change.outcome === 'NOT_ALLOWED' ? 400 : change.outcome === 'NOT_FOUND' ? 404 : 409;
+      return res.status(httpStatus).json({ success: false, message: change.message });
+    }
+
+    // Anonymous reporters leave no account or IP behind
+    logAudit({
+      event_type: 'REPORT_REOPENED',
+      report_id: report.id,
+      actor: anonymous ? 'ANONYMOUS' : principal!.userId,
+      details: `Reporter disputed the ${change.previousStatus} outcome (block #${change.block.index})`,
+      ...(!anonymous && { ip_address: req.ip }),
+    });
+
+    return res.json({
+      success: true,
+      message: 'Report reopened. The authority will review it again.',
+      data: ownReport(getReportById(report.id)!),
+    });
+  } catch (error) {
+    console.error('[Me] Reopen report error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to reopen the report.' });
+  }
+});
+
+// ─── POST /api/me/reports/:id/link — "Me Too" ───────────────
+
+router.post('/reports/:id/link', optionalAuth, [
+  body('primaryId').isUUID().withMessage('primaryId must be a report id from possibleDuplicates'),
+], async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  const principal = getPrincipal(req);
+  const claims = presentedClaims(req);
+  if (!principal && claims.length === 0) {
+    return res.status(401).json({ success: false, message: 'Log in or present a report claim token.' });
+  }
+
+  try {
+    const report = getReportById(req.params.id);
+    if (!report || !isOwnReport(report, principal, claims)) {
+      return res.status(404).json({ success: false, message: 'Report not found.' });
+    }
+    if (getReportLink(report.id)) {
+      return res.status(409).json({ success: false, message: 'Report is already linked to another report.' });
+    }
+    // Merging whole clusters is for staff, who can see every report in them
+    if (getLinkedReports(report.id).length > 0) {
+      return res.status(409).json({ success: false, message: 'Other reports are linked to this one. Staff can merge the two.' });
+    }
+
+    // Reporters may only join an open report of the same issue at the same place,
+    // scoring as high as a suggestion would and handled by one of the same authorities
+    const target = getReportById(req.body.primaryId);
+    const targetLink = target && getReportLink(target.id);
+    const primary = targetLink ? getReportById(targetLink.primary_id) : target;
+    const match = primary && primary.id !== report.id && !CLOSED_STATUSES.includes(primary.status as ReportStatus)
+      ? scoreDuplicate(probeFromReport(report), { ...primary, linked_count: 0 })
+      : null;
+    if (!primary || !match || !isLikelyDuplicate(match) || !sharesRoutedAuthority(report.id, primary.id)) {
+      return res.status(400).json({ success: false, message: 'That report is not an open report of the same issue.' });
+    }
+
+    const anonymous = report.identity_type === 'anonymous';
+    linkReport({ report_id: report.id, primary_id: primary.id, source: 'REPORTER', score: match.score, linked_by: null });
+
+    logAudit({
+      event_type: 'REPORTS_LINKED',
+      report_id: report.id,
+      actor: anonymous ? 'ANONYMOUS' : principal!.userId,
+      details: `Reporter linked it to ${primary.reference_id} as the same issue (score ${match.score})`,
+      ...(!anonymous && { ip_address: req.ip }),
+    });
+
+    // Catch up with where the primary already is; the steps are the primary's staff's, not the reporter's
+    const steps = await followPrimary(report, primary, {
+      status: primary.status as ReportStatus,
+      by: 'STAFF',
+      actor: 'SYSTEM',
+      actorRole: 'SYSTEM',
+    });
+    for (const { status, change } of steps) {
+      if (change.outcome !== 'CHANGED') continue;
+      logAudit({
+        event_type: 'STATUS_UPDATED',
+        report_id: report.id,
+        details: `Status changed from ${change.previousStatus} to ${status} with primary ${primary.reference_id} ` +
+          `(block #${change.block.index})`,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: `Linked to ${primary.reference_id}. Your report will follow its progress.`,
+      data: ownReport(getReportById(report.id)!),
+    });
+  } catch (error) {
+    console.error('[Me] Link report error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to link the report.' });
+  }
+});
+
+export default router;
@@ -0,0 +1,156 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Replication Router — Peer Protocol Endpoints
+ * ============================================================
+ *
+ * ENDPOINTS:
+ * GET    /api/replication/info          → This node's id, head, Merkle root and public keys
+ * GET    /api/replication/blocks?from=  → Page of this node's chain (raw for signed peer pulls, else public)
+ * POST   /api/replication/blocks        → Receive a block gossiped by a peer
+ * GET    /api/replication/peers         → Mirror status of every configured peer
+ * POST   /api/replication/peers/sync    → Pull from all peers now (admin)
+ *
+ * Raw blocks carry citizenIds, street addresses and staff user IDs.
+ * They go only to configured peers, whose pulls are signed with a key
+ * they publish (X-Replication-Request); anyone else gets the explorer's
+ * privacy-safe projection.
+ */
+
+import { Router, Request, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+
+import { blockchain, Block } from '../blockchain/BlockchainService.js';
+import {
+  replicationService,
+  ReceiveOutcome,
+  PullAuthorization,
+  PULL_REQUEST_HEADER,
+} from '../blockchain/replication/ReplicationService.js';
+import { toPublicBlock } from './explorer.js';
+import { requirePermission } from './auth.js';
+
+const router = Router();
+
+const MAX_PAGE_SIZE = 500;
+
+// HTTP status for each outcome of a gossiped block
+const RECEIVE_STATUS: Record<ReceiveOutcome, number> = {
+  APPENDED: 201,
+  DUPLICATE: 200,
+  GAP: 202,
+  INVALID: 422,
+  FORK: 409,
+  DIVERGED: 409,
+  UNAUTHENTIC: 401,
+  UNSUPPORTED: 422,
+  UNKNOWN_PEER: 403,
+};
+
+// HTTP status for each refused pull request
+const PULL_REFUSAL_STATUS: Record<Exclude<PullAuthorization, 'VERIFIED'>, number> = {
+  MALFORMED: 400,
+  EXPIRED: 401,
+  UNAUTHENTIC: 401,
+  UNKNOWN_PEER: 403,
+};
+
+// ─── GET /api/replication/info — Node Identity ──────────────
+
+router.get('/info', (_req: Request, res: Response) => {
+  return res.json({ success: true, data: replicationService.getNodeInfo() });
+});
+
+// ─── GET /api/replication/blocks — Serve Chain Pages ────────
+
+router.get('/blocks', [
+  query('from').optional().isInt({ min: 0 }).withMessage('from must be a non-negative integer'),
+  query('limit').optional().isInt({ min: 1, max: MAX_PAGE_SIZE }).withMessage(`limit must be 1-${MAX_PAGE_SIZE}`),
+], async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const from = Number(req.query.from ?? 0);
+    const limit = Number(req.query.limit ?? 100);
+
+    // A peer that signs its pull gets raw blocks, or is told why not
+    const pullRequest = req.get(PULL_REQUEST_HEADER);
+    const authorization = pullRequest ? await replicationService.authorizePull(pullRequest, from, limit) : null;
+    if (authorization && authorization !== 'VERIFIED') {
+      return res.status(PULL_REFUSAL_STATUS[authorization]).json({
+        success: false,
+        message: `Pull request refused: ${authorization}`,
+      });
+    }
+
+    const blocks = blockchain.getChain().slice(from, from + limit);
+    return res.json({
+      success: true,
+      view: authorization ? 'RAW' : 'PUBLIC',
+      length: blockchain.getLength(),
+      count: blocks.length,
+      data: authorization ? blocks : blocks.map(toPublicBlock),
+    });
+  } catch (error) {
+    console.error('[Replication] Serve blocks error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to serve blocks.' });
+  }
+});
+
+// ─── POST /api/replication/blocks — Receive Gossip ──────────
+
+router.post('/blocks', [
+  body('nodeId').notEmpty().withMessage('nodeId is required'),
+  body('block').isObject().withMessage('block is required'),
+  body('block.index').isInt({ min: 1 }).withMessage('block.index must be a positive integer'),
+  body('block.hash').isString().withMessage('block.hash is required'),
+], async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const { nodeId, block } = req.body as { nodeId: string; block: Block };
+    const outcome = await replicationService.receiveBlock(nodeId, block);
+    const status = RECEIVE_STATUS[outcome];
+
+    return res.status(status).json({
+      success: status < 400,
+      outcome,
+      message: `Block #${block.index} from ${nodeId}: ${outcome}`,
+    });
+  } catch (error) {
+    console.error('[Replication] Receive error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to process block.' });
+  }
+});
+
+// ─── GET /api/replication/peers — Peer Status ───────────────
+
+router.get('/peers', (_req: Request, res: Response) => {
+  const peers = replicationService.getStatus();
+  return res.json({
+    success: true,
+    nodeId: replicationService.getNodeInfo().nodeId,
+    diverged: peers.filter(p => p.status === 'DIVERGED').map(p => p.nodeId ?? p.url),
+    data: peers,
+  });
+});
+
+// ─── POST /api/replication/peers/sync — Pull Now ────────────
+
+router.post('/peers/sync', requirePermission('replication:sync'), async (_req: Request, res: Response) => {
+  try {
+    await replicationService.syncAll();
+    return res.json({ success: true, data: replicationService.getStatus() });
+  } catch (error) {
+    console.error('[Replication] Sync error:', error);
+    return res.status(500).json({ success: false, message: 'Replication sync failed.' });
+  }
+});
+
+export default router;
@@ -5,32 +5,100 @@
  * ============================================================
  *
  * ENDPOINTS:
- * POST   /api/reports              → Submit a new report
- * GET    /api/reports              → List all reports (admin)
- * GET    /api/reports/:id          → Get a specific report
- * PATCH  /api/reports/:id/status   → Update report status (admin)
- * GET    /api/reports/:id/verify   → Verify report on blockchain
+ * POST   /api/reports              → Submit a new report (mined asynchronously; anonymous ones get a claim token; lists possible duplicates)
+ * GET    /api/reports              → List reports (officers: their authority's; admin: all), filterable
+ * GET    /api/reports/lifecycle    → Statuses, allowed transitions and dismissal reason codes
+ * GET    /api/reports/:id          → Full report record, status history and audit trail (officer of a routed authority, admin)
+ * PATCH  /api/reports/:id/status   → Move a report along its lifecycle (officer of a routed authority, admin; recorded on-chain)
+ * GET    /api/reports/:id/similar  → Possible duplicates the caller can see (officer of a routed authority, admin)
+ * POST   /api/reports/:id/link     → Link the report to a primary as its duplicate; merges clusters (officer of both reports, admin)
+ * DELETE /api/reports/:id/link     → Take the report out of its duplicate cluster (officer of a routed authority, admin)
+ * GET    /api/reports/:id/receipt  → Poll block settlement; final signed receipt once mined
+ * GET    /api/reports/:id/verify   → Verify report on blockchain (with Merkle proof + status history)
+ * GET    /api/reports/:id/evidence/:fileId → Download an evidence file (officer of a routed authority, admin)
+ * GET    /api/reports/:id/evidence/:fileId/proof → Prove one evidence file belongs to the report
+ * GET    /api/reports/:id/description → Sealed description + the caller's authority's key grant (admin: ?authority=)
  * GET    /api/blockchain/health    → Verify blockchain integrity
- * GET    /api/blockchain/chain     → Get full blockchain (admin)
+ * POST   /api/blockchain/forensics → Full tamper investigation, recorded as an incident (admin)
+ * GET    /api/blockchain/forensics → Recent forensic incidents (supervisor, admin)
+ * GET    /api/blockchain/reconciliation → Compare report rows with the ledger (dry run, supervisor, admin)
+ * POST   /api/blockchain/reconciliation → Same, quarantining rows that drifted (admin)
+ * GET    /api/blockchain/export    → Signed bundle of the whole ledger (admin)
+ * GET    /api/blockchain/merkle-root → Current published Merkle root
+ * GET    /api/blockchain/keys      → Public keys for block & receipt signatures
+ * POST   /api/reports/receipts/verify → Check a signed submission receipt
+ *
+ * Permissions per role are defined in services/AccessControl.ts.
  */
 
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 
-import { blockchain, Blockchain, BlockData } from '../blockchain/BlockchainService.js';
+import {
+  blockchain,
+  Blockchain,
+  Block,
+  BlockData,
+  StatusEventData,
+} from '../blockchain/BlockchainService.js';
+import { keyRing, SignedReceipt } from '../blockchain/KeyRing.js';
+import { miningQueue } from '../blockchain/MiningQueue.js';
+import { chainForensics } from '../blockchain/ChainForensics.js';
+import { reportReconciler } from '../blockchain/ReportReconciler.js';
+import { getBlockVersion } from '../blockchain/BlockFormat.js';
+import { exportChainBundle } from '../blockchain/ChainBundle.js';
+import { getNodeId } from '../blockchain/anchoring/AnchorService.js';
+import { buildEvidenceSet, commitEvidence, getEvidenceProof } from '../blockchain/EvidenceSet.js';
 import {
   insertReport,
   getReportById,
   getAllReports,
-  updateReportStatus,
   insertEvidence,
   insertAuthorityRouting,
-  saveBlockchainState,
   logAudit,
   getAuditLog,
+  getAuditEventsByType,
   getEvidenceByReport,
+  getUploadedFile,
+  claimUploadedFile,
+  getReportMiningJob,
+  isAuthorityRouted,
+  getActiveAuthorityKeys,
+  insertSealedDescription,
+  getDescriptionEnvelope,
+  getDescriptionGrantAuthorities,
+  getStatusHistory,
+  getReportLink,
+  getLinkedReports,
+  linkReport,
+  unlinkReport,
+  ReportRecord,
 } from '../services/DatabaseService.js';
+import { sealDescription } from '../services/DescriptionVault.js';
+import { issueClaimToken } from '../services/ReportClaims.js';
+import {
+  REPORT_STATUSES,
+  STATUS_TRANSITIONS,
+  REPORTER_STATUSES,
+  DISMISSAL_REASONS,
+  allowedTransitions,
+  changeReportStatus,
+  shareStatusWithLinked,
+  recordSubmissionStatus,
+  statusHistoryView,
+  ReportStatus,
+  DismissalReason,
+  LinkedStatusChange,
+} from '../services/ReportLifecycle.js';
+import {
+  findPossibleDuplicates,
+  probeFromReport,
+  scoreDuplicate,
+  duplicateSuggestionView,
+} from '../services/DuplicateDetector.js';
+import { canAccessReport, isAuthorityScoped, Principal } from '../services/AccessControl.js';
+import { optionalAuth, requirePermission, getPrincipal } from './auth.js';
 
 const router = Router();
 
@@ -45,11 +113,120 @@ const validateReport = [
   body('location.area').notEmpty().withMessage('Location area is required'),
   body('location.address').notEmpty().withMessage('Location address is required'),
   body('location.nearestStation').notEmpty().withMessage('Nearest station is required'),
+  body('location.lat').optional().isFloat({ min: -90, max: 90 }).toFloat().withMessage('Latitude must be between -90 and 90'),
+  body('location.lng').optional().isFloat({ min: -180, max: 180 }).toFloat().withMessage('Longitude must be between -180 and 180'),
+  body('evidence').optional().isArray({ max: 20 }).withMessage('Evidence must be a list of at most 20 file ids'),
+  body('evidence.*').isUUID().withMessage('Evidence entries must be file ids from /api/files/upload'),
 ];
 
+// ─── Helpers ─────────────────────────────────────────────────
+
+/**
+ * Replays a report's status history from the chain: the submission
+ * block first, then every status event block that references it.
+ * Public, so it names no actor and gives reasons only as hashes.
+ */
+function buildStatusHistory(reportBlock: Block) {
+  const submission = reportBlock.data as BlockData;
+  const events = blockchain.getStatusEvents(submission.reportId);
+
+  return [
+    {
+      status: submission.status,
+      previousStatus: null,
+      reasonCode: null,
+      reasonHash: null,
+      timestamp: new Date(reportBlock.timestamp).toISOString(),
+      blockIndex: reportBlock.index,
+      blockHash: reportBlock.hash,
+    },
+    ...events.map(b => {
+      const event = b.data as StatusEventData;
+      return {
+        status: event.status,
+        previousStatus: event.previousStatus,
+        reasonCode: event.reasonCode ?? null,
+        reasonHash: event.reasonHash ?? null,
+        timestamp: new Date(b.timestamp).toISOString(),
+        blockIndex: b.index,
+        blockHash: b.hash,
+      };
+    }),
+  ];
+}
+
+/**
+ * The report's place in its duplicate cluster: the primary it was
+ * linked to, or the reports linked to it.
+ */
+function clusterView(reportId: string) {
+  const link = getReportLink(reportId);
+  const primary = link && getReportById(link.primary_id);
+  return {
+    duplicateOf: link && primary ? {
+      reportId: primary.id,
+      referenceId: primary.reference_id,
+      source: link.source,
+      score: link.score,
+      linkedAt: new Date(link.created_at * 1000).toISOString(),
+    } : null,
+    linked: getLinkedReports(reportId).map(l => ({
+      reportId: l.report_id,
+      referenceId: l.reference_id,
+      status: l.status,
+      source: l.source,
+      score: l.score,
+      linkedAt: new Date(l.created_at * 1000).toISOString(),
+    })),
+  };
+}
+
+/**
+ * Audits each status a duplicate took on following its primary.
+ */
+function auditLinkedStatusChanges(linked: LinkedStatusChange[], primary: ReportRecord, principal: Principal, ip?: string) {
+  for (const { reportId, status, change } of linked) {
+    if (change.outcome !== 'CHANGED') continue;
+    logAudit({
+      event_type: 'STATUS_UPDATED',
+      report_id: reportId,
+      actor: principal.userId,
+      details: `Status changed from ${change.previousStatus} to ${status} with primary ${primary.reference_id} ` +
+        `by ${principal.role} (block #${change.block.index})`,
+      ip_address: ip,
+    });
+  }
+}
+
+function linkedStatusView({ reportId, referenceId, status, change }: LinkedStatusChange) {
+  return {
+    reportId,
+    referenceId,
+    status,
+    updated: change.outcome === 'CHANGED',
+    ...(change.outcome !== 'CHANGED' && { message: change.message }),
+  };
+}
+
+/**
+ * Signed proof that the server recorded a report at a given block.
+ * Deterministic, so it can be re-issued whenever the client polls.
+ */
+function buildSubmissionReceipt(report: ReportRecord, block: Block) {
+  return keyRing.signReceipt({
+    type: 'JAAGRUK_SUBMISSION_RECEIPT',
+    reportId: report.id,
+    referenceId: report.reference_id,
+    blockIndex: block.index,
+    blockHash: block.hash,
+    descriptionHash: report.description_hash,
+    acceptedAt: new Date(block.timestamp).toISOString(),
+  });
+}
+
 // ─── POST /api/reports — Submit New Report ───────────────────
 
-router.post('/', validateReport, async (req: Request, res: Response) => {
+router.post('/', optionalAuth, validateReport, async (req: Request, res: Response) => {
   // Validate inputs
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -70,14 +247,50 @@ router.post('/', validateReport, async (req: Request, res: Response) => {
       isEmergency = false,
     } = req.body;
 
+    // ── Named reports belong to the logged-in caller, never to a client-supplied ID ──
+    const principal = getPrincipal(req);
+    if (identity === 'name' && citizenId && citizenId !== principal?.userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Named reports can only be filed under your own account. Please log in again.',
+      });
+    }
+    const ownerId = identity === 'name' ? principal?.userId : undefined;
+
     // ── Generate unique IDs ──
     const reportId = uuidv4();
     const referenceId = `#IND-${Math.floor(10000 + Math.random() * 90000)}-X`;
 
+    // ── Resolve evidence to uploaded files ──
+    // Hashes come from the bytes stored at upload, not from the client
+    const fileIds = [...new Set(evidence as string[])];
+    const uploads = fileIds.map(getUploadedFile);
+    const unavailable = fileIds.filter((_, i) => !uploads[i] || uploads[i]!.report_id);
+    if (unavailable.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Evidence file(s) not found or already attached to a report: ${unavailable.join(', ')}`,
+      });
+    }
+    const evidenceFiles = uploads as NonNullable<(typeof uploads)[number]>[];
+    const evidenceSet = buildEvidenceSet(evidenceFiles.map(f => ({ fileId: f.id, fileHash: f.file_hash })));
+
     // ── Hash sensitive data for privacy ──
-    // Description is NEVER stored raw — only its hash goes on blockchain
+    // Description is NEVER stored in the clear — only its hash goes on
+    // blockchain, and the text is sealed for the routed authorities below
     const descriptionHash = Blockchain.hashData(description);
-    const evidenceHashes = (evidence as string[]).map((e: string) => Blockchain.hashData(e));
+
+    // ── Look for the same issue reported already ("me too") ──
+    // The description is only read here, before it is sealed
+    const possibleDuplicates = findPossibleDuplicates({
+      category,
+      createdAt: Math.floor(Date.now() / 1000),
+      lat: location.lat ?? null,
+      lng: location.lng ?? null,
+      area: location.area,
+      station: location.nearestStation,
+      text: [aiSummary, description].filter(Boolean).join(' '),
+    }).map(duplicateSuggestionView);
 
     // ── Build blockchain block data ──
     const blockData: BlockData = {
@@ -86,47 +299,53 @@ router.post('/', validateReport, async (req: Request, res: Response) => {
       urgency,
       location,
       descriptionHash,
-      evidenceHashes,
+      evidenceHashes: [],
+      ...(evidenceFiles.length > 0 && { evidenceRoot: evidenceSet.root, evidenceCount: evidenceFiles.length }),
       identity,
-      citizenId: identity === 'name' ? citizenId : undefined,
+      citizenId: ownerId,
       timestamp: Date.now(),
       authorityRouted: authorities,
       status: 'PENDING',
     };
 
-    // ── Add to blockchain (this mines the block) ──
-    const block = blockchain.addBlock(blockData);
-
-    // ── Persist blockchain state to SQLite ──
-    saveBlockchainState(blockchain.getChain());
-
-    // ── Save report metadata to SQLite ──
+    // ── Save report metadata to SQLite (block is linked once mined) ──
     insertReport({
       id: reportId,
       reference_id: referenceId,
-      block_index: block.index,
-      block_hash: block.hash,
       category,
       urgency,
       description_hash: descriptionHash,
       identity_type: identity,
-      citizen_id: identity === 'name' ? citizenId : undefined,
+      citizen_id: ownerId,
       status: 'PENDING',
       location_area: location.area,
       location_address: location.address,
       nearest_station: location.nearestStation,
+      location_lat: location.lat ?? null,
+      location_lng: location.lng ?? null,
       is_emergency: isEmergency ? 1 : 0,
       ai_summary: aiSummary,
     });
+    recordSubmissionStatus({ id: reportId, identity_type: identity });
+
+    // ── Anonymous reports: only the filing device can find them again ──
+    const claimToken = identity === 'anonymous' ? issueClaimToken(reportId) : undefined;
 
-    // ── Save evidence references ──
-    evidenceHashes.forEach((hash, idx) => {
+    // ── Save evidence with its commitment salt and leaf position ──
+    evidenceSet.commitments.forEach((commitment, idx) => {
+      const file = evidenceFiles[idx];
       insertEvidence({
-        id: uuidv4(),
+        id: file.id,
         report_id: reportId,
-        file_hash: hash,
-        file_name: `evidence_${idx + 1}`,
+        file_hash: file.file_hash,
+        file_name: file.file_name,
+        file_type: file.file_type,
+        file_size: file.file_size,
+        stored_path: file.stored_path,
+        salt: commitment.salt,
+        leaf_index: commitment.leafIndex,
       });
+      claimUploadedFile(file.id, reportId);
     });
 
     // ── Route to authorities ──
@@ -138,27 +357,62 @@ router.post('/', validateReport, async (req: Request, res: Response) => {
       });
     });
 
+    // ── Seal the description for routed authorities with a vault key ──
+    const recipients = getActiveAuthorityKeys([...new Set(authorities as string[])]);
+    if (recipients.length > 0) {
+      const { sealed, grants } = sealDescription(
+        reportId,
+        description,
+        recipients.map(k => ({ authority: k.authority, keyId: k.key_id, publicKeyPem: k.public_key_pem }))
+      );
+      insertSealedDescription(reportId, sealed, grants);
+    }
+
+    // ── Queue the block; mining happens on a worker thread ──
+    const jobId = miningQueue.enqueue(blockData);
+
     // ── Log to audit trail ──
+    // Anonymous reports are never tied to an account, even a logged-in one
     logAudit({
       event_type: 'REPORT_SUBMITTED',
       report_id: reportId,
-      actor: identity === 'anonymous' ? 'ANONYMOUS' : (citizenId || 'CITIZEN'),
-      details: `New ${urgency} urgency report in category: ${category}`,
+      actor: identity === 'anonymous' ? 'ANONYMOUS' : (ownerId || 'CITIZEN'),
+      details: `New ${urgency} urgency report in category: ${category} (mining job ${jobId})`,
       ip_address: req.ip,
     });
 
+    // ── Pending receipt: proof the server accepted this report ──
+    // The final receipt, bound to a block, comes from GET /:id/receipt.
+    const submittedAt = new Date(blockData.timestamp).toISOString();
+    const pendingReceipt = keyRing.signReceipt({
+      type: 'JAAGRUK_PENDING_RECEIPT',
+      reportId,
+      referenceId,
+      jobId,
+      descriptionHash,
+      acceptedAt: submittedAt,
+    });
+
     // ── Respond to client ──
-    return res.status(201).json({
+    return res.status(202).json({
       success: true,
-      message: 'Report successfully submitted and recorded on blockchain.',
+      message: 'Report accepted. It is being recorded on the blockchain.',
       data: {
         reportId,
         referenceId,
-        blockIndex: block.index,
-        blockHash: block.hash,
         status: 'PENDING',
-        chainLength: blockchain.getLength(),
-        submittedAt: new Date(block.timestamp).toISOString(),
+        mining: {
+          jobId,
+          state: 'QUEUED',
+          position: miningQueue.getPosition(jobId),
+        },
+        submittedAt,
+        descriptionReadableBy: recipients.map(k => k.authority),
+        receipt: pendingReceipt,
+        // Shown once: keep it on the device to list this report under "my reports"
+        ...(claimToken && { claimToken }),
+        // Link with POST /api/me/reports/:id/link if it is the same issue
+        possibleDuplicates,
       },
     });
 
@@ -176,13 +430,23 @@ router.post('/', validateReport, async (req: Request, res: Response) => {
 
 // ─── GET /api/reports — List All Reports ────────────────────
 
-router.get('/', (req: Request, res: Response) => {
+router.get('/', requirePermission('reports:list'), (req: Request, res: Response) => {
   try {
-    const { status, urgency, limit, offset } = req.query;
+    const { status, urgency, category, station, authority, limit, offset } = req.query;
+    const principal = getPrincipal(req)!;
+
+    // Officers and supervisors only see their own authority's reports
+    if (isAuthorityScoped(principal.role) && !principal.authority) {
+      return res.json({ success: true, count: 0, data: [] });
+    }
 
     const reports = getAllReports({
       status: status as string,
       urgency: urgency as string,
+      category: category as string,
+      station: station as string,
+      // Admins may narrow to one authority; everyone else is held to their own
+      authority: isAuthorityScoped(principal.role) ? principal.authority! : authority as string,
       limit: limit ? parseInt(limit as string) : 50,
       offset: offset ? parseInt(offset as string) : 0,
     });
@@ -197,23 +461,43 @@ router.get('/', (req: Request, res: Response) => {
   }
 });
 
+// ─── GET /api/reports/lifecycle — Status Model ──────────────
+
+router.get('/lifecycle', (_req: Request, res: Response) => {
+  return res.json({
+    success: true,
+    data: {
+      statuses: REPORT_STATUSES,
+      transitions: STATUS_TRANSITIONS,
+      reporterStatuses: REPORTER_STATUSES,
+      dismissalReasons: DISMISSAL_REASONS,
+    },
+  });
+});
+
 // ─── GET /api/reports/:id — Get Single Report ───────────────
 
-router.get('/:id', (req: Request, res: Response) => {
+router.get('/:id', requirePermission('reports:read'), (req: Request, res: Response) => {
   try {
     const report = getReportById(req.params.id);
 
-    if (!report) {
+    // Out-of-scope reports look the same as missing ones
+    if (!report || !canAccessReport(getPrincipal(req)!, report.id)) {
       return res.status(404).json({ success: false, message: 'Report not found.' });
     }
 
-    const evidence = getEvidenceByReport(report.id);
+    // Salts stay private: each is only released with its own file's proof
+    const evidence = getEvidenceByReport(report.id).map(({ salt, stored_path, ...file }) => file);
+    const statusHistory = getStatusHistory(report.id).map(statusHistoryView);
     const auditLog = getAuditLog(report.id);
 
     return res.json({
       success: true,
       data: {
         ...report,
+        allowedTransitions: allowedTransitions(report.status, 'STAFF'),
+        statusHistory,
+        duplicates: clusterView(report.id),
         evidence,
         auditLog,
       },
@@ -223,14 +507,211 @@ router.get('/:id', (req: Request, res: Response) => {
   }
 });
 
+// ─── GET /api/reports/:id/similar — Possible Duplicates ─────
+
+router.get('/:id/similar', requirePermission('reports:read'), (req: Request, res: Response) => {
+  try {
+    const principal = getPrincipal(req)!;
+    const report = getReportById(req.params.id);
+
+    if (!report || !canAccessReport(principal, report.id)) {
+      return res.status(404).json({ success: false, message: 'Report not found.' });
+    }
+
+    // Only reports the caller could link it to
+    const similar = findPossibleDuplicates(probeFromReport(report), 10)
+      .filter(match => canAccessReport(principal, match.report.id))
+      .map(match => ({ ...duplicateSuggestionView(match), aiSummary: match.report.ai_summary ?? null, signals: match.signals }));
+
+    return res.json({ success: true, count: similar.length, data: similar });
+  } catch (error) {
+    console.error('[Reports] Similar reports error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to look for similar reports.' });
+  }
+});
+
+// ─── POST /api/reports/:id/link — Link as Duplicate ─────────
+
+router.post('/:id/link', requirePermission('reports:link'), [
+  body('primaryId').isUUID().withMessage('primaryId must be a report id'),
+], async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const principal = getPrincipal(req)!;
+    const report = getReportById(req.params.id);
+    const target = getReportById(req.body.primaryId);
+
+    if (!report || !canAccessReport(principal, report.id) || !target || !canAccessReport(principal, target.id)) {
+      return res.status(404).json({ success: false, message: 'Report not found.' });
+    }
+
+    // Clusters stay one level deep: linking to a duplicate links to its primary
+    const targetLink = getReportLink(target.id);
+    const primary = targetLink ? getReportById(targetLink.primary_id)! : target;
+    if (primary.id === report.id) {
+      return res.status(400).json({ success: false, message: 'A report cannot be linked to itself.' });
+    }
+
+    const match = scoreDuplicate(probeFromReport(report), { ...primary, linked_count: 0 });
+    const moved = linkReport({
+      report_id: report.id,
+      primary_id: primary.id,
+      source: 'STAFF',
+      score: match?.score ?? null,
+      linked_by: principal.userId,
+    });
+
+    logAudit({
+      event_type: 'REPORTS_LINKED',
+      report_id: report.id,
+      actor: principal.userId,
+      details: `Linked as a duplicate of ${primary.reference_id}` +
+        (moved > 0 ? `, with the ${moved} report(s) linked to it` : '') + ` by ${principal.role}`,
+      ip_address: req.ip,
+    });
+
+    // ── The cluster catches up with where the primary already is ──
+    const linked = await shareStatusWithLinked(primary, {
+      status: primary.status as ReportStatus,
+      by: 'STAFF',
+      actor: principal.userId,
+      actorRole: principal.role,
+    }, reportId => canAccessReport(principal, reportId));
+    auditLinkedStatusChanges(linked, primary, principal, req.ip);
+
+    return res.json({
+      success: true,
+      message: `Report linked to ${primary.reference_id}.`,
+      data: {
+        reportId: report.id,
+        primaryId: primary.id,
+        movedReports: moved,
+        score: match?.score ?? null,
+        linked: linked.map(linkedStatusView),
+      },
+    });
+  } catch (error) {
+    console.error('[Reports] Link error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to link the reports.' });
+  }
+});
+
+// ─── DELETE /api/reports/:id/link — Unlink ──────────────────
+
+router.delete('/:id/link', requirePermission('reports:link'), (req: Request, res: Response) => {
+  try {
+    const principal = getPrincipal(req)!;
+    const report = getReportById(req.params.id);
+
+    if (!report || !canAccessReport(principal, report.id)) {
+      return res.status(404).json({ success: false, message: 'Report not found.' });
+    }
+    if (!unlinkReport(report.id)) {
+      return res.status(404).json({ success: false, message: 'Report is not linked to another report.' });
+    }
+
+    logAudit({
+      event_type: 'REPORT_UNLINKED',
+      report_id: report.id,
+      actor: principal.userId,
+      details: `Taken out of its duplicate cluster by ${principal.role}`,
+      ip_address: req.ip,
+    });
+
+    return res.json({ success: true, message: 'Report unlinked.' });
+  } catch (error) {
+    console.error('[Reports] Unlink error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to unlink the report.' });
+  }
+});
+
+// ─── GET /api/reports/:id/receipt — Poll Block Settlement ───
+
+router.get('/:id/receipt', (req: Request, res: Response) => {
+  try {
+    const report = getReportById(req.params.id);
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found.' });
+    }
+
+    if (report.block_index != null) {
+      const block = blockchain.getChain()[report.block_index];
+      if (!block || block.hash !== report.block_hash) {
+        return res.status(409).json({
+          success: false,
+          state: 'COMMITTED',
+          message: 'Report block no longer matches the ledger. It may have been tampered with.',
+        });
+      }
+
+      return res.json({
+        success: true,
+        state: 'COMMITTED',
+        data: {
+          reportId: report.id,
+          referenceId: report.reference_id,
+          blockIndex: block.index,
+          blockHash: block.hash,
+          chainLength: blockchain.getLength(),
+          receipt: buildSubmissionReceipt(report, block),
+        },
+      });
+    }
+
+    const job = getReportMiningJob(report.id);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'No block or mining job found for this report.' });
+    }
+
+    if (job.state === 'FAILED') {
+      return res.status(500).json({
+        success: false,
+        state: 'FAILED',
+        message: 'Recording this report on the blockchain failed. Please contact support with your reference ID.',
+      });
+    }
+
+    // Still QUEUED or MINING — the client should poll again
+    return res.status(202).json({
+      success: true,
+      state: job.state,
+      data: {
+        reportId: report.id,
+        referenceId: report.reference_id,
+        jobId: job.id,
+        position: miningQueue.getPosition(job.id),
+      },
+    });
+
+  } catch (error) {
+    return res.status(500).json({ success: false, message: 'Failed to fetch receipt.' });
+  }
+});
+
 // ─── GET /api/reports/:id/verify — Verify on Blockchain ─────
 
 router.get('/:id/verify', (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
+    // Accept either the internal report ID or the citizen-facing reference ID
+    const report = getReportById(id);
+
+    if (report && report.block_index == null) {
+      return res.status(202).json({
+        success: true,
+        verified: false,
+        pending: true,
+        message: 'Report was accepted and is still being recorded on the blockchain. Try again shortly.',
+      });
+    }
+
     // Find block in blockchain
-    const block = blockchain.findBlockByReportId(id);
+    const block = blockchain.findBlockByReportId(report ? report.id : id);
 
     if (!block) {
       return res.status(404).json({
@@ -243,18 +724,27 @@ router.get('/:id/verify', (req: Request, res: Response) => {
     // Verify overall chain integrity
     const isChainValid = blockchain.isChainValid();
 
+    // Inclusion proof the citizen can check offline against a published root
+    const merkleProof = blockchain.getInclusionProof(block.index);
+    const statusHistory = buildStatusHistory(block);
+
     return res.json({
       success: true,
       verified: true,
       chainIntegrity: isChainValid ? 'VALID' : 'COMPROMISED',
       blockDetails: {
+        version: getBlockVersion(block),
         index: block.index,
         hash: block.hash,
         previousHash: block.previousHash,
         timestamp: new Date(block.timestamp).toISOString(),
         nonce: block.nonce,
         dataHash: Blockchain.hashData(JSON.stringify(block.data)),
+        signature: block.signature ?? null,
       },
+      merkleProof,
+      onChainStatus: statusHistory[statusHistory.length - 1].status,
+      statusHistory,
       message: isChainValid
         ? 'Report verified on blockchain. Chain integrity is intact.'
         : 'WARNING: Blockchain integrity check failed. Data may have been tampered with.',
@@ -265,10 +755,119 @@ router.get('/:id/verify', (req: Request, res: Response) => {
   }
 });
 
-// ─── PATCH /api/reports/:id/status — Update Status ──────────
+// ─── GET /api/reports/:id/evidence/:fileId/proof ─────────────
+
+/**
+ * Proves one evidence file belongs to a report, in two hops:
+ * file → evidenceRoot in the report's block (evidenceProof), and
+ * block → ledger Merkle root (blockProof). Only this file's salt is
+ * released; the other files stay hidden behind their commitments.
+ */
+router.get('/:id/evidence/:fileId/proof', (req: Request, res: Response) => {
+  try {
+    const report = getReportById(req.params.id);
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found.' });
+    }
+
+    const files = getEvidenceByReport(report.id);
+    const file = files.find(f => f.id === req.params.fileId);
+    if (!file) {
+      return res.status(404).json({ success: false, message: 'Evidence file not found for this report.' });
+    }
+    if (file.salt == null || file.leaf_index == null) {
+      return res.status(409).json({ success: false, message: 'This evidence predates evidence Merkle roots and has no proof.' });
+    }
+
+    const block = blockchain.findBlockByReportId(report.id);
+    if (!block) {
+      return res.status(202).json({
+        success: true,
+        pending: true,
+        message: 'Report is still being recorded on the blockchain. Try again shortly.',
+      });
+    }
+
+    const commitments = files.map(f => commitEvidence(f.file_hash, f.salt ?? ''));
+    const evidenceProof = getEvidenceProof(commitments, file.leaf_index);
+    const evidenceRoot = (block.data as BlockData).evidenceRoot;
+
+    if (evidenceProof.root !== evidenceRoot) {
+      return res.status(409).json({
+        success: false,
+        message: 'Stored evidence no longer matches the evidence root on the ledger. It may have been tampered with.',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        fileId: file.id,
+        fileName: file.file_name,
+        fileHash: file.file_hash,
+        salt: file.salt,
+        evidenceRoot,
+        evidenceProof,
+        blockIndex: block.index,
+        blockHash: block.hash,
+        blockProof: blockchain.getInclusionProof(block.index),
+      },
+    });
+  } catch (error) {
+    console.error('[Reports] Evidence proof error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to build evidence proof.' });
+  }
+});
+
+// ─── GET /api/reports/:id/evidence/:fileId — Evidence File ──
+
+/**
+ * Streams an evidence file to staff working the report. Each access
+ * is logged, so the audit trail doubles as a chain of custody.
+ */
+router.get('/:id/evidence/:fileId', requirePermission('reports:read'), (req: Request, res: Response) => {
+  try {
+    const principal = getPrincipal(req)!;
+    const report = getReportById(req.params.id);
+    if (!report || !canAccessReport(principal, report.id)) {
+      return res.status(404).json({ success: false, message: 'Report not found.' });
+    }
+
+    const file = getEvidenceByReport(report.id).find(f => f.id === req.params.fileId);
+    if (!file?.stored_path) {
+      return res.status(404).json({ success: false, message: 'Evidence file not found for this report.' });
+    }
+
+    logAudit({
+      event_type: 'EVIDENCE_ACCESSED',
+      report_id: report.id,
+      actor: principal.userId,
+      details: `Evidence ${file.id} (sha256 ${file.file_hash}) opened by ${principal.role}`,
+      ip_address: req.ip,
+    });
+
+    return res.download(file.stored_path, file.file_name ?? file.id, error => {
+      if (error && !res.headersSent) {
+        console.error('[Reports] Evidence download error:', error);
+        res.status(404).json({ success: false, message: 'Evidence file is missing from storage.' });
+      }
+    });
+  } catch (error) {
+    console.error('[Reports] Evidence download error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch the evidence file.' });
+  }
+});
 
-router.patch('/:id/status', [
-  body('status').isIn(['PENDING', 'UNDER_REVIEW', 'RESOLVED', 'DISMISSED']).withMessage('Invalid status'),
+// ─── GET /api/reports/:id/description — Sealed Description ──
+
+/**
+ * Hands a routed authority's staff the encrypted description and the
+ * authority's key grant. Only that authority's private key opens it
+ * (see `npm run vault:decrypt`). Officers and supervisors get their
+ * own authority's envelope; admins name the authority.
+ */
+router.get('/:id/description', requirePermission('reports:read'), [
+  query('authority').optional().isString().trim().notEmpty().withMessage('authority must be an authority name'),
 ], (req: Request, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -276,27 +875,113 @@ router.patch('/:id/status', [
   }
 
   try {
-    const { status } = req.body;
+    const principal = getPrincipal(req)!;
     const report = getReportById(req.params.id);
+    if (!report || !canAccessReport(principal, report.id)) {
+      return res.status(404).json({ success: false, message: 'Report not found.' });
+    }
 
-    if (!report) {
+    const authority = isAuthorityScoped(principal.role) ? principal.authority! : req.query.authority as string | undefined;
+    if (!authority) {
+      return res.status(400).json({ success: false, message: 'authority is required.' });
+    }
+    if (!isAuthorityRouted(report.id, authority)) {
+      return res.status(403).json({ success: false, message: `This report was not routed to ${authority}.` });
+    }
+
+    const envelope = getDescriptionEnvelope(report.id, authority);
+    if (!envelope) {
+      return res.status(404).json({
+        success: false,
+        message: `${authority} had no vault key registered when this report was routed, so it cannot read the description.`,
+        readableBy: getDescriptionGrantAuthorities(report.id),
+      });
+    }
+
+    logAudit({
+      event_type: 'DESCRIPTION_ENVELOPE_ISSUED',
+      report_id: report.id,
+      actor: principal.userId,
+      details: `Sealed description issued to ${principal.role} for ${authority} (key ${envelope.grant.keyId})`,
+      ip_address: req.ip,
+    });
+
+    return res.json({ success: true, data: envelope });
+  } catch (error) {
+    console.error('[Reports] Description envelope error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch the sealed description.' });
+  }
+});
+
+// ─── PATCH /api/reports/:id/status — Update Status ──────────
+
+router.patch('/:id/status', requirePermission('reports:update-status'), [
+  body('status').isIn(REPORT_STATUSES).withMessage(`status must be one of: ${REPORT_STATUSES.join(', ')}`),
+  body('reasonCode').optional().isIn(DISMISSAL_REASONS).withMessage(`reasonCode must be one of: ${DISMISSAL_REASONS.join(', ')}`),
+  body('reason').optional().isString().isLength({ max: 500 }).withMessage('Reason must be at most 500 characters'),
+], async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const { status, reasonCode, reason } = req.body as { status: ReportStatus; reasonCode?: DismissalReason; reason?: string };
+    const principal = getPrincipal(req)!;
+    const report = getReportById(req.params.id);
+
+    if (!report || !canAccessReport(principal, report.id)) {
       return res.status(404).json({ success: false, message: 'Report not found.' });
     }
 
-    updateReportStatus(report.id, status);
+    // ── Checked against the lifecycle, then recorded on-chain before SQLite ──
+    const change = await changeReportStatus(report, {
+      status,
+      by: 'STAFF',
+      actor: principal.userId,
+      actorRole: principal.role,
+      reasonCode,
+      reason,
+    });
+    if (change.outcome !== 'CHANGED') {
+      const httpStatus = change.outcome === 'NOT_ALLOWED' ? 400 : change.outcome === 'NOT_FOUND' ? 404 : 409;
+      return res.status(httpStatus).json({ success: false, message: change.message });
+    }
 
     logAudit({
       event_type: 'STATUS_UPDATED',
       report_id: report.id,
-      actor: 'ADMIN',
-      details: `Status changed from ${report.status} to ${status}`,
+      actor: principal.userId,
+      details: `Status changed from ${change.previousStatus} to ${status}` +
+        (reasonCode ? ` (${reasonCode})` : '') +
+        ` by ${principal.role} (block #${change.block.index})`,
       ip_address: req.ip,
     });
 
+    // ── Duplicates linked to this report share its progress ──
+    const linked = await shareStatusWithLinked(report, {
+      status,
+      by: 'STAFF',
+      actor: principal.userId,
+      actorRole: principal.role,
+      reason,
+    }, reportId => canAccessReport(principal, reportId));
+    auditLinkedStatusChanges(linked, report, principal, req.ip);
+
     return res.json({
       success: true,
       message: `Report status updated to ${status}`,
-      data: { id: report.id, referenceId: report.reference_id, status },
+      data: {
+        id: report.id,
+        referenceId: report.reference_id,
+        status,
+        previousStatus: change.previousStatus,
+        reasonCode: reasonCode ?? null,
+        allowedTransitions: allowedTransitions(status, 'STAFF'),
+        blockIndex: change.block.index,
+        blockHash: change.block.hash,
+        linked: linked.map(linkedStatusView),
+      },
     });
 
   } catch (error) {
@@ -317,6 +1002,7 @@ router.get('/blockchain/health', (_req: Request, res: Response) => {
     chainLength,
     latestBlockHash: latestBlock.hash,
     latestBlockIndex: latestBlock.index,
+    merkleRoot: blockchain.getMerkleRoot(),
     lastUpdated: new Date(latestBlock.timestamp).toISOString(),
     message: isValid
       ? 'Blockchain is intact and all records are tamper-proof.'
@@ -324,4 +1010,172 @@ router.get('/blockchain/health', (_req: Request, res: Response) => {
   });
 });
 
+// ─── POST /api/blockchain/forensics — Tamper Investigation ──
+
+router.post('/blockchain/forensics', requirePermission('chain:administer'), (req: Request, res: Response) => {
+  try {
+    const report = chainForensics.investigate({ actor: getPrincipal(req)!.userId, ipAddress: req.ip });
+
+    return res.json({
+      success: true,
+      status: report.clean ? 'CLEAN' : 'TAMPERED',
+      data: report,
+      message: report.clean
+        ? `All ${report.blocksScanned} blocks and ${report.reportsChecked} chained reports check out.`
+        : `${report.issues.length} block issue(s) and ${report.reportMismatches.length} mismatched report(s) found. Recorded as incident ${report.incidentId}.`,
+    });
+  } catch (error) {
+    console.error('[Reports] Forensics error:', error);
+    return res.status(500).json({ success: false, message: 'Forensic scan failed.' });
+  }
+});
+
+// ─── GET /api/blockchain/forensics — Incident History ───────
+
+router.get('/blockchain/forensics', requirePermission('chain:inspect'), (_req: Request, res: Response) => {
+  try {
+    const incidents = getAuditEventsByType(['TAMPER_INCIDENT', 'FORENSIC_SCAN_CLEAN']).map(entry => ({
+      eventType: entry.event_type,
+      actor: entry.actor,
+      recordedAt: new Date(entry.timestamp * 1000).toISOString(),
+      ...JSON.parse(entry.details),
+    }));
+    return res.json({ success: true, count: incidents.length, data: incidents });
+  } catch (error) {
+    console.error('[Reports] Forensics history error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch forensic incidents.' });
+  }
+});
+
+// ─── GET /api/blockchain/reconciliation — Drift Report ──────
+
+router.get('/blockchain/reconciliation', requirePermission('chain:inspect'), (_req: Request, res: Response) => {
+  try {
+    const report = reportReconciler.reconcile();
+    return res.json({ success: true, consistent: report.drifted.length === 0, data: report });
+  } catch (error) {
+    console.error('[Reports] Reconciliation error:', error);
+    return res.status(500).json({ success: false, message: 'Reconciliation failed.' });
+  }
+});
+
+// ─── POST /api/blockchain/reconciliation — Quarantine Drift ─
+
+router.post('/blockchain/reconciliation', requirePermission('chain:administer'), (req: Request, res: Response) => {
+  try {
+    const report = reportReconciler.reconcile({ quarantine: true, actor: getPrincipal(req)!.userId, ipAddress: req.ip });
+    return res.json({
+      success: true,
+      consistent: report.drifted.length === 0,
+      data: report,
+      message: `${report.drifted.length} report(s) quarantined, ${report.released.length} released.`,
+    });
+  } catch (error) {
+    console.error('[Reports] Reconciliation error:', error);
+    return res.status(500).json({ success: false, message: 'Reconciliation failed.' });
+  }
+});
+
+// ─── GET /api/blockchain/export — Signed Chain Bundle ───────
+
+/**
+ * Downloads the whole ledger as a signed bundle for courts and
+ * auditors; they can check it offline with `npm run chain:verify-bundle`.
+ * Refused while the chain fails its integrity check.
+ */
+router.get('/blockchain/export', requirePermission('chain:administer'), (req: Request, res: Response) => {
+  try {
+    if (!blockchain.isChainValid()) {
+      return res.status(409).json({
+        success: false,
+        message: 'The ledger fails its integrity check. Run a forensic scan instead of exporting it.',
+      });
+    }
+
+    const bundle = exportChainBundle(blockchain, keyRing, getNodeId());
+    const { length, headHash } = bundle.manifest.payload;
+
+    logAudit({
+      event_type: 'CHAIN_EXPORTED',
+      actor: getPrincipal(req)!.userId,
+      details: `Exported ${length} blocks (head ${headHash})`,
+      ip_address: req.ip,
+    });
+
+    res.setHeader('Content-Disposition', `attachment; filename="jaagruk-${length}-${headHash.slice(0, 12)}.chain.json"`);
+    return res.json(bundle);
+  } catch (error) {
+    console.error('[Reports] Chain export error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to export the ledger.' });
+  }
+});
+
+// ─── GET /api/blockchain/merkle-root — Published Root ───────
+
+router.get('/blockchain/merkle-root', (_req: Request, res: Response) => {
+  const latestBlock = blockchain.getLatestBlock();
+
+  return res.json({
+    success: true,
+    root: blockchain.getMerkleRoot(),
+    treeSize: blockchain.getLength(),
+    latestBlockIndex: latestBlock.index,
+    latestBlockHash: latestBlock.hash,
+    publishedAt: new Date().toISOString(),
+  });
+});
+
+// ─── GET /api/blockchain/keys — Signing Public Keys ─────────
+
+router.get('/blockchain/keys', (_req: Request, res: Response) => {
+  return res.json({
+    success: true,
+    activeKeyId: keyRing.getActiveKeyId(),
+    data: keyRing.getPublicKeys(),
+  });
+});
+
+// ─── POST /api/receipts/verify — Check a Signed Receipt ─────
+
+router.post('/receipts/verify', [
+  body('payload').isObject().withMessage('Receipt payload is required'),
+  body('keyId').isString().withMessage('Receipt keyId is required'),
+  body('signature').isString().withMessage('Receipt signature is required'),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  const receipt = req.body as SignedReceipt<{ type: string; reportId: string; blockIndex?: number; blockHash?: string }>;
+  const signatureValid = keyRing.verifyReceipt(receipt);
+
+  // A pending receipt proves acceptance only; it names no block yet
+  if (receipt.payload.type === 'JAAGRUK_PENDING_RECEIPT') {
+    return res.json({
+      success: true,
+      signatureValid,
+      blockMatches: null,
+      message: !signatureValid
+        ? 'Receipt signature is invalid. This receipt was not issued by this server.'
+        : 'Receipt is authentic. It predates mining — fetch the final receipt to check the block.',
+    });
+  }
+
+  // A valid signature proves acceptance; also check the block is still there
+  const block = blockchain.getChain()[receipt.payload.blockIndex ?? -1];
+  const blockMatches = Boolean(block && block.hash === receipt.payload.blockHash);
+
+  return res.json({
+    success: true,
+    signatureValid,
+    blockMatches,
+    message: !signatureValid
+      ? 'Receipt signature is invalid. This receipt was not issued by this server.'
+      : blockMatches
+        ? 'Receipt is authentic and the block is still on the ledger.'
+        : 'WARNING: Receipt is authentic but the ledger no longer contains this block.',
+  });
+});
+
 export default router;
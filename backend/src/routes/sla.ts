@@ -0,0 +1,246 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * SLA Router — Deadlines, Escalation Paths & Breaches
+ * ============================================================
+ *
+ * ENDPOINTS:
+ * GET    /api/sla/policies                     → Configured policies and the built-in defaults
+ * POST   /api/sla/policies                     → Set the deadlines for a category / urgency (admin)
+ * DELETE /api/sla/policies?category=&urgency=  → Remove a policy (admin)
+ * GET    /api/sla/escalation-paths             → Where each authority escalates to (officer, supervisor, admin)
+ * POST   /api/sla/escalation-paths             → Set an authority's escalation path (admin)
+ * DELETE /api/sla/escalation-paths/:authority  → Remove an escalation path (admin)
+ * GET    /api/sla/escalations                  → Recent missed deadlines (own authority; admin: all)
+ * POST   /api/sla/scan                         → Run the escalation scan now (admin)
+ *
+ * Leaving out category or urgency ('*') makes a policy apply to all
+ * of them; the most specific policy wins (see SlaMonitor).
+ */
+
+import { Router, Request, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+
+import {
+  getSlaPolicies, upsertSlaPolicy, deleteSlaPolicy, getEscalationPaths, upsertEscalationPath, deleteEscalationPath,
+  getRecentSlaEscalations, logAudit,
+} from '../services/DatabaseService.js';
+import { slaMonitor, escalationView, DEFAULT_SLA_POLICIES } from '../services/SlaMonitor.js';
+import { isAuthorityScoped } from '../services/AccessControl.js';
+import { requirePermission, getPrincipal } from './auth.js';
+
+const router = Router();
+
+const URGENCIES = ['Critical', 'High', 'Medium', 'Low'];
+const MAX_SLA_MINUTES = 365 * 24 * 60;
+
+function toIso(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toISOString();
+}
+
+// ─── GET /api/sla/policies — Policies ───────────────────────
+
+router.get('/policies', (_req: Request, res: Response) => {
+  try {
+    const policies = getSlaPolicies().map(p => ({
+      category: p.category,
+      urgency: p.urgency,
+      ackMinutes: p.ack_minutes,
+      resolveMinutes: p.resolve_minutes,
+      updatedAt: toIso(p.updated_at),
+    }));
+    return res.json({ success: true, count: policies.length, data: policies, defaults: DEFAULT_SLA_POLICIES });
+  } catch (error) {
+    console.error('[SLA] List policies error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch SLA policies.' });
+  }
+});
+
+// ─── POST /api/sla/policies — Set a Policy ──────────────────
+
+router.post('/policies', requirePermission('sla:manage'), [
+  body('category').optional().isString().trim().notEmpty().withMessage('category must be a category name or *'),
+  body('urgency').optional().isIn(['*', ...URGENCIES]).withMessage(`urgency must be one of: *, ${URGENCIES.join(', ')}`),
+  body('ackMinutes').isInt({ min: 1, max: MAX_SLA_MINUTES }).toInt().withMessage('ackMinutes must be a whole number of minutes'),
+  body('resolveMinutes').isInt({ min: 1, max: MAX_SLA_MINUTES }).toInt().withMessage('resolveMinutes must be a whole number of minutes'),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  const { category = '*', urgency = '*', ackMinutes, resolveMinutes } = req.body;
+  if (resolveMinutes < ackMinutes) {
+    return res.status(400).json({ success: false, message: 'resolveMinutes cannot be shorter than ackMinutes.' });
+  }
+
+  try {
+    const principal = getPrincipal(req)!;
+    upsertSlaPolicy({ category, urgency, ack_minutes: ackMinutes, resolve_minutes: resolveMinutes, updated_by: principal.userId });
+
+    logAudit({
+      event_type: 'SLA_POLICY_SET',
+      actor: principal.userId,
+      details: `SLA for ${category} / ${urgency}: acknowledge within ${ackMinutes} min, resolve within ${resolveMinutes} min`,
+      ip_address: req.ip,
+    });
+
+    return res.json({ success: true, data: { category, urgency, ackMinutes, resolveMinutes } });
+  } catch (error) {
+    console.error('[SLA] Set policy error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to save the SLA policy.' });
+  }
+});
+
+// ─── DELETE /api/sla/policies — Remove a Policy ─────────────
+
+router.delete('/policies', requirePermission('sla:manage'), [
+  query('category').optional().isString().notEmpty(),
+  query('urgency').optional().isIn(['*', ...URGENCIES]).withMessage(`urgency must be one of: *, ${URGENCIES.join(', ')}`),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const category = (req.query.category as string) || '*';
+    const urgency = (req.query.urgency as string) || '*';
+    if (!deleteSlaPolicy(category, urgency)) {
+      return res.status(404).json({ success: false, message: `No SLA policy for ${category} / ${urgency}.` });
+    }
+
+    logAudit({
+      event_type: 'SLA_POLICY_REMOVED',
+      actor: getPrincipal(req)!.userId,
+      details: `SLA for ${category} / ${urgency} removed`,
+      ip_address: req.ip,
+    });
+
+    return res.json({ success: true, message: `SLA policy for ${category} / ${urgency} removed.` });
+  } catch (error) {
+    console.error('[SLA] Remove policy error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to remove the SLA policy.' });
+  }
+});
+
+// ─── GET /api/sla/escalation-paths — Escalation Paths ───────
+
+router.get('/escalation-paths', requirePermission('reports:list'), (_req: Request, res: Response) => {
+  try {
+    const paths = getEscalationPaths().map(p => ({
+      authority: p.authority,
+      escalateTo: p.escalate_to,
+      updatedAt: toIso(p.updated_at),
+    }));
+    return res.json({ success: true, count: paths.length, data: paths });
+  } catch (error) {
+    console.error('[SLA] List escalation paths error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch escalation paths.' });
+  }
+});
+
+// ─── POST /api/sla/escalation-paths — Set a Path ────────────
+
+router.post('/escalation-paths', requirePermission('sla:manage'), [
+  body('authority').isString().trim().notEmpty().withMessage('authority is required'),
+  body('escalateTo').isString().trim().notEmpty().withMessage('escalateTo is required'),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  const { authority, escalateTo } = req.body as { authority: string; escalateTo: string };
+  if (authority === escalateTo) {
+    return res.status(400).json({ success: false, message: 'An authority cannot escalate to itself.' });
+  }
+
+  try {
+    upsertEscalationPath(authority, escalateTo);
+
+    logAudit({
+      event_type: 'ESCALATION_PATH_SET',
+      actor: getPrincipal(req)!.userId,
+      details: `${authority} escalates to ${escalateTo}`,
+      ip_address: req.ip,
+    });
+
+    return res.json({ success: true, data: { authority, escalateTo } });
+  } catch (error) {
+    console.error('[SLA] Set escalation path error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to save the escalation path.' });
+  }
+});
+
+// ─── DELETE /api/sla/escalation-paths/:authority ────────────
+
+router.delete('/escalation-paths/:authority', requirePermission('sla:manage'), (req: Request, res: Response) => {
+  try {
+    const { authority } = req.params;
+    if (!deleteEscalationPath(authority)) {
+      return res.status(404).json({ success: false, message: `${authority} has no escalation path.` });
+    }
+
+    logAudit({
+      event_type: 'ESCALATION_PATH_REMOVED',
+      actor: getPrincipal(req)!.userId,
+      details: `Escalation path of ${authority} removed`,
+      ip_address: req.ip,
+    });
+
+    return res.json({ success: true, message: `Escalation path of ${authority} removed.` });
+  } catch (error) {
+    console.error('[SLA] Remove escalation path error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to remove the escalation path.' });
+  }
+});
+
+// ─── GET /api/sla/escalations — Missed Deadlines ────────────
+
+router.get('/escalations', requirePermission('reports:list'), (req: Request, res: Response) => {
+  try {
+    const principal = getPrincipal(req)!;
+    if (isAuthorityScoped(principal.role) && !principal.authority) {
+      return res.json({ success: true, count: 0, data: [] });
+    }
+
+    // Officers and supervisors see what their authority missed or received
+    const authority = isAuthorityScoped(principal.role) ? principal.authority! : req.query.authority as string | undefined;
+    const escalations = getRecentSlaEscalations(authority).map(e => ({ reportId: e.report_id, ...escalationView(e) }));
+
+    return res.json({ success: true, count: escalations.length, data: escalations });
+  } catch (error) {
+    console.error('[SLA] List escalations error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch escalations.' });
+  }
+});
+
+// ─── POST /api/sla/scan — Scan Now ──────────────────────────
+
+router.post('/scan', requirePermission('sla:manage'), (req: Request, res: Response) => {
+  try {
+    const result = slaMonitor.scan();
+
+    logAudit({
+      event_type: 'SLA_SCAN_REQUESTED',
+      actor: getPrincipal(req)!.userId,
+      details: `${result.casesChecked} open case(s) checked, ${result.escalated.length} escalated`,
+      ip_address: req.ip,
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        scannedAt: result.scannedAt,
+        casesChecked: result.casesChecked,
+        escalated: result.escalated.map(e => ({ reportId: e.report_id, ...escalationView(e) })),
+      },
+    });
+  } catch (error) {
+    console.error('[SLA] Scan error:', error);
+    return res.status(500).json({ success: false, message: 'SLA scan failed.' });
+  }
+});
+
+export default router;
@@ -0,0 +1,135 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Users Router — Roles & Staff
+ * ============================================================
+ *
+ * Admins promote accounts to officer, supervisor or admin and tie
+ * officers to the authority whose reports they work. The first admin
+ * is granted from the command line (`npm run users:grant-role`).
+ *
+ * ENDPOINTS:
+ * GET    /api/users/staff          → Staff accounts, optionally ?authority= (admin)
+ * GET    /api/users/officers       → Officers a case can be assigned to (supervisor: own authority; admin: ?authority=)
+ * PATCH  /api/users/:id/role       → Set an account's role and authority (admin)
+ */
+
+import { Router, Request, Response } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+
+import { ROLES, Role, isAuthorityScoped } from '../services/AccessControl.js';
+import { getUserById, getStaffUsers, updateUserRole, logAudit, UserRecord } from '../services/DatabaseService.js';
+import { requirePermission, getPrincipal } from './auth.js';
+
+const router = Router();
+
+function staffMember(user: UserRecord) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    phone: user.phone,
+    role: user.role,
+    authority: user.authority,
+  };
+}
+
+// ─── GET /api/users/staff — Staff Accounts ──────────────────
+
+router.get('/staff', requirePermission('users:manage'), [
+  query('authority').optional().isString().trim().notEmpty(),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const staff = getStaffUsers(req.query.authority as string | undefined).map(staffMember);
+    return res.json({ success: true, count: staff.length, data: staff });
+  } catch (error) {
+    console.error('[Users] List staff error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch staff accounts.' });
+  }
+});
+
+// ─── GET /api/users/officers — Assignable Officers ──────────
+
+router.get('/officers', requirePermission('cases:assign'), [
+  query('authority').optional().isString().trim().notEmpty(),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const principal = getPrincipal(req)!;
+    const authority = isAuthorityScoped(principal.role) ? principal.authority : req.query.authority as string | undefined;
+    if (!authority) {
+      return res.status(400).json({ success: false, message: 'authority is required.' });
+    }
+
+    // Only roles a case can be assigned to (see routes/cases.ts)
+    const officers = getStaffUsers(authority)
+      .filter(user => isAuthorityScoped(user.role))
+      .map(({ id, name, role }) => ({ id, name, role }));
+    return res.json({ success: true, count: officers.length, data: officers });
+  } catch (error) {
+    console.error('[Users] List officers error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to fetch officers.' });
+  }
+});
+
+// ─── PATCH /api/users/:id/role — Assign a Role ──────────────
+
+router.patch('/:id/role', requirePermission('users:manage'), [
+  param('id').isString().notEmpty(),
+  body('role').isIn(ROLES).withMessage(`role must be one of ${ROLES.join(', ')}`),
+  body('authority').optional({ values: 'null' }).isString().trim(),
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  const { role } = req.body as { role: Role };
+  const authority = (req.body.authority as string | null | undefined) || null;
+  const principal = getPrincipal(req)!;
+
+  if (isAuthorityScoped(role) && !authority) {
+    return res.status(400).json({ success: false, message: `${role} accounts must belong to an authority.` });
+  }
+  if (req.params.id === principal.userId && role !== 'ADMIN') {
+    return res.status(400).json({ success: false, message: 'You cannot remove your own admin role.' });
+  }
+
+  try {
+    const user = getUserById(req.params.id);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found.' });
+    }
+
+    // Only officers and supervisors are tied to an authority
+    const scopedAuthority = isAuthorityScoped(role) ? authority : null;
+    updateUserRole(user.id, role, scopedAuthority);
+
+    logAudit({
+      event_type: 'ROLE_CHANGED',
+      actor: principal.userId,
+      details: `User ${user.id}: ${user.role}${user.authority ? ` (${user.authority})` : ''} → ${role}${scopedAuthority ? ` (${scopedAuthority})` : ''}`,
+      ip_address: req.ip,
+    });
+
+    return res.json({
+      success: true,
+      message: 'Role updated. It applies to the account\'s next request.',
+      data: staffMember({ ...user, role, authority: scopedAuthority }),
+    });
+  } catch (error) {
+    console.error('[Users] Role change error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to update role.' });
+  }
+});
+
+export default router;
@@ -0,0 +1,98 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Access Control — Roles & Permissions
+ * ============================================================
+ *
+ * ROLES (users.role):
+ *   CITIZEN     → Files and follows their own reports (default)
+ *   OFFICER     → Works reports routed to their authority
+ *   SUPERVISOR  → Officer rights, plus assigning and transferring cases
+ *                 and read-only ledger audits
+ *   ADMIN       → Everything, across all authorities
+ *
+ * Officers and supervisors belong to one authority (users.authority,
+ * the same name reports are routed to) and only ever see reports
+ * routed there. Routes ask for a permission, never for a role, via
+ * requirePermission() in routes/auth.ts.
+ */
+
+import { isAuthorityRouted } from './DatabaseService.js';
+
+export const ROLES = ['CITIZEN', 'OFFICER', 'SUPERVISOR', 'ADMIN'] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | 'reports:list'            // All reports routed to the caller's authority
+  | 'reports:read'            // A report's full record and audit trail
+  | 'reports:update-status'   // Status changes, recorded on-chain
+  | 'reports:link'            // Link duplicate reports into one cluster
+  | 'cases:work'              // Acknowledge cases, read and add internal notes
+  | 'cases:assign'            // Assign and reassign cases to officers
+  | 'cases:transfer'          // Hand a case to another authority
+  | 'chain:inspect'           // Forensic incidents, reconciliation dry runs
+  | 'chain:administer'        // Forensic scans, quarantining, ledger export
+  | 'authorities:manage-keys' // Register description vault keys
+  | 'anchors:publish'         // Anchor the chain head on demand
+  | 'replication:sync'        // Pull from peers on demand
+  | 'sla:manage'              // SLA policies, escalation paths, scans on demand
+  | 'users:manage';           // Assign roles and authorities
+
+const OFFICER_PERMISSIONS: Permission[] = ['reports:list', 'reports:read', 'reports:update-status', 'reports:link', 'cases:work'];
+const CASE_LEAD_PERMISSIONS: Permission[] = ['cases:assign', 'cases:transfer'];
+
+const ROLE_PERMISSIONS: Record<Role, ReadonlySet<Permission>> = {
+  CITIZEN: new Set(),
+  OFFICER: new Set(OFFICER_PERMISSIONS),
+  SUPERVISOR: new Set<Permission>([...OFFICER_PERMISSIONS, ...CASE_LEAD_PERMISSIONS, 'chain:inspect']),
+  ADMIN: new Set<Permission>([
+    ...OFFICER_PERMISSIONS,
+    ...CASE_LEAD_PERMISSIONS,
+    'chain:inspect',
+    'chain:administer',
+    'authorities:manage-keys',
+    'anchors:publish',
+    'replication:sync',
+    'sla:manage',
+    'users:manage',
+  ]),
+};
+
+// ─── Types ─────────────────────────────────────────────────
+
+/**
+ * The authenticated caller, attached to the request by authMiddleware.
+ */
+export interface Principal {
+  userId: string;
+  role: Role;
+  authority: string | null;
+}
+
+// ─── Checks ────────────────────────────────────────────────
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.has(permission) ?? false;
+}
+
+/**
+ * Roles that only act within their own authority.
+ */
+export function isAuthorityScoped(role: Role): boolean {
+  return role === 'OFFICER' || role === 'SUPERVISOR';
+}
+
+/**
+ * Whether the caller may see or act on one report. Admins reach
+ * every report; officers and supervisors only those routed to
+ * their authority.
+ */
+export function canAccessReport(principal: Principal, reportId: string): boolean {
+  if (principal.role === 'ADMIN') return true;
+  if (!isAuthorityScoped(principal.role) || !principal.authority) return false;
+  return isAuthorityRouted(reportId, principal.authority);
+}
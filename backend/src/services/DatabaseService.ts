@@ -10,60 +10,82 @@
  * SQLite handles fast querying, filtering, and relationships.
  *
  * TABLES:
- * - blockchain_state  → Serialized blockchain (full chain JSON)
+ * - blocks            → Append-only ledger, one row per block
+ * - mining_jobs       → Blocks queued for mining, and how they settled
+ * - blockchain_state  → Legacy serialized chain (migrated into blocks)
  * - reports           → Queryable report metadata
+ * - status_history    → Every status a report has been in, who set it and why
+ * - report_links      → Duplicate reports linked to the report they repeat
  * - evidence          → Evidence file references per report
+ * - uploaded_files    → Uploads not yet (or already) claimed by a report
+ * - authority_keys    → Authorities' P-256 public keys for the description vault
+ * - description_vault → Encrypted report descriptions
+ * - description_key_grants → Each routed authority's wrapped key to a description
  * - authorities       → Authority routing per report
+ * - sla_policies      → Acknowledge / resolve deadlines per category and urgency
+ * - escalation_paths  → Which authority takes over when another misses a deadline
+ * - sla_escalations   → Every missed deadline and where the report was escalated
  * - audit_log         → Immutable audit trail of all actions
+ * - users             → Registered user accounts
+ * - sessions          → Login sessions and their current refresh token hash
+ * - otp_challenges    → Hashed phone login codes, attempts and expiry
+ * - replication_peers → Peer nodes whose chains this node mirrors
+ * - peer_blocks       → Append-only mirror of each peer's chain
+ * - anchors           → Checkpoints this node published to witnesses
+ * - witnessed_checkpoints → Checkpoints other nodes published to us
  */
 
 import Database from 'better-sqlite3';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs';
-import { Block } from '../blockchain/BlockchainService.js';
+import { Block, BlockStore, StatusEventData } from '../blockchain/BlockchainService.js';
+import { getBlockVersion } from '../blockchain/BlockFormat.js';
+import type { AnchorReceipt, Checkpoint } from '../blockchain/anchoring/Witness.js';
+import type { SealedDescription, DescriptionKeyGrant, DescriptionEnvelope } from './DescriptionVault.js';
+import type { Role } from './AccessControl.js';
+import type { FollowUpKeyGrant, FollowUpSender } from './FollowUpChannel.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const DB_PATH = path.join(__dirname, '../../data/jaagruk.db');
+const DEFAULT_DB_PATH = path.join(__dirname, '../../data/jaagruk.db');
+
+// Resolved at init (after dotenv) so several local nodes can each use their own file
+function getDbPath(): string {
+  return process.env.DB_PATH ? path.resolve(process.env.DB_PATH) : DEFAULT_DB_PATH;
+}
 
 // ─── Database Initialization ────────────────────────────────
 
 let db: Database.Database;
 
 export function initDatabase(): Database.Database {
+  const dbPath = getDbPath();
+
   // Ensure data directory exists
-  const dataDir = path.dirname(DB_PATH);
+  const dataDir = path.dirname(dbPath);
   fs.mkdirSync(dataDir, { recursive: true });
 
-  db = new Database(DB_PATH);
+  db = new Database(dbPath);
 
   // Enable WAL mode for better concurrent read performance
   db.pragma('journal_mode = WAL');
   db.pragma('foreign_keys = ON');
 
   createTables();
-  console.log('[Database] SQLite initialized at:', DB_PATH);
+  migrateColumns();
+  migrateTables();
+  migrateLegacyChainBlob();
+  console.log('[Database] SQLite initialized at:', dbPath);
   return db;
 }
 
 // ─── Table Creation ─────────────────────────────────────────
 
-function createTables(): void {
-  // ── Blockchain state persistence ──
-  // Stores the entire chain as JSON for persistence across restarts
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS blockchain_state (
-      id          INTEGER PRIMARY KEY CHECK (id = 1),
-      chain_json  TEXT NOT NULL,
-      last_hash   TEXT NOT NULL,
-      block_count INTEGER NOT NULL DEFAULT 1,
-      updated_at  INTEGER NOT NULL DEFAULT (unixepoch())
-    )
-  `);
-
-  // ── Main reports table ──
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS reports (
+// Shared with the rebuild in migrateTables. Statuses are those of
+// services/ReportLifecycle.ts.
+function reportsTableSql(name: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${name} (
       id               TEXT PRIMARY KEY,
       reference_id     TEXT UNIQUE NOT NULL,
       block_index      INTEGER,
@@ -73,16 +95,156 @@ function createTables(): void {
       description_hash TEXT NOT NULL,
       identity_type    TEXT NOT NULL CHECK (identity_type IN ('name', 'anonymous')),
       citizen_id       TEXT,
-      status           TEXT NOT NULL DEFAULT 'PENDING' 
-                       CHECK (status IN ('PENDING', 'UNDER_REVIEW', 'RESOLVED', 'DISMISSED')),
+      status           TEXT NOT NULL DEFAULT 'PENDING'
+                       CHECK (status IN ('PENDING', 'UNDER_REVIEW', 'IN_PROGRESS', 'RESOLVED', 'DISMISSED', 'REOPENED')),
       location_area    TEXT NOT NULL,
       location_address TEXT NOT NULL,
       nearest_station  TEXT NOT NULL,
+      location_lat     REAL,            -- Map position for the authority console, when known
+      location_lng     REAL,
       is_emergency     INTEGER NOT NULL DEFAULT 0,
       ai_summary       TEXT,
+      quarantined_at   INTEGER,
+      quarantine_reason TEXT,
       created_at       INTEGER NOT NULL DEFAULT (unixepoch()),
       updated_at       INTEGER NOT NULL DEFAULT (unixepoch())
     )
+  `;
+}
+
+// Shared with the rebuild in migrateTables. At most one escalation
+// per case, deadline and routing: a reopened or transferred case
+// (new routed_at) has fresh deadlines to miss.
+function slaEscalationsTableSql(name: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${name} (
+      id           TEXT PRIMARY KEY,
+      report_id    TEXT NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+      authority    TEXT NOT NULL,       -- The case that missed the deadline
+      deadline     TEXT NOT NULL CHECK (deadline IN ('ACKNOWLEDGE', 'RESOLVE')),
+      due_at       INTEGER NOT NULL,
+      routed_at    INTEGER NOT NULL DEFAULT 0,  -- The case's routed_at the deadline ran from
+      escalated_to TEXT,                -- NULL when the authority has no escalation path
+      created_at   INTEGER NOT NULL DEFAULT (unixepoch()),
+      UNIQUE (report_id, authority, deadline, routed_at)
+    )
+  `;
+}
+
+// Shared with the rebuild in migrateTables. Phone-OTP accounts have
+// no email or password; email/password accounts may have an
+// unverified phone.
+function usersTableSql(name: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${name} (
+      id                TEXT PRIMARY KEY,
+      name              TEXT NOT NULL,
+      email             TEXT UNIQUE,
+      phone             TEXT,
+      phone_verified_at INTEGER,
+      password_hash     TEXT,
+      role              TEXT NOT NULL DEFAULT 'CITIZEN'
+                        CHECK (role IN ('CITIZEN', 'OFFICER', 'SUPERVISOR', 'ADMIN')),
+      authority         TEXT,
+      verified          INTEGER NOT NULL DEFAULT 0,
+      created_at        INTEGER NOT NULL DEFAULT (unixepoch()),
+      updated_at        INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `;
+}
+
+function createTables(): void {
+  // ── Blockchain ledger ──
+  // One row per block, appended as blocks are mined. Never updated.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS blocks (
+      block_index   INTEGER PRIMARY KEY,
+      version       INTEGER NOT NULL DEFAULT 1,
+      hash          TEXT UNIQUE NOT NULL,
+      previous_hash TEXT NOT NULL,
+      timestamp     INTEGER NOT NULL,
+      nonce         INTEGER NOT NULL,
+      merkle_root   TEXT,
+      signer_key_id TEXT,
+      signature     TEXT,
+      data_json     TEXT NOT NULL,
+      created_at    INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  // ── Mining queue ──
+  // Payloads waiting for (or done with) proof-of-work. Unsettled report
+  // jobs are resumed on startup so an accepted report is never lost.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS mining_jobs (
+      id           TEXT PRIMARY KEY,
+      kind         TEXT NOT NULL CHECK (kind IN ('REPORT', 'STATUS_EVENT')),
+      report_id    TEXT NOT NULL,
+      payload_json TEXT NOT NULL,
+      state        TEXT NOT NULL DEFAULT 'QUEUED'
+                   CHECK (state IN ('QUEUED', 'MINING', 'COMMITTED', 'FAILED')),
+      block_index  INTEGER,
+      block_hash   TEXT,
+      error        TEXT,
+      queued_at    INTEGER NOT NULL DEFAULT (unixepoch()),
+      settled_at   INTEGER
+    )
+  `);
+
+  // ── Legacy blockchain state ──
+  // Older deployments stored the entire chain as one JSON blob.
+  // Kept only so migrateLegacyChainBlob() can read it once.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS blockchain_state (
+      id          INTEGER PRIMARY KEY CHECK (id = 1),
+      chain_json  TEXT NOT NULL,
+      last_hash   TEXT NOT NULL,
+      block_count INTEGER NOT NULL DEFAULT 1,
+      updated_at  INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  // ── Main reports table ──
+  db.exec(reportsTableSql('reports'));
+
+  // ── Status history (mirrors the status event blocks) ──
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS status_history (
+      id              INTEGER PRIMARY KEY AUTOINCREMENT,
+      report_id       TEXT NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+      previous_status TEXT,             -- NULL for the submission
+      status          TEXT NOT NULL,
+      actor           TEXT NOT NULL,    -- User ID, or CITIZEN / ANONYMOUS for the reporter
+      actor_role      TEXT,
+      reason_code     TEXT,             -- Required for DISMISSED (see ReportLifecycle)
+      reason          TEXT,
+      block_index     INTEGER,          -- Status event block; NULL for the submission
+      block_hash      TEXT,
+      changed_at      INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  // ── Duplicate links: a report and the primary report of its cluster ──
+  // Primaries are never linked themselves, so clusters are one level deep.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS report_links (
+      report_id  TEXT PRIMARY KEY REFERENCES reports(id) ON DELETE CASCADE,
+      primary_id TEXT NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+      source     TEXT NOT NULL CHECK (source IN ('REPORTER', 'STAFF')),
+      score      REAL,                -- Similarity when it was linked (see DuplicateDetector)
+      linked_by  TEXT,                -- Staff user ID, or NULL for the reporter
+      created_at INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  // ── Claim tokens for anonymous reports ──
+  // Only the filing device holds the token; nothing here points back
+  // to an account.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS report_claims (
+      token_hash TEXT PRIMARY KEY,      -- SHA-256 of the claim token
+      report_id  TEXT NOT NULL REFERENCES reports(id) ON DELETE CASCADE
+    )
   `);
 
   // ── Evidence files per report ──
@@ -95,6 +257,22 @@ function createTables(): void {
       file_type   TEXT,
       file_size   INTEGER,
       stored_path TEXT,
+      salt        TEXT,                 -- Hides this file's commitment (see EvidenceSet)
+      leaf_index  INTEGER,              -- Position in the report's evidence Merkle tree
+      uploaded_at INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  // ── Uploaded files not yet (or already) attached to a report ──
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS uploaded_files (
+      id          TEXT PRIMARY KEY,
+      file_hash   TEXT NOT NULL,        -- SHA-256 of the stored bytes
+      file_name   TEXT NOT NULL,
+      file_type   TEXT NOT NULL,
+      file_size   INTEGER NOT NULL,
+      stored_path TEXT NOT NULL,
+      report_id   TEXT REFERENCES reports(id),
       uploaded_at INTEGER NOT NULL DEFAULT (unixepoch())
     )
   `);
@@ -107,7 +285,125 @@ function createTables(): void {
       authority    TEXT NOT NULL,
       routed_at    INTEGER NOT NULL DEFAULT (unixepoch()),
       acknowledged INTEGER NOT NULL DEFAULT 0,
-      ack_at       INTEGER
+      ack_at       INTEGER,
+      assigned_to  TEXT REFERENCES users(id),
+      assigned_at  INTEGER
+    )
+  `);
+
+  // ── Internal case notes (staff only, never shown to the reporter) ──
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS case_notes (
+      id         TEXT PRIMARY KEY,
+      report_id  TEXT NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+      authority  TEXT NOT NULL,       -- The case (routed authority) the note was written on
+      author_id  TEXT NOT NULL REFERENCES users(id),
+      body       TEXT NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  // ── SLA policies ──
+  // '*' matches every category / urgency; the most specific row wins
+  // (see SlaMonitor). Without any row the built-in defaults apply.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sla_policies (
+      category        TEXT NOT NULL DEFAULT '*',
+      urgency         TEXT NOT NULL DEFAULT '*' CHECK (urgency IN ('*', 'Critical', 'High', 'Medium', 'Low')),
+      ack_minutes     INTEGER NOT NULL CHECK (ack_minutes > 0),
+      resolve_minutes INTEGER NOT NULL CHECK (resolve_minutes > 0),
+      updated_by      TEXT REFERENCES users(id),
+      updated_at      INTEGER NOT NULL DEFAULT (unixepoch()),
+      PRIMARY KEY (category, urgency)
+    )
+  `);
+
+  // ── Escalation paths: the supervising authority of each authority ──
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS escalation_paths (
+      authority   TEXT PRIMARY KEY,
+      escalate_to TEXT NOT NULL,
+      updated_at  INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  // ── Missed SLA deadlines (at most one per case, deadline and routing) ──
+  db.exec(slaEscalationsTableSql('sla_escalations'));
+
+  // ── Description vault ──
+  // Descriptions sealed for the authorities a report was routed to.
+  // One active key per authority; retired keys stay because older
+  // grants were wrapped to them.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS authority_keys (
+      key_id         TEXT PRIMARY KEY,
+      authority      TEXT NOT NULL,
+      public_key_pem TEXT NOT NULL,
+      created_at     INTEGER NOT NULL DEFAULT (unixepoch()),
+      retired_at     INTEGER
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS description_vault (
+      report_id  TEXT PRIMARY KEY REFERENCES reports(id) ON DELETE CASCADE,
+      algorithm  TEXT NOT NULL,
+      iv         TEXT NOT NULL,
+      auth_tag   TEXT NOT NULL,
+      ciphertext TEXT NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS description_key_grants (
+      report_id            TEXT NOT NULL REFERENCES description_vault(report_id) ON DELETE CASCADE,
+      authority            TEXT NOT NULL,
+      key_id               TEXT NOT NULL REFERENCES authority_keys(key_id),
+      algorithm            TEXT NOT NULL,
+      ephemeral_public_key TEXT NOT NULL,
+      iv                   TEXT NOT NULL,
+      auth_tag             TEXT NOT NULL,
+      wrapped_key          TEXT NOT NULL,
+      created_at           INTEGER NOT NULL DEFAULT (unixepoch()),
+      PRIMARY KEY (report_id, authority)
+    )
+  `);
+
+  // ── Anonymous follow-up channels ──
+  // End-to-end encrypted: the server holds a hash of the reporter's
+  // access key, the thread key wrapped per authority, and ciphertext.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS followup_channels (
+      report_id       TEXT PRIMARY KEY REFERENCES reports(id) ON DELETE CASCADE,
+      access_key_hash TEXT NOT NULL,
+      created_at      INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS followup_key_grants (
+      report_id            TEXT NOT NULL REFERENCES followup_channels(report_id) ON DELETE CASCADE,
+      authority            TEXT NOT NULL,
+      key_id               TEXT NOT NULL REFERENCES authority_keys(key_id),
+      algorithm            TEXT NOT NULL,
+      ephemeral_public_key TEXT NOT NULL,
+      iv                   TEXT NOT NULL,
+      auth_tag             TEXT NOT NULL,
+      wrapped_key          TEXT NOT NULL,
+      PRIMARY KEY (report_id, authority)
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS report_messages (
+      id          TEXT PRIMARY KEY,
+      report_id   TEXT NOT NULL REFERENCES followup_channels(report_id) ON DELETE CASCADE,
+      sender      TEXT NOT NULL CHECK (sender IN ('REPORTER', 'OFFICER')),
+      officer_id  TEXT REFERENCES users(id),   -- Never set for the reporter
+      iv          TEXT NOT NULL,
+      ciphertext  TEXT NOT NULL,
+      created_at  INTEGER NOT NULL DEFAULT (unixepoch())
     )
   `);
 
@@ -125,16 +421,107 @@ function createTables(): void {
   `);
 
   // ── Users table ──
+  db.exec(usersTableSql('users'));
+
+  // ── Phone login codes ──
+  // Only a hash of each code is kept. A new request supersedes the
+  // phone's pending code; rows stay for rate limiting.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS otp_challenges (
+      id          TEXT PRIMARY KEY,
+      phone       TEXT NOT NULL,
+      code_hash   TEXT NOT NULL,
+      attempts    INTEGER NOT NULL DEFAULT 0,
+      status      TEXT NOT NULL DEFAULT 'PENDING'
+                  CHECK (status IN ('PENDING', 'VERIFIED', 'SUPERSEDED', 'EXPIRED', 'LOCKED', 'FAILED')),
+      ip_address  TEXT,
+      created_at  INTEGER NOT NULL DEFAULT (unixepoch()),
+      expires_at  INTEGER NOT NULL
+    )
+  `);
+
+  // ── Login sessions ──
+  // One row per login; the refresh token rotates but the session ID stays.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id                  TEXT PRIMARY KEY,
+      user_id             TEXT NOT NULL REFERENCES users(id),
+      refresh_token_hash  TEXT NOT NULL,
+      previous_token_hash TEXT,
+      created_at          INTEGER NOT NULL DEFAULT (unixepoch()),
+      last_used_at        INTEGER NOT NULL DEFAULT (unixepoch()),
+      expires_at          INTEGER NOT NULL,
+      revoked_at          INTEGER,
+      revoked_reason      TEXT,
+      user_agent          TEXT,
+      ip_address          TEXT
+    )
+  `);
+
+  // ── Peer nodes this node replicates ──
+  // Keys are kept so a peer's mirror can be re-verified while it is offline.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS replication_peers (
+      node_id           TEXT PRIMARY KEY,
+      url               TEXT NOT NULL,
+      keys_json         TEXT NOT NULL,
+      signed_from_index INTEGER,
+      status            TEXT NOT NULL DEFAULT 'SYNCING'
+                        CHECK (status IN ('SYNCING', 'SYNCED', 'UNREACHABLE', 'DIVERGED')),
+      divergence_json   TEXT,
+      last_synced_at    INTEGER,
+      updated_at        INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  // ── Mirror of each peer's chain ──
+  // Same shape as blocks, keyed by origin node. Never updated.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS peer_blocks (
+      node_id       TEXT NOT NULL REFERENCES replication_peers(node_id),
+      block_index   INTEGER NOT NULL,
+      version       INTEGER NOT NULL DEFAULT 1,
+      hash          TEXT NOT NULL,
+      previous_hash TEXT NOT NULL,
+      timestamp     INTEGER NOT NULL,
+      nonce         INTEGER NOT NULL,
+      merkle_root   TEXT,
+      signer_key_id TEXT,
+      signature     TEXT,
+      data_json     TEXT NOT NULL,
+      received_at   INTEGER NOT NULL DEFAULT (unixepoch()),
+      PRIMARY KEY (node_id, block_index)
+    )
+  `);
+
+  // ── Checkpoints this node anchored with external witnesses ──
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS anchors (
+      id           INTEGER PRIMARY KEY AUTOINCREMENT,
+      witness      TEXT NOT NULL,
+      block_index  INTEGER NOT NULL,
+      block_hash   TEXT NOT NULL,
+      tree_size    INTEGER NOT NULL,
+      merkle_root  TEXT NOT NULL,
+      receipt_json TEXT NOT NULL,
+      anchored_at  INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  // ── Checkpoints other nodes asked us to witness ──
   db.exec(`
-    CREATE TABLE IF NOT EXISTS users (
-      id            TEXT PRIMARY KEY,
-      name          TEXT NOT NULL,
-      email         TEXT UNIQUE NOT NULL,
-      phone         TEXT,
-      password_hash TEXT NOT NULL,
-      verified      INTEGER NOT NULL DEFAULT 0,
-      created_at    INTEGER NOT NULL DEFAULT (unixepoch()),
-      updated_at    INTEGER NOT NULL DEFAULT (unixepoch())
+    CREATE TABLE IF NOT EXISTS witnessed_checkpoints (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      origin_node TEXT NOT NULL,
+      block_index INTEGER NOT NULL,
+      block_hash  TEXT NOT NULL,
+      tree_size   INTEGER NOT NULL,
+      merkle_root TEXT NOT NULL,
+      created_at  TEXT NOT NULL,
+      signer_key_id TEXT,
+      signature   TEXT,
+      ip_address  TEXT,
+      received_at INTEGER NOT NULL DEFAULT (unixepoch())
     )
   `);
 
@@ -144,14 +531,122 @@ function createTables(): void {
     CREATE INDEX IF NOT EXISTS idx_reports_created ON reports(created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_reports_urgency ON reports(urgency);
     CREATE INDEX IF NOT EXISTS idx_reports_category ON reports(category);
+    CREATE INDEX IF NOT EXISTS idx_reports_citizen ON reports(citizen_id);
+    CREATE INDEX IF NOT EXISTS idx_status_history_report ON status_history(report_id, id);
+    CREATE INDEX IF NOT EXISTS idx_report_links_primary ON report_links(primary_id);
     CREATE INDEX IF NOT EXISTS idx_evidence_report ON evidence(report_id);
     CREATE INDEX IF NOT EXISTS idx_routing_report ON authority_routing(report_id);
+    CREATE INDEX IF NOT EXISTS idx_case_notes_report ON case_notes(report_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_sla_escalations_report ON sla_escalations(report_id);
+    CREATE INDEX IF NOT EXISTS idx_messages_report ON report_messages(report_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_authority_keys_authority ON authority_keys(authority);
     CREATE INDEX IF NOT EXISTS idx_audit_report ON audit_log(report_id);
     CREATE INDEX IF NOT EXISTS idx_audit_time ON audit_log(timestamp DESC);
     CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+    CREATE INDEX IF NOT EXISTS idx_users_phone ON users(phone);
+    CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+    CREATE INDEX IF NOT EXISTS idx_otp_phone ON otp_challenges(phone, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_otp_ip ON otp_challenges(ip_address, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_mining_jobs_report ON mining_jobs(report_id);
+    CREATE INDEX IF NOT EXISTS idx_anchors_time ON anchors(anchored_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_witnessed_origin ON witnessed_checkpoints(origin_node);
   `);
 }
 
+// ─── Column Migrations ──────────────────────────────────────
+// CREATE TABLE IF NOT EXISTS never alters an existing table, so
+// columns added after a table first shipped are back-filled here.
+
+function tableColumns(table: string): { name: string; notnull: number }[] {
+  return db.prepare(`PRAGMA table_info(${table})`).all() as { name: string; notnull: number }[];
+}
+
+function ensureColumn(table: string, column: string, definition: string): void {
+  if (!tableColumns(table).some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+function migrateColumns(): void {
+  ensureColumn('blocks', 'signer_key_id', 'TEXT');
+  ensureColumn('blocks', 'signature', 'TEXT');
+  ensureColumn('reports', 'quarantined_at', 'INTEGER');
+  ensureColumn('evidence', 'salt', 'TEXT');
+  ensureColumn('evidence', 'leaf_index', 'INTEGER');
+  ensureColumn('reports', 'quarantine_reason', 'TEXT');
+  ensureColumn('blocks', 'version', 'INTEGER NOT NULL DEFAULT 1');
+  ensureColumn('peer_blocks', 'version', 'INTEGER NOT NULL DEFAULT 1');
+  ensureColumn('users', 'phone_verified_at', 'INTEGER');
+  ensureColumn('users', 'role', "TEXT NOT NULL DEFAULT 'CITIZEN' CHECK (role IN ('CITIZEN', 'OFFICER', 'SUPERVISOR', 'ADMIN'))");
+  ensureColumn('users', 'authority', 'TEXT');
+  ensureColumn('reports', 'location_lat', 'REAL');
+  ensureColumn('reports', 'location_lng', 'REAL');
+  ensureColumn('authority_routing', 'assigned_to', 'TEXT REFERENCES users(id)');
+  ensureColumn('authority_routing', 'assigned_at', 'INTEGER');
+  ensureColumn('witnessed_checkpoints', 'signer_key_id', 'TEXT');
+  ensureColumn('witnessed_checkpoints', 'signature', 'TEXT');
+  // Indexed here rather than in createTables: older databases only have the column from this point on
+  db.exec('CREATE INDEX IF NOT EXISTS idx_routing_assignee ON authority_routing(assigned_to)');
+}
+
+// ─── Table Rebuilds ─────────────────────────────────────────
+// SQLite cannot drop NOT NULL or change a CHECK in place. Such a
+// table is copied into a fresh one and swapped in (SQLite's
+// documented procedure for schema changes ALTER TABLE cannot do).
+
+function rebuildTable(table: string, createSql: (name: string) => string): void {
+  const staging = `${table}_rebuild`;
+  const indexes = db.prepare(`
+    SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL
+  `).all(table) as { sql: string }[];
+  const target = new Set(tableColumns(table).map(c => c.name));
+
+  db.pragma('foreign_keys = OFF');
+  try {
+    db.transaction(() => {
+      db.exec(`DROP TABLE IF EXISTS ${staging}`);
+      db.exec(createSql(staging));
+      const columns = tableColumns(staging).map(c => c.name).filter(c => target.has(c)).join(', ');
+      db.exec(`INSERT INTO ${staging} (${columns}) SELECT ${columns} FROM ${table}`);
+      db.exec(`DROP TABLE ${table}`);
+      db.exec(`ALTER TABLE ${staging} RENAME TO ${table}`);
+      indexes.forEach(index => db.exec(index.sql));
+
+      const violations = db.pragma('foreign_key_check') as unknown[];
+      if (violations.length > 0) {
+        throw new Error(`[Database] Rebuilding ${table} would break ${violations.length} foreign key reference(s)`);
+      }
+    })();
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+  console.log(`[Database] Rebuilt table ${table} with its current definition`);
+}
+
+function migrateTables(): void {
+  // email / password_hash became optional with phone-OTP login
+  if (tableColumns('users').find(c => c.name === 'email')?.notnull) {
+    rebuildTable('users', usersTableSql);
+  }
+
+  // IN_PROGRESS and REOPENED joined the status CHECK with the lifecycle state machine
+  const reportsSql = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'reports'").get() as { sql: string };
+  if (!reportsSql.sql.includes("'REOPENED'")) {
+    rebuildTable('reports', reportsTableSql);
+  }
+
+  // Escalations became per routing so a reopened case can escalate again
+  if (!tableColumns('sla_escalations').some(c => c.name === 'routed_at')) {
+    rebuildTable('sla_escalations', slaEscalationsTableSql);
+    db.exec(`
+      UPDATE sla_escalations SET routed_at = COALESCE((
+        SELECT r.routed_at FROM authority_routing r
+        WHERE r.report_id = sla_escalations.report_id AND r.authority = sla_escalations.authority
+      ), 0)
+    `);
+  }
+}
+
 export function getDb(): Database.Database {
   if (!db) throw new Error('[Database] Not initialized. Call initDatabase() first.');
   return db;
@@ -159,26 +654,305 @@ export function getDb(): Database.Database {
 
 // ─── Blockchain Persistence ──────────────────────────────────
 
-export function saveBlockchainState(chain: Block[]): void {
-  const db = getDb();
-  const stmt = db.prepare(`
-    INSERT OR REPLACE INTO blockchain_state (id, chain_json, last_hash, block_count, updated_at)
-    VALUES (1, ?, ?, ?, unixepoch())
-  `);
+interface BlockRow {
+  block_index: number;
+  version: number;
+  hash: string;
+  previous_hash: string;
+  timestamp: number;
+  nonce: number;
+  merkle_root: string | null;
+  signer_key_id: string | null;
+  signature: string | null;
+  data_json: string;
+}
+
+function rowToBlock(row: BlockRow): Block {
+  const block: Block = {
+    version: row.version,
+    index: row.block_index,
+    timestamp: row.timestamp,
+    data: JSON.parse(row.data_json),
+    previousHash: row.previous_hash,
+    hash: row.hash,
+    nonce: row.nonce,
+  };
+  // Must stay undefined (not null) so legacy block hashes still verify
+  if (row.merkle_root !== null) block.merkleRoot = row.merkle_root;
+  if (row.signer_key_id !== null && row.signature !== null) {
+    block.signature = { keyId: row.signer_key_id, value: row.signature };
+  }
+  return block;
+}
+
+export function appendBlock(block: Block): void {
+  getDb().prepare(`
+    INSERT INTO blocks (block_index, version, hash, previous_hash, timestamp, nonce, merkle_root, signer_key_id, signature, data_json)
+    VALUES (@index, @version, @hash, @previousHash, @timestamp, @nonce, @merkleRoot, @signerKeyId, @signature, @dataJson)
+  `).run({
+    index: block.index,
+    version: getBlockVersion(block),
+    hash: block.hash,
+    previousHash: block.previousHash,
+    timestamp: block.timestamp,
+    nonce: block.nonce,
+    merkleRoot: block.merkleRoot ?? null,
+    signerKeyId: block.signature?.keyId ?? null,
+    signature: block.signature?.value ?? null,
+    dataJson: JSON.stringify(block.data),
+  });
+}
+
+export function* iterateBlocks(): Generator<Block> {
+  const rows = getDb().prepare('SELECT * FROM blocks ORDER BY block_index ASC').iterate() as IterableIterator<BlockRow>;
+  for (const row of rows) {
+    yield rowToBlock(row);
+  }
+}
 
-  const lastBlock = chain[chain.length - 1];
-  stmt.run(JSON.stringify(chain), lastBlock.hash, chain.length);
+export function countBlocks(): number {
+  return (getDb().prepare('SELECT COUNT(*) AS count FROM blocks').get() as { count: number }).count;
 }
 
-export function loadBlockchainState(): Block[] | null {
+/**
+ * Seeds the ledger with blocks from a verified chain bundle, in one
+ * transaction. Blocks already stored (the genesis block) are skipped.
+ */
+export function importBlocks(blocks: Block[], details: string): number {
   const db = getDb();
-  const row = db.prepare('SELECT chain_json FROM blockchain_state WHERE id = 1').get() as any;
-  if (!row) return null;
+  const existing = countBlocks();
+  const added = blocks.slice(existing);
+
+  db.transaction(() => {
+    added.forEach(appendBlock);
+    logAudit({ event_type: 'CHAIN_IMPORTED', actor: 'ADMIN_CLI', details });
+  })();
+  return added.length;
+}
+
+export const blockStore: BlockStore = {
+  append: appendBlock,
+  iterate: iterateBlocks,
+  count: countBlocks,
+};
+
+// ─── Peer Replicas ───────────────────────────────────────────
+
+export interface ReplicationPeerRecord {
+  node_id: string;
+  url: string;
+  keys_json: string;
+  signed_from_index: number | null;
+  status: 'SYNCING' | 'SYNCED' | 'UNREACHABLE' | 'DIVERGED';
+  divergence_json: string | null;
+  last_synced_at: number | null;
+  updated_at: number;
+}
+
+export function getReplicationPeer(nodeId: string): ReplicationPeerRecord | null {
+  return (getDb().prepare('SELECT * FROM replication_peers WHERE node_id = ?').get(nodeId) as ReplicationPeerRecord) || null;
+}
+
+export function upsertReplicationPeer(peer: Pick<ReplicationPeerRecord, 'node_id' | 'url' | 'keys_json' | 'signed_from_index'>): void {
+  getDb().prepare(`
+    INSERT INTO replication_peers (node_id, url, keys_json, signed_from_index)
+    VALUES (@node_id, @url, @keys_json, @signed_from_index)
+    ON CONFLICT(node_id) DO UPDATE SET
+      url = excluded.url,
+      keys_json = excluded.keys_json,
+      signed_from_index = excluded.signed_from_index,
+      updated_at = unixepoch()
+  `).run(peer);
+}
+
+export function updateReplicationPeerStatus(
+  nodeId: string,
+  status: ReplicationPeerRecord['status'],
+  divergence?: object
+): void {
+  getDb().prepare(`
+    UPDATE replication_peers
+    SET status = ?,
+        divergence_json = COALESCE(?, divergence_json),
+        last_synced_at = CASE WHEN ? = 'SYNCED' THEN unixepoch() ELSE last_synced_at END,
+        updated_at = unixepoch()
+    WHERE node_id = ?
+  `).run(status, divergence ? JSON.stringify(divergence) : null, status, nodeId);
+}
+
+/**
+ * Append-only store for one peer's mirrored chain, so a replica can
+ * be a regular Blockchain with its own validation.
+ */
+export function createPeerBlockStore(nodeId: string): BlockStore {
+  return {
+    append(block: Block): void {
+      getDb().prepare(`
+        INSERT INTO peer_blocks (node_id, block_index, version, hash, previous_hash, timestamp, nonce, merkle_root, signer_key_id, signature, data_json)
+        VALUES (@nodeId, @index, @version, @hash, @previousHash, @timestamp, @nonce, @merkleRoot, @signerKeyId, @signature, @dataJson)
+      `).run({
+        nodeId,
+        index: block.index,
+        version: getBlockVersion(block),
+        hash: block.hash,
+        previousHash: block.previousHash,
+        timestamp: block.timestamp,
+        nonce: block.nonce,
+        merkleRoot: block.merkleRoot ?? null,
+        signerKeyId: block.signature?.keyId ?? null,
+        signature: block.signature?.value ?? null,
+        dataJson: JSON.stringify(block.data),
+      });
+    },
+
+    *iterate(): Generator<Block> {
+      const rows = getDb().prepare(
+        'SELECT * FROM peer_blocks WHERE node_id = ? ORDER BY block_index ASC'
+      ).iterate(nodeId) as IterableIterator<BlockRow>;
+      for (const row of rows) {
+        yield rowToBlock(row);
+      }
+    },
+
+    count(): number {
+      return (getDb().prepare('SELECT COUNT(*) AS count FROM peer_blocks WHERE node_id = ?').get(nodeId) as { count: number }).count;
+    },
+  };
+}
+
+/**
+ * One-time migration from the legacy single-row JSON blob to the
+ * blocks table. Blocks are copied verbatim (not re-validated) so a
+ * tampered history is preserved as evidence; validation happens when
+ * the chain is loaded. The blob is removed in the same transaction.
+ */
+function migrateLegacyChainBlob(): void {
+  const row = db.prepare('SELECT chain_json FROM blockchain_state WHERE id = 1').get() as { chain_json: string } | undefined;
+  if (!row) return;
+
+  if (countBlocks() > 0) {
+    console.warn('[Database] Legacy chain blob found but blocks table is not empty — skipping migration');
+    return;
+  }
+
+  let chain: Block[];
   try {
-    return JSON.parse(row.chain_json) as Block[];
+    chain = JSON.parse(row.chain_json) as Block[];
   } catch {
-    return null;
+    console.error('[Database] Legacy chain blob is not valid JSON — skipping migration');
+    return;
   }
+
+  const migrate = db.transaction(() => {
+    chain.forEach(appendBlock);
+    db.prepare('DELETE FROM blockchain_state WHERE id = 1').run();
+    logAudit({
+      event_type: 'BLOCKCHAIN_MIGRATED',
+      actor: 'SYSTEM',
+      details: `Migrated ${chain.length} blocks from blockchain_state blob to blocks table`,
+    });
+  });
+  migrate();
+
+  console.log(`[Database] Migrated ${chain.length} blocks from legacy chain blob`);
+}
+
+// ─── Mining Jobs ─────────────────────────────────────────────
+
+export type MiningJobState = 'QUEUED' | 'MINING' | 'COMMITTED' | 'FAILED';
+
+export interface MiningJobRecord {
+  id: string;
+  kind: 'REPORT' | 'STATUS_EVENT';
+  report_id: string;
+  payload_json: string;
+  state: MiningJobState;
+  block_index: number | null;
+  block_hash: string | null;
+  error: string | null;
+  queued_at: number;
+  settled_at: number | null;
+}
+
+export function insertMiningJob(job: Pick<MiningJobRecord, 'id' | 'kind' | 'report_id' | 'payload_json'>): void {
+  getDb().prepare(`
+    INSERT INTO mining_jobs (id, kind, report_id, payload_json)
+    VALUES (@id, @kind, @report_id, @payload_json)
+  `).run(job);
+}
+
+export function getMiningJob(id: string): MiningJobRecord | null {
+  return (getDb().prepare('SELECT * FROM mining_jobs WHERE id = ?').get(id) as MiningJobRecord) || null;
+}
+
+export function getReportMiningJob(reportId: string): MiningJobRecord | null {
+  return (getDb().prepare(
+    "SELECT * FROM mining_jobs WHERE report_id = ? AND kind = 'REPORT' ORDER BY queued_at DESC LIMIT 1"
+  ).get(reportId) as MiningJobRecord) || null;
+}
+
+export function getUnsettledMiningJobs(): MiningJobRecord[] {
+  return getDb().prepare(
+    "SELECT * FROM mining_jobs WHERE state IN ('QUEUED', 'MINING') ORDER BY queued_at ASC, rowid ASC"
+  ).all() as MiningJobRecord[];
+}
+
+export function markMiningJob(id: string, state: 'MINING' | 'FAILED', error?: string): void {
+  getDb().prepare(`
+    UPDATE mining_jobs
+    SET state = ?, error = ?, settled_at = CASE WHEN ? = 'FAILED' THEN unixepoch() ELSE NULL END
+    WHERE id = ?
+  `).run(state, error ?? null, state, id);
+}
+
+/**
+ * Records that a job's block is on the chain. For report jobs the
+ * report row is linked to its block in the same transaction.
+ */
+export function settleMiningJob(job: Pick<MiningJobRecord, 'id' | 'kind' | 'report_id'>, block: Block): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE mining_jobs
+      SET state = 'COMMITTED', block_index = ?, block_hash = ?, error = NULL, settled_at = unixepoch()
+      WHERE id = ?
+    `).run(block.index, block.hash, job.id);
+
+    if (job.kind === 'REPORT') {
+      db.prepare('UPDATE reports SET block_index = ?, block_hash = ?, updated_at = unixepoch() WHERE id = ?')
+        .run(block.index, block.hash, job.report_id);
+    }
+  })();
+}
+
+/**
+ * Settles a status event job whose block reached the chain before the
+ * server stopped, when nothing was left waiting to record the change.
+ * The report row and its status history catch up with the block in
+ * the same transaction, unless the change was recorded after all (the
+ * job itself had failed to settle). The reason text was never on the
+ * chain, so the entry has only the reason code, as backfilled history
+ * does.
+ */
+export function settleRecoveredStatusEvent(job: Pick<MiningJobRecord, 'id' | 'kind' | 'report_id'>, block: Block): void {
+  const event = block.data as StatusEventData;
+  const db = getDb();
+  db.transaction(() => {
+    settleMiningJob(job, block);
+    if (!updateReportStatus(job.report_id, event.status, event.previousStatus)) return;
+    insertStatusHistory({
+      report_id: job.report_id,
+      previous_status: event.previousStatus,
+      status: event.status,
+      actor: event.actor,
+      actor_role: null,
+      reason_code: event.reasonCode ?? null,
+      reason: null,
+      block_index: block.index,
+      block_hash: block.hash,
+      changed_at: Math.floor(block.timestamp / 1000),
+    });
+  })();
 }
 
 // ─── Report CRUD ─────────────────────────────────────────────
@@ -197,8 +971,12 @@ export interface ReportRecord {
   location_area: string;
   location_address: string;
   nearest_station: string;
+  location_lat?: number | null;
+  location_lng?: number | null;
   is_emergency: number;
   ai_summary?: string;
+  quarantined_at?: number | null;    // Set when the row disagrees with the ledger
+  quarantine_reason?: string | null;
   created_at: number;
   updated_at: number;
 }
@@ -209,25 +987,39 @@ export function insertReport(report: Omit<ReportRecord, 'created_at' | 'updated_
     INSERT INTO reports (
       id, reference_id, block_index, block_hash, category, urgency,
       description_hash, identity_type, citizen_id, status,
-      location_area, location_address, nearest_station, is_emergency, ai_summary
+      location_area, location_address, nearest_station, location_lat, location_lng, is_emergency, ai_summary
     ) VALUES (
       @id, @reference_id, @block_index, @block_hash, @category, @urgency,
       @description_hash, @identity_type, @citizen_id, @status,
-      @location_area, @location_address, @nearest_station, @is_emergency, @ai_summary
+      @location_area, @location_address, @nearest_station, @location_lat, @location_lng, @is_emergency, @ai_summary
     )
-  `).run(report);
+  `).run({ block_index: null, block_hash: null, location_lat: null, location_lng: null, ...report });
 }
 
 export function getReportById(id: string): ReportRecord | null {
   return (getDb().prepare('SELECT * FROM reports WHERE id = ? OR reference_id = ?').get(id, id) as ReportRecord) || null;
 }
 
-export function getAllReports(filters?: { status?: string; urgency?: string; limit?: number; offset?: number }): ReportRecord[] {
+export function getAllReports(filters?: {
+  status?: string;
+  urgency?: string;
+  category?: string;
+  station?: string;
+  authority?: string;
+  limit?: number;
+  offset?: number;
+}): ReportRecord[] {
   let query = 'SELECT * FROM reports WHERE 1=1';
   const params: any[] = [];
 
   if (filters?.status) { query += ' AND status = ?'; params.push(filters.status); }
   if (filters?.urgency) { query += ' AND urgency = ?'; params.push(filters.urgency); }
+  if (filters?.category) { query += ' AND category = ?'; params.push(filters.category); }
+  if (filters?.station) { query += ' AND nearest_station = ?'; params.push(filters.station); }
+  if (filters?.authority) {
+    query += ' AND id IN (SELECT report_id FROM authority_routing WHERE authority = ?)';
+    params.push(filters.authority);
+  }
 
   query += ' ORDER BY created_at DESC';
   query += ` LIMIT ${filters?.limit || 50} OFFSET ${filters?.offset || 0}`;
@@ -235,46 +1027,695 @@ export function getAllReports(filters?: { status?: string; urgency?: string; lim
   return getDb().prepare(query).all(...params) as ReportRecord[];
 }
 
-export function updateReportStatus(id: string, status: string): void {
-  getDb().prepare('UPDATE reports SET status = ?, updated_at = unixepoch() WHERE id = ?').run(status, id);
+/**
+ * Named reports filed by one account, newest first.
+ */
+export function getReportsByCitizen(citizenId: string): ReportRecord[] {
+  return getDb().prepare(`
+    SELECT * FROM reports WHERE citizen_id = ? AND identity_type = 'name' ORDER BY created_at DESC
+  `).all(citizenId) as ReportRecord[];
 }
 
-// ─── Evidence ────────────────────────────────────────────────
+export function insertReportClaim(reportId: string, tokenHash: string): void {
+  getDb().prepare('INSERT INTO report_claims (token_hash, report_id) VALUES (?, ?)').run(tokenHash, reportId);
+}
 
-export function insertEvidence(evidence: {
-  id: string;
-  report_id: string;
-  file_hash: string;
-  file_name?: string;
-  file_type?: string;
-  file_size?: number;
-  stored_path?: string;
-}): void {
-  getDb().prepare(`
-    INSERT INTO evidence (id, report_id, file_hash, file_name, file_type, file_size, stored_path)
-    VALUES (@id, @report_id, @file_hash, @file_name, @file_type, @file_size, @stored_path)
-  `).run(evidence);
+export function hasReportClaim(reportId: string, tokenHash: string): boolean {
+  return !!getDb().prepare('SELECT 1 FROM report_claims WHERE report_id = ? AND token_hash = ?').get(reportId, tokenHash);
+}
+
+/**
+ * Reports whose claim token hashes to one of these, newest first.
+ */
+export function getReportsByClaims(tokenHashes: string[]): ReportRecord[] {
+  if (tokenHashes.length === 0) return [];
+  return getDb().prepare(`
+    SELECT r.* FROM reports r JOIN report_claims c ON c.report_id = r.id
+    WHERE c.token_hash IN (${tokenHashes.map(() => '?').join(', ')})
+    ORDER BY r.created_at DESC
+  `).all(...tokenHashes) as ReportRecord[];
 }
 
-export function getEvidenceByReport(reportId: string): any[] {
-  return getDb().prepare('SELECT * FROM evidence WHERE report_id = ?').all(reportId) as any[];
+/**
+ * Moves a report from previousStatus to status. False (and nothing
+ * written) if the report is no longer in previousStatus.
+ */
+export function updateReportStatus(id: string, status: string, previousStatus: string): boolean {
+  return getDb().prepare('UPDATE reports SET status = ?, updated_at = unixepoch() WHERE id = ? AND status = ?')
+    .run(status, id, previousStatus).changes > 0;
 }
 
-// ─── Authority Routing ───────────────────────────────────────
+// ─── Status History ──────────────────────────────────────────
 
-export function insertAuthorityRouting(routing: {
-  id: string;
+export interface StatusHistoryRecord {
+  id: number;
   report_id: string;
-  authority: string;
-}): void {
-  getDb().prepare(`
-    INSERT INTO authority_routing (id, report_id, authority)
-    VALUES (@id, @report_id, @authority)
-  `).run(routing);
+  previous_status: string | null;
+  status: string;
+  actor: string;
+  actor_role: string | null;
+  reason_code: string | null;
+  reason: string | null;
+  block_index: number | null;
+  block_hash: string | null;
+  changed_at: number;
 }
 
-// ─── Audit Log ───────────────────────────────────────────────
-
+export function insertStatusHistory(entry: Omit<StatusHistoryRecord, 'id' | 'changed_at'> & { changed_at?: number }): void {
+  getDb().prepare(`
+    INSERT INTO status_history (
+      report_id, previous_status, status, actor, actor_role, reason_code, reason, block_index, block_hash, changed_at
+    ) VALUES (
+      @report_id, @previous_status, @status, @actor, @actor_role, @reason_code, @reason, @block_index, @block_hash,
+      COALESCE(@changed_at, unixepoch())
+    )
+  `).run({ changed_at: null, ...entry });
+}
+
+export function getStatusHistory(reportId: string): StatusHistoryRecord[] {
+  return getDb().prepare('SELECT * FROM status_history WHERE report_id = ? ORDER BY id').all(reportId) as StatusHistoryRecord[];
+}
+
+/**
+ * Reports without any status history (filed before it was kept).
+ */
+export function getReportsWithoutStatusHistory(): ReportRecord[] {
+  return getDb().prepare(`
+    SELECT * FROM reports r WHERE NOT EXISTS (SELECT 1 FROM status_history h WHERE h.report_id = r.id)
+    ORDER BY created_at
+  `).all() as ReportRecord[];
+}
+
+// ─── Report Links (duplicates) ───────────────────────────────
+
+export interface ReportLinkRecord {
+  report_id: string;
+  primary_id: string;
+  source: 'REPORTER' | 'STAFF';
+  score: number | null;
+  linked_by: string | null;
+  created_at: number;
+}
+
+/**
+ * A report that could be the primary of a new duplicate: open, not
+ * itself linked, with how many reports already link to it.
+ */
+export type DuplicateCandidate = ReportRecord & { linked_count: number };
+
+export function getDuplicateCandidates(since: number, excludeId?: string, limit = 500): DuplicateCandidate[] {
+  return getDb().prepare(`
+    SELECT r.*, (SELECT COUNT(*) FROM report_links c WHERE c.primary_id = r.id) AS linked_count
+    FROM reports r
+    WHERE r.created_at >= @since
+      AND r.id != @excludeId
+      AND r.status NOT IN ('RESOLVED', 'DISMISSED')
+      AND r.quarantined_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM report_links l WHERE l.report_id = r.id)
+    ORDER BY r.created_at DESC
+    LIMIT @limit
+  `).all({ since, excludeId: excludeId ?? '', limit }) as DuplicateCandidate[];
+}
+
+export function getReportLink(reportId: string): ReportLinkRecord | null {
+  return (getDb().prepare('SELECT * FROM report_links WHERE report_id = ?').get(reportId) as ReportLinkRecord) ?? null;
+}
+
+export function getLinkedReports(primaryId: string): (ReportLinkRecord & Pick<ReportRecord, 'reference_id' | 'status'>)[] {
+  return getDb().prepare(`
+    SELECT l.*, r.reference_id, r.status
+    FROM report_links l JOIN reports r ON r.id = l.report_id
+    WHERE l.primary_id = ?
+    ORDER BY l.created_at
+  `).all(primaryId) as (ReportLinkRecord & Pick<ReportRecord, 'reference_id' | 'status'>)[];
+}
+
+/**
+ * Links a report to a primary. Reports already linked to it move to
+ * the new primary with it, so merging two clusters is one call.
+ * Returns how many reports moved along.
+ */
+export function linkReport(link: Omit<ReportLinkRecord, 'created_at'>): number {
+  const db = getDb();
+  return db.transaction(() => {
+    db.prepare(`
+      INSERT INTO report_links (report_id, primary_id, source, score, linked_by)
+      VALUES (@report_id, @primary_id, @source, @score, @linked_by)
+      ON CONFLICT (report_id) DO UPDATE SET
+        primary_id = excluded.primary_id,
+        source = excluded.source,
+        score = excluded.score,
+        linked_by = excluded.linked_by,
+        created_at = unixepoch()
+    `).run(link);
+    return db.prepare('UPDATE report_links SET primary_id = ? WHERE primary_id = ?').run(link.primary_id, link.report_id).changes;
+  })();
+}
+
+export function unlinkReport(reportId: string): boolean {
+  return getDb().prepare('DELETE FROM report_links WHERE report_id = ?').run(reportId).changes > 0;
+}
+
+export function* iterateReports(): Generator<ReportRecord> {
+  yield* getDb().prepare('SELECT * FROM reports ORDER BY created_at ASC').iterate() as IterableIterator<ReportRecord>;
+}
+
+export function quarantineReport(id: string, reason: string): void {
+  getDb().prepare(`
+    UPDATE reports SET quarantined_at = COALESCE(quarantined_at, unixepoch()), quarantine_reason = ?
+    WHERE id = ?
+  `).run(reason, id);
+}
+
+export function releaseReportQuarantine(id: string): void {
+  getDb().prepare('UPDATE reports SET quarantined_at = NULL, quarantine_reason = NULL WHERE id = ?').run(id);
+}
+
+/**
+ * Streams every report that has been recorded on the chain, with just
+ * the columns needed to cross-check it against its block.
+ */
+export function* iterateChainedReports(): Generator<Pick<ReportRecord, 'id' | 'reference_id' | 'block_index' | 'block_hash'>> {
+  const rows = getDb().prepare(`
+    SELECT id, reference_id, block_index, block_hash FROM reports
+    WHERE block_index IS NOT NULL ORDER BY block_index ASC
+  `).iterate() as IterableIterator<Pick<ReportRecord, 'id' | 'reference_id' | 'block_index' | 'block_hash'>>;
+  yield* rows;
+}
+
+// ─── Evidence ────────────────────────────────────────────────
+
+export interface EvidenceRecord {
+  id: string;
+  report_id: string;
+  file_hash: string;
+  file_name: string | null;
+  file_type: string | null;
+  file_size: number | null;
+  stored_path: string | null;
+  salt: string | null;
+  leaf_index: number | null;
+  uploaded_at: number;
+}
+
+export function insertEvidence(evidence: {
+  id: string;
+  report_id: string;
+  file_hash: string;
+  file_name?: string;
+  file_type?: string;
+  file_size?: number;
+  stored_path?: string;
+  salt?: string;
+  leaf_index?: number;
+}): void {
+  getDb().prepare(`
+    INSERT INTO evidence (id, report_id, file_hash, file_name, file_type, file_size, stored_path, salt, leaf_index)
+    VALUES (@id, @report_id, @file_hash, @file_name, @file_type, @file_size, @stored_path, @salt, @leaf_index)
+  `).run({
+    file_name: null, file_type: null, file_size: null, stored_path: null, salt: null, leaf_index: null,
+    ...evidence,
+  });
+}
+
+export function getEvidenceByReport(reportId: string): EvidenceRecord[] {
+  return getDb().prepare(
+    'SELECT * FROM evidence WHERE report_id = ? ORDER BY leaf_index ASC, uploaded_at ASC'
+  ).all(reportId) as EvidenceRecord[];
+}
+
+// ─── Uploaded Files ──────────────────────────────────────────
+
+export interface UploadedFileRecord {
+  id: string;
+  file_hash: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  stored_path: string;
+  report_id: string | null;
+  uploaded_at: number;
+}
+
+export function insertUploadedFile(file: Omit<UploadedFileRecord, 'report_id' | 'uploaded_at'>): void {
+  getDb().prepare(`
+    INSERT INTO uploaded_files (id, file_hash, file_name, file_type, file_size, stored_path)
+    VALUES (@id, @file_hash, @file_name, @file_type, @file_size, @stored_path)
+  `).run(file);
+}
+
+export function getUploadedFile(id: string): UploadedFileRecord | null {
+  return (getDb().prepare('SELECT * FROM uploaded_files WHERE id = ?').get(id) as UploadedFileRecord) || null;
+}
+
+export function claimUploadedFile(id: string, reportId: string): void {
+  getDb().prepare('UPDATE uploaded_files SET report_id = ? WHERE id = ? AND report_id IS NULL').run(reportId, id);
+}
+
+// ─── Authority Routing ───────────────────────────────────────
+
+export function insertAuthorityRouting(routing: {
+  id: string;
+  report_id: string;
+  authority: string;
+}): void {
+  getDb().prepare(`
+    INSERT INTO authority_routing (id, report_id, authority)
+    VALUES (@id, @report_id, @authority)
+  `).run(routing);
+}
+
+export function isAuthorityRouted(reportId: string, authority: string): boolean {
+  return !!getDb().prepare('SELECT 1 FROM authority_routing WHERE report_id = ? AND authority = ?').get(reportId, authority);
+}
+
+export function sharesRoutedAuthority(reportId: string, otherId: string): boolean {
+  return !!getDb().prepare(`
+    SELECT 1 FROM authority_routing a JOIN authority_routing b ON b.authority = a.authority
+    WHERE a.report_id = ? AND b.report_id = ?
+  `).get(reportId, otherId);
+}
+
+// ─── Case Management ─────────────────────────────────────────
+// A case is one authority's handling of a report: its row in
+// authority_routing, plus the internal notes staff add along the way.
+
+export interface CaseRecord {
+  id: string;
+  report_id: string;
+  authority: string;
+  routed_at: number;
+  acknowledged: number;
+  ack_at: number | null;
+  assigned_to: string | null;
+  assigned_at: number | null;
+  assignee_name: string | null;
+}
+
+export interface CaseNoteRecord {
+  id: string;
+  report_id: string;
+  authority: string;
+  author_id: string;
+  author_name: string | null;
+  body: string;
+  created_at: number;
+}
+
+const CASE_SELECT = `
+  SELECT r.*, u.name AS assignee_name
+  FROM authority_routing r LEFT JOIN users u ON u.id = r.assigned_to
+`;
+
+const CASE_NOTE_SELECT = `
+  SELECT n.*, u.name AS author_name
+  FROM case_notes n LEFT JOIN users u ON u.id = n.author_id
+`;
+
+export function getCases(reportId: string): CaseRecord[] {
+  return getDb().prepare(`${CASE_SELECT} WHERE r.report_id = ? ORDER BY r.routed_at, r.authority`)
+    .all(reportId) as CaseRecord[];
+}
+
+export function getCase(reportId: string, authority: string): CaseRecord | null {
+  return (getDb().prepare(`${CASE_SELECT} WHERE r.report_id = ? AND r.authority = ?`)
+    .get(reportId, authority) as CaseRecord) || null;
+}
+
+/**
+ * Marks a case acknowledged. False if it already was.
+ */
+export function acknowledgeCase(reportId: string, authority: string): boolean {
+  return getDb().prepare(`
+    UPDATE authority_routing SET acknowledged = 1, ack_at = unixepoch()
+    WHERE report_id = ? AND authority = ? AND acknowledged = 0
+  `).run(reportId, authority).changes > 0;
+}
+
+export function assignCase(reportId: string, authority: string, officerId: string): void {
+  getDb().prepare(`
+    UPDATE authority_routing SET assigned_to = ?, assigned_at = unixepoch()
+    WHERE report_id = ? AND authority = ?
+  `).run(officerId, reportId, authority);
+}
+
+/**
+ * Hands a case to another authority. It arrives there like a newly
+ * routed report: unacknowledged and unassigned.
+ */
+export function transferCase(reportId: string, fromAuthority: string, toAuthority: string): void {
+  getDb().prepare(`
+    UPDATE authority_routing
+    SET authority = ?, routed_at = unixepoch(), acknowledged = 0, ack_at = NULL, assigned_to = NULL, assigned_at = NULL
+    WHERE report_id = ? AND authority = ?
+  `).run(toAuthority, reportId, fromAuthority);
+}
+
+/**
+ * Starts a reopened report's cases over: each authority has to
+ * acknowledge it again, and its SLA deadlines run from now. The
+ * assigned officers keep their cases.
+ */
+export function restartCases(reportId: string): void {
+  getDb().prepare(`
+    UPDATE authority_routing SET routed_at = unixepoch(), acknowledged = 0, ack_at = NULL
+    WHERE report_id = ?
+  `).run(reportId);
+}
+
+/**
+ * Whether anyone can work cases for this authority: it has staff
+ * (officers or supervisors) or a registered vault key.
+ */
+export function isKnownAuthority(authority: string): boolean {
+  return getDb().prepare(`
+    SELECT 1 FROM users WHERE authority = ? AND role IN ('OFFICER', 'SUPERVISOR')
+    UNION ALL
+    SELECT 1 FROM authority_keys WHERE authority = ?
+    LIMIT 1
+  `).get(authority, authority) != null;
+}
+
+export function insertCaseNote(note: Pick<CaseNoteRecord, 'id' | 'report_id' | 'authority' | 'author_id' | 'body'>): CaseNoteRecord {
+  getDb().prepare(`
+    INSERT INTO case_notes (id, report_id, authority, author_id, body)
+    VALUES (@id, @report_id, @authority, @author_id, @body)
+  `).run(note);
+  return getDb().prepare(`${CASE_NOTE_SELECT} WHERE n.id = ?`).get(note.id) as CaseNoteRecord;
+}
+
+export function getCaseNotes(reportId: string): CaseNoteRecord[] {
+  return getDb().prepare(`${CASE_NOTE_SELECT} WHERE n.report_id = ? ORDER BY n.created_at, n.rowid`)
+    .all(reportId) as CaseNoteRecord[];
+}
+
+// ─── SLA & Escalation ────────────────────────────────────────
+
+export interface SlaPolicyRecord {
+  category: string;                 // '*' = any category
+  urgency: string;                  // '*' = any urgency
+  ack_minutes: number;
+  resolve_minutes: number;
+  updated_by: string | null;
+  updated_at: number;
+}
+
+export interface EscalationPathRecord {
+  authority: string;
+  escalate_to: string;
+  updated_at: number;
+}
+
+export type SlaDeadline = 'ACKNOWLEDGE' | 'RESOLVE';
+
+export interface SlaEscalationRecord {
+  id: string;
+  report_id: string;
+  authority: string;
+  deadline: SlaDeadline;
+  due_at: number;
+  routed_at: number;
+  escalated_to: string | null;
+  created_at: number;
+}
+
+/**
+ * An open case the SLA scan still has to watch, with which of its
+ * deadlines have already been escalated.
+ */
+export interface SlaWatchedCase {
+  report_id: string;
+  category: string;
+  urgency: string;
+  authority: string;
+  routed_at: number;
+  acknowledged: number;
+  ack_escalated: number;
+  resolve_escalated: number;
+}
+
+export function getSlaPolicies(): SlaPolicyRecord[] {
+  return getDb().prepare('SELECT * FROM sla_policies ORDER BY category, urgency').all() as SlaPolicyRecord[];
+}
+
+export function upsertSlaPolicy(policy: Pick<SlaPolicyRecord, 'category' | 'urgency' | 'ack_minutes' | 'resolve_minutes' | 'updated_by'>): void {
+  getDb().prepare(`
+    INSERT INTO sla_policies (category, urgency, ack_minutes, resolve_minutes, updated_by)
+    VALUES (@category, @urgency, @ack_minutes, @resolve_minutes, @updated_by)
+    ON CONFLICT (category, urgency) DO UPDATE SET
+      ack_minutes = excluded.ack_minutes,
+      resolve_minutes = excluded.resolve_minutes,
+      updated_by = excluded.updated_by,
+      updated_at = unixepoch()
+  `).run(policy);
+}
+
+export function deleteSlaPolicy(category: string, urgency: string): boolean {
+  return getDb().prepare('DELETE FROM sla_policies WHERE category = ? AND urgency = ?').run(category, urgency).changes > 0;
+}
+
+export function getEscalationPaths(): EscalationPathRecord[] {
+  return getDb().prepare('SELECT * FROM escalation_paths ORDER BY authority').all() as EscalationPathRecord[];
+}
+
+export function upsertEscalationPath(authority: string, escalateTo: string): void {
+  getDb().prepare(`
+    INSERT INTO escalation_paths (authority, escalate_to) VALUES (?, ?)
+    ON CONFLICT (authority) DO UPDATE SET escalate_to = excluded.escalate_to, updated_at = unixepoch()
+  `).run(authority, escalateTo);
+}
+
+export function deleteEscalationPath(authority: string): boolean {
+  return getDb().prepare('DELETE FROM escalation_paths WHERE authority = ?').run(authority).changes > 0;
+}
+
+/**
+ * Cases of reports still open that have a deadline left to escalate.
+ */
+export function getSlaWatchedCases(): SlaWatchedCase[] {
+  return getDb().prepare(`
+    SELECT r.report_id, p.category, p.urgency, r.authority, r.routed_at, r.acknowledged,
+      EXISTS (SELECT 1 FROM sla_escalations e WHERE e.report_id = r.report_id AND e.authority = r.authority
+        AND e.routed_at = r.routed_at AND e.deadline = 'ACKNOWLEDGE') AS ack_escalated,
+      EXISTS (SELECT 1 FROM sla_escalations e WHERE e.report_id = r.report_id AND e.authority = r.authority
+        AND e.routed_at = r.routed_at AND e.deadline = 'RESOLVE') AS resolve_escalated
+    FROM authority_routing r JOIN reports p ON p.id = r.report_id
+    WHERE p.status NOT IN ('RESOLVED', 'DISMISSED')
+  `).all() as SlaWatchedCase[];
+}
+
+/**
+ * Records a missed deadline and, when there is somewhere to escalate
+ * to that is not already on the report, routes the report there.
+ * Null if this deadline was already escalated.
+ */
+export function recordSlaEscalation(
+  escalation: Pick<SlaEscalationRecord, 'id' | 'report_id' | 'authority' | 'deadline' | 'due_at' | 'routed_at' | 'escalated_to'>,
+  routingId: string
+): SlaEscalationRecord | null {
+  const db = getDb();
+  return db.transaction(() => {
+    const inserted = db.prepare(`
+      INSERT OR IGNORE INTO sla_escalations (id, report_id, authority, deadline, due_at, routed_at, escalated_to)
+      VALUES (@id, @report_id, @authority, @deadline, @due_at, @routed_at, @escalated_to)
+    `).run(escalation).changes > 0;
+    if (!inserted) return null;
+
+    if (escalation.escalated_to && !isAuthorityRouted(escalation.report_id, escalation.escalated_to)) {
+      insertAuthorityRouting({ id: routingId, report_id: escalation.report_id, authority: escalation.escalated_to });
+    }
+    return db.prepare('SELECT * FROM sla_escalations WHERE id = ?').get(escalation.id) as SlaEscalationRecord;
+  })();
+}
+
+export function getSlaEscalations(reportId: string): SlaEscalationRecord[] {
+  return getDb().prepare('SELECT * FROM sla_escalations WHERE report_id = ? ORDER BY created_at, rowid')
+    .all(reportId) as SlaEscalationRecord[];
+}
+
+/**
+ * Recent escalations, newest first; with an authority, only those it
+ * missed or received.
+ */
+export function getRecentSlaEscalations(authority?: string, limit = 100): SlaEscalationRecord[] {
+  if (authority) {
+    return getDb().prepare(`
+      SELECT * FROM sla_escalations WHERE authority = ? OR escalated_to = ? ORDER BY created_at DESC, rowid DESC LIMIT ?
+    `).all(authority, authority, limit) as SlaEscalationRecord[];
+  }
+  return getDb().prepare('SELECT * FROM sla_escalations ORDER BY created_at DESC, rowid DESC LIMIT ?')
+    .all(limit) as SlaEscalationRecord[];
+}
+
+// ─── Description Vault ───────────────────────────────────────
+
+export interface AuthorityKeyRecord {
+  key_id: string;
+  authority: string;
+  public_key_pem: string;
+  created_at: number;
+  retired_at: number | null;
+}
+
+/**
+ * Makes a key the authority's active vault key, retiring the previous
+ * one. Returns false if this exact key is already registered.
+ */
+export function registerAuthorityKey(key: Pick<AuthorityKeyRecord, 'key_id' | 'authority' | 'public_key_pem'>): boolean {
+  const db = getDb();
+  if (db.prepare('SELECT 1 FROM authority_keys WHERE key_id = ?').get(key.key_id)) return false;
+
+  db.transaction(() => {
+    db.prepare('UPDATE authority_keys SET retired_at = unixepoch() WHERE authority = ? AND retired_at IS NULL')
+      .run(key.authority);
+    db.prepare(`
+      INSERT INTO authority_keys (key_id, authority, public_key_pem)
+      VALUES (@key_id, @authority, @public_key_pem)
+    `).run(key);
+  })();
+  return true;
+}
+
+export function getAuthorityKeys(): AuthorityKeyRecord[] {
+  return getDb().prepare('SELECT * FROM authority_keys ORDER BY authority, created_at DESC').all() as AuthorityKeyRecord[];
+}
+
+export function getActiveAuthorityKeys(authorities: string[]): AuthorityKeyRecord[] {
+  if (authorities.length === 0) return [];
+  const placeholders = authorities.map(() => '?').join(', ');
+  return getDb().prepare(`
+    SELECT * FROM authority_keys WHERE retired_at IS NULL AND authority IN (${placeholders})
+  `).all(...authorities) as AuthorityKeyRecord[];
+}
+
+export function insertSealedDescription(reportId: string, sealed: SealedDescription, grants: DescriptionKeyGrant[]): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO description_vault (report_id, algorithm, iv, auth_tag, ciphertext)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(reportId, sealed.algorithm, sealed.iv, sealed.authTag, sealed.ciphertext);
+
+    const insertGrant = db.prepare(`
+      INSERT INTO description_key_grants (report_id, authority, key_id, algorithm, ephemeral_public_key, iv, auth_tag, wrapped_key)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const g of grants) {
+      insertGrant.run(reportId, g.authority, g.keyId, g.algorithm, g.ephemeralPublicKey, g.iv, g.authTag, g.wrappedKey);
+    }
+  })();
+}
+
+export function getDescriptionGrantAuthorities(reportId: string): string[] {
+  return (getDb().prepare('SELECT authority FROM description_key_grants WHERE report_id = ? ORDER BY authority')
+    .all(reportId) as { authority: string }[]).map(r => r.authority);
+}
+
+/**
+ * The sealed description plus one authority's key grant, or null if
+ * that authority was given no grant for the report.
+ */
+export function getDescriptionEnvelope(reportId: string, authority: string): DescriptionEnvelope | null {
+  const row = getDb().prepare(`
+    SELECT r.description_hash, v.algorithm, v.iv, v.auth_tag, v.ciphertext,
+           g.key_id, g.algorithm AS grant_algorithm, g.ephemeral_public_key,
+           g.iv AS grant_iv, g.auth_tag AS grant_auth_tag, g.wrapped_key
+    FROM description_key_grants g
+    JOIN description_vault v ON v.report_id = g.report_id
+    JOIN reports r ON r.id = g.report_id
+    WHERE g.report_id = ? AND g.authority = ?
+  `).get(reportId, authority) as Record<string, string> | undefined;
+  if (!row) return null;
+
+  return {
+    reportId,
+    descriptionHash: row.description_hash,
+    sealed: {
+      algorithm: row.algorithm as SealedDescription['algorithm'],
+      iv: row.iv,
+      authTag: row.auth_tag,
+      ciphertext: row.ciphertext,
+    },
+    grant: {
+      authority,
+      keyId: row.key_id,
+      algorithm: row.grant_algorithm as DescriptionKeyGrant['algorithm'],
+      ephemeralPublicKey: row.ephemeral_public_key,
+      iv: row.grant_iv,
+      authTag: row.grant_auth_tag,
+      wrappedKey: row.wrapped_key,
+    },
+  };
+}
+
+// ─── Follow-up Channels ──────────────────────────────────────
+
+export interface FollowUpMessageRecord {
+  id: string;
+  report_id: string;
+  sender: FollowUpSender;
+  officer_id: string | null;
+  iv: string;
+  ciphertext: string;
+  created_at: number;
+}
+
+export function insertFollowUpChannel(reportId: string, accessKeyHash: string, grants: FollowUpKeyGrant[]): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare('INSERT INTO followup_channels (report_id, access_key_hash) VALUES (?, ?)').run(reportId, accessKeyHash);
+
+    const insertGrant = db.prepare(`
+      INSERT INTO followup_key_grants (report_id, authority, key_id, algorithm, ephemeral_public_key, iv, auth_tag, wrapped_key)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const g of grants) {
+      insertGrant.run(reportId, g.authority, g.keyId, g.algorithm, g.ephemeralPublicKey, g.iv, g.authTag, g.wrappedKey);
+    }
+  })();
+}
+
+export function getFollowUpAccessKeyHash(reportId: string): string | null {
+  const row = getDb().prepare('SELECT access_key_hash FROM followup_channels WHERE report_id = ?').get(reportId) as
+    { access_key_hash: string } | undefined;
+  return row?.access_key_hash ?? null;
+}
+
+/**
+ * Thread key grants for a channel, optionally only one authority's.
+ */
+export function getFollowUpGrants(reportId: string, authority?: string): FollowUpKeyGrant[] {
+  const rows = (authority
+    ? getDb().prepare('SELECT * FROM followup_key_grants WHERE report_id = ? AND authority = ?').all(reportId, authority)
+    : getDb().prepare('SELECT * FROM followup_key_grants WHERE report_id = ? ORDER BY authority').all(reportId)
+  ) as Record<string, string>[];
+
+  return rows.map(row => ({
+    authority: row.authority,
+    keyId: row.key_id,
+    algorithm: row.algorithm as FollowUpKeyGrant['algorithm'],
+    ephemeralPublicKey: row.ephemeral_public_key,
+    iv: row.iv,
+    authTag: row.auth_tag,
+    wrappedKey: row.wrapped_key,
+  }));
+}
+
+export function insertFollowUpMessage(message: Omit<FollowUpMessageRecord, 'created_at'>): FollowUpMessageRecord {
+  return getDb().prepare(`
+    INSERT INTO report_messages (id, report_id, sender, officer_id, iv, ciphertext)
+    VALUES (@id, @report_id, @sender, @officer_id, @iv, @ciphertext)
+    RETURNING *
+  `).get(message) as FollowUpMessageRecord;
+}
+
+export function getFollowUpMessages(reportId: string): FollowUpMessageRecord[] {
+  return getDb().prepare('SELECT * FROM report_messages WHERE report_id = ? ORDER BY created_at, rowid')
+    .all(reportId) as FollowUpMessageRecord[];
+}
+
+// ─── Audit Log ───────────────────────────────────────────────
+
 export function logAudit(event: {
   event_type: string;
   report_id?: string;
@@ -285,7 +1726,7 @@ export function logAudit(event: {
   getDb().prepare(`
     INSERT INTO audit_log (event_type, report_id, actor, details, ip_address)
     VALUES (@event_type, @report_id, @actor, @details, @ip_address)
-  `).run(event);
+  `).run({ report_id: null, actor: 'SYSTEM', details: null, ip_address: null, ...event });
 }
 
 export function getAuditLog(reportId?: string): any[] {
@@ -295,14 +1736,89 @@ export function getAuditLog(reportId?: string): any[] {
   return getDb().prepare('SELECT * FROM audit_log ORDER BY timestamp DESC LIMIT 100').all() as any[];
 }
 
+export function getAuditEventsByType(eventTypes: string[], limit = 20): any[] {
+  const placeholders = eventTypes.map(() => '?').join(', ');
+  return getDb().prepare(
+    `SELECT * FROM audit_log WHERE event_type IN (${placeholders}) ORDER BY id DESC LIMIT ?`
+  ).all(...eventTypes, limit) as any[];
+}
+
+// ─── Anchoring ───────────────────────────────────────────────
+
+export interface AnchorRecord {
+  id: number;
+  witness: string;
+  block_index: number;
+  block_hash: string;
+  tree_size: number;
+  merkle_root: string;
+  receipt_json: string;
+  anchored_at: number;
+}
+
+export function insertAnchor(receipt: AnchorReceipt): void {
+  getDb().prepare(`
+    INSERT INTO anchors (witness, block_index, block_hash, tree_size, merkle_root, receipt_json)
+    VALUES (@witness, @block_index, @block_hash, @tree_size, @merkle_root, @receipt_json)
+  `).run({
+    witness: receipt.witness,
+    block_index: receipt.checkpoint.blockIndex,
+    block_hash: receipt.checkpoint.blockHash,
+    tree_size: receipt.checkpoint.treeSize,
+    merkle_root: receipt.checkpoint.merkleRoot,
+    receipt_json: JSON.stringify(receipt),
+  });
+}
+
+export function getLatestAnchor(): AnchorRecord | null {
+  return (getDb().prepare('SELECT * FROM anchors ORDER BY id DESC LIMIT 1').get() as AnchorRecord) || null;
+}
+
+export function getAnchors(limit = 50): AnchorRecord[] {
+  return getDb().prepare('SELECT * FROM anchors ORDER BY id DESC LIMIT ?').all(limit) as AnchorRecord[];
+}
+
+export function insertWitnessedCheckpoint(checkpoint: Checkpoint, ipAddress?: string): { id: number } {
+  const result = getDb().prepare(`
+    INSERT INTO witnessed_checkpoints
+      (origin_node, block_index, block_hash, tree_size, merkle_root, created_at, signer_key_id, signature, ip_address)
+    VALUES (@nodeId, @blockIndex, @blockHash, @treeSize, @merkleRoot, @createdAt, @signerKeyId, @signature, @ipAddress)
+  `).run({
+    ...checkpoint,
+    signerKeyId: checkpoint.signature?.keyId ?? null,
+    signature: checkpoint.signature?.value ?? null,
+    ipAddress: ipAddress ?? null,
+  });
+  return { id: Number(result.lastInsertRowid) };
+}
+
+export function getWitnessedCheckpoints(nodeId: string): Checkpoint[] {
+  const rows = getDb().prepare(
+    'SELECT * FROM witnessed_checkpoints WHERE origin_node = ? ORDER BY id ASC'
+  ).all(nodeId) as any[];
+
+  return rows.map(r => ({
+    nodeId: r.origin_node,
+    blockIndex: r.block_index,
+    blockHash: r.block_hash,
+    treeSize: r.tree_size,
+    merkleRoot: r.merkle_root,
+    createdAt: r.created_at,
+    ...(r.signature && { signature: { keyId: r.signer_key_id, value: r.signature } }),
+  }));
+}
+
 // ─── Users Table ─────────────────────────────────────────────
 
 export interface UserRecord {
   id: string;
   name: string;
-  email: string;
+  email: string | null;           // null for phone-OTP accounts
   phone?: string;
-  password_hash: string;
+  phone_verified_at: number | null;
+  password_hash: string | null;   // null for phone-OTP accounts
+  role: Role;
+  authority: string | null;       // Officers & supervisors: the authority they work for
   verified: boolean;
   created_at: number;
   updated_at: number;
@@ -333,6 +1849,23 @@ export function getUserById(id: string): UserRecord | null {
   return db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRecord | null;
 }
 
+/**
+ * The account that proved ownership of this phone number (E.164).
+ * A phone merely typed into a signup form never matches.
+ */
+export function getUserByVerifiedPhone(phone: string): UserRecord | null {
+  return getDb().prepare(`
+    SELECT * FROM users WHERE phone = ? AND phone_verified_at IS NOT NULL ORDER BY phone_verified_at LIMIT 1
+  `).get(phone) as UserRecord | null;
+}
+
+export function insertPhoneUser(user: { id: string; name: string; phone: string }): void {
+  getDb().prepare(`
+    INSERT INTO users (id, name, phone, phone_verified_at, verified)
+    VALUES (@id, @name, @phone, unixepoch(), 1)
+  `).run(user);
+}
+
 export function updateUser(id: string, updates: { name?: string; phone?: string }): void {
   const db = getDb();
   const fields: string[] = [];
@@ -352,3 +1885,140 @@ export function updateUser(id: string, updates: { name?: string; phone?: string
   fields.push('updated_at = unixepoch()');
   db.prepare(`UPDATE users SET ${fields.join(', ')} WHERE id = @id`).run(params);
 }
+
+export function updateUserRole(id: string, role: Role, authority: string | null): void {
+  getDb().prepare('UPDATE users SET role = ?, authority = ?, updated_at = unixepoch() WHERE id = ?').run(role, authority, id);
+}
+
+/**
+ * Staff accounts (everyone but citizens), optionally for one authority.
+ */
+export function getStaffUsers(authority?: string): UserRecord[] {
+  return authority
+    ? getDb().prepare(`SELECT * FROM users WHERE role != 'CITIZEN' AND authority = ? ORDER BY role, name`).all(authority) as UserRecord[]
+    : getDb().prepare(`SELECT * FROM users WHERE role != 'CITIZEN' ORDER BY authority, role, name`).all() as UserRecord[];
+}
+
+export function updateUserPasswordHash(id: string, passwordHash: string): void {
+  getDb().prepare('UPDATE users SET password_hash = ?, updated_at = unixepoch() WHERE id = ?').run(passwordHash, id);
+}
+
+// ─── Phone OTP Challenges ────────────────────────────────────
+
+export interface OtpChallengeRecord {
+  id: string;
+  phone: string;
+  code_hash: string;
+  attempts: number;
+  status: 'PENDING' | 'VERIFIED' | 'SUPERSEDED' | 'EXPIRED' | 'LOCKED' | 'FAILED';
+  ip_address: string | null;
+  created_at: number;
+  expires_at: number;
+}
+
+/**
+ * Stores a new code and supersedes the phone's earlier pending one.
+ */
+export function insertOtpChallenge(challenge: Pick<OtpChallengeRecord, 'id' | 'phone' | 'code_hash' | 'expires_at' | 'ip_address'>): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(`UPDATE otp_challenges SET status = 'SUPERSEDED' WHERE phone = ? AND status = 'PENDING'`)
+      .run(challenge.phone);
+    db.prepare(`
+      INSERT INTO otp_challenges (id, phone, code_hash, expires_at, ip_address)
+      VALUES (@id, @phone, @code_hash, @expires_at, @ip_address)
+    `).run(challenge);
+  })();
+}
+
+export function getPendingOtpChallenge(phone: string): OtpChallengeRecord | null {
+  return getDb().prepare(`
+    SELECT * FROM otp_challenges WHERE phone = ? AND status = 'PENDING' ORDER BY created_at DESC LIMIT 1
+  `).get(phone) as OtpChallengeRecord | null;
+}
+
+export function getLatestOtpChallenge(phone: string): OtpChallengeRecord | null {
+  return getDb().prepare(`
+    SELECT * FROM otp_challenges WHERE phone = ? ORDER BY created_at DESC LIMIT 1
+  `).get(phone) as OtpChallengeRecord | null;
+}
+
+/**
+ * Codes sent since a time, to one phone or from one IP address.
+ */
+export function countOtpChallenges(filter: { phone: string } | { ipAddress: string }, since: number): number {
+  const row = 'phone' in filter
+    ? getDb().prepare('SELECT COUNT(*) AS n FROM otp_challenges WHERE phone = ? AND created_at >= ?').get(filter.phone, since)
+    : getDb().prepare('SELECT COUNT(*) AS n FROM otp_challenges WHERE ip_address = ? AND created_at >= ?').get(filter.ipAddress, since);
+  return (row as { n: number }).n;
+}
+
+/**
+ * Counts a wrong guess; returns the attempts made so far.
+ */
+export function recordOtpAttempt(id: string): number {
+  const row = getDb().prepare(`
+    UPDATE otp_challenges SET attempts = attempts + 1 WHERE id = ? RETURNING attempts
+  `).get(id) as { attempts: number } | undefined;
+  return row?.attempts ?? 0;
+}
+
+/**
+ * Moves a pending challenge to a final status. Returns false if it
+ * was no longer pending (already used, superseded, ...).
+ */
+export function settleOtpChallenge(id: string, status: Exclude<OtpChallengeRecord['status'], 'PENDING'>): boolean {
+  const result = getDb().prepare(`UPDATE otp_challenges SET status = ? WHERE id = ? AND status = 'PENDING'`).run(status, id);
+  return result.changes === 1;
+}
+
+// ─── Sessions ────────────────────────────────────────────────
+
+export interface SessionRecord {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  previous_token_hash: string | null;
+  created_at: number;
+  last_used_at: number;
+  expires_at: number;
+  revoked_at: number | null;
+  revoked_reason: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+}
+
+export function insertSession(session: Pick<SessionRecord,
+  'id' | 'user_id' | 'refresh_token_hash' | 'expires_at' | 'user_agent' | 'ip_address'>): void {
+  getDb().prepare(`
+    INSERT INTO sessions (id, user_id, refresh_token_hash, expires_at, user_agent, ip_address)
+    VALUES (@id, @user_id, @refresh_token_hash, @expires_at, @user_agent, @ip_address)
+  `).run(session);
+}
+
+export function getSession(id: string): SessionRecord | null {
+  return getDb().prepare('SELECT * FROM sessions WHERE id = ?').get(id) as SessionRecord | null;
+}
+
+/**
+ * Swaps in a new refresh token hash, but only if the session is live
+ * and still holds currentHash. Returns false if another refresh won.
+ */
+export function rotateSessionToken(id: string, currentHash: string, nextHash: string): boolean {
+  const result = getDb().prepare(`
+    UPDATE sessions
+    SET refresh_token_hash = @nextHash, previous_token_hash = @currentHash, last_used_at = unixepoch()
+    WHERE id = @id AND refresh_token_hash = @currentHash AND revoked_at IS NULL
+  `).run({ id, currentHash, nextHash });
+  return result.changes === 1;
+}
+
+/**
+ * Returns false if the session did not exist or was already revoked.
+ */
+export function revokeSession(id: string, reason: string): boolean {
+  const result = getDb().prepare(`
+    UPDATE sessions SET revoked_at = unixepoch(), revoked_reason = ? WHERE id = ? AND revoked_at IS NULL
+  `).run(reason, id);
+  return result.changes === 1;
+}
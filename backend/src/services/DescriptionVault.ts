@@ -0,0 +1,196 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Description Vault — Envelope Encryption for Authorities
+ * ============================================================
+ *
+ * PURPOSE:
+ * Only the description's hash goes on-chain. The text itself is
+ * sealed here so that the authorities a report was routed to — and
+ * nobody else, including this server — can read it, and check it
+ * against descriptionHash on the ledger.
+ *
+ * ENVELOPE:
+ *   DEK        = 32 random bytes, one per report
+ *   sealed     = AES-256-GCM(DEK, description), AAD = reportId
+ *   for each routed authority with a registered P-256 key:
+ *     ephemeral  = fresh P-256 key pair
+ *     KEK        = HKDF-SHA256(ECDH(ephemeral, authorityKey), info = INFO || reportId || keyId)
+ *     grant      = AES-256-GCM(KEK, DEK), AAD = reportId
+ *
+ * The DEK is discarded once wrapped. An authority that registers a
+ * key after a report was routed to it cannot read that report.
+ *
+ * This module holds no keys and touches no database; officers use
+ * openDescriptionEnvelope (cli/vaultDecrypt.ts) with their own
+ * private key on their own machine.
+ */
+
+import crypto from 'crypto';
+
+const DESCRIPTION_ALGORITHM = 'AES-256-GCM';
+const GRANT_ALGORITHM = 'ECIES-P256-HKDF-SHA256-AES-256-GCM';
+const HKDF_INFO = 'JAAGRUK description key v1';
+const CURVE = 'prime256v1';
+
+// ─── Types ─────────────────────────────────────────────────
+
+export interface AuthorityKey {
+  authority: string;
+  keyId: string;
+  publicKeyPem: string;
+}
+
+export interface SealedDescription {
+  algorithm: typeof DESCRIPTION_ALGORITHM;
+  iv: string;                 // Base64
+  authTag: string;            // Base64
+  ciphertext: string;         // Base64
+}
+
+export interface DescriptionKeyGrant {
+  authority: string;
+  keyId: string;
+  algorithm: typeof GRANT_ALGORITHM;
+  ephemeralPublicKey: string; // Base64 SPKI DER
+  iv: string;
+  authTag: string;
+  wrappedKey: string;         // The report's DEK, encrypted to keyId
+}
+
+/**
+ * What one authority downloads to read one report.
+ */
+export interface DescriptionEnvelope {
+  reportId: string;
+  descriptionHash: string;    // As recorded on-chain
+  sealed: SealedDescription;
+  grant: DescriptionKeyGrant;
+}
+
+// ─── Authority Keys ─────────────────────────────────────────
+
+/**
+ * Key ID: first 16 hex chars of SHA-256(SPKI), as for signing keys.
+ * Throws unless the key is a P-256 public key.
+ */
+export function authorityKeyId(publicKeyPem: string): string {
+  const key = crypto.createPublicKey(publicKeyPem);
+  if (key.asymmetricKeyType !== 'ec' || key.asymmetricKeyDetails?.namedCurve !== CURVE) {
+    throw new Error('[Vault] Authority keys must be P-256 (prime256v1) public keys');
+  }
+  const spki = key.export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(spki).digest('hex').slice(0, 16);
+}
+
+export function generateAuthorityKeyPair(): { publicKeyPem: string; privateKeyPem: string; keyId: string } {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: CURVE });
+  const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }) as string;
+  return {
+    publicKeyPem,
+    privateKeyPem: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+    keyId: authorityKeyId(publicKeyPem),
+  };
+}
+
+// ─── Sealing ────────────────────────────────────────────────
+
+function deriveKek(sharedSecret: Buffer, reportId: string, keyId: string, info = HKDF_INFO): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', sharedSecret, Buffer.alloc(0), `${info}|${reportId}|${keyId}`, 32));
+}
+
+function encrypt(key: Buffer, plaintext: Buffer, aad: string): { iv: string; authTag: string; ciphertext: string } {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv: iv.toString('base64'), authTag: cipher.getAuthTag().toString('base64'), ciphertext: ciphertext.toString('base64') };
+}
+
+function decrypt(key: Buffer, box: { iv: string; authTag: string }, ciphertext: string, aad: string): Buffer {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(box.iv, 'base64'));
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(Buffer.from(box.authTag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+}
+
+/**
+ * Seals a description and wraps its key for each recipient.
+ */
+export function sealDescription(
+  reportId: string,
+  description: string,
+  recipients: AuthorityKey[]
+): { sealed: SealedDescription; grants: DescriptionKeyGrant[] } {
+  const dek = crypto.randomBytes(32);
+  const sealed: SealedDescription = {
+    algorithm: DESCRIPTION_ALGORITHM,
+    ...encrypt(dek, Buffer.from(description, 'utf8'), reportId),
+  };
+
+  const grants = recipients.map(recipient => {
+    const ephemeral = crypto.generateKeyPairSync('ec', { namedCurve: CURVE });
+    const shared = crypto.diffieHellman({
+      privateKey: ephemeral.privateKey,
+      publicKey: crypto.createPublicKey(recipient.publicKeyPem),
+    });
+    const wrapped = encrypt(deriveKek(shared, reportId, recipient.keyId), dek, reportId);
+
+    return {
+      authority: recipient.authority,
+      keyId: recipient.keyId,
+      algorithm: GRANT_ALGORITHM,
+      ephemeralPublicKey: ephemeral.publicKey.export({ type: 'spki', format: 'der' }).toString('base64'),
+      iv: wrapped.iv,
+      authTag: wrapped.authTag,
+      wrappedKey: wrapped.ciphertext,
+    } satisfies DescriptionKeyGrant;
+  });
+
+  dek.fill(0);
+  return { sealed, grants };
+}
+
+// ─── Opening ────────────────────────────────────────────────
+
+/**
+ * Unwraps the 32-byte key inside a grant with the authority's
+ * private key. hkdfInfo tells apart what the key is for (description,
+ * follow-up channel). Throws if the key does not match the grant.
+ */
+export function openKeyGrant(
+  reportId: string,
+  grant: Pick<DescriptionKeyGrant, 'keyId' | 'ephemeralPublicKey' | 'iv' | 'authTag' | 'wrappedKey'>,
+  privateKeyPem: string,
+  hkdfInfo = HKDF_INFO
+): Buffer {
+  const privateKey = crypto.createPrivateKey(privateKeyPem);
+  if (authorityKeyId(crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }) as string) !== grant.keyId) {
+    throw new Error(`[Vault] This private key does not belong to key ${grant.keyId}`);
+  }
+
+  const shared = crypto.diffieHellman({
+    privateKey,
+    publicKey: crypto.createPublicKey({ key: Buffer.from(grant.ephemeralPublicKey, 'base64'), format: 'der', type: 'spki' }),
+  });
+  return decrypt(deriveKek(shared, reportId, grant.keyId, hkdfInfo), grant, grant.wrappedKey, reportId);
+}
+
+/**
+ * Decrypts an envelope with the authority's private key and checks
+ * the text against the on-chain descriptionHash. Throws if the key
+ * does not match the grant or the ciphertext was altered.
+ */
+export function openDescriptionEnvelope(
+  envelope: DescriptionEnvelope,
+  privateKeyPem: string
+): { description: string; hashMatches: boolean } {
+  const { reportId, grant, sealed } = envelope;
+  const dek = openKeyGrant(reportId, grant, privateKeyPem);
+  const description = decrypt(dek, sealed, sealed.ciphertext, reportId).toString('utf8');
+  dek.fill(0);
+
+  // Same digest as Blockchain.hashData (SHA-256 over UTF-8, hex)
+  const hash = crypto.createHash('sha256').update(description, 'utf8').digest('hex');
+  return { description, hashMatches: hash === envelope.descriptionHash };
+}
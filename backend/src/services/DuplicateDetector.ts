@@ -0,0 +1,214 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Duplicate Detector — "Me Too" Suggestions & Report Clusters
+ * ============================================================
+ *
+ * PURPOSE:
+ * Ten citizens reporting the same pothole should end up as one case
+ * with ten reporters, not ten cases. When a report is filed, recent
+ * open reports are scored against it and the likely duplicates are
+ * suggested; the reporter ("me too") or staff then link it to one of
+ * them. Linked reports follow their primary's status (see
+ * routes/reports.ts), so a cluster shares one resolution.
+ *
+ * SCORE (0–1), from four signals:
+ *   proximity → Distance between lat/lng within DUPLICATE_RADIUS_METERS;
+ *               without coordinates, the same station and area
+ *   category  → Same category
+ *   text      → Word overlap of the description / ai_summary
+ *   recency   → How close in time, within DUPLICATE_WINDOW_HOURS
+ * Reports at different places (beyond the radius, or a different
+ * station) are never suggested, however similar the text. Matched by
+ * station alone, they also need some words in common.
+ *
+ * Descriptions are sealed once filed, so older reports are compared
+ * by their ai_summary; only the new report's own text is read.
+ *
+ * CONFIG (.env):
+ *   DUPLICATE_RADIUS_METERS → How close counts as the same place (default: 250)
+ *   DUPLICATE_WINDOW_HOURS  → How far back to look (default: 72)
+ *   DUPLICATE_MIN_SCORE     → Lowest score suggested (default: 0.6)
+ */
+
+import { getDuplicateCandidates, DuplicateCandidate, ReportRecord } from './DatabaseService.js';
+
+// ─── Types ─────────────────────────────────────────────────
+
+/**
+ * What a report is compared by.
+ */
+export interface DuplicateProbe {
+  id?: string;                  // Left out of its own matches
+  category: string;
+  createdAt: number;            // Unix seconds
+  lat: number | null;
+  lng: number | null;
+  area: string;
+  station: string;
+  text: string;
+}
+
+export interface DuplicateMatch {
+  report: DuplicateCandidate;
+  score: number;
+  distanceMeters: number | null;
+  signals: { proximity: number; category: number; text: number; recency: number };
+}
+
+// ─── Scoring ───────────────────────────────────────────────
+
+const WEIGHTS = { proximity: 0.4, category: 0.25, text: 0.2, recency: 0.15 };
+
+// Same station and area is weaker evidence than coordinates
+const SAME_AREA_PROXIMITY = 0.5;
+const SAME_STATION_PROXIMITY = 0.3;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'this', 'that', 'with', 'from', 'there', 'have', 'has',
+  'been', 'near', 'not', 'but', 'our', 'its', 'they', 'them', 'very', 'also', 'please', 'since',
+]);
+
+function duplicateSettings() {
+  return {
+    radiusMeters: Number(process.env.DUPLICATE_RADIUS_METERS) || 250,
+    windowHours: Number(process.env.DUPLICATE_WINDOW_HOURS) || 72,
+    minScore: Number(process.env.DUPLICATE_MIN_SCORE) || 0.6,
+  };
+}
+
+/**
+ * Great-circle distance in metres (haversine).
+ */
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371000; // Earth's radius in m
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function words(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * Share of words the two texts have in common (Jaccard), 0 if either
+ * has none.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of left) if (right.has(word)) shared++;
+  return shared / (left.size + right.size - shared);
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Scores one candidate, or null if it is somewhere else entirely.
+ */
+export function scoreDuplicate(probe: DuplicateProbe, candidate: DuplicateCandidate): DuplicateMatch | null {
+  const { radiusMeters, windowHours } = duplicateSettings();
+
+  let proximity: number;
+  let distance: number | null = null;
+  if (probe.lat != null && probe.lng != null && candidate.location_lat != null && candidate.location_lng != null) {
+    distance = distanceMeters(probe.lat, probe.lng, candidate.location_lat, candidate.location_lng);
+    if (distance > radiusMeters) return null;
+    proximity = 1 - distance / radiusMeters;
+  } else if (sameText(probe.station, candidate.nearest_station)) {
+    proximity = sameText(probe.area, candidate.location_area) ? SAME_AREA_PROXIMITY : SAME_STATION_PROXIMITY;
+  } else {
+    return null;
+  }
+
+  const signals = {
+    proximity,
+    category: sameText(probe.category, candidate.category) ? 1 : 0,
+    text: textSimilarity(probe.text, candidate.ai_summary ?? ''),
+    recency: Math.max(0, 1 - Math.abs(probe.createdAt - candidate.created_at) / (windowHours * 3600)),
+  };
+  const score = (Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[])
+    .reduce((sum, signal) => sum + WEIGHTS[signal] * signals[signal], 0);
+
+  return {
+    report: candidate,
+    score: Math.round(score * 100) / 100,
+    distanceMeters: distance == null ? null : Math.round(distance),
+    signals,
+  };
+}
+
+/**
+ * Whether a match scores high enough to be suggested (or linked by
+ * its reporter) as the same issue. Without coordinates, same station,
+ * category and hour reach the threshold alone, so the texts must also
+ * have something in common.
+ */
+export function isLikelyDuplicate(match: DuplicateMatch): boolean {
+  if (match.distanceMeters == null && match.signals.text === 0) return false;
+  return match.score >= duplicateSettings().minScore;
+}
+
+// ─── Lookups ───────────────────────────────────────────────
+
+/**
+ * Open, unlinked reports from the time window that likely describe
+ * the same issue, best match first.
+ */
+export function findPossibleDuplicates(probe: DuplicateProbe, limit = 5): DuplicateMatch[] {
+  const { windowHours } = duplicateSettings();
+
+  return getDuplicateCandidates(probe.createdAt - windowHours * 3600, probe.id)
+    .map(candidate => scoreDuplicate(probe, candidate))
+    .filter((match): match is DuplicateMatch => match != null && isLikelyDuplicate(match))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * A filed report as a probe. Its description is sealed, so the
+ * ai_summary stands in for the text.
+ */
+export function probeFromReport(report: ReportRecord): DuplicateProbe {
+  return {
+    id: report.id,
+    category: report.category,
+    createdAt: report.created_at,
+    lat: report.location_lat ?? null,
+    lng: report.location_lng ?? null,
+    area: report.location_area,
+    station: report.nearest_station,
+    text: report.ai_summary ?? '',
+  };
+}
+
+/**
+ * A suggested duplicate as the reporter sees it: enough to recognise
+ * the issue, nothing about who filed it or what they wrote.
+ */
+export function duplicateSuggestionView(match: DuplicateMatch) {
+  return {
+    reportId: match.report.id,
+    referenceId: match.report.reference_id,
+    category: match.report.category,
+    area: match.report.location_area,
+    nearestStation: match.report.nearest_station,
+    status: match.report.status,
+    reportedAt: new Date(match.report.created_at * 1000).toISOString(),
+    linkedReports: match.report.linked_count,
+    distanceMeters: match.distanceMeters,
+    score: match.score,
+  };
+}
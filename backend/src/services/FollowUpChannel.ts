@@ -0,0 +1,108 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Follow-up Channel — Anonymous E2E Reporter ↔ Officer Messages
+ * ============================================================
+ *
+ * After filing an anonymous report, the reporter's browser makes a
+ * 32-byte follow-up secret S and shows it once (with the report ID,
+ * as "<reportId>.<S>"). Everything else is derived from it:
+ *
+ *   accessKey  = HKDF-SHA256(S, info = ACCESS_INFO || reportId)
+ *                → proves the reporter to the server; only its SHA-256 is stored
+ *   threadKey  = HKDF-SHA256(S, info = THREAD_INFO || reportId)
+ *                → AES-256-GCM key for every message, both directions
+ *
+ * The browser wraps threadKey for each routed authority's vault key,
+ * exactly like a description grant (see DescriptionVault) but with
+ * GRANT_INFO. Officers unwrap it with their private key on their own
+ * machine (cli/followUpThread.ts). The server stores ciphertext only
+ * and never learns S, threadKey or who the reporter is.
+ *
+ * MESSAGE:
+ *   AES-256-GCM(threadKey, text), 12-byte IV, AAD = reportId || sender
+ *   ciphertext = encrypted text || 16-byte tag (Web Crypto layout)
+ *
+ * Must match frontend/src/services/followUpChannel.ts.
+ */
+
+import crypto from 'crypto';
+import { openKeyGrant } from './DescriptionVault.js';
+
+export const FOLLOW_UP_GRANT_ALGORITHM = 'ECIES-P256-HKDF-SHA256-AES-256-GCM';
+const GRANT_INFO = 'JAAGRUK follow-up key v1';
+const TAG_BYTES = 16;
+
+// Longest message text, and its ciphertext once Base64-encoded
+export const MAX_MESSAGE_LENGTH = 4000;
+export const MAX_CIPHERTEXT_LENGTH = Math.ceil((MAX_MESSAGE_LENGTH * 3 + TAG_BYTES) / 3) * 4;
+
+// ─── Types ─────────────────────────────────────────────────
+
+export type FollowUpSender = 'REPORTER' | 'OFFICER';
+
+export interface FollowUpKeyGrant {
+  authority: string;
+  keyId: string;
+  algorithm: typeof FOLLOW_UP_GRANT_ALGORITHM;
+  ephemeralPublicKey: string; // Base64 SPKI DER
+  iv: string;
+  authTag: string;
+  wrappedKey: string;         // threadKey, encrypted to keyId
+}
+
+export interface EncryptedFollowUpMessage {
+  iv: string;                 // Base64, 12 bytes
+  ciphertext: string;         // Base64, text || tag
+}
+
+// ─── Access ────────────────────────────────────────────────
+
+/**
+ * What the server stores for a reporter's access key (hex SHA-256).
+ */
+export function hashAccessKey(accessKey: string): string {
+  return crypto.createHash('sha256').update(accessKey).digest('hex');
+}
+
+// ─── Messages ──────────────────────────────────────────────
+
+function messageAad(reportId: string, sender: FollowUpSender): Buffer {
+  return Buffer.from(`${reportId}|${sender}`, 'utf8');
+}
+
+/**
+ * Officer side: the thread key from this authority's grant.
+ */
+export function openFollowUpKey(reportId: string, grant: FollowUpKeyGrant, privateKeyPem: string): Buffer {
+  return openKeyGrant(reportId, grant, privateKeyPem, GRANT_INFO);
+}
+
+export function encryptFollowUpMessage(
+  threadKey: Buffer,
+  reportId: string,
+  sender: FollowUpSender,
+  text: string
+): EncryptedFollowUpMessage {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', threadKey, iv);
+  cipher.setAAD(messageAad(reportId, sender));
+  const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+  return { iv: iv.toString('base64'), ciphertext: ciphertext.toString('base64') };
+}
+
+/**
+ * Throws if the message was altered, or claims the wrong sender or report.
+ */
+export function decryptFollowUpMessage(
+  threadKey: Buffer,
+  reportId: string,
+  sender: FollowUpSender,
+  message: EncryptedFollowUpMessage
+): string {
+  const sealed = Buffer.from(message.ciphertext, 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', threadKey, Buffer.from(message.iv, 'base64'));
+  decipher.setAAD(messageAad(reportId, sender));
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_BYTES));
+  return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_BYTES)), decipher.final()]).toString('utf8');
+}
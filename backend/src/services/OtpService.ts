@@ -0,0 +1,189 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * OTP Service — Phone Login Codes
+ * ============================================================
+ *
+ * FLOW:
+ *   request(phone) → 6-digit code texted via the SMS provider
+ *   check(phone, code) → the pending challenge, if the code is right
+ *   consume(challenge) → single use; the caller then logs the user in
+ *
+ * Codes are stored as SHA-256(challengeId:code), expire after
+ * OTP_TTL_SECONDS (default 300) and allow OTP_MAX_ATTEMPTS (5)
+ * wrong guesses before the challenge is locked.
+ *
+ * RATE LIMITS (per rolling hour, from otp_challenges):
+ *   one code per phone every OTP_RESEND_SECONDS (30)
+ *   OTP_MAX_PER_PHONE_HOUR (5) codes per phone
+ *   OTP_MAX_PER_IP_HOUR (20) codes per client IP
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  insertOtpChallenge, getPendingOtpChallenge, getLatestOtpChallenge, countOtpChallenges,
+  recordOtpAttempt, settleOtpChallenge, OtpChallengeRecord,
+} from './DatabaseService.js';
+import { SmsProvider } from './sms/SmsProvider.js';
+import { ConsoleSmsProvider } from './sms/ConsoleSmsProvider.js';
+import { FileSmsProvider } from './sms/FileSmsProvider.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_OUTBOX_PATH = path.join(__dirname, '../../data/sms-outbox.log');
+
+// ─── Types ─────────────────────────────────────────────────
+
+export type OtpRequestOutcome =
+  | { status: 'SENT'; expiresIn: number; resendIn: number }
+  | { status: 'RATE_LIMITED'; retryAfter: number }
+  | { status: 'SEND_FAILED' };
+
+export type OtpCheckOutcome =
+  | { status: 'VALID'; challenge: OtpChallengeRecord }
+  | { status: 'WRONG_CODE'; attemptsLeft: number }
+  | { status: 'NO_CODE' | 'EXPIRED' | 'LOCKED' };
+
+// ─── Helpers ───────────────────────────────────────────────
+
+function envNumber(name: string, fallback: number): number {
+  const parsed = Number(process.env[name]);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function hashCode(challengeId: string, code: string): string {
+  return crypto.createHash('sha256').update(`${challengeId}:${code}`).digest('hex');
+}
+
+/**
+ * Indian mobile number → E.164 (+91XXXXXXXXXX), or null.
+ * Accepts spaces, dashes, a leading 0 or +91 / 91.
+ */
+export function normalizeIndianMobile(input: string): string | null {
+  let digits = input.replace(/[\s\-()]/g, '').replace(/^\+/, '');
+  if (!/^\d+$/.test(digits)) return null;
+  if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2);
+  if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+  return /^[6-9]\d{9}$/.test(digits) ? `+91${digits}` : null;
+}
+
+/**
+ * SMS_PROVIDER: console (default) or file (SMS_OUTBOX_PATH).
+ * A production gateway plugs in here as another SmsProvider.
+ */
+export function createSmsProviderFromEnv(): SmsProvider {
+  const kind = (process.env.SMS_PROVIDER || 'console').trim();
+  switch (kind) {
+    case 'file':
+      return new FileSmsProvider(process.env.SMS_OUTBOX_PATH || DEFAULT_OUTBOX_PATH);
+    case 'console':
+      return new ConsoleSmsProvider();
+    default:
+      console.warn(`[OTP] Unknown SMS provider "${kind}" — using console`);
+      return new ConsoleSmsProvider();
+  }
+}
+
+// ─── OTP Service ───────────────────────────────────────────
+
+export class OtpService {
+  private provider: SmsProvider = new ConsoleSmsProvider();
+
+  setProvider(provider: SmsProvider): void {
+    this.provider = provider;
+    if (provider.local && process.env.NODE_ENV === 'production') {
+      console.warn(`[OTP] ⚠ SMS provider "${provider.name}" does not reach real phones — phone login will not work`);
+    }
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Issues and texts a new code, unless a rate limit applies.
+   */
+  async request(phone: string, ipAddress?: string): Promise<OtpRequestOutcome> {
+    const ttl = envNumber('OTP_TTL_SECONDS', 300);
+    const resendAfter = envNumber('OTP_RESEND_SECONDS', 30);
+    const issuedAt = now();
+    const hourAgo = issuedAt - 3600;
+
+    const latest = getLatestOtpChallenge(phone);
+    if (latest && latest.created_at + resendAfter > issuedAt) {
+      return { status: 'RATE_LIMITED', retryAfter: latest.created_at + resendAfter - issuedAt };
+    }
+    if (countOtpChallenges({ phone }, hourAgo) >= envNumber('OTP_MAX_PER_PHONE_HOUR', 5)) {
+      return { status: 'RATE_LIMITED', retryAfter: 3600 };
+    }
+    if (ipAddress && countOtpChallenges({ ipAddress }, hourAgo) >= envNumber('OTP_MAX_PER_IP_HOUR', 20)) {
+      return { status: 'RATE_LIMITED', retryAfter: 3600 };
+    }
+
+    const id = crypto.randomUUID();
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+    insertOtpChallenge({
+      id,
+      phone,
+      code_hash: hashCode(id, code),
+      expires_at: issuedAt + ttl,
+      ip_address: ipAddress ?? null,
+    });
+
+    try {
+      await this.provider.send({
+        to: phone,
+        body: `${code} is your JAAGRUK login code. It expires in ${Math.round(ttl / 60)} minutes. Do not share it with anyone.`,
+      });
+    } catch (error) {
+      console.error(`[OTP] SMS via ${this.provider.name} failed:`, error);
+      settleOtpChallenge(id, 'FAILED');
+      return { status: 'SEND_FAILED' };
+    }
+
+    return { status: 'SENT', expiresIn: ttl, resendIn: resendAfter };
+  }
+
+  /**
+   * Checks a code against the phone's pending challenge without
+   * using it up. Wrong guesses count towards the lock.
+   */
+  check(phone: string, code: string): OtpCheckOutcome {
+    const challenge = getPendingOtpChallenge(phone);
+    if (!challenge) return { status: 'NO_CODE' };
+
+    if (challenge.expires_at <= now()) {
+      settleOtpChallenge(challenge.id, 'EXPIRED');
+      return { status: 'EXPIRED' };
+    }
+
+    const expected = Buffer.from(challenge.code_hash, 'hex');
+    const actual = Buffer.from(hashCode(challenge.id, code), 'hex');
+    if (crypto.timingSafeEqual(expected, actual)) {
+      return { status: 'VALID', challenge };
+    }
+
+    const maxAttempts = envNumber('OTP_MAX_ATTEMPTS', 5);
+    const attempts = recordOtpAttempt(challenge.id);
+    if (attempts >= maxAttempts) {
+      settleOtpChallenge(challenge.id, 'LOCKED');
+      return { status: 'LOCKED' };
+    }
+    return { status: 'WRONG_CODE', attemptsLeft: maxAttempts - attempts };
+  }
+
+  /**
+   * Marks a checked challenge as used. False if it was used (or
+   * superseded) in the meantime — the caller must not log in then.
+   */
+  consume(challenge: OtpChallengeRecord): boolean {
+    return settleOtpChallenge(challenge.id, 'VERIFIED');
+  }
+}
+
+export const otpService = new OtpService();
@@ -0,0 +1,138 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Password Service — Hashing & Credential Policy
+ * ============================================================
+ *
+ * HASH FORMAT (users.password_hash):
+ *   scrypt$<N>$<r>$<p>$<salt>$<hash>     salt & hash Base64, 16 & 64 bytes
+ *
+ * scrypt is memory-hard (N=2^15, r=8 → 32 MB per hash) and ships in
+ * Node `crypto`. Every user gets a random salt.
+ *
+ * LEGACY HASHES:
+ * Accounts created before this module hold SHA256(password + secret)
+ * as 64 hex chars. They still verify, and are reported as needing a
+ * rehash so /login can replace them with scrypt on the spot. Hashes
+ * with older scrypt parameters are upgraded the same way.
+ *
+ * POLICY:
+ * 10–128 characters, not a common or breached password (also after
+ * stripping leading/trailing digits and symbols), and not built from
+ * the account's own name, email or phone number.
+ */
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+import CryptoJS from 'crypto-js';
+import { COMMON_PASSWORDS } from './commonPasswords.js';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike, salt: crypto.BinaryLike, keylen: number, options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const SCHEME = 'scrypt';
+const COST = { N: 2 ** 15, r: 8, p: 1 };
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+
+export const PASSWORD_MIN_LENGTH = 10;
+export const PASSWORD_MAX_LENGTH = 128;
+
+// Key for legacy SHA-256 hashes, read exactly as the old auth router did
+const LEGACY_SECRET = process.env.JWT_SECRET || 'jaagruk-secret-key-2024';
+const LEGACY_HASH = /^[0-9a-f]{64}$/;
+
+// ─── Hashing ───────────────────────────────────────────────
+
+function maxmem(cost: { N: number; r: number }): number {
+  // scrypt needs 128·N·r bytes — at our cost exactly Node's default 32 MB cap, so leave headroom
+  return 128 * cost.N * cost.r + 1024 * 1024;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = await scrypt(password.normalize('NFKC'), salt, KEY_BYTES, { ...COST, maxmem: maxmem(COST) });
+  return [SCHEME, COST.N, COST.r, COST.p, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+/**
+ * Checks a password against a stored hash of either format.
+ * needsRehash is set when a correct password sits in a legacy or
+ * weaker-than-current hash.
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (LEGACY_HASH.test(storedHash)) {
+    const candidate = CryptoJS.SHA256(password + LEGACY_SECRET).toString();
+    const valid = crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(storedHash));
+    return { valid, needsRehash: valid };
+  }
+
+  const [scheme, n, r, p, salt, hash] = storedHash.split('$');
+  if (scheme !== SCHEME || !salt || !hash) return { valid: false, needsRehash: false };
+
+  const cost = { N: Number(n), r: Number(r), p: Number(p) };
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password.normalize('NFKC'), Buffer.from(salt, 'base64'), expected.length, {
+    ...cost,
+    maxmem: maxmem(cost),
+  });
+
+  const valid = crypto.timingSafeEqual(actual, expected);
+  const weaker = cost.N < COST.N || cost.r < COST.r || cost.p < COST.p;
+  return { valid, needsRehash: valid && weaker };
+}
+
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Burns the same time as a real check, so /login takes as long for
+ * an unknown email as for a wrong password.
+ */
+export async function verifyAgainstDummy(password: string): Promise<void> {
+  dummyHash ??= hashPassword(crypto.randomBytes(16).toString('hex'));
+  await verifyPassword(password, await dummyHash);
+}
+
+// ─── Policy ────────────────────────────────────────────────
+
+/**
+ * Returns the first rule the password breaks, or null if it is
+ * acceptable. Messages are shown to the citizen as-is.
+ */
+export function checkPasswordPolicy(
+  password: string,
+  account: { name?: string; email?: string; phone?: string } = {}
+): string | null {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+  }
+
+  const lowered = password.toLowerCase();
+  const core = lowered.replace(/^[^a-z]+|[^a-z]+$/g, '');
+  if (COMMON_PASSWORDS.has(lowered) || (core.length >= 4 && COMMON_PASSWORDS.has(core))) {
+    return 'This password is too common and appears in breached password lists. Please choose another';
+  }
+  if (new Set(lowered).size < 4) {
+    return 'Password is too repetitive. Please choose another';
+  }
+
+  const personal = [
+    account.email?.split('@')[0],
+    account.phone?.replace(/\D/g, '').slice(-10),
+    ...(account.name?.split(/\s+/) ?? []),
+  ]
+    .map(part => part?.toLowerCase())
+    .filter((part): part is string => !!part && part.length >= 4);
+  if (personal.some(part => lowered.includes(part))) {
+    return 'Password must not contain your name, email or phone number';
+  }
+
+  return null;
+}
@@ -0,0 +1,51 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Report Claims — Finding Your Own Anonymous Reports
+ * ============================================================
+ *
+ * An anonymous report gets a random claim token when it is filed.
+ * The token goes back to the filing device only; the server keeps
+ * its SHA-256 in report_claims, with no account, IP or device next
+ * to it. Presenting the token later (GET /api/me/reports) proves the
+ * device filed the report without ever telling the server who did.
+ */
+
+import crypto from 'crypto';
+import { insertReportClaim, hasReportClaim, getReportsByClaims, ReportRecord } from './DatabaseService.js';
+
+// Claims one request may present (a device's whole history)
+export const MAX_CLAIMS_PER_REQUEST = 100;
+
+const CLAIM_TOKEN = /^[A-Za-z0-9_-]{43}$/;
+
+function hashClaimToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Creates a report's claim token. Returned once, never stored.
+ */
+export function issueClaimToken(reportId: string): string {
+  const token = crypto.randomBytes(32).toString('base64url');
+  insertReportClaim(reportId, hashClaimToken(token));
+  return token;
+}
+
+/**
+ * Whether this token was issued for this report.
+ */
+export function verifyClaimToken(reportId: string, token: string): boolean {
+  return CLAIM_TOKEN.test(token) && hasReportClaim(reportId, hashClaimToken(token));
+}
+
+/**
+ * Reports the given claim tokens open. Malformed tokens are ignored.
+ */
+export function findClaimedReports(tokens: string[]): ReportRecord[] {
+  const hashes = [...new Set(tokens)]
+    .filter(token => CLAIM_TOKEN.test(token))
+    .slice(0, MAX_CLAIMS_PER_REQUEST)
+    .map(hashClaimToken);
+  return getReportsByClaims(hashes);
+}
@@ -0,0 +1,367 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Report Lifecycle — Statuses & Allowed Transitions
+ * ============================================================
+ *
+ * The one status model for reports (served to the frontend by
+ * GET /api/reports/lifecycle). Every change is a status event block
+ * on the chain, then mirrored into reports.status and status_history.
+ *
+ * Reports move forward through review and work to RESOLVED, or are
+ * DISMISSED with a reason code. A closed report can only be REOPENED
+ * by its reporter disputing the outcome, after which staff take it up
+ * again. STATUS_TRANSITIONS below is the full table.
+ *
+ * Staff with reports:update-status make every transition except
+ * REOPENED, which only the reporter can make. Reports linked to a
+ * primary as duplicates follow its SHARED_STATUSES, stepping through
+ * the statuses in between, and catch up with it when they are linked.
+ *
+ * Free-text reasons are citizen or staff prose, so like descriptions
+ * they stay off the public chain: a status event carries only their
+ * hash, and the text lives in status_history.
+ *
+ * Changes to one report run one at a time, each checked against the
+ * report as it is once the previous one has been recorded, so two
+ * overlapping requests cannot both put a transition on the chain.
+ */
+
+import { blockchain, Blockchain, Block, BlockData, StatusEventData } from '../blockchain/BlockchainService.js';
+import { miningQueue } from '../blockchain/MiningQueue.js';
+import {
+  updateReportStatus,
+  insertStatusHistory,
+  getReportsWithoutStatusHistory,
+  getReportById,
+  getLinkedReports,
+  restartCases,
+  ReportRecord,
+  StatusHistoryRecord,
+} from './DatabaseService.js';
+
+// ─── Model ─────────────────────────────────────────────────
+
+export const REPORT_STATUSES = ['PENDING', 'UNDER_REVIEW', 'IN_PROGRESS', 'RESOLVED', 'DISMISSED', 'REOPENED'] as const;
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+export const DISMISSAL_REASONS = [
+  'DUPLICATE',                  // Already reported
+  'INSUFFICIENT_INFORMATION',   // Cannot be acted on as filed
+  'OUT_OF_JURISDICTION',        // No routed authority can act on it
+  'NO_ACTION_REQUIRED',         // Checked; nothing to fix
+  'FALSE_REPORT',               // Did not happen as described
+] as const;
+export type DismissalReason = (typeof DISMISSAL_REASONS)[number];
+
+export const STATUS_TRANSITIONS: Record<ReportStatus, readonly ReportStatus[]> = {
+  PENDING: ['UNDER_REVIEW', 'IN_PROGRESS', 'DISMISSED'],
+  UNDER_REVIEW: ['IN_PROGRESS', 'RESOLVED', 'DISMISSED'],
+  IN_PROGRESS: ['UNDER_REVIEW', 'RESOLVED', 'DISMISSED'],
+  RESOLVED: ['REOPENED'],
+  DISMISSED: ['REOPENED'],
+  REOPENED: ['UNDER_REVIEW', 'IN_PROGRESS', 'RESOLVED', 'DISMISSED'],
+};
+
+// Statuses only the reporter can move a report into
+export const REPORTER_STATUSES: readonly ReportStatus[] = ['REOPENED'];
+
+export const CLOSED_STATUSES: readonly ReportStatus[] = ['RESOLVED', 'DISMISSED'];
+
+// Statuses a primary report passes on to the duplicates linked to it.
+// Dismissals and reopenings stay with the one report.
+export const SHARED_STATUSES: readonly ReportStatus[] = ['UNDER_REVIEW', 'IN_PROGRESS', 'RESOLVED'];
+
+// Who is changing the status
+export type StatusChanger = 'STAFF' | 'REPORTER';
+
+// ─── Types ─────────────────────────────────────────────────
+
+export interface StatusChange {
+  status: ReportStatus;
+  by: StatusChanger;
+  actor: string;                // User ID, or ANONYMOUS for an anonymous reporter
+  actorRole: string;
+  reasonCode?: DismissalReason;
+  reason?: string;
+}
+
+export type StatusChangeOutcome =
+  | { outcome: 'CHANGED'; previousStatus: ReportStatus; block: Block }
+  | { outcome: 'NOT_FOUND' | 'NOT_ALLOWED' | 'NOT_ON_CHAIN' | 'QUARANTINED' | 'CONFLICT'; message: string };
+
+// One step of a duplicate following its primary
+export interface LinkedStatusChange {
+  reportId: string;
+  referenceId: string;
+  status: ReportStatus;
+  change: StatusChangeOutcome;
+}
+
+// ─── Checks ────────────────────────────────────────────────
+
+export function isReportStatus(value: unknown): value is ReportStatus {
+  return typeof value === 'string' && (REPORT_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Statuses this changer may move a report in `from` into.
+ */
+export function allowedTransitions(from: string, by: StatusChanger): ReportStatus[] {
+  if (!isReportStatus(from)) return [];
+  return STATUS_TRANSITIONS[from].filter(to => REPORTER_STATUSES.includes(to) === (by === 'REPORTER'));
+}
+
+/**
+ * Shortest run of staff transitions from `from` to `to` that passes
+ * only through SHARED_STATUSES, or null if there is none (e.g. out of
+ * a closed report).
+ */
+export function sharedStatusPath(from: string, to: ReportStatus): ReportStatus[] | null {
+  if (!isReportStatus(from)) return null;
+
+  const previous = new Map<ReportStatus, ReportStatus>();
+  const queue: ReportStatus[] = [from];
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    for (const next of allowedTransitions(status, 'STAFF')) {
+      if (next === from || previous.has(next)) continue;
+      previous.set(next, status);
+      if (next === to) {
+        const path: ReportStatus[] = [];
+        for (let step: ReportStatus = to; step !== from; step = previous.get(step)!) path.unshift(step);
+        return path;
+      }
+      if (SHARED_STATUSES.includes(next)) queue.push(next);
+    }
+  }
+  return null;
+}
+
+/**
+ * Why this change is not allowed, or null if it is.
+ */
+export function checkTransition(from: string, change: Pick<StatusChange, 'status' | 'by' | 'reasonCode' | 'reason'>): string | null {
+  if (from === change.status) return `Report is already ${change.status}.`;
+  if (!allowedTransitions(from, change.by).includes(change.status)) {
+    return REPORTER_STATUSES.includes(change.status) && change.by === 'STAFF'
+      ? `Only the reporter can move a report to ${change.status}.`
+      : `A ${from} report cannot be moved to ${change.status}.`;
+  }
+  if (change.status === 'DISMISSED' && !change.reasonCode) {
+    return `Dismissing a report needs a reasonCode (${DISMISSAL_REASONS.join(', ')}).`;
+  }
+  if (change.status === 'REOPENED' && !change.reason?.trim()) {
+    return 'Reopening a report needs a reason.';
+  }
+  return null;
+}
+
+// ─── Status Changes ────────────────────────────────────────
+
+// Tail of each report's queue of status changes
+const statusLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs task once every earlier status change of the report has
+ * finished (in-process; one node owns its reports table).
+ */
+function withStatusLock<T>(reportId: string, task: () => Promise<T>): Promise<T> {
+  const run = (statusLocks.get(reportId) ?? Promise.resolve()).then(task);
+  const settled = run.catch(() => undefined);
+  statusLocks.set(reportId, settled);
+  settled.then(() => {
+    if (statusLocks.get(reportId) === settled) statusLocks.delete(reportId);
+  });
+  return run;
+}
+
+/**
+ * Applies an allowed status change: a status event block first, then
+ * the report row and its status history. The transition is checked
+ * against the report as stored when the change gets its turn.
+ */
+export function changeReportStatus(report: Pick<ReportRecord, 'id'>, change: StatusChange): Promise<StatusChangeOutcome> {
+  return withStatusLock(report.id, () => applyStatusChange(report.id, change));
+}
+
+async function applyStatusChange(reportId: string, change: StatusChange): Promise<StatusChangeOutcome> {
+  const report = getReportById(reportId);
+  if (!report) return { outcome: 'NOT_FOUND', message: 'Report not found.' };
+
+  const refusal = checkTransition(report.status, change);
+  if (refusal) return { outcome: 'NOT_ALLOWED', message: refusal };
+
+  if (report.block_index == null) {
+    return { outcome: 'NOT_ON_CHAIN', message: 'Report is still being recorded on the blockchain. Try again shortly.' };
+  }
+  if (report.quarantined_at != null) {
+    return {
+      outcome: 'QUARANTINED',
+      message: `Report is quarantined: ${report.quarantine_reason}. Reconcile it with the ledger first.`,
+    };
+  }
+
+  const reportBlock = blockchain.findBlockByReportId(report.id);
+  if (!reportBlock) {
+    return { outcome: 'NOT_ON_CHAIN', message: 'Report block not found on blockchain. Status cannot be changed.' };
+  }
+
+  const previousStatus = report.status as ReportStatus;
+  const statusEvent: StatusEventData = {
+    type: 'STATUS_EVENT',
+    reportId: report.id,
+    reportBlockIndex: reportBlock.index,
+    reportBlockHash: reportBlock.hash,
+    previousStatus,
+    status: change.status,
+    actor: change.actor,
+    reasonCode: change.reasonCode,
+    ...(change.reason && { reasonHash: Blockchain.hashData(change.reason) }),
+    timestamp: Date.now(),
+  };
+  const block = await miningQueue.submit(statusEvent);
+
+  // Only another process writing this table can get here first
+  if (!updateReportStatus(report.id, change.status, previousStatus)) {
+    console.error(`[Lifecycle] Report ${report.id} changed while block #${block.index} was mined; row not updated`);
+    return { outcome: 'CONFLICT', message: 'Report status changed meanwhile. Reload it and try again.' };
+  }
+  insertStatusHistory({
+    report_id: report.id,
+    previous_status: previousStatus,
+    status: change.status,
+    actor: change.actor,
+    actor_role: change.actorRole,
+    reason_code: change.reasonCode ?? null,
+    reason: change.reason ?? null,
+    block_index: block.index,
+    block_hash: block.hash,
+  });
+
+  // A disputed outcome is new work: acknowledgement and SLA deadlines start over
+  if (change.status === 'REOPENED') restartCases(report.id);
+
+  return { outcome: 'CHANGED', previousStatus, block };
+}
+
+/**
+ * Passes a primary report's new status on to its linked duplicates,
+ * skipping those `canAccess` rules out (a duplicate routed elsewhere is
+ * not the changer's to move). Also used on linking, with the primary's
+ * current status, so the cluster catches up.
+ */
+export async function shareStatusWithLinked(
+  primary: ReportRecord,
+  change: StatusChange,
+  canAccess: (reportId: string) => boolean,
+): Promise<LinkedStatusChange[]> {
+  const results: LinkedStatusChange[] = [];
+  for (const link of getLinkedReports(primary.id)) {
+    const report = getReportById(link.report_id);
+    if (report && canAccess(report.id)) results.push(...await followPrimary(report, primary, change));
+  }
+  return results;
+}
+
+/**
+ * Brings one duplicate to its primary's status, each step with its own
+ * status event block. Duplicates with no way there (e.g. already
+ * resolved) are left as they are.
+ */
+export async function followPrimary(
+  report: ReportRecord,
+  primary: ReportRecord,
+  change: StatusChange,
+): Promise<LinkedStatusChange[]> {
+  if (!SHARED_STATUSES.includes(change.status) || report.status === change.status) return [];
+
+  const results: LinkedStatusChange[] = [];
+  for (const status of sharedStatusPath(report.status, change.status) ?? [change.status]) {
+    const step = await changeReportStatus(report, {
+      ...change,
+      status,
+      reason: change.reason ?? `Follows ${primary.reference_id}, which this report duplicates`,
+    });
+    results.push({ reportId: report.id, referenceId: report.reference_id, status, change: step });
+    if (step.outcome !== 'CHANGED') break;
+  }
+  return results;
+}
+
+/**
+ * The submission's entry in a new report's status history.
+ */
+export function recordSubmissionStatus(report: Pick<ReportRecord, 'id' | 'identity_type'>): void {
+  insertStatusHistory({
+    report_id: report.id,
+    previous_status: null,
+    status: 'PENDING',
+    actor: report.identity_type === 'anonymous' ? 'ANONYMOUS' : 'CITIZEN',
+    actor_role: 'CITIZEN',
+    reason_code: null,
+    reason: null,
+    block_index: null,
+    block_hash: null,
+  });
+}
+
+/**
+ * Replays the status history of reports filed before status_history
+ * existed from their blocks. Run once the chain is verified; returns
+ * how many reports were filled in.
+ */
+export function backfillStatusHistory(): number {
+  const reports = getReportsWithoutStatusHistory();
+
+  for (const report of reports) {
+    const reportBlock = blockchain.findBlockByReportId(report.id);
+    insertStatusHistory({
+      report_id: report.id,
+      previous_status: null,
+      status: reportBlock ? (reportBlock.data as BlockData).status : 'PENDING',
+      actor: report.identity_type === 'anonymous' ? 'ANONYMOUS' : 'CITIZEN',
+      actor_role: 'CITIZEN',
+      reason_code: null,
+      reason: null,
+      block_index: null,
+      block_hash: null,
+      changed_at: report.created_at,
+    });
+
+    for (const block of reportBlock ? blockchain.getStatusEvents(report.id) : []) {
+      const event = block.data as StatusEventData;
+      insertStatusHistory({
+        report_id: report.id,
+        previous_status: event.previousStatus,
+        status: event.status,
+        actor: event.actor,
+        actor_role: null,
+        reason_code: event.reasonCode ?? null,
+        reason: event.reason ?? null,
+        block_index: block.index,
+        block_hash: block.hash,
+        changed_at: Math.floor(block.timestamp / 1000),
+      });
+    }
+  }
+
+  return reports.length;
+}
+
+/**
+ * A status history entry as staff and the reporter see it.
+ */
+export function statusHistoryView(record: StatusHistoryRecord) {
+  return {
+    status: record.status,
+    previousStatus: record.previous_status,
+    actor: record.actor,
+    actorRole: record.actor_role,
+    reasonCode: record.reason_code,
+    reason: record.reason,
+    blockIndex: record.block_index,
+    blockHash: record.block_hash,
+    changedAt: new Date(record.changed_at * 1000).toISOString(),
+  };
+}
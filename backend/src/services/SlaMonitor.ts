@@ -0,0 +1,190 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * SLA Monitor — Deadlines & Automatic Escalation
+ * ============================================================
+ *
+ * PURPOSE:
+ * Every routed authority has to acknowledge its case and see the
+ * report resolved within the time its SLA policy allows. A periodic
+ * scan finds cases past either deadline, records the breach and
+ * routes the report to the authority's escalation path (its
+ * supervising authority), which then has its own deadlines to meet.
+ *
+ * POLICIES (sla_policies, managed via /api/sla):
+ *   Looked up most specific first: category + urgency, category,
+ *   urgency, then '*' / '*'. Without a matching row the built-in
+ *   DEFAULT_SLA_POLICIES for the report's urgency apply. Deadlines
+ *   run from when the authority received the case (routed_at).
+ *
+ * Each deadline of each case escalates at most once per routing. A
+ * reopened report starts its cases over (see ReportLifecycle), so
+ * its deadlines run again from the reopening. The escalated
+ * authority can open the report, but its description and follow-up
+ * thread stay sealed to the authorities that held keys at filing.
+ *
+ * CONFIG (.env):
+ *   SLA_SCAN_MINUTES → How often to scan (default: 5)
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  getSlaPolicies,
+  getEscalationPaths,
+  getSlaWatchedCases,
+  recordSlaEscalation,
+  logAudit,
+  SlaDeadline,
+  SlaEscalationRecord,
+  SlaPolicyRecord,
+  SlaWatchedCase,
+} from './DatabaseService.js';
+
+// ─── Types ─────────────────────────────────────────────────
+
+export interface SlaTerms {
+  ackMinutes: number;
+  resolveMinutes: number;
+  source: 'policy' | 'default';
+  category: string;             // Scope of the policy that applied ('*' = any)
+  urgency: string;
+}
+
+export interface SlaScanResult {
+  scannedAt: string;
+  casesChecked: number;
+  escalated: SlaEscalationRecord[];
+}
+
+// ─── Policies ──────────────────────────────────────────────
+
+export const DEFAULT_SLA_POLICIES: Record<string, { ackMinutes: number; resolveMinutes: number }> = {
+  Critical: { ackMinutes: 15, resolveMinutes: 24 * 60 },
+  High: { ackMinutes: 60, resolveMinutes: 3 * 24 * 60 },
+  Medium: { ackMinutes: 4 * 60, resolveMinutes: 7 * 24 * 60 },
+  Low: { ackMinutes: 24 * 60, resolveMinutes: 30 * 24 * 60 },
+};
+
+/**
+ * The deadlines for a report of this category and urgency.
+ */
+export function resolveSlaTerms(category: string, urgency: string, policies: SlaPolicyRecord[] = getSlaPolicies()): SlaTerms {
+  const scopes: [string, string][] = [[category, urgency], [category, '*'], ['*', urgency], ['*', '*']];
+  for (const [c, u] of scopes) {
+    const policy = policies.find(p => p.category === c && p.urgency === u);
+    if (policy) {
+      return { ackMinutes: policy.ack_minutes, resolveMinutes: policy.resolve_minutes, source: 'policy', category: c, urgency: u };
+    }
+  }
+
+  const fallback = DEFAULT_SLA_POLICIES[urgency] ?? DEFAULT_SLA_POLICIES.Medium;
+  return { ...fallback, source: 'default', category: '*', urgency };
+}
+
+/**
+ * When a case received at routedAt (unix seconds) is due.
+ */
+export function slaDueDates(routedAt: number, terms: SlaTerms): { ackDueAt: number; resolveDueAt: number } {
+  return {
+    ackDueAt: routedAt + terms.ackMinutes * 60,
+    resolveDueAt: routedAt + terms.resolveMinutes * 60,
+  };
+}
+
+/**
+ * An escalation as staff and the reporter see it.
+ */
+export function escalationView(record: SlaEscalationRecord) {
+  return {
+    authority: record.authority,
+    deadline: record.deadline,
+    dueAt: new Date(record.due_at * 1000).toISOString(),
+    escalatedTo: record.escalated_to,
+    escalatedAt: new Date(record.created_at * 1000).toISOString(),
+  };
+}
+
+// ─── SLA Monitor Class ─────────────────────────────────────
+
+export class SlaMonitor {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Escalates every open case past a deadline it has not been
+   * escalated for yet.
+   */
+  scan(now: number = Math.floor(Date.now() / 1000)): SlaScanResult {
+    const policies = getSlaPolicies();
+    const paths = new Map(getEscalationPaths().map(p => [p.authority, p.escalate_to]));
+    const cases = getSlaWatchedCases();
+    const escalated: SlaEscalationRecord[] = [];
+
+    for (const watched of cases) {
+      const { ackDueAt, resolveDueAt } = slaDueDates(watched.routed_at, resolveSlaTerms(watched.category, watched.urgency, policies));
+
+      if (!watched.acknowledged && !watched.ack_escalated && now > ackDueAt) {
+        const record = this.escalate(watched, 'ACKNOWLEDGE', ackDueAt, paths.get(watched.authority) ?? null);
+        if (record) escalated.push(record);
+      }
+      if (!watched.resolve_escalated && now > resolveDueAt) {
+        const record = this.escalate(watched, 'RESOLVE', resolveDueAt, paths.get(watched.authority) ?? null);
+        if (record) escalated.push(record);
+      }
+    }
+
+    return { scannedAt: new Date(now * 1000).toISOString(), casesChecked: cases.length, escalated };
+  }
+
+  private escalate(watched: SlaWatchedCase, deadline: SlaDeadline, dueAt: number, escalateTo: string | null): SlaEscalationRecord | null {
+    const record = recordSlaEscalation({
+      id: uuidv4(),
+      report_id: watched.report_id,
+      authority: watched.authority,
+      deadline,
+      due_at: dueAt,
+      routed_at: watched.routed_at,
+      escalated_to: escalateTo,
+    }, uuidv4());
+    if (!record) return null;
+
+    const missed = deadline === 'ACKNOWLEDGE' ? 'acknowledge' : 'resolve';
+    logAudit({
+      event_type: 'SLA_ESCALATED',
+      report_id: watched.report_id,
+      details: `${watched.authority} missed its ${missed} deadline (${new Date(dueAt * 1000).toISOString()}) — ` +
+        (escalateTo ? `escalated to ${escalateTo}` : 'no escalation path configured'),
+    });
+    return record;
+  }
+
+  /**
+   * Scans now (catching deadlines missed while the server was down),
+   * then periodically. Safe to call once at startup.
+   */
+  start(intervalMinutes: number = Number(process.env.SLA_SCAN_MINUTES) || 5): void {
+    if (this.timer) return;
+
+    const run = () => {
+      try {
+        const result = this.scan();
+        if (result.escalated.length > 0) {
+          console.warn(`[SLA] ⚠ ${result.escalated.length} missed deadline(s) escalated`);
+        }
+      } catch (error) {
+        console.error('[SLA] Scheduled scan failed:', error);
+      }
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+// Export a singleton instance
+export const slaMonitor = new SlaMonitor();
@@ -0,0 +1,255 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Token Service — Access Tokens, Refresh Tokens & Sessions
+ * ============================================================
+ *
+ * ACCESS TOKENS:
+ * Short-lived JWTs (RFC 7519), HS256 over JWT_SECRET.
+ *   header  = { alg: 'HS256', typ: 'JWT' }
+ *   claims  = { iss: 'jaagruk', sub: userId, sid: sessionId, iat, exp }
+ * Any other algorithm is rejected. A valid signature is not enough:
+ * the session named by `sid` must also still be live, so logging out
+ * cuts off an access token before it expires.
+ *
+ * REFRESH TOKENS:
+ * Opaque `<sessionId>.<random>` strings, one live token per session.
+ * Only a SHA-256 of the token is stored. Every refresh rotates it;
+ * the token it replaced is remembered, and presenting that one again
+ * means it leaked — the whole session is revoked (REFRESH_REUSE).
+ *
+ * CONFIGURATION:
+ *   JWT_SECRET                → Required when NODE_ENV=production
+ *   ACCESS_TOKEN_TTL_MINUTES  → Default 15
+ *   REFRESH_TOKEN_TTL_DAYS    → Absolute session lifetime, default 30
+ */
+
+import crypto from 'crypto';
+import {
+  insertSession, getSession, rotateSessionToken, revokeSession, SessionRecord,
+} from './DatabaseService.js';
+
+const ISSUER = 'jaagruk';
+const DEFAULT_ACCESS_TTL_MINUTES = 15;
+const DEFAULT_REFRESH_TTL_DAYS = 30;
+
+// ─── Types ─────────────────────────────────────────────────
+
+export interface AccessClaims {
+  iss: string;
+  sub: string;        // User ID
+  sid: string;        // Session ID
+  iat: number;        // Seconds since epoch
+  exp: number;
+}
+
+export interface TokenPair {
+  token: string;          // Access token (JWT)
+  refreshToken: string;
+  expiresIn: number;      // Access token lifetime in seconds
+}
+
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export type RefreshOutcome =
+  | { status: 'ROTATED'; userId: string; sessionId: string; tokens: TokenPair }
+  | { status: 'INVALID' | 'EXPIRED' | 'REVOKED' }
+  | { status: 'REUSED'; userId: string; sessionId: string };
+
+// ─── Helpers ───────────────────────────────────────────────
+
+function base64url(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value, 'utf8').digest('hex');
+}
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Splits `<sessionId>.<random>`; null if the token is malformed.
+ */
+function parseRefreshToken(refreshToken: string): { sessionId: string } | null {
+  const [sessionId, secret, ...rest] = refreshToken.split('.');
+  if (!sessionId || !secret || rest.length > 0) return null;
+  return { sessionId };
+}
+
+// ─── Token Service ─────────────────────────────────────────
+
+export class TokenService {
+  private secret: Buffer | null = null;
+  private accessTtlSeconds = DEFAULT_ACCESS_TTL_MINUTES * 60;
+  private refreshTtlSeconds = DEFAULT_REFRESH_TTL_DAYS * 24 * 60 * 60;
+
+  /**
+   * Reads the secret and lifetimes from the environment. Without
+   * JWT_SECRET outside production a random per-process secret is
+   * used, so access tokens stop working on restart (clients refresh).
+   */
+  configure(): void {
+    const configured = process.env.JWT_SECRET;
+    if (configured) {
+      this.secret = Buffer.from(configured, 'utf8');
+    } else if (process.env.NODE_ENV === 'production') {
+      throw new Error('[Tokens] JWT_SECRET must be set in production');
+    } else {
+      console.warn('[Tokens] ⚠ JWT_SECRET not set — using a random secret for this process');
+      this.secret = crypto.randomBytes(32);
+    }
+
+    this.accessTtlSeconds = positiveNumber(process.env.ACCESS_TOKEN_TTL_MINUTES, DEFAULT_ACCESS_TTL_MINUTES) * 60;
+    this.refreshTtlSeconds = positiveNumber(process.env.REFRESH_TOKEN_TTL_DAYS, DEFAULT_REFRESH_TTL_DAYS) * 24 * 60 * 60;
+  }
+
+  // ─── Sessions ─────────────────────────────────────────────
+
+  /**
+   * Starts a session for a user who just proved who they are.
+   */
+  issueSession(userId: string, client: ClientInfo = {}): TokenPair {
+    this.ensureConfigured();
+    const sessionId = crypto.randomUUID();
+    const refreshToken = this.newRefreshToken(sessionId);
+
+    insertSession({
+      id: sessionId,
+      user_id: userId,
+      refresh_token_hash: sha256(refreshToken),
+      expires_at: now() + this.refreshTtlSeconds,
+      user_agent: client.userAgent ?? null,
+      ip_address: client.ipAddress ?? null,
+    });
+
+    return { token: this.signAccessToken(userId, sessionId), refreshToken, expiresIn: this.accessTtlSeconds };
+  }
+
+  /**
+   * Trades a refresh token for a new pair. The session keeps its ID
+   * and absolute expiry; only the tokens change.
+   */
+  refresh(refreshToken: string): RefreshOutcome {
+    const parsed = parseRefreshToken(refreshToken);
+    const session = parsed ? getSession(parsed.sessionId) : null;
+    if (!session) return { status: 'INVALID' };
+    if (session.revoked_at !== null) return { status: 'REVOKED' };
+    if (session.expires_at <= now()) return { status: 'EXPIRED' };
+
+    const presented = sha256(refreshToken);
+    if (session.previous_token_hash && presented === session.previous_token_hash) {
+      revokeSession(session.id, 'REFRESH_REUSE');
+      return { status: 'REUSED', userId: session.user_id, sessionId: session.id };
+    }
+
+    const next = this.newRefreshToken(session.id);
+    // Conditional on the presented hash, so two racing refreshes cannot both win
+    if (presented !== session.refresh_token_hash || !rotateSessionToken(session.id, presented, sha256(next))) {
+      return { status: 'INVALID' };
+    }
+
+    return {
+      status: 'ROTATED',
+      userId: session.user_id,
+      sessionId: session.id,
+      tokens: { token: this.signAccessToken(session.user_id, session.id), refreshToken: next, expiresIn: this.accessTtlSeconds },
+    };
+  }
+
+  /**
+   * The live session a refresh token currently belongs to, or null.
+   * Used by logout, which only accepts the current token.
+   */
+  sessionForRefreshToken(refreshToken: string): SessionRecord | null {
+    const parsed = parseRefreshToken(refreshToken);
+    const session = parsed ? getSession(parsed.sessionId) : null;
+    if (!session || session.revoked_at !== null) return null;
+    return session.refresh_token_hash === sha256(refreshToken) ? session : null;
+  }
+
+  revoke(sessionId: string, reason: string): boolean {
+    return revokeSession(sessionId, reason);
+  }
+
+  // ─── Access Tokens ────────────────────────────────────────
+
+  /**
+   * Verifies an access token and that its session is still live.
+   */
+  authenticate(token: string): { userId: string; sessionId: string } | null {
+    const claims = this.verifyAccessToken(token);
+    if (!claims) return null;
+
+    const session = getSession(claims.sid);
+    if (!session || session.user_id !== claims.sub) return null;
+    if (session.revoked_at !== null || session.expires_at <= now()) return null;
+
+    return { userId: claims.sub, sessionId: claims.sid };
+  }
+
+  signAccessToken(userId: string, sessionId: string): string {
+    const issuedAt = now();
+    const claims: AccessClaims = {
+      iss: ISSUER,
+      sub: userId,
+      sid: sessionId,
+      iat: issuedAt,
+      exp: issuedAt + this.accessTtlSeconds,
+    };
+    const signingInput = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(claims))}`;
+    return `${signingInput}.${this.hmac(signingInput)}`;
+  }
+
+  /**
+   * Signature, algorithm, issuer and expiry only — no session lookup.
+   */
+  verifyAccessToken(token: string): AccessClaims | null {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+    const [encodedHeader, encodedClaims, signature] = parts;
+
+    try {
+      const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+      if (header?.alg !== 'HS256' || header?.typ !== 'JWT') return null;
+
+      const expected = Buffer.from(this.hmac(`${encodedHeader}.${encodedClaims}`), 'utf8');
+      const actual = Buffer.from(signature, 'utf8');
+      if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+      const claims = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString('utf8')) as AccessClaims;
+      if (claims.iss !== ISSUER || typeof claims.sub !== 'string' || typeof claims.sid !== 'string') return null;
+      if (typeof claims.exp !== 'number' || claims.exp <= now()) return null;
+      return claims;
+    } catch {
+      return null;
+    }
+  }
+
+  // ─── Internals ────────────────────────────────────────────
+
+  private newRefreshToken(sessionId: string): string {
+    return `${sessionId}.${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  private ensureConfigured(): Buffer {
+    if (!this.secret) this.configure();
+    return this.secret!;
+  }
+
+  private hmac(signingInput: string): string {
+    return crypto.createHmac('sha256', this.ensureConfigured()).update(signingInput).digest('base64url');
+  }
+}
+
+export const tokenService = new TokenService();
@@ -0,0 +1,51 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Common & Breached Passwords
+ * ============================================================
+ *
+ * Lower-cased entries drawn from public breach corpora (most common
+ * passwords overall and in India). PasswordService rejects these as
+ * typed, and as the core of a password once leading and trailing
+ * digits and symbols are stripped ("Password@2024" → "password").
+ */
+
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  // Digits, keyboard walks and repeats
+  '123456', '1234567', '12345678', '123456789', '1234567890', '12345678910',
+  '0123456789', '0987654321', '987654321', '9876543210', '111111', '1111111111',
+  '000000', '0000000000', '121212', '123123', '123123123', '123321', '147258369',
+  '159753', '654321', '666666', '696969', '777777', '888888', '112233',
+  'qwerty', 'qwerty123', 'qwerty12345', 'qwertyuiop', 'qwertyuiop123', 'asdfgh',
+  'asdfghjkl', 'asdfghjkl123', 'zxcvbnm', 'zxcvbnm123', '1q2w3e', '1q2w3e4r',
+  '1q2w3e4r5t', '1q2w3e4r5t6y', 'q1w2e3r4', 'q1w2e3r4t5', 'qazwsx', 'qazwsxedc',
+  '1qaz2wsx', '1qaz2wsx3edc', 'zaq12wsx', 'abc123', 'abcd1234', 'abcdef',
+  'abcdefgh', 'abcdefghij', 'a1b2c3d4', 'aaaaaa', 'abcabc',
+
+  // Words
+  'password', 'password1', 'password12', 'password123', 'password1234', 'passw0rd',
+  'p@ssw0rd', 'p@ssword', 'pass', 'pass123', 'passpass', 'letmein', 'welcome',
+  'welcome123', 'admin', 'admin123', 'administrator', 'root', 'toor', 'login',
+  'secret', 'master', 'changeme', 'default', 'guest', 'test', 'test123', 'testing',
+  'iloveyou', 'iloveyou123', 'loveyou', 'lovely', 'love', 'princess', 'sunshine',
+  'shadow', 'monkey', 'dragon', 'football', 'baseball', 'soccer', 'superman',
+  'batman', 'trustno1', 'whatever', 'freedom', 'starwars', 'pokemon', 'computer',
+  'internet', 'michael', 'jennifer', 'jordan', 'hunter', 'charlie', 'daniel',
+  'ashley', 'jessica', 'killer', 'hello', 'hello123', 'helloworld', 'chocolate',
+  'butterfly', 'flower', 'mustang', 'maggie', 'ginger', 'summer', 'winter',
+  'secure', 'nothing', 'unknown', 'qwertyui', 'google', 'facebook', 'samsung',
+  'iphone', 'mobile', 'blink182', 'liverpool', 'chelsea', 'arsenal', 'cricket',
+
+  // Common in Indian breach data
+  'india', 'india123', 'india@123', 'indian', 'bharat', 'hindustan', 'jaihind',
+  'mumbai', 'delhi', 'kolkata', 'chennai', 'bangalore', 'hyderabad', 'pune',
+  'sachin', 'sachin10', 'dhoni', 'virat', 'kohli', 'srk', 'shahrukh', 'salman',
+  'krishna', 'ganesh', 'ganesha', 'shiva', 'omnamahshivaya', 'jaishreeram',
+  'jaimatadi', 'saibaba', 'hanuman', 'radhe', 'radheradhe', 'radhakrishna',
+  'mahadev', 'harekrishna', 'waheguru', 'allah', 'bismillah', 'jesus',
+  'mother', 'mummy', 'papa', 'family', 'friends', 'baby', 'sweety', 'sweetheart',
+  'priya', 'pooja', 'neha', 'rahul', 'amit', 'sanjay', 'rajesh', 'suresh',
+
+  // This service
+  'jaagruk', 'jaagruk123', 'yourvoice', 'jaagrukyourvoice',
+]);
@@ -0,0 +1,20 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * SMS — Console Provider (development)
+ * ============================================================
+ *
+ * Prints each message to the server log instead of sending it.
+ * Login codes appear in plain text, so never use this in production.
+ */
+
+import { SmsMessage, SmsProvider } from './SmsProvider.js';
+
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = 'console';
+  readonly local = true;
+
+  async send(message: SmsMessage): Promise<void> {
+    console.log(`[SMS] → ${message.to}: ${message.body}`);
+  }
+}
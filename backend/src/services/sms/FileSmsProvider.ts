@@ -0,0 +1,26 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * SMS — File Outbox Provider (development & tests)
+ * ============================================================
+ *
+ * Appends each message as one JSON line to an outbox file, so
+ * scripts and end-to-end tests can read the code that would have
+ * been texted. Like the console provider, it never reaches a phone.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { SmsMessage, SmsProvider } from './SmsProvider.js';
+
+export class FileSmsProvider implements SmsProvider {
+  readonly name = 'file';
+  readonly local = true;
+
+  constructor(private outboxPath: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    fs.mkdirSync(path.dirname(this.outboxPath), { recursive: true });
+    fs.appendFileSync(this.outboxPath, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n');
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * SMS — Provider Interface
+ * ============================================================
+ *
+ * Anything that can deliver a text message to a phone number: a
+ * gateway such as MSG91 or Twilio in production, or one of the
+ * local providers below during development. OtpService only ever
+ * talks to this interface.
+ */
+
+// ─── Types ─────────────────────────────────────────────────
+
+export interface SmsMessage {
+  to: string;         // E.164, e.g. +919876543210
+  body: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+
+  /** True for providers that never reach a real phone. */
+  readonly local: boolean;
+
+  /** Delivers the message. Throws if the provider rejects it or is unreachable. */
+  send(message: SmsMessage): Promise<void>;
+}
@@ -10,7 +10,7 @@ import { motion, AnimatePresence } from 'motion/react';
 import { useApp } from './context/AppContext.js';
 import { Screen, ReportData, ChatMessage, PoliceStation, EvidenceFile } from './types/index.js';
 import { analyzeIncident } from './services/geminiService.js';
-import { apiService } from './services/apiService.js';
+import { apiService, SubmissionReceipt, PendingReceipt, DuplicateSuggestion } from './services/apiService.js';
 
 // Import all screens
 import {
@@ -30,7 +30,10 @@ import {
   ReportsListScreen,
   NearbyScreen,
   ProfileScreen,
+  ExplorerScreen,
+  FollowUpScreen,
 } from './screens/index.js';
+import { ConsoleScreen } from './console/index.js';
 
 // ─── Initial State ───────────────────────────────────────────
 
@@ -52,10 +55,13 @@ const mockStations: PoliceStation[] = [
 // ─── Main App Component ──────────────────────────────────────
 
 export default function App() {
-  const { theme, t, auth, fetchUserReports } = useApp();
+  const { theme, t, auth, fetchUserReports, rememberReportClaim } = useApp();
 
   // Screen navigation
-  const [screen, setScreen] = useState<Screen>('LANDING');
+  // Partner departments can bookmark /console to go straight to the authority console
+  const [screen, setScreen] = useState<Screen>(
+    window.location.pathname.startsWith('/console') ? 'CONSOLE' : 'LANDING'
+  );
   const [prevScreen, setPrevScreen] = useState<Screen | null>(null);
 
   // Report state
@@ -73,13 +79,26 @@ export default function App() {
 
   // Submission state
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [submissionResult, setSubmissionResult] = useState<{ referenceId: string; blockHash: string } | null>(null);
-
-  // Fetch reports when authenticated
+  const [submissionResult, setSubmissionResult] = useState<{
+    reportId?: string;
+    referenceId: string;
+    blockHash?: string;
+    receipt?: SubmissionReceipt | PendingReceipt;
+    pending?: boolean;
+    claimToken?: string;
+    readableBy?: string[];
+    possibleDuplicates?: DuplicateSuggestion[];
+  } | null>(null);
+
+  // Block explorer search to open with (e.g. a receipt's block hash)
+  const [explorerQuery, setExplorerQuery] = useState('');
+
+  // Follow-up key of the anonymous conversation to open
+  const [followUpKey, setFollowUpKey] = useState<string | undefined>();
+
+  // Fetch own reports (account and this device's anonymous ones) on login/logout
   useEffect(() => {
-    if (auth.isAuthenticated) {
-      fetchUserReports();
-    }
+    fetchUserReports();
   }, [auth.isAuthenticated]);
 
   // Navigation handler
@@ -97,6 +116,18 @@ export default function App() {
     }
   };
 
+  // Open the block explorer, optionally searching for something
+  const openExplorer = (query = '') => {
+    setExplorerQuery(query);
+    goTo('EXPLORER');
+  };
+
+  // Open an anonymous report's follow-up conversation (no key → paste one)
+  const openFollowUp = (key?: string) => {
+    setFollowUpKey(key);
+    goTo('FOLLOW_UP');
+  };
+
   // Start report flow
   const startReportFlow = () => {
     setReport(initialReport);
@@ -173,20 +204,32 @@ export default function App() {
     }, 2000);
   };
 
-  // Handle file upload (for chat)
-  const handleChatFileUpload = async (files: FileList) => {
+  // Upload files to the backend; the returned fileId is what the report
+  // commits to on-chain, so files that fail to upload are left out
+  const uploadEvidence = async (files: FileList): Promise<EvidenceFile[]> => {
     const uploadedFiles: EvidenceFile[] = [];
     for (const file of Array.from(files)) {
-      const evidence: EvidenceFile = {
-        id: Date.now().toString() + Math.random(),
-        url: URL.createObjectURL(file),
-        filename: file.name,
-        mimetype: file.type,
-        size: file.size,
-        uploadedAt: new Date().toISOString(),
-      };
-      uploadedFiles.push(evidence);
+      try {
+        const response = await apiService.uploadFile(file);
+        uploadedFiles.push({
+          id: response.data.fileId,
+          url: URL.createObjectURL(file),
+          filename: file.name,
+          mimetype: file.type,
+          size: file.size,
+          hash: response.data.fileHash,
+          uploadedAt: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error(`Upload failed for ${file.name}:`, error);
+      }
     }
+    return uploadedFiles;
+  };
+
+  // Handle file upload (for chat)
+  const handleChatFileUpload = async (files: FileList) => {
+    const uploadedFiles = await uploadEvidence(files);
     setReport(prev => ({
       ...prev,
       evidence: [...prev.evidence, ...uploadedFiles],
@@ -197,24 +240,11 @@ export default function App() {
   const handleEvidenceUpload = async (files: FileList) => {
     setUploadingFiles(true);
     try {
-      const uploadedFiles: EvidenceFile[] = [];
-      for (const file of Array.from(files)) {
-        const evidence: EvidenceFile = {
-          id: Date.now().toString() + Math.random(),
-          url: URL.createObjectURL(file),
-          filename: file.name,
-          mimetype: file.type,
-          size: file.size,
-          uploadedAt: new Date().toISOString(),
-        };
-        uploadedFiles.push(evidence);
-      }
+      const uploadedFiles = await uploadEvidence(files);
       setReport(prev => ({
         ...prev,
         evidence: [...prev.evidence, ...uploadedFiles],
       }));
-    } catch (error) {
-      console.error('Upload failed:', error);
     } finally {
       setUploadingFiles(false);
     }
@@ -253,19 +283,36 @@ export default function App() {
         urgency: report.analysis?.urgency || 'Medium',
         description: report.description,
         identity: report.identity,
-        citizenId: auth.user?.id,
+        citizenId: report.identity === 'name' ? auth.user?.id : undefined,
         location: report.location,
         evidence: report.evidence.map(e => e.id),
         authorities: report.analysis?.authorities,
         aiSummary: report.analysis?.summary,
         isEmergency: false,
-      });
+      }, auth.token);
 
+      const { reportId, referenceId, receipt, claimToken, descriptionReadableBy, possibleDuplicates } = response.data;
+      if (claimToken) rememberReportClaim(claimToken);
+      fetchUserReports();
       setSubmissionResult({
-        referenceId: response.data.referenceId,
-        blockHash: response.data.blockHash,
+        reportId,
+        referenceId,
+        receipt,
+        pending: true,
+        claimToken,
+        readableBy: descriptionReadableBy,
+        possibleDuplicates,
       });
       goTo('CONFIRMATION');
+
+      // The block is mined in the background — swap in the final receipt once it lands
+      apiService.waitForReceipt(reportId)
+        .then(settled => setSubmissionResult(current =>
+          current?.reportId === reportId
+            ? { ...current, blockHash: settled.blockHash, receipt: settled.receipt, pending: false }
+            : current
+        ))
+        .catch(error => console.error('Block settlement failed:', error));
     } catch (error) {
       console.error('Submission failed:', error);
       setSubmissionResult({
@@ -304,6 +351,7 @@ export default function App() {
           <HomeScreen
             onNavigate={goTo}
             onStartReport={startReportFlow}
+            onExplore={() => openExplorer()}
           />
         );
 
@@ -390,8 +438,16 @@ export default function App() {
         return (
           <ConfirmationScreen
             onNavigate={goTo}
+            reportId={submissionResult?.reportId}
             referenceId={submissionResult?.referenceId || report.referenceId || '#IND-00000-X'}
             blockHash={submissionResult?.blockHash}
+            receipt={submissionResult?.receipt}
+            pending={submissionResult?.pending}
+            onExplore={openExplorer}
+            claimToken={submissionResult?.claimToken}
+            readableBy={submissionResult?.readableBy}
+            possibleDuplicates={submissionResult?.possibleDuplicates}
+            onOpenFollowUp={openFollowUp}
           />
         );
 
@@ -407,6 +463,7 @@ export default function App() {
           <ReportsListScreen
             onNavigate={goTo}
             onStartReport={startReportFlow}
+            onOpenFollowUp={openFollowUp}
           />
         );
 
@@ -417,6 +474,32 @@ export default function App() {
           />
         );
 
+      case 'EXPLORER':
+        return (
+          <ExplorerScreen
+            onNavigate={goTo}
+            onBack={goBack}
+            initialQuery={explorerQuery}
+          />
+        );
+
+      case 'FOLLOW_UP':
+        return (
+          <FollowUpScreen
+            onNavigate={goTo}
+            onBack={goBack}
+            followUpKey={followUpKey}
+          />
+        );
+
+      case 'CONSOLE':
+        return (
+          <ConsoleScreen
+            onNavigate={goTo}
+            onBack={goBack}
+          />
+        );
+
       case 'PROFILE':
         return (
           <ProfileScreen
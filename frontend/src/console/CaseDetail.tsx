@@ -0,0 +1,608 @@
+/**
+ * CaseDetail Component
+ * One report's case file: status actions and history, duplicates,
+ * each routed authority's case, internal notes, evidence and the
+ * audit trail
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  X,
+  Loader2,
+  ShieldAlert,
+  MapPin,
+  Lock,
+  CheckCircle,
+  UserCheck,
+  ArrowRightLeft,
+  Download,
+  FileText,
+  History,
+  StickyNote,
+  Clock,
+  AlarmClock,
+  Link2,
+  Unlink,
+} from 'lucide-react';
+import { useApp } from '../context/AppContext.js';
+import {
+  apiService,
+  AssignableOfficer,
+  CaseFileResponse,
+  CaseInfo,
+  CaseStatus,
+  DismissalReason,
+  SimilarReport,
+  StaffEvidence,
+  StaffReportDetail,
+} from '../services/apiService.js';
+import { DISMISSAL_REASONS, OPEN_STATUSES, statusStyles, urgencyStyles } from './caseStyles.js';
+
+interface CaseDetailProps {
+  reportId: string;
+  onClose: () => void;
+  onChanged: () => void;        // The report's row in the queue may be stale
+}
+
+// Resolves to whether the action succeeded
+type RunAction = (action: () => Promise<unknown>, after?: { refreshQueue?: boolean; close?: boolean }) => Promise<boolean>;
+
+const panelClass = 'bg-white dark:bg-gray-900/50 rounded-2xl border border-gray-200 dark:border-gray-700 p-4';
+const inputClass = 'w-full px-3 py-2 rounded-lg bg-white dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500';
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-purple-500 hover:bg-purple-600 text-white disabled:opacity-50';
+
+function formatSize(bytes: number | null): string {
+  if (bytes == null) return '';
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// ─── One Authority's Case ────────────────────────────────────
+
+interface CaseCardProps {
+  reportId: string;
+  info: CaseInfo;
+  open: boolean;                // SLA deadlines only matter until the report is closed
+  canLead: boolean;             // Supervisors and admins assign and transfer
+  busy: boolean;
+  run: RunAction;
+}
+
+function CaseCard({ reportId, info, open, canLead, busy, run }: CaseCardProps) {
+  const { t, auth } = useApp();
+  const [officers, setOfficers] = useState<AssignableOfficer[]>([]);
+  const [officerId, setOfficerId] = useState('');
+  const [reason, setReason] = useState('');
+  const [toAuthority, setToAuthority] = useState('');
+
+  useEffect(() => {
+    if (!canLead || !auth.token) return;
+    apiService.getAssignableOfficers(auth.token, info.authority)
+      .then(response => setOfficers(response.data))
+      .catch(error => console.error('Failed to load officers:', error));
+  }, [canLead, info.authority]);
+
+  const token = auth.token!;
+  const reassigning = info.assignee != null;
+
+  const assign = () => run(() => apiService.updateCase(token, reportId, reassigning ? 'reassign' : 'assign', {
+    authority: info.authority,
+    officerId,
+    ...(reassigning && { reason }),
+  })).then(ok => {
+    if (ok) { setOfficerId(''); setReason(''); }
+  });
+
+  // A scoped supervisor loses access once the case leaves their authority
+  const transfer = () => run(
+    () => apiService.updateCase(token, reportId, 'transfer', { authority: info.authority, toAuthority, reason }),
+    { refreshQueue: true, close: auth.user?.role !== 'ADMIN' }
+  );
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="font-medium text-gray-900 dark:text-white">{info.authority}</div>
+        {info.acknowledged ? (
+          <span className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+            <CheckCircle className="w-3.5 h-3.5" />
+            {t('console.acknowledged')}
+          </span>
+        ) : (
+          <button
+            disabled={busy}
+            onClick={() => run(() => apiService.updateCase(token, reportId, 'acknowledge', { authority: info.authority }))}
+            className={buttonClass}
+          >
+            {t('console.acknowledge')}
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+        <UserCheck className="w-4 h-4 text-purple-500" />
+        {info.assignee ? (info.assignee.name ?? info.assignee.id) : t('console.unassigned')}
+      </div>
+
+      {open && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+          <Clock className="w-3.5 h-3.5" />
+          {!info.acknowledged && (
+            <span className={Date.parse(info.ackDueAt) < Date.now() ? 'text-red-500 font-medium' : ''}>
+              {t('console.ackDue')} {new Date(info.ackDueAt).toLocaleString()}
+            </span>
+          )}
+          <span className={Date.parse(info.resolveDueAt) < Date.now() ? 'text-red-500 font-medium' : ''}>
+            {t('console.resolveDue')} {new Date(info.resolveDueAt).toLocaleString()}
+          </span>
+        </div>
+      )}
+
+      {canLead && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <select value={officerId} onChange={e => setOfficerId(e.target.value)} className={inputClass}>
+              <option value="">{t('console.chooseOfficer')}</option>
+              {officers
+                .filter(officer => officer.id !== info.assignee?.id)
+                .map(officer => (
+                  <option key={officer.id} value={officer.id}>{officer.name} ({officer.role})</option>
+                ))}
+            </select>
+            <button
+              disabled={busy || !officerId || (reassigning && !reason.trim())}
+              onClick={assign}
+              className={buttonClass}
+            >
+              {reassigning ? t('console.reassign') : t('console.assign')}
+            </button>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              value={toAuthority}
+              onChange={e => setToAuthority(e.target.value)}
+              placeholder={t('console.transferTo')}
+              className={inputClass}
+            />
+            <button
+              disabled={busy || !toAuthority.trim() || !reason.trim()}
+              onClick={transfer}
+              className={`${buttonClass} flex items-center gap-1`}
+            >
+              <ArrowRightLeft className="w-3.5 h-3.5" />
+              {t('console.transfer')}
+            </button>
+          </div>
+
+          <input
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            maxLength={500}
+            placeholder={t('console.reasonRequired')}
+            className={inputClass}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Case File ───────────────────────────────────────────────
+
+export default function CaseDetail({ reportId, onClose, onChanged }: CaseDetailProps) {
+  const { t, auth } = useApp();
+  const [report, setReport] = useState<StaffReportDetail | null>(null);
+  const [caseFile, setCaseFile] = useState<CaseFileResponse['data'] | null>(null);
+  const [similar, setSimilar] = useState<SimilarReport[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [statusReason, setStatusReason] = useState('');
+  const [dismissalReason, setDismissalReason] = useState<DismissalReason | ''>('');
+  const [note, setNote] = useState('');
+
+  const token = auth.token!;
+  const canLead = auth.user?.role === 'SUPERVISOR' || auth.user?.role === 'ADMIN';
+
+  const load = async () => {
+    try {
+      const [detail, file] = await Promise.all([
+        apiService.getReport(token, reportId),
+        apiService.getCase(token, reportId),
+      ]);
+      setReport(detail.data);
+      setCaseFile(file.data);
+
+      // Only a report that leads its own cluster can be linked elsewhere
+      if (detail.data.duplicates.duplicateOf) setSimilar([]);
+      else {
+        apiService.getSimilarReports(token, reportId)
+          .then(response => setSimilar(response.data))
+          .catch(err => console.error('Failed to load similar reports:', err));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    }
+  };
+
+  useEffect(() => {
+    setReport(null);
+    setCaseFile(null);
+    setSimilar([]);
+    setError(null);
+    load();
+  }, [reportId]);
+
+  // Runs one action, then reloads the case file (and the queue if the report changed)
+  const run: RunAction = async (action, after = {}) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      if (after.refreshQueue) onChanged();
+      if (after.close) onClose();
+      else await load();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeStatus = (status: CaseStatus) => run(
+    () => apiService.updateReportStatus(
+      token,
+      reportId,
+      status,
+      statusReason.trim() || undefined,
+      status === 'DISMISSED' && dismissalReason ? dismissalReason : undefined
+    ),
+    { refreshQueue: true }
+  ).then(ok => {
+    if (ok) { setStatusReason(''); setDismissalReason(''); }
+  });
+
+  const linkTo = (primaryId: string) => run(() => apiService.linkReports(token, reportId, primaryId), { refreshQueue: true });
+  const unlink = () => run(() => apiService.unlinkReport(token, reportId), { refreshQueue: true });
+
+  // Notes belong to a case; the caller's own authority's, or the first for admins
+  const noteAuthority = caseFile?.cases.find(c => c.authority === auth.user?.authority)?.authority
+    ?? caseFile?.cases[0]?.authority;
+
+  const addNote = () => run(() => apiService.addCaseNote(token, reportId, noteAuthority!, note.trim()))
+    .then(ok => ok && setNote(''));
+
+  const openEvidence = (file: StaffEvidence) => run(async () => {
+    const blob = await apiService.downloadEvidence(token, reportId, file.id);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.file_name ?? file.id;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  });
+
+  if (!report || !caseFile) {
+    return (
+      <div className={`${panelClass} text-center py-12`}>
+        {error ? (
+          <div className="text-sm text-red-600 dark:text-red-400">{error}</div>
+        ) : (
+          <Loader2 className="w-6 h-6 mx-auto animate-spin text-purple-500" />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* ── Summary ── */}
+      <div className={panelClass}>
+        <div className="flex items-start justify-between mb-2">
+          <div>
+            <div className="font-mono font-bold text-purple-500">{report.reference_id}</div>
+            <div className="text-lg font-semibold text-gray-900 dark:text-white">{report.category}</div>
+          </div>
+          <button onClick={onClose} aria-label={t('common.close')} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm mb-3">
+          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusStyles(report.status)}`}>
+            {t(`console.status.${report.status}`)}
+          </span>
+          <span className={`font-medium ${urgencyStyles(report.urgency)}`}>{report.urgency}</span>
+          <span className="text-gray-500 dark:text-gray-400">
+            {report.identity_type === 'anonymous' ? t('console.anonymous') : t('console.named')}
+          </span>
+        </div>
+
+        <div className="flex items-start gap-2 text-sm text-gray-600 dark:text-gray-300 mb-2">
+          <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0 text-purple-500" />
+          <span>{report.location_address}, {report.location_area} · {report.nearest_station}</span>
+        </div>
+
+        {report.ai_summary && (
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">{report.ai_summary}</p>
+        )}
+
+        <p className="flex items-start gap-2 text-xs text-gray-500 dark:text-gray-400">
+          <Lock className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+          {t('console.sealedDescription')}
+        </p>
+
+        {report.quarantined_at != null && (
+          <div className="mt-3 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-400 flex items-center gap-2">
+            <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+            {t('console.quarantined')}: {report.quarantine_reason}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* ── Status (recorded on-chain) ── */}
+      <div className={panelClass}>
+        <h3 className="font-semibold mb-1 text-gray-900 dark:text-white">{t('console.changeStatus')}</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">{t('console.statusOnChain')}</p>
+        <input
+          value={statusReason}
+          onChange={e => setStatusReason(e.target.value)}
+          maxLength={500}
+          placeholder={t('console.reasonOptional')}
+          className={`${inputClass} mb-2`}
+        />
+        {report.allowedTransitions.includes('DISMISSED') && (
+          <select
+            value={dismissalReason}
+            onChange={e => setDismissalReason(e.target.value as DismissalReason | '')}
+            className={`${inputClass} mb-2`}
+          >
+            <option value="">{t('console.dismissalReason')}</option>
+            {DISMISSAL_REASONS.map(code => (
+              <option key={code} value={code}>{t(`console.dismissal.${code}`)}</option>
+            ))}
+          </select>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {report.allowedTransitions.map(status => (
+            <button
+              key={status}
+              disabled={busy || (status === 'DISMISSED' && !dismissalReason)}
+              onClick={() => changeStatus(status)}
+              className={buttonClass}
+            >
+              {t(`console.status.${status}`)}
+            </button>
+          ))}
+          {report.allowedTransitions.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('console.awaitingReporter')}</p>
+          )}
+        </div>
+
+        <ol className="mt-4 space-y-2 text-xs">
+          {report.statusHistory.map((entry, index) => (
+            <li key={index} className="border-l-2 border-purple-300 dark:border-purple-700 pl-3">
+              <div className="flex items-center gap-2">
+                <span className={`px-2 py-0.5 font-medium rounded-full ${statusStyles(entry.status)}`}>
+                  {t(`console.status.${entry.status}`)}
+                </span>
+                <span className="text-gray-500 dark:text-gray-400">{new Date(entry.changedAt).toLocaleString()}</span>
+              </div>
+              {entry.reasonCode && (
+                <div className="mt-1 text-gray-800 dark:text-gray-200">{t(`console.dismissal.${entry.reasonCode}`)}</div>
+              )}
+              {entry.reason && <div className="mt-1 text-gray-800 dark:text-gray-200 break-words">{entry.reason}</div>}
+              <div className="text-gray-400 font-mono truncate">
+                {entry.actorRole ? `${entry.actorRole} · ` : ''}{entry.actor}
+                {entry.blockIndex != null && ` · #${entry.blockIndex}`}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {/* ── Duplicates ── */}
+      <div className={panelClass}>
+        <h3 className="flex items-center gap-2 font-semibold mb-3 text-gray-900 dark:text-white">
+          <Link2 className="w-4 h-4 text-purple-500" />
+          {t('console.duplicates')}
+        </h3>
+
+        {report.duplicates.duplicateOf && (
+          <div className="flex items-center gap-3 text-sm">
+            <div className="flex-1 min-w-0">
+              {t('console.duplicateOf')}{' '}
+              <span className="font-mono text-purple-500">{report.duplicates.duplicateOf.referenceId}</span>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {report.duplicates.duplicateOf.source} · {new Date(report.duplicates.duplicateOf.linkedAt).toLocaleString()}
+              </div>
+            </div>
+            <button disabled={busy} onClick={unlink} className={`${buttonClass} flex items-center gap-1`}>
+              <Unlink className="w-3.5 h-3.5" />
+              {t('console.unlink')}
+            </button>
+          </div>
+        )}
+
+        {report.duplicates.linked.length > 0 && (
+          <div className="mb-3">
+            <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">{t('console.linkedReports')}</div>
+            <ul className="space-y-1 text-sm">
+              {report.duplicates.linked.map(link => (
+                <li key={link.reportId} className="flex items-center gap-2">
+                  <span className="font-mono text-gray-900 dark:text-white">{link.referenceId}</span>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusStyles(link.status)}`}>
+                    {t(`console.status.${link.status}`)}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{link.source}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!report.duplicates.duplicateOf && (
+          <>
+            <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">{t('console.similar')}</div>
+            {similar.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{t('console.noSimilar')}</p>
+            ) : (
+              <div className="space-y-2">
+                {similar.map(match => (
+                  <div key={match.reportId} className="flex items-center gap-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate text-gray-900 dark:text-white">
+                        <span className="font-mono">{match.referenceId}</span> · {match.category} · {match.area}
+                      </div>
+                      {match.aiSummary && (
+                        <div className="text-xs text-gray-600 dark:text-gray-300 truncate">{match.aiSummary}</div>
+                      )}
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {Math.round(match.score * 100)}% {t('console.match')}
+                        {match.distanceMeters != null && ` · ${match.distanceMeters} ${t('confirmation.metersAway')}`}
+                        {` · ${new Date(match.reportedAt).toLocaleString()}`}
+                      </div>
+                    </div>
+                    <button disabled={busy} onClick={() => linkTo(match.reportId)} className={buttonClass}>
+                      {t('console.linkTo')}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* ── Cases per routed authority ── */}
+      <div className={panelClass}>
+        <h3 className="font-semibold mb-3 text-gray-900 dark:text-white">{t('console.cases')}</h3>
+        <div className="space-y-3">
+          {caseFile.cases.map(info => (
+            <CaseCard
+              key={info.authority}
+              reportId={reportId}
+              info={info}
+              open={OPEN_STATUSES.includes(caseFile.status)}
+              canLead={canLead}
+              busy={busy}
+              run={run}
+            />
+          ))}
+        </div>
+
+        {caseFile.escalations.length > 0 && (
+          <div className="mt-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-700 dark:text-amber-400 space-y-1">
+            {caseFile.escalations.map(escalation => (
+              <div key={`${escalation.authority}-${escalation.deadline}`} className="flex items-start gap-2">
+                <AlarmClock className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                <span>
+                  {escalation.authority} {t(escalation.deadline === 'ACKNOWLEDGE' ? 'sla.missedAck' : 'sla.missedResolve')}
+                  {' · '}
+                  {escalation.escalatedTo ? `${t('sla.escalatedTo')} ${escalation.escalatedTo}` : t('sla.noEscalationPath')}
+                  {' · '}
+                  {new Date(escalation.escalatedAt).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* ── Internal notes ── */}
+      <div className={panelClass}>
+        <h3 className="flex items-center gap-2 font-semibold mb-3 text-gray-900 dark:text-white">
+          <StickyNote className="w-4 h-4 text-purple-500" />
+          {t('console.notes')}
+        </h3>
+        <div className="space-y-2 mb-3">
+          {caseFile.notes.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('console.noNotes')}</p>
+          )}
+          {caseFile.notes.map(n => (
+            <div key={n.id} className="text-sm rounded-lg bg-gray-50 dark:bg-gray-800/50 p-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                {n.author.name ?? n.author.id} · {n.authority} · {new Date(n.createdAt).toLocaleString()}
+              </div>
+              <div className="whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">{n.body}</div>
+            </div>
+          ))}
+        </div>
+        {noteAuthority && (
+          <div className="flex gap-2">
+            <textarea
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              maxLength={2000}
+              rows={2}
+              placeholder={t('console.notePlaceholder')}
+              className={`${inputClass} resize-none`}
+            />
+            <button disabled={busy || !note.trim()} onClick={addNote} className={buttonClass}>
+              {t('console.addNote')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* ── Evidence ── */}
+      <div className={panelClass}>
+        <h3 className="flex items-center gap-2 font-semibold mb-3 text-gray-900 dark:text-white">
+          <FileText className="w-4 h-4 text-purple-500" />
+          {t('console.evidence')}
+        </h3>
+        {report.evidence.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('console.noEvidence')}</p>
+        ) : (
+          <div className="space-y-2">
+            {report.evidence.map(file => (
+              <div key={file.id} className="flex items-center gap-3 text-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="truncate text-gray-900 dark:text-white">{file.file_name ?? file.id}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate">
+                    {file.file_type} · {formatSize(file.file_size)} · sha256 {file.file_hash.slice(0, 16)}…
+                  </div>
+                </div>
+                <button
+                  disabled={busy}
+                  onClick={() => openEvidence(file)}
+                  aria-label={t('console.download')}
+                  className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-purple-500 disabled:opacity-50"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* ── Audit trail ── */}
+      <div className={panelClass}>
+        <h3 className="flex items-center gap-2 font-semibold mb-3 text-gray-900 dark:text-white">
+          <History className="w-4 h-4 text-purple-500" />
+          {t('console.auditTrail')}
+        </h3>
+        <ol className="space-y-2 text-xs">
+          {report.auditLog.map(entry => (
+            <li key={entry.id} className="border-l-2 border-purple-300 dark:border-purple-700 pl-3">
+              <div className="text-gray-500 dark:text-gray-400">
+                {new Date(entry.timestamp * 1000).toLocaleString()} · <span className="font-mono">{entry.event_type}</span>
+              </div>
+              <div className="text-gray-800 dark:text-gray-200 break-words">{entry.details}</div>
+              {entry.actor && <div className="text-gray-400 font-mono truncate">{entry.actor}</div>}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * CaseQueue Component
+ * Reports routed to the officer's authority, newest first
+ */
+
+import { AlertTriangle, Inbox, MapPin } from 'lucide-react';
+import { useApp } from '../context/AppContext.js';
+import { StaffReport } from '../services/apiService.js';
+import { statusStyles, urgencyStyles } from './caseStyles.js';
+
+interface CaseQueueProps {
+  reports: StaffReport[];
+  selectedId: string | null;
+  onSelect: (reportId: string) => void;
+}
+
+export default function CaseQueue({ reports, selectedId, onSelect }: CaseQueueProps) {
+  const { t } = useApp();
+
+  if (reports.length === 0) {
+    return (
+      <div className="text-center py-16 text-gray-500 dark:text-gray-400">
+        <Inbox className="w-12 h-12 mx-auto mb-3 text-gray-300 dark:text-gray-600" />
+        {t('console.emptyQueue')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-900/50 rounded-2xl border border-gray-200 dark:border-gray-700 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="text-left text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+          <tr>
+            <th className="px-4 py-3 font-medium">{t('console.reference')}</th>
+            <th className="px-4 py-3 font-medium">{t('console.category')}</th>
+            <th className="px-4 py-3 font-medium">{t('console.urgency')}</th>
+            <th className="px-4 py-3 font-medium">{t('console.status')}</th>
+            <th className="px-4 py-3 font-medium">{t('console.station')}</th>
+            <th className="px-4 py-3 font-medium">{t('console.received')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {reports.map(report => (
+            <tr
+              key={report.id}
+              onClick={() => onSelect(report.id)}
+              className={`cursor-pointer border-t border-gray-100 dark:border-gray-800 hover:bg-purple-50 dark:hover:bg-gray-800/50 ${
+                selectedId === report.id ? 'bg-purple-50 dark:bg-gray-800/70' : ''
+              }`}
+            >
+              <td className="px-4 py-3 font-mono text-purple-500 whitespace-nowrap">
+                {report.reference_id}
+                {report.quarantined_at != null && (
+                  <AlertTriangle className="inline w-3.5 h-3.5 ml-1 text-red-500" aria-label={t('console.quarantined')} />
+                )}
+              </td>
+              <td className="px-4 py-3 text-gray-900 dark:text-white">{report.category}</td>
+              <td className={`px-4 py-3 font-medium ${urgencyStyles(report.urgency)}`}>{report.urgency}</td>
+              <td className="px-4 py-3">
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap ${statusStyles(report.status)}`}>
+                  {t(`console.status.${report.status}`)}
+                </span>
+              </td>
+              <td className="px-4 py-3 text-gray-500 dark:text-gray-400">
+                <span className="flex items-center gap-1">
+                  <MapPin className="w-3 h-3 flex-shrink-0" />
+                  {report.nearest_station}
+                </span>
+              </td>
+              <td className="px-4 py-3 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                {new Date(report.created_at * 1000).toLocaleString()}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
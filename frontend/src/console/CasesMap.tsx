@@ -0,0 +1,93 @@
+/**
+ * CasesMap Component
+ * Open cases on an OpenStreetMap (Leaflet) map, coloured by urgency
+ */
+
+import { useEffect, useMemo } from 'react';
+import { MapContainer, TileLayer, CircleMarker, Popup, useMap } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { useApp } from '../context/AppContext.js';
+import { StaffReport } from '../services/apiService.js';
+import { OPEN_STATUSES, URGENCIES, URGENCY_COLORS } from './caseStyles.js';
+
+// Centre of India, until there are cases to frame
+const DEFAULT_CENTER: [number, number] = [22.5937, 78.9629];
+const DEFAULT_ZOOM = 5;
+
+interface CasesMapProps {
+  reports: StaffReport[];
+  onSelect: (reportId: string) => void;
+}
+
+// Frames every marker whenever the set of cases changes
+function FitToCases({ points }: { points: [number, number][] }) {
+  const map = useMap();
+  useEffect(() => {
+    if (points.length > 0) map.fitBounds(points, { padding: [40, 40], maxZoom: 14 });
+  }, [points, map]);
+  return null;
+}
+
+export default function CasesMap({ reports, onSelect }: CasesMapProps) {
+  const { t, theme } = useApp();
+
+  const openCases = useMemo(() => reports.filter(r => OPEN_STATUSES.includes(r.status)), [reports]);
+  const located = useMemo(
+    () => openCases.filter(r => r.location_lat != null && r.location_lng != null),
+    [openCases]
+  );
+  const points = useMemo(
+    () => located.map(r => [r.location_lat!, r.location_lng!] as [number, number]),
+    [located]
+  );
+
+  const tileUrl = theme === 'dark'
+    ? 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png'
+    : 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+  const tileAttribution = theme === 'dark'
+    ? '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> &copy; <a href="https://carto.com/attributions">CARTO</a>'
+    : '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+  return (
+    <div>
+      <div className="h-[65vh] rounded-2xl overflow-hidden border border-gray-200 dark:border-gray-700">
+        <MapContainer center={DEFAULT_CENTER} zoom={DEFAULT_ZOOM} style={{ height: '100%', width: '100%' }}>
+          <TileLayer url={tileUrl} attribution={tileAttribution} />
+          <FitToCases points={points} />
+          {located.map(report => (
+            <CircleMarker
+              key={report.id}
+              center={[report.location_lat!, report.location_lng!]}
+              radius={report.urgency === 'Critical' ? 11 : 8}
+              pathOptions={{ color: '#fff', weight: 2, fillColor: URGENCY_COLORS[report.urgency] ?? '#6b7280', fillOpacity: 0.9 }}
+            >
+              <Popup>
+                <div className="text-sm">
+                  <div className="font-mono font-bold">{report.reference_id}</div>
+                  <div>{report.category} · {report.urgency}</div>
+                  <div className="text-gray-500">{report.location_area}</div>
+                  <button onClick={() => onSelect(report.id)} className="mt-1 text-purple-600 font-medium">
+                    {t('console.openCase')}
+                  </button>
+                </div>
+              </Popup>
+            </CircleMarker>
+          ))}
+        </MapContainer>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-500 dark:text-gray-400">
+        {URGENCIES.map(urgency => (
+          <span key={urgency} className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: URGENCY_COLORS[urgency] }} />
+            {urgency}
+          </span>
+        ))}
+        <span className="ml-auto">
+          {t('console.onMap')}: {located.length} / {openCases.length}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * ConsoleScreen Component
+ * Authority console for partner departments: the queue of routed
+ * reports, a map of open cases and each report's case file.
+ * Officers, supervisors and admins only — the backend enforces the
+ * same per-authority scoping on every request.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { motion } from 'motion/react';
+import { List, Map as MapIcon, RefreshCw, ShieldOff, Loader2 } from 'lucide-react';
+import { useApp } from '../context/AppContext.js';
+import Header from '../components/Header.js';
+import { apiService, ReportFilters, StaffReport, StaffRole } from '../services/apiService.js';
+import { CASE_STATUSES, URGENCIES } from './caseStyles.js';
+import CaseQueue from './CaseQueue.js';
+import CasesMap from './CasesMap.js';
+import CaseDetail from './CaseDetail.js';
+
+interface ConsoleScreenProps {
+  onNavigate: (screen: string) => void;
+  onBack: () => void;
+}
+
+const CONSOLE_ROLES: StaffRole[] = ['OFFICER', 'SUPERVISOR', 'ADMIN'];
+const QUEUE_LIMIT = 200;
+
+const selectClass = 'px-3 py-2 rounded-lg bg-white dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+export default function ConsoleScreen({ onNavigate, onBack }: ConsoleScreenProps) {
+  const { t, theme, auth } = useApp();
+  const [view, setView] = useState<'queue' | 'map'>('queue');
+  const [filters, setFilters] = useState<ReportFilters>({});
+  const [reports, setReports] = useState<StaffReport[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const isStaff = auth.isAuthenticated && !!auth.user?.role && CONSOLE_ROLES.includes(auth.user.role);
+
+  const loadQueue = async () => {
+    if (!auth.token) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await apiService.getReports(auth.token, { ...filters, limit: QUEUE_LIMIT });
+      setReports(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Short pause so typing in the free-text filters doesn't fire a request per key
+  useEffect(() => {
+    if (!isStaff) return;
+    const timer = setTimeout(loadQueue, 300);
+    return () => clearTimeout(timer);
+  }, [isStaff, filters]);
+
+  // Suggestions for the free-text filters, from what is already in the queue
+  const categories = useMemo(() => [...new Set(reports.map(r => r.category))].sort(), [reports]);
+  const stations = useMemo(() => [...new Set(reports.map(r => r.nearest_station))].sort(), [reports]);
+
+  const setFilter = (key: keyof ReportFilters, value: string) =>
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+
+  return (
+    <div className={`min-h-screen ${theme === 'dark' ? 'gradient-dark-bg' : 'bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50'}`}>
+      {theme === 'dark' && <div className="fixed inset-0 gradient-mesh pointer-events-none" />}
+
+      <Header title={t('console.title')} showBack onBack={onBack} onNavigate={onNavigate} />
+
+      <main className="px-4 pt-4 pb-12 relative max-w-7xl mx-auto">
+        {!isStaff ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-center py-16 max-w-md mx-auto"
+          >
+            <ShieldOff className="w-16 h-16 mx-auto mb-4 text-gray-300 dark:text-gray-600" />
+            <h3 className="text-lg font-medium mb-2 text-gray-900 dark:text-white">{t('console.staffOnly')}</h3>
+            <p className="text-gray-500 dark:text-gray-400 mb-6">{t('console.staffOnlyDesc')}</p>
+            {!auth.isAuthenticated && (
+              <button
+                onClick={() => onNavigate('AUTH')}
+                className="px-8 py-3 rounded-xl bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 text-white font-medium shadow-lg shadow-purple-500/25"
+              >
+                {t('console.signIn')}
+              </button>
+            )}
+          </motion.div>
+        ) : (
+          <>
+            {/* ── Who is working, and where ── */}
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <div className="text-sm text-gray-600 dark:text-gray-300">
+                <span className="font-medium text-gray-900 dark:text-white">{auth.user?.name}</span>
+                {' · '}{auth.user?.role}
+                {auth.user?.authority ? ` · ${auth.user.authority}` : ` · ${t('console.allAuthorities')}`}
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="flex rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+                  {(['queue', 'map'] as const).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 text-sm ${
+                        view === option ? 'bg-purple-500 text-white' : 'bg-white dark:bg-gray-900/50 text-gray-600 dark:text-gray-300'
+                      }`}
+                    >
+                      {option === 'queue' ? <List className="w-4 h-4" /> : <MapIcon className="w-4 h-4" />}
+                      {t(`console.${option}`)}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={loadQueue}
+                  disabled={loading}
+                  aria-label={t('followUp.refresh')}
+                  className="p-2 rounded-lg border border-gray-200 dark:border-gray-700 hover:text-purple-500 disabled:opacity-60"
+                >
+                  <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+            </div>
+
+            {/* ── Filters ── */}
+            <div className="flex flex-wrap gap-2 mb-4">
+              <select value={filters.status ?? ''} onChange={e => setFilter('status', e.target.value)} className={selectClass}>
+                <option value="">{t('console.allStatuses')}</option>
+                {CASE_STATUSES.map(status => (
+                  <option key={status} value={status}>{t(`console.status.${status}`)}</option>
+                ))}
+              </select>
+              <select value={filters.urgency ?? ''} onChange={e => setFilter('urgency', e.target.value)} className={selectClass}>
+                <option value="">{t('console.allUrgencies')}</option>
+                {URGENCIES.map(urgency => (
+                  <option key={urgency} value={urgency}>{urgency}</option>
+                ))}
+              </select>
+              <input
+                list="console-categories"
+                value={filters.category ?? ''}
+                onChange={e => setFilter('category', e.target.value)}
+                placeholder={t('console.category')}
+                className={selectClass}
+              />
+              <datalist id="console-categories">
+                {categories.map(category => <option key={category} value={category} />)}
+              </datalist>
+              <input
+                list="console-stations"
+                value={filters.station ?? ''}
+                onChange={e => setFilter('station', e.target.value)}
+                placeholder={t('console.station')}
+                className={selectClass}
+              />
+              <datalist id="console-stations">
+                {stations.map(station => <option key={station} value={station} />)}
+              </datalist>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-400">
+                {error}
+              </div>
+            )}
+
+            <div className={`grid gap-4 ${selectedId ? 'lg:grid-cols-[minmax(0,1fr)_28rem]' : ''}`}>
+              {/* On narrow screens the case file replaces the list */}
+              <div className={selectedId ? 'hidden lg:block' : ''}>
+                {loading && reports.length === 0 ? (
+                  <Loader2 className="w-6 h-6 mx-auto my-16 animate-spin text-purple-500" />
+                ) : view === 'queue' ? (
+                  <CaseQueue reports={reports} selectedId={selectedId} onSelect={setSelectedId} />
+                ) : (
+                  <CasesMap reports={reports} onSelect={setSelectedId} />
+                )}
+              </div>
+
+              {selectedId && (
+                <CaseDetail
+                  key={selectedId}
+                  reportId={selectedId}
+                  onClose={() => setSelectedId(null)}
+                  onChanged={loadQueue}
+                />
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Shared look of statuses and urgencies across the authority console
+ */
+
+import { CaseStatus, DismissalReason } from '../services/apiService.js';
+
+export const CASE_STATUSES: CaseStatus[] = ['PENDING', 'UNDER_REVIEW', 'IN_PROGRESS', 'RESOLVED', 'DISMISSED', 'REOPENED'];
+export const URGENCIES = ['Critical', 'High', 'Medium', 'Low'];
+
+// Cases still waiting for the authority to finish with them
+export const OPEN_STATUSES: CaseStatus[] = ['PENDING', 'UNDER_REVIEW', 'IN_PROGRESS', 'REOPENED'];
+
+export const DISMISSAL_REASONS: DismissalReason[] = [
+  'DUPLICATE',
+  'INSUFFICIENT_INFORMATION',
+  'OUT_OF_JURISDICTION',
+  'NO_ACTION_REQUIRED',
+  'FALSE_REPORT',
+];
+
+export function statusStyles(status: string): string {
+  switch (status) {
+    case 'RESOLVED':
+      return 'bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400';
+    case 'UNDER_REVIEW':
+      return 'bg-yellow-100 text-yellow-600 dark:bg-yellow-900/30 dark:text-yellow-400';
+    case 'IN_PROGRESS':
+      return 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400';
+    case 'REOPENED':
+      return 'bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400';
+    case 'DISMISSED':
+      return 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400';
+    default:
+      return 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400';
+  }
+}
+
+export function urgencyStyles(urgency: string): string {
+  switch (urgency) {
+    case 'Critical':
+      return 'text-red-600 dark:text-red-400';
+    case 'High':
+      return 'text-orange-500 dark:text-orange-400';
+    case 'Medium':
+      return 'text-yellow-600 dark:text-yellow-400';
+    default:
+      return 'text-green-600 dark:text-green-400';
+  }
+}
+
+// Map marker colours, same order of severity as urgencyStyles
+export const URGENCY_COLORS: Record<string, string> = {
+  Critical: '#dc2626',
+  High: '#f97316',
+  Medium: '#ca8a04',
+  Low: '#16a34a',
+};
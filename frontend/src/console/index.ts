@@ -0,0 +1,6 @@
+/**
+ * Authority Console
+ * Role-gated screens for officers, supervisors and admins
+ */
+
+export { default as ConsoleScreen } from './ConsoleScreen.js';
@@ -6,7 +6,7 @@
  */
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { apiService } from '../services/apiService.js';
+import { apiService, setSession, StaffRole, MyReport } from '../services/apiService.js';
 
 // ─── Types ───────────────────────────────────────────────────
 
@@ -17,8 +17,10 @@ export type NavTab = 'home' | 'reports' | 'nearby' | 'profile';
 export interface User {
   id: string;
   name: string;
-  email: string;
+  email: string | null;   // null for phone-OTP accounts
   phone?: string;
+  role?: StaffRole;                // absent in sessions saved before roles existed
+  authority?: string | null;       // officers and supervisors only
   verified: boolean;
   createdAt: string;
 }
@@ -27,6 +29,7 @@ export interface AuthState {
   isAuthenticated: boolean;
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
 }
 
 interface AppContextType {
@@ -48,13 +51,21 @@ interface AppContextType {
   auth: AuthState;
   login: (email: string, password: string) => Promise<{ success: boolean; message: string }>;
   signup: (data: SignupData) => Promise<{ success: boolean; message: string }>;
-  loginWithOtp: (phone: string, otp: string, name?: string) => Promise<{ success: boolean; message: string }>;
+  requestOtp: (phone: string) => Promise<{ success: boolean; message: string; resendIn?: number }>;
+  loginWithOtp: (phone: string, otp: string, name?: string) => Promise<{ success: boolean; message: string; registrationRequired?: boolean }>;
   logout: () => void;
   isLoading: boolean;
   
   // User Reports
-  userReports: any[];
+  userReports: MyReport[];
   fetchUserReports: () => Promise<void>;
+  rememberReportClaim: (claimToken: string) => void;
+  reopenReport: (reportId: string, reason: string) => Promise<{ success: boolean; message: string }>;
+  linkToReport: (reportId: string, primaryId: string) => Promise<{ success: boolean; message: string }>;
+
+  // Anonymous follow-up keys kept on this device, by report ID
+  followUpKeys: Record<string, string>;
+  rememberFollowUpKey: (reportId: string, followUpKey: string) => void;
 }
 
 export interface SignupData {
@@ -83,6 +94,7 @@ const translations: Record<Language, Record<string, string>> = {
     'home.officialDesc': 'End-to-end encrypted reporting system directly linked with local law enforcement and civic bodies.',
     'home.yourReports': 'Your Reports',
     'home.resolved': 'Resolved',
+    'home.exploreLedger': 'Browse the Public Ledger',
     
     // Auth
     'auth.login': 'Login',
@@ -90,6 +102,7 @@ const translations: Record<Language, Record<string, string>> = {
     'auth.email': 'Email Address',
     'auth.password': 'Password',
     'auth.confirmPassword': 'Confirm Password',
+    'auth.passwordHint': 'At least 10 characters. Avoid common passwords and your name, email or phone number.',
     'auth.name': 'Full Name',
     'auth.phone': 'Phone Number',
     'auth.forgotPassword': 'Forgot Password?',
@@ -160,12 +173,149 @@ const translations: Record<Language, Record<string, string>> = {
     'confirmation.subtitle': 'Your report has been permanently recorded on the blockchain — it cannot be deleted or altered.',
     'confirmation.referenceId': 'Reference ID',
     'confirmation.verify': 'Verify on Blockchain',
+    'confirmation.verifying': 'Checking Merkle proof…',
+    'confirmation.recording': 'Recording on blockchain…',
+    'confirmation.proofValid': 'Merkle proof valid — your block is included under this root:',
+    'confirmation.proofInvalid': 'Merkle proof did not match the published root.',
+    'confirmation.verifyFailed': 'Could not reach the ledger to verify.',
+    'confirmation.downloadReceipt': 'Download Signed Receipt',
+    'confirmation.findOnLedger': 'Find My Block on the Ledger',
     'confirmation.timeline': 'Status Timeline',
     'confirmation.submitted': 'Report Submitted',
     'confirmation.submittedDesc': 'Blockchain recorded • Tamper-proof',
     'confirmation.underReview': 'Under Review',
     'confirmation.underReviewDesc': 'Officers verifying details.',
     'confirmation.returnHome': 'Return to Home',
+    'confirmation.alreadyReported': 'Already reported?',
+    'confirmation.alreadyReportedDesc': 'These open reports look like the same issue. Link yours to one and it will follow that report\'s progress.',
+    'confirmation.meToo': 'Me too',
+    'confirmation.linkedTo': 'Linked to',
+    'confirmation.reporters': 'reports',
+    'confirmation.metersAway': 'm away',
+
+    // Anonymous Follow-up
+    'followUp.title': 'Anonymous Conversation',
+    'followUp.keyTitle': 'Your Follow-up Key',
+    'followUp.keyDesc': 'Officers may have questions about your report. This key opens an end-to-end encrypted conversation with them without revealing who you are. It is shown only once — copy it somewhere safe to reply from another device.',
+    'followUp.opening': 'Setting up an anonymous conversation…',
+    'followUp.unavailable': 'The authorities for this report cannot receive encrypted messages yet.',
+    'followUp.open': 'Open Conversation',
+    'followUp.messages': 'Messages',
+    'followUp.enterKey': 'Paste your follow-up key',
+    'followUp.unlock': 'Open',
+    'followUp.invalidKey': 'This is not a valid follow-up key.',
+    'followUp.notFound': 'No conversation found for this key.',
+    'followUp.empty': 'No messages yet. Officers will write here if they need more details.',
+    'followUp.you': 'You',
+    'followUp.officer': 'Officer',
+    'followUp.unreadable': 'This message could not be decrypted.',
+    'followUp.placeholder': 'Write a message…',
+    'followUp.send': 'Send',
+    'followUp.refresh': 'Refresh',
+    'followUp.e2e': 'End-to-end encrypted. The server cannot read these messages or tell who you are.',
+
+    // Authority Console
+    'console.title': 'Authority Console',
+    'console.staffOnly': 'Staff only',
+    'console.staffOnlyDesc': 'The console is for officers, supervisors and admins of partner departments. Ask an admin to grant your account a role.',
+    'console.signIn': 'Sign in',
+    'console.allAuthorities': 'all authorities',
+    'console.queue': 'Queue',
+    'console.map': 'Map',
+    'console.allStatuses': 'All statuses',
+    'console.allUrgencies': 'All urgencies',
+    'console.emptyQueue': 'No reports match these filters.',
+    'console.reference': 'Reference',
+    'console.category': 'Category',
+    'console.urgency': 'Urgency',
+    'console.status': 'Status',
+    'console.station': 'Station',
+    'console.received': 'Received',
+    'console.status.PENDING': 'Pending',
+    'console.status.UNDER_REVIEW': 'Under review',
+    'console.status.IN_PROGRESS': 'In progress',
+    'console.status.RESOLVED': 'Resolved',
+    'console.status.DISMISSED': 'Dismissed',
+    'console.status.REOPENED': 'Reopened',
+    'console.quarantined': 'Quarantined',
+    'console.onMap': 'Open cases with a location',
+    'console.openCase': 'Open case',
+    'console.anonymous': 'Anonymous reporter',
+    'console.named': 'Named reporter',
+    'console.sealedDescription': 'The description is sealed to your authority\'s vault key. Open it offline with npm run vault:decrypt.',
+    'console.changeStatus': 'Change status',
+    'console.statusOnChain': 'Every status change is recorded on the blockchain.',
+    'console.reasonOptional': 'Reason (optional)',
+    'console.reasonRequired': 'Reason (required to reassign or transfer)',
+    'console.cases': 'Cases',
+    'console.acknowledge': 'Acknowledge',
+    'console.acknowledged': 'Acknowledged',
+    'console.unassigned': 'Unassigned',
+    'console.chooseOfficer': 'Choose an officer',
+    'console.assign': 'Assign',
+    'console.reassign': 'Reassign',
+    'console.transferTo': 'Transfer to authority',
+    'console.transfer': 'Transfer',
+    'console.notes': 'Internal notes',
+    'console.noNotes': 'No notes yet.',
+    'console.notePlaceholder': 'Add a note for colleagues (never shown to the reporter)',
+    'console.addNote': 'Add',
+    'console.evidence': 'Evidence',
+    'console.noEvidence': 'No evidence attached.',
+    'console.download': 'Download',
+    'console.auditTrail': 'Audit trail',
+    'console.ackDue': 'Acknowledge by',
+    'console.resolveDue': 'Resolve by',
+    'console.dismissalReason': 'Reason code (required to dismiss)',
+    'console.dismissal.DUPLICATE': 'Duplicate of another report',
+    'console.dismissal.INSUFFICIENT_INFORMATION': 'Not enough information to act on',
+    'console.dismissal.OUT_OF_JURISDICTION': 'Outside our jurisdiction',
+    'console.dismissal.NO_ACTION_REQUIRED': 'No action required',
+    'console.dismissal.FALSE_REPORT': 'False report',
+    'console.awaitingReporter': 'Closed. Only the reporter can reopen this report.',
+    'console.duplicates': 'Duplicates',
+    'console.duplicateOf': 'Duplicate of',
+    'console.linkedReports': 'Linked reports (follow this report\'s status)',
+    'console.similar': 'Possible duplicates',
+    'console.noSimilar': 'No similar open reports found.',
+    'console.linkTo': 'Link to',
+    'console.unlink': 'Unlink',
+    'console.match': 'match',
+
+    // SLA escalations
+    'sla.missedAck': 'did not acknowledge in time',
+    'sla.missedResolve': 'did not resolve in time',
+    'sla.escalatedTo': 'escalated to',
+    'sla.noEscalationPath': 'no escalation path configured',
+
+    // Block Explorer
+    'explorer.title': 'Public Ledger',
+    'explorer.subtitle': 'Every report and status change is a block on this ledger. Search for the block hash or reference ID on your receipt to check it is really there.',
+    'explorer.searchPlaceholder': 'Block hash, block number or reference ID',
+    'explorer.search': 'Search',
+    'explorer.hashFound': 'This block hash is on the ledger.',
+    'explorer.reportFound': 'recorded on the ledger.',
+    'explorer.statusHistory': 'Status History',
+    'explorer.latestBlocks': 'Latest Blocks',
+    'explorer.blocks': 'blocks',
+    'explorer.genesis': 'Genesis',
+    'explorer.report': 'Report',
+    'explorer.block': 'Block',
+    'explorer.recordedAt': 'Recorded At',
+    'explorer.hash': 'Hash',
+    'explorer.previousHash': 'Previous Hash',
+    'explorer.merkleRoot': 'Merkle Root',
+    'explorer.format': 'Block Format',
+    'explorer.signedBy': 'Signing Key',
+    'explorer.urgency': 'Urgency',
+    'explorer.area': 'Area',
+    'explorer.station': 'Nearest Station',
+    'explorer.descriptionHash': 'Description Hash',
+    'explorer.evidence': 'Evidence Files',
+    'explorer.evidenceRoot': 'Evidence Merkle Root',
+    'explorer.reportBlock': 'Report Block',
+    'explorer.reasonCode': 'Reason code',
+    'explorer.reasonHash': 'Reason hash',
     
     // Emergency
     'emergency.title': 'Emergency SOS',
@@ -195,6 +345,11 @@ const translations: Record<Language, Record<string, string>> = {
     'reports.emptyDesc': 'Your submitted reports will appear here.',
     'reports.viewDetails': 'View Details',
     'reports.status': 'Status',
+    'reports.anonymous': 'Anonymous · this device',
+    'reports.dispute': 'Dispute this outcome',
+    'reports.disputePlaceholder': 'Tell the authority why the issue is not settled',
+    'reports.disputeSubmit': 'Reopen report',
+    'reports.follows': 'Follows',
     
     // Nearby
     'nearby.title': 'Nearby Stations',
@@ -603,20 +758,29 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [activeTab, setActiveTab] = useState<NavTab>('home');
   
   // Auth state
+  const signedOut: AuthState = { isAuthenticated: false, user: null, token: null, refreshToken: null };
   const [auth, setAuth] = useState<AuthState>(() => {
     const saved = localStorage.getItem('jaagruk-auth');
     if (saved) {
       try {
-        return JSON.parse(saved);
+        // Saved before refresh tokens existed → refreshToken is missing
+        return { refreshToken: null, ...JSON.parse(saved) };
       } catch {
-        return { isAuthenticated: false, user: null, token: null };
+        return signedOut;
       }
     }
-    return { isAuthenticated: false, user: null, token: null };
+    return signedOut;
   });
   
   const [isLoading, setIsLoading] = useState(false);
-  const [userReports, setUserReports] = useState<any[]>([]);
+  const [userReports, setUserReports] = useState<MyReport[]>([]);
+  const [followUpKeys, setFollowUpKeys] = useState<Record<string, string>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('jaagruk-followup-keys') || '{}');
+    } catch {
+      return {};
+    }
+  });
   
   // Theme effect
   useEffect(() => {
@@ -630,11 +794,32 @@ export function AppProvider({ children }: { children: ReactNode }) {
     document.documentElement.lang = language;
   }, [language]);
   
+  // Follow-up keys persistence
+  useEffect(() => {
+    localStorage.setItem('jaagruk-followup-keys', JSON.stringify(followUpKeys));
+  }, [followUpKeys]);
+  
   // Auth persistence
   useEffect(() => {
     localStorage.setItem('jaagruk-auth', JSON.stringify(auth));
   }, [auth]);
   
+  // Let apiService refresh expired access tokens; a dead session signs out
+  useEffect(() => {
+    if (!auth.token || !auth.refreshToken) {
+      setSession(null);
+      return;
+    }
+    setSession({ token: auth.token, refreshToken: auth.refreshToken }, tokens => {
+      if (tokens) {
+        setAuth(prev => ({ ...prev, ...tokens }));
+      } else {
+        setAuth(signedOut);
+        setUserReports([]);
+      }
+    });
+  }, [auth.token, auth.refreshToken]);
+  
   // Translation function
   const t = (key: string): string => {
     return translations[language]?.[key] || translations.en[key] || key;
@@ -664,6 +849,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
           isAuthenticated: true,
           user: response.data.user,
           token: response.data.token,
+          refreshToken: response.data.refreshToken,
         });
         return { success: true, message: t('auth.loginSuccess') };
       }
@@ -684,6 +870,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
           isAuthenticated: true,
           user: response.data.user,
           token: response.data.token,
+          refreshToken: response.data.refreshToken,
         });
         return { success: true, message: t('auth.signupSuccess') };
       }
@@ -695,35 +882,32 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
   
-  // OTP-based login (simplified for demo)
+  // Phone OTP login
+  const requestOtp = async (phone: string) => {
+    setIsLoading(true);
+    try {
+      const response = await apiService.requestOtp(phone);
+      return { success: true, message: response.message, resendIn: response.data.resendIn };
+    } catch (error: any) {
+      return { success: false, message: error.message || 'Could not send OTP' };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
   const loginWithOtp = async (phone: string, otp: string, name?: string) => {
     setIsLoading(true);
     try {
-      // For demo: simulate OTP verification
-      // In production, this would call a real OTP verification API
-      const isValidOtp = otp.length === 6 && /^\d{6}$/.test(otp);
-      
-      if (!isValidOtp) {
-        return { success: false, message: 'Invalid OTP format' };
+      const response = await apiService.verifyOtp(phone, otp, name);
+      if ('registrationRequired' in response.data) {
+        return { success: true, message: response.message, registrationRequired: true };
       }
-      
-      // Simulate user creation/login
-      const userId = `user_${phone}_${Date.now()}`;
-      const user: User = {
-        id: userId,
-        name: name || `User ${phone.slice(-4)}`,
-        email: `${phone}@jaagruk.app`,
-        phone: phone,
-        verified: true,
-        createdAt: new Date().toISOString(),
-      };
-      
       setAuth({
         isAuthenticated: true,
-        user,
-        token: `demo_token_${userId}`,
+        user: response.data.user,
+        token: response.data.token,
+        refreshToken: response.data.refreshToken,
       });
-      
       return { success: true, message: t('auth.loginSuccess') };
     } catch (error: any) {
       return { success: false, message: error.message || 'OTP verification failed' };
@@ -733,16 +917,42 @@ export function AppProvider({ children }: { children: ReactNode }) {
   };
   
   const logout = () => {
-    setAuth({ isAuthenticated: false, user: null, token: null });
+    // Revoke server-side too; signing out locally must not wait on the network
+    if (auth.refreshToken) {
+      apiService.logout(auth.refreshToken).catch(() => {});
+    }
+    setAuth(signedOut);
     setUserReports([]);
     localStorage.removeItem('jaagruk-auth');
   };
   
+  // Claim tokens of anonymous reports filed on this device. They stay
+  // after logout: they belong to the device, not to an account.
+  const loadReportClaims = (): string[] => {
+    try {
+      return JSON.parse(localStorage.getItem('jaagruk-report-claims') || '[]');
+    } catch {
+      return [];
+    }
+  };
+
+  const rememberReportClaim = (claimToken: string) => {
+    const claims = loadReportClaims();
+    if (!claims.includes(claimToken)) {
+      localStorage.setItem('jaagruk-report-claims', JSON.stringify([...claims, claimToken]));
+    }
+  };
+
+  const rememberFollowUpKey = (reportId: string, followUpKey: string) => {
+    setFollowUpKeys(prev => ({ ...prev, [reportId]: followUpKey }));
+  };
+
   // Fetch user reports
   const fetchUserReports = async () => {
-    if (!auth.isAuthenticated) return;
+    const claims = loadReportClaims();
+    if (!auth.token && claims.length === 0) return;
     try {
-      const response = await apiService.getReports();
+      const response = await apiService.getMyReports(auth.token, claims);
       if (response.success) {
         setUserReports(response.data);
       }
@@ -750,6 +960,32 @@ export function AppProvider({ children }: { children: ReactNode }) {
       console.error('Failed to fetch reports:', error);
     }
   };
+
+  // Dispute a resolved or dismissed report; it goes back to the authority as REOPENED
+  const reopenReport = async (reportId: string, reason: string) => {
+    try {
+      const response = await apiService.reopenReport(auth.token, loadReportClaims(), reportId, reason);
+      if (response.success) {
+        setUserReports(prev => prev.map(report => (report.id === reportId ? response.data : report)));
+      }
+      return { success: response.success, message: response.message };
+    } catch (error: any) {
+      return { success: false, message: error.message || 'Failed to reopen the report' };
+    }
+  };
+
+  // "Me too": follow an earlier report of the same issue
+  const linkToReport = async (reportId: string, primaryId: string) => {
+    try {
+      const response = await apiService.linkMyReport(auth.token, loadReportClaims(), reportId, primaryId);
+      if (response.success) {
+        setUserReports(prev => prev.map(report => (report.id === reportId ? response.data : report)));
+      }
+      return { success: response.success, message: response.message };
+    } catch (error: any) {
+      return { success: false, message: error.message || 'Failed to link the report' };
+    }
+  };
   
   return (
     <AppContext.Provider value={{
@@ -764,11 +1000,17 @@ export function AppProvider({ children }: { children: ReactNode }) {
       auth,
       login,
       signup,
+      requestOtp,
       loginWithOtp,
       logout,
       isLoading,
       userReports,
       fetchUserReports,
+      rememberReportClaim,
+      reopenReport,
+      linkToReport,
+      followUpKeys,
+      rememberFollowUpKey,
     }}>
       {children}
     </AppContext.Provider>
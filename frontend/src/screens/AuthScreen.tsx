@@ -1,6 +1,6 @@
 /**
  * AuthScreen Component
- * Simple OTP-based phone authentication
+ * Phone login with a code texted by the backend (new numbers add a name)
  */
 
 import { useState, useRef, useEffect } from 'react';
@@ -18,7 +18,7 @@ interface AuthScreenProps {
 type AuthStep = 'phone' | 'otp' | 'name';
 
 export default function AuthScreen({ onNavigate, onBack }: AuthScreenProps) {
-  const { loginWithOtp, isLoading } = useApp();
+  const { requestOtp, loginWithOtp, isLoading } = useApp();
   
   const [step, setStep] = useState<AuthStep>('phone');
   const [phone, setPhone] = useState('');
@@ -26,7 +26,6 @@ export default function AuthScreen({ onNavigate, onBack }: AuthScreenProps) {
   const [name, setName] = useState('');
   const [error, setError] = useState('');
   const [countdown, setCountdown] = useState(0);
-  const [isNewUser, setIsNewUser] = useState(false);
   
   const otpRefs = useRef<(HTMLInputElement | null)[]>([]);
   
@@ -59,8 +58,13 @@ export default function AuthScreen({ onNavigate, onBack }: AuthScreenProps) {
       return;
     }
     
-    // For demo: simulate OTP sending
-    setCountdown(30);
+    const result = await requestOtp(digits);
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    
+    setCountdown(result.resendIn ?? 30);
     setStep('otp');
     setError('');
     
@@ -103,18 +107,14 @@ export default function AuthScreen({ onNavigate, onBack }: AuthScreenProps) {
       return;
     }
     
-    // For demo: any 6-digit OTP works, check if 123456 means new user
-    if (code === '123456') {
-      setIsNewUser(true);
+    const result = await loginWithOtp(phone.replace(/\D/g, ''), code);
+    if (!result.success) {
+      setError(result.message);
+    } else if (result.registrationRequired) {
+      // New number: the same code completes signup once we have a name
       setStep('name');
     } else {
-      // Existing user - login directly
-      const result = await loginWithOtp(phone.replace(/\D/g, ''), code, '');
-      if (result.success) {
-        onNavigate('HOME');
-      } else {
-        setError(result.message);
-      }
+      onNavigate('HOME');
     }
   };
 
@@ -132,10 +132,16 @@ export default function AuthScreen({ onNavigate, onBack }: AuthScreenProps) {
     }
   };
 
-  const handleResendOtp = () => {
+  const handleResendOtp = async () => {
     if (countdown > 0) return;
-    setCountdown(30);
+    const result = await requestOtp(phone.replace(/\D/g, ''));
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    setCountdown(result.resendIn ?? 30);
     setOtp(['', '', '', '', '', '']);
+    setError('');
     otpRefs.current[0]?.focus();
   };
 
@@ -368,17 +374,6 @@ export default function AuthScreen({ onNavigate, onBack }: AuthScreenProps) {
             )}
           </AnimatePresence>
 
-          {/* Demo Note */}
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.5 }}
-            className="mt-8 p-4 rounded-xl bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800"
-          >
-            <p className="text-xs text-blue-700 dark:text-blue-300 text-center">
-              <strong>Demo Mode:</strong> Use OTP <span className="font-mono bg-blue-100 dark:bg-blue-800 px-2 py-0.5 rounded">123456</span> for new user, or any 6 digits for existing user
-            </p>
-          </motion.div>
         </motion.div>
       </main>
 
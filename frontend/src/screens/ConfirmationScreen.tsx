@@ -1,30 +1,139 @@
 /**
  * ConfirmationScreen Component
- * Display submission confirmation with reference ID
+ * Display submission confirmation with reference ID, and offer to
+ * link the report to earlier reports of the same issue ("me too")
  */
 
+import { useState, useEffect, useRef } from 'react';
 import { motion } from 'motion/react';
-import { Check, Copy, ExternalLink, Clock } from 'lucide-react';
+import { Check, Copy, ExternalLink, Clock, ShieldCheck, ShieldAlert, Download, Blocks, KeyRound, MessageSquare, Loader2, Users, Link2 } from 'lucide-react';
 import { useApp } from '../context/AppContext.js';
 import Header from '../components/Header.js';
+import { apiService, SubmissionReceipt, PendingReceipt, DuplicateSuggestion } from '../services/apiService.js';
+import { verifyMerkleProof } from '../services/merkleVerifier.js';
+import { startFollowUp } from '../services/followUpChannel.js';
 
 interface ConfirmationScreenProps {
   onNavigate: (screen: string) => void;
+  reportId?: string;
   referenceId: string;
   blockHash?: string;
+  receipt?: SubmissionReceipt | PendingReceipt;
+  pending?: boolean;            // Block still being mined
+  onExplore?: (query: string) => void;
+  claimToken?: string;          // Anonymous reports only
+  readableBy?: string[];        // Routed authorities with a vault key
+  possibleDuplicates?: DuplicateSuggestion[];
+  onOpenFollowUp?: (followUpKey: string) => void;
 }
 
+type VerifyState =
+  | { status: 'idle' }
+  | { status: 'verifying' }
+  | { status: 'valid'; root: string }
+  | { status: 'invalid' }
+  | { status: 'error' };
+
+type FollowUpState =
+  | { status: 'idle' }
+  | { status: 'opening' }
+  | { status: 'ready'; followUpKey: string }
+  | { status: 'unavailable' };
+
 export default function ConfirmationScreen({
   onNavigate,
+  reportId,
   referenceId,
   blockHash,
+  receipt,
+  pending = false,
+  onExplore,
+  claimToken,
+  readableBy = [],
+  possibleDuplicates = [],
+  onOpenFollowUp,
 }: ConfirmationScreenProps) {
-  const { t, setActiveTab } = useApp();
+  const { t, setActiveTab, rememberFollowUpKey, linkToReport } = useApp();
+  const [linkedTo, setLinkedTo] = useState<DuplicateSuggestion | null>(null);
+  const [linking, setLinking] = useState<string | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [verifyState, setVerifyState] = useState<VerifyState>({ status: 'idle' });
+  const [followUp, setFollowUp] = useState<FollowUpState>({ status: 'idle' });
+  const followUpStarted = useRef(false);
+
+  // Anonymous reports get a follow-up channel right away; its key is shown only here
+  useEffect(() => {
+    if (!reportId || !claimToken || followUpStarted.current) return;
+    followUpStarted.current = true;
+    if (readableBy.length === 0) {
+      setFollowUp({ status: 'unavailable' });
+      return;
+    }
+    setFollowUp({ status: 'opening' });
+    startFollowUp(reportId, claimToken, readableBy)
+      .then(followUpKey => {
+        if (!followUpKey) {
+          setFollowUp({ status: 'unavailable' });
+          return;
+        }
+        rememberFollowUpKey(reportId, followUpKey);
+        setFollowUp({ status: 'ready', followUpKey });
+      })
+      .catch(error => {
+        console.error('Could not open follow-up channel:', error);
+        setFollowUp({ status: 'unavailable' });
+      });
+  }, [reportId, claimToken]);
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
   };
 
+  // Save the server-signed receipt so the citizen can prove acceptance later
+  const handleDownloadReceipt = () => {
+    if (!receipt) return;
+    const blob = new Blob([JSON.stringify(receipt, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `jaagruk-receipt-${referenceId.replace(/[^A-Za-z0-9-]/g, '')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Fetch the inclusion proof and the published root separately,
+  // then check the proof locally — the server's "verified" flag is not trusted.
+  const handleVerify = async () => {
+    setVerifyState({ status: 'verifying' });
+    try {
+      const [verification, published] = await Promise.all([
+        apiService.verifyReport(reportId || referenceId),
+        apiService.getMerkleRoot(),
+      ]);
+      const proof = verification.merkleProof;
+      if (!proof || (blockHash && proof.leaf !== blockHash)) {
+        setVerifyState({ status: 'invalid' });
+        return;
+      }
+      const root = published.treeSize === proof.treeSize ? published.root : proof.root;
+      const valid = await verifyMerkleProof(proof, root);
+      setVerifyState(valid ? { status: 'valid', root } : { status: 'invalid' });
+    } catch (error) {
+      console.error('Verification failed:', error);
+      setVerifyState({ status: 'error' });
+    }
+  };
+
+  const handleMeToo = async (suggestion: DuplicateSuggestion) => {
+    if (!reportId) return;
+    setLinking(suggestion.reportId);
+    setLinkError(null);
+    const result = await linkToReport(reportId, suggestion.reportId);
+    setLinking(null);
+    if (result.success) setLinkedTo(suggestion);
+    else setLinkError(result.message);
+  };
+
   const handleReturnHome = () => {
     setActiveTab('home');
     onNavigate('HOME');
@@ -77,18 +186,167 @@ export default function ConfirmationScreen({
           </div>
         </motion.div>
 
+        {reportId && possibleDuplicates.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.22 }}
+            className="bg-white dark:bg-gray-900 rounded-2xl p-5 mb-4 border border-amber-200 dark:border-amber-800"
+          >
+            <div className="flex items-center gap-2 font-semibold mb-2">
+              <Users className="w-4 h-4 text-amber-500" />
+              {t('confirmation.alreadyReported')}
+            </div>
+            {linkedTo ? (
+              <p className="text-sm text-green-700 dark:text-green-400 flex items-center gap-2">
+                <Link2 className="w-4 h-4" />
+                {t('confirmation.linkedTo')} <span className="font-mono">{linkedTo.referenceId}</span>
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">{t('confirmation.alreadyReportedDesc')}</p>
+                <div className="space-y-2">
+                  {possibleDuplicates.map(suggestion => (
+                    <div key={suggestion.reportId} className="flex items-center gap-3 p-3 rounded-xl bg-gray-50 dark:bg-gray-800">
+                      <div className="flex-1 min-w-0 text-sm">
+                        <div className="font-medium truncate">{suggestion.category} · {suggestion.area}</div>
+                        <div className="text-xs text-gray-500 truncate">
+                          <span className="font-mono">{suggestion.referenceId}</span>
+                          {' · '}{new Date(suggestion.reportedAt).toLocaleString()}
+                          {suggestion.distanceMeters != null && ` · ${suggestion.distanceMeters} ${t('confirmation.metersAway')}`}
+                          {` · ${suggestion.linkedReports + 1} ${t('confirmation.reporters')}`}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleMeToo(suggestion)}
+                        disabled={linking != null}
+                        className="px-3 py-1.5 rounded-lg text-xs font-medium bg-amber-500 hover:bg-amber-600 text-white flex items-center gap-1.5 disabled:opacity-60"
+                      >
+                        {linking === suggestion.reportId && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                        {t('confirmation.meToo')}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                {linkError && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{linkError}</p>}
+              </>
+            )}
+          </motion.div>
+        )}
+
+        {followUp.status !== 'idle' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.25 }}
+            className="bg-white dark:bg-gray-900 rounded-2xl p-5 mb-4 border border-purple-200 dark:border-purple-800"
+          >
+            <div className="flex items-center gap-2 font-semibold mb-2">
+              <KeyRound className="w-4 h-4 text-purple-500" />
+              {t('followUp.keyTitle')}
+            </div>
+            {followUp.status === 'opening' && (
+              <p className="text-sm text-gray-500 flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {t('followUp.opening')}
+              </p>
+            )}
+            {followUp.status === 'unavailable' && (
+              <p className="text-sm text-gray-500">{t('followUp.unavailable')}</p>
+            )}
+            {followUp.status === 'ready' && (
+              <>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">{t('followUp.keyDesc')}</p>
+                <div className="flex items-center gap-2 mb-3">
+                  <code className="flex-1 text-xs font-mono break-all p-2 rounded-lg bg-gray-50 dark:bg-gray-800">
+                    {followUp.followUpKey}
+                  </code>
+                  <button
+                    onClick={() => copyToClipboard(followUp.followUpKey)}
+                    className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    <Copy className="w-5 h-5" />
+                  </button>
+                </div>
+                {onOpenFollowUp && (
+                  <button
+                    onClick={() => onOpenFollowUp(followUp.followUpKey)}
+                    className="w-full py-2.5 rounded-xl border border-purple-500 text-purple-600 dark:text-purple-400 font-medium flex items-center justify-center gap-2 hover:bg-purple-500/5 transition-colors"
+                  >
+                    <MessageSquare className="w-4 h-4" />
+                    {t('followUp.open')}
+                  </button>
+                )}
+              </>
+            )}
+          </motion.div>
+        )}
+
         <motion.button
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.3 }}
           whileHover={{ scale: 1.02 }}
           whileTap={{ scale: 0.98 }}
-          className="w-full py-3 rounded-xl border border-primary text-primary font-medium flex items-center justify-center gap-2 hover:bg-primary/5 transition-colors mb-6"
+          onClick={handleVerify}
+          disabled={pending || verifyState.status === 'verifying'}
+          className="w-full py-3 rounded-xl border border-primary text-primary font-medium flex items-center justify-center gap-2 hover:bg-primary/5 transition-colors mb-6 disabled:opacity-60"
         >
           <ExternalLink className="w-5 h-5" />
-          {t('confirmation.verify')}
+          {pending
+            ? t('confirmation.recording')
+            : verifyState.status === 'verifying' ? t('confirmation.verifying') : t('confirmation.verify')}
         </motion.button>
 
+        {receipt && (
+          <motion.button
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.35 }}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={handleDownloadReceipt}
+            className="w-full py-3 rounded-xl border border-gray-300 dark:border-gray-700 font-medium flex items-center justify-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors mb-6"
+          >
+            <Download className="w-5 h-5" />
+            {t('confirmation.downloadReceipt')}
+          </motion.button>
+        )}
+
+        {onExplore && blockHash && !pending && (
+          <motion.button
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.4 }}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => onExplore(blockHash)}
+            className="w-full py-3 rounded-xl border border-gray-300 dark:border-gray-700 font-medium flex items-center justify-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors mb-6"
+          >
+            <Blocks className="w-5 h-5" />
+            {t('confirmation.findOnLedger')}
+          </motion.button>
+        )}
+
+        {verifyState.status === 'valid' && (
+          <div className="mb-6 p-4 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm">
+            <div className="flex items-center gap-2 font-medium text-green-700 dark:text-green-400 mb-1">
+              <ShieldCheck className="w-4 h-4" />
+              {t('confirmation.proofValid')}
+            </div>
+            <code className="block font-mono text-xs break-all text-gray-600 dark:text-gray-400">
+              {verifyState.root}
+            </code>
+          </div>
+        )}
+
+        {(verifyState.status === 'invalid' || verifyState.status === 'error') && (
+          <div className="mb-6 p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm flex items-center gap-2 text-red-700 dark:text-red-400">
+            <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+            {verifyState.status === 'invalid' ? t('confirmation.proofInvalid') : t('confirmation.verifyFailed')}
+          </div>
+        )}
+
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
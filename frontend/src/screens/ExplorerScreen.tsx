@@ -0,0 +1,261 @@
+/**
+ * ExplorerScreen Component
+ * Public block explorer — browse the ledger and look up a block
+ * by index, hash or reference ID
+ */
+
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Search, Blocks, ChevronLeft, ChevronRight, ShieldCheck, ShieldAlert, Loader2, ArrowRight } from 'lucide-react';
+import { useApp } from '../context/AppContext.js';
+import Header from '../components/Header.js';
+import BottomNav from '../components/BottomNav.js';
+import Footer from '../components/Footer.js';
+import { apiService, PublicBlock, ChainPageResponse, LedgerLookup } from '../services/apiService.js';
+
+interface ExplorerScreenProps {
+  onNavigate: (screen: string) => void;
+  onBack: () => void;
+  initialQuery?: string;        // e.g. the block hash from a receipt
+}
+
+type SearchState =
+  | { status: 'idle' }
+  | { status: 'searching' }
+  | { status: 'found'; query: string; result: LedgerLookup }
+  | { status: 'notFound'; query: string; message: string };
+
+const PAGE_SIZE = 10;
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+
+export default function ExplorerScreen({ onNavigate, onBack, initialQuery = '' }: ExplorerScreenProps) {
+  const { t, theme } = useApp();
+  const [query, setQuery] = useState(initialQuery);
+  const [search, setSearch] = useState<SearchState>({ status: 'idle' });
+  const [page, setPage] = useState(1);
+  const [chainPage, setChainPage] = useState<ChainPageResponse | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoadError(null);
+    apiService.getChainPage(page, PAGE_SIZE)
+      .then(setChainPage)
+      .catch(error => setLoadError(error instanceof Error ? error.message : String(error)));
+  }, [page]);
+
+  useEffect(() => {
+    if (initialQuery) runSearch(initialQuery);
+  }, [initialQuery]);
+
+  const runSearch = async (raw: string) => {
+    const q = raw.trim();
+    if (!q) return;
+    setSearch({ status: 'searching' });
+    try {
+      const response = await apiService.searchLedger(q);
+      setSearch({ status: 'found', query: q, result: response.data });
+    } catch (error) {
+      setSearch({ status: 'notFound', query: q, message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const openBlock = (block: PublicBlock) => {
+    setQuery(String(block.index));
+    runSearch(String(block.index));
+  };
+
+  const blockLabel = (block: PublicBlock) => {
+    if (block.type === 'GENESIS') return t('explorer.genesis');
+    if (block.type === 'STATUS_EVENT') return `${block.data.previousStatus} → ${block.data.status}`;
+    return block.data.category ?? t('explorer.report');
+  };
+
+  // A searched hash that comes back as that exact block is the receipt check
+  const hashConfirmed = search.status === 'found'
+    && search.query.replace(/^0x/, '').toLowerCase() === search.result.block.hash;
+
+  return (
+    <div className={`min-h-screen ${theme === 'dark' ? 'gradient-dark-bg' : 'bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50'}`}>
+      {theme === 'dark' && <div className="fixed inset-0 gradient-mesh pointer-events-none" />}
+
+      <Header title={t('explorer.title')} showBack onBack={onBack} onNavigate={onNavigate} />
+
+      <main className="px-4 pt-4 pb-24 relative max-w-md mx-auto">
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{t('explorer.subtitle')}</p>
+
+        {/* Search */}
+        <form
+          onSubmit={e => { e.preventDefault(); runSearch(query); }}
+          className="flex gap-2 mb-4"
+        >
+          <div className="flex-1 relative">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder={t('explorer.searchPlaceholder')}
+              className="w-full pl-9 pr-3 py-2.5 rounded-xl bg-white dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={search.status === 'searching'}
+            className="px-4 rounded-xl bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 text-white font-medium disabled:opacity-60"
+          >
+            {search.status === 'searching' ? <Loader2 className="w-4 h-4 animate-spin" /> : t('explorer.search')}
+          </button>
+        </form>
+
+        {/* Search result */}
+        {search.status === 'notFound' && (
+          <div className="mb-4 p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm flex items-center gap-2 text-red-700 dark:text-red-400">
+            <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+            {search.message}
+          </div>
+        )}
+
+        {search.status === 'found' && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-6 bg-white dark:bg-gray-900/50 rounded-2xl p-4 border border-gray-200 dark:border-gray-700 text-sm"
+          >
+            {(hashConfirmed || search.result.referenceId) && (
+              <div className="flex items-center gap-2 font-medium text-green-700 dark:text-green-400 mb-3">
+                <ShieldCheck className="w-4 h-4" />
+                {hashConfirmed ? t('explorer.hashFound') : `${search.result.referenceId} — ${t('explorer.reportFound')}`}
+              </div>
+            )}
+
+            <BlockDetails block={search.result.block} label={blockLabel(search.result.block)} t={t} />
+
+            {search.result.statusEvents.length > 0 && (
+              <div className="mt-4">
+                <div className="font-medium mb-2">{t('explorer.statusHistory')}</div>
+                <div className="space-y-2">
+                  {search.result.statusEvents.map(event => (
+                    <button
+                      key={event.hash}
+                      onClick={() => openBlock(event)}
+                      className="w-full flex items-center justify-between p-2 rounded-lg bg-gray-50 dark:bg-gray-800/50 text-left"
+                    >
+                      <span>
+                        #{event.index} · {event.data.previousStatus} <ArrowRight className="w-3 h-3 inline" /> {event.data.status}
+                      </span>
+                      <span className="text-xs text-gray-500">{new Date(event.timestamp).toLocaleString()}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </motion.div>
+        )}
+
+        {/* Ledger */}
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold flex items-center gap-2">
+            <Blocks className="w-4 h-4 text-purple-500" />
+            {t('explorer.latestBlocks')}
+          </h3>
+          {chainPage && (
+            <span className="text-xs text-gray-500">
+              {chainPage.length} {t('explorer.blocks')}
+            </span>
+          )}
+        </div>
+
+        {loadError && (
+          <div className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-400">{loadError}</div>
+        )}
+
+        <div className="space-y-2">
+          {chainPage?.data.map((block, index) => (
+            <motion.button
+              key={block.hash}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.03 }}
+              onClick={() => openBlock(block)}
+              className="w-full text-left bg-white dark:bg-gray-900/50 rounded-xl p-3 border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-gray-900 dark:text-white">#{block.index} · {blockLabel(block)}</span>
+                <span className="text-xs text-gray-500">{new Date(block.timestamp).toLocaleString()}</span>
+              </div>
+              <code className="text-xs font-mono text-purple-500">{shortHash(block.hash)}</code>
+            </motion.button>
+          ))}
+        </div>
+
+        {chainPage && chainPage.totalPages > 1 && (
+          <div className="flex items-center justify-between mt-4">
+            <button
+              onClick={() => setPage(p => p - 1)}
+              disabled={page <= 1}
+              className="p-2 rounded-lg border border-gray-200 dark:border-gray-700 disabled:opacity-40"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm text-gray-500">
+              {page} / {chainPage.totalPages}
+            </span>
+            <button
+              onClick={() => setPage(p => p + 1)}
+              disabled={page >= chainPage.totalPages}
+              className="p-2 rounded-lg border border-gray-200 dark:border-gray-700 disabled:opacity-40"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        <Footer variant="minimal" className="mt-8" />
+      </main>
+
+      <BottomNav onNavigate={onNavigate} />
+    </div>
+  );
+}
+
+// ─── Block Details ───────────────────────────────────────────
+
+function BlockDetails({ block, label, t }: { block: PublicBlock; label: string; t: (key: string) => string }) {
+  const rows: Array<[string, string | undefined | null]> = [
+    [t('explorer.block'), `#${block.index} · ${label}`],
+    [t('explorer.recordedAt'), new Date(block.timestamp).toLocaleString()],
+    [t('explorer.hash'), block.hash],
+    [t('explorer.previousHash'), block.previousHash],
+    [t('explorer.merkleRoot'), block.merkleRoot],
+    [t('explorer.format'), `v${block.version}`],
+    [t('explorer.signedBy'), block.signedBy],
+  ];
+
+  if (block.type === 'REPORT') {
+    rows.push(
+      [t('explorer.urgency'), block.data.urgency],
+      [t('explorer.area'), block.data.area],
+      [t('explorer.station'), block.data.nearestStation],
+      [t('explorer.descriptionHash'), block.data.descriptionHash],
+      [t('explorer.evidence'), String(block.data.evidenceCount ?? 0)],
+      [t('explorer.evidenceRoot'), block.data.evidenceRoot],
+    );
+  } else if (block.type === 'STATUS_EVENT') {
+    rows.push(
+      [t('explorer.reportBlock'), `#${block.data.reportBlockIndex}`],
+      [t('explorer.reasonCode'), block.data.reasonCode],
+      [t('explorer.reasonHash'), block.data.reasonHash],
+    );
+  }
+
+  return (
+    <dl className="space-y-1.5">
+      {rows.filter(([, value]) => value).map(([key, value]) => (
+        <div key={key}>
+          <dt className="text-xs text-gray-500">{key}</dt>
+          <dd className="font-mono text-xs break-all text-gray-800 dark:text-gray-200">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * FollowUpScreen Component
+ * Anonymous, end-to-end encrypted conversation between the reporter
+ * and the officers handling their report
+ */
+
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { KeyRound, Lock, Loader2, RefreshCw, Send, ShieldAlert } from 'lucide-react';
+import { useApp } from '../context/AppContext.js';
+import Header from '../components/Header.js';
+import { apiService, FollowUpSender } from '../services/apiService.js';
+import {
+  FollowUpSession,
+  openFollowUpSession,
+  encryptFollowUpMessage,
+  decryptFollowUpMessage,
+} from '../services/followUpChannel.js';
+
+interface FollowUpScreenProps {
+  onNavigate: (screen: string) => void;
+  onBack: () => void;
+  followUpKey?: string;         // Saved on this device, if any
+}
+
+interface ThreadMessage {
+  id: string;
+  sender: FollowUpSender;
+  text: string | null;          // null if it failed to decrypt
+  createdAt: string;
+}
+
+const MAX_MESSAGE_LENGTH = 4000;
+
+export default function FollowUpScreen({ onNavigate, onBack, followUpKey }: FollowUpScreenProps) {
+  const { t, theme, rememberFollowUpKey } = useApp();
+  const [keyInput, setKeyInput] = useState(followUpKey ?? '');
+  const [session, setSession] = useState<FollowUpSession | null>(null);
+  const [referenceId, setReferenceId] = useState('');
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadThread = async (active: FollowUpSession) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const thread = await apiService.getFollowUpThread(active.reportId, active.accessKey);
+      setReferenceId(thread.data.referenceId);
+      setMessages(await Promise.all(thread.data.messages.map(async message => ({
+        id: message.id,
+        sender: message.sender,
+        text: await decryptFollowUpMessage(active, message),
+        createdAt: message.createdAt,
+      }))));
+    } catch (err) {
+      console.error('Failed to load follow-up thread:', err);
+      setError(t('followUp.notFound'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const unlock = async (key: string) => {
+    const opened = await openFollowUpSession(key);
+    if (!opened) {
+      setError(t('followUp.invalidKey'));
+      return;
+    }
+    setSession(opened);
+    rememberFollowUpKey(opened.reportId, key.trim());
+    await loadThread(opened);
+  };
+
+  useEffect(() => {
+    if (followUpKey) unlock(followUpKey);
+  }, [followUpKey]);
+
+  const handleSend = async () => {
+    const text = draft.trim();
+    if (!session || !text) return;
+    setSending(true);
+    setError(null);
+    try {
+      const sealed = await encryptFollowUpMessage(session, text);
+      const response = await apiService.sendFollowUpMessage(session.reportId, session.accessKey, sealed);
+      setMessages(prev => [...prev, { id: response.data.id, sender: 'REPORTER', text, createdAt: response.data.createdAt }]);
+      setDraft('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className={`min-h-screen ${theme === 'dark' ? 'gradient-dark-bg' : 'bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50'}`}>
+      {theme === 'dark' && <div className="fixed inset-0 gradient-mesh pointer-events-none" />}
+
+      <Header title={t('followUp.title')} showBack onBack={onBack} onNavigate={onNavigate} />
+
+      <main className="px-4 pt-4 pb-24 relative max-w-md mx-auto">
+        <div className="flex items-start gap-2 text-xs text-gray-500 dark:text-gray-400 mb-4">
+          <Lock className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+          {t('followUp.e2e')}
+        </div>
+
+        {!session && (
+          <form
+            onSubmit={e => { e.preventDefault(); unlock(keyInput); }}
+            className="flex gap-2 mb-4"
+          >
+            <div className="flex-1 relative">
+              <KeyRound className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                value={keyInput}
+                onChange={e => setKeyInput(e.target.value)}
+                placeholder={t('followUp.enterKey')}
+                className="w-full pl-9 pr-3 py-2.5 rounded-xl bg-white dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            <button
+              type="submit"
+              className="px-4 rounded-xl bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 text-white font-medium"
+            >
+              {t('followUp.unlock')}
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <div className="mb-4 p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm flex items-center gap-2 text-red-700 dark:text-red-400">
+            <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {session && (
+          <>
+            <div className="flex items-center justify-between mb-3">
+              <code className="text-sm font-mono font-bold text-purple-500">{referenceId}</code>
+              <button
+                onClick={() => loadThread(session)}
+                disabled={loading}
+                className="flex items-center gap-1 text-xs text-gray-500 hover:text-purple-500 disabled:opacity-60"
+              >
+                <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+                {t('followUp.refresh')}
+              </button>
+            </div>
+
+            <div className="space-y-3 mb-4">
+              {!loading && messages.length === 0 && (
+                <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">{t('followUp.empty')}</p>
+              )}
+              {messages.map((message, index) => (
+                <motion.div
+                  key={message.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.03 }}
+                  className={`flex ${message.sender === 'REPORTER' ? 'justify-end' : 'justify-start'}`}
+                >
+                  <div
+                    className={`max-w-[80%] rounded-2xl px-4 py-2.5 text-sm ${
+                      message.sender === 'REPORTER'
+                        ? 'bg-gradient-to-r from-indigo-500 to-purple-500 text-white'
+                        : 'bg-white dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700'
+                    }`}
+                  >
+                    <div className="text-xs opacity-70 mb-1">
+                      {message.sender === 'REPORTER' ? t('followUp.you') : t('followUp.officer')}
+                      {' · '}
+                      {new Date(message.createdAt).toLocaleString()}
+                    </div>
+                    <div className="whitespace-pre-wrap break-words">
+                      {message.text ?? <em>{t('followUp.unreadable')}</em>}
+                    </div>
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+
+            <form
+              onSubmit={e => { e.preventDefault(); handleSend(); }}
+              className="flex gap-2"
+            >
+              <textarea
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                maxLength={MAX_MESSAGE_LENGTH}
+                rows={2}
+                placeholder={t('followUp.placeholder')}
+                className="flex-1 px-3 py-2.5 rounded-xl bg-white dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <button
+                type="submit"
+                disabled={sending || !draft.trim()}
+                aria-label={t('followUp.send')}
+                className="px-4 rounded-xl bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 text-white disabled:opacity-60"
+              >
+                {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              </button>
+            </form>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
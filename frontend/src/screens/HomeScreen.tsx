@@ -4,7 +4,7 @@
  */
 
 import { motion } from 'motion/react';
-import { FileText, AlertTriangle, Shield, Sparkles, Lock, Globe } from 'lucide-react';
+import { FileText, AlertTriangle, Shield, Sparkles, Lock, Globe, Blocks } from 'lucide-react';
 import { useApp } from '../context/AppContext.js';
 import Header from '../components/Header.js';
 import BottomNav from '../components/BottomNav.js';
@@ -14,9 +14,10 @@ import Footer from '../components/Footer.js';
 interface HomeScreenProps {
   onNavigate: (screen: string) => void;
   onStartReport: () => void;
+  onExplore?: () => void;
 }
 
-export default function HomeScreen({ onNavigate, onStartReport }: HomeScreenProps) {
+export default function HomeScreen({ onNavigate, onStartReport, onExplore }: HomeScreenProps) {
   const { t, auth, userReports, theme } = useApp();
 
   return (
@@ -72,6 +73,20 @@ export default function HomeScreen({ onNavigate, onStartReport }: HomeScreenProp
             <AlertTriangle className="w-6 h-6" />
             {t('home.emergencySOS')}
           </motion.button>
+
+          {onExplore && (
+            <motion.button
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.5 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={onExplore}
+              className="w-full py-3 px-6 rounded-2xl border border-purple-300 dark:border-purple-800 text-purple-600 dark:text-purple-400 font-medium flex items-center justify-center gap-2"
+            >
+              <Blocks className="w-5 h-5" />
+              {t('home.exploreLedger')}
+            </motion.button>
+          )}
         </div>
 
         {/* Feature Cards */}
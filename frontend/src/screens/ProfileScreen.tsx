@@ -13,6 +13,7 @@ import {
   Shield,
   LogOut,
   ChevronRight,
+  Briefcase,
 } from 'lucide-react';
 import { useApp } from '../context/AppContext.js';
 import Header from '../components/Header.js';
@@ -36,7 +37,11 @@ export default function ProfileScreen({ onNavigate }: ProfileScreenProps) {
     onNavigate('REPORTS_LIST');
   };
 
+  // Officers, supervisors and admins work their authority's cases in the console
+  const isStaff = !!auth.user?.role && auth.user.role !== 'CITIZEN';
+
   const menuItems = [
+    ...(isStaff ? [{ icon: Briefcase, label: t('console.title'), action: () => onNavigate('CONSOLE') }] : []),
     { icon: FileText, label: t('profile.myReports'), action: handleViewReports },
     { icon: Settings, label: t('profile.settings'), action: () => {} },
     { icon: HelpCircle, label: t('profile.helpSupport'), action: () => {} },
@@ -1,35 +1,48 @@
 /**
  * ReportsListScreen Component
- * Display user's submitted reports
+ * Display user's submitted reports, and let the reporter dispute
+ * a resolved or dismissed one
  */
 
+import { useState } from 'react';
 import { motion } from 'motion/react';
-import { FileText, MapPin } from 'lucide-react';
+import { FileText, MapPin, MessageSquare, KeyRound, AlarmClock, RotateCcw, Loader2 } from 'lucide-react';
 import { useApp } from '../context/AppContext.js';
 import Header from '../components/Header.js';
 import BottomNav from '../components/BottomNav.js';
 import Footer from '../components/Footer.js';
+import { statusStyles } from '../console/caseStyles.js';
 
 interface ReportsListScreenProps {
   onNavigate: (screen: string) => void;
   onStartReport: () => void;
+  onOpenFollowUp: (followUpKey?: string) => void;
 }
 
 export default function ReportsListScreen({
   onNavigate,
   onStartReport,
+  onOpenFollowUp,
 }: ReportsListScreenProps) {
-  const { t, userReports, theme } = useApp();
+  const { t, userReports, theme, followUpKeys, reopenReport } = useApp();
+  const [disputingId, setDisputingId] = useState<string | null>(null);
+  const [disputeReason, setDisputeReason] = useState('');
+  const [disputeError, setDisputeError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
 
-  const getStatusStyles = (status?: string) => {
-    switch (status) {
-      case 'RESOLVED':
-        return 'bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400';
-      case 'UNDER_REVIEW':
-        return 'bg-yellow-100 text-yellow-600 dark:bg-yellow-900/30 dark:text-yellow-400';
-      default:
-        return 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400';
-    }
+  const startDispute = (reportId: string | null) => {
+    setDisputingId(reportId);
+    setDisputeReason('');
+    setDisputeError(null);
+  };
+
+  const submitDispute = async () => {
+    if (!disputingId) return;
+    setSubmitting(true);
+    const result = await reopenReport(disputingId, disputeReason.trim());
+    setSubmitting(false);
+    if (result.success) startDispute(null);
+    else setDisputeError(result.message);
   };
 
   return (
@@ -70,27 +83,102 @@ export default function ReportsListScreen({
                     {rpt.category || 'General Incident'}
                   </div>
                   <span
-                    className={`px-2 py-0.5 text-xs font-medium rounded-full ${getStatusStyles(
+                    className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusStyles(
                       rpt.status
                     )}`}
                   >
-                    {rpt.status || 'PENDING'}
+                    {t(`console.status.${rpt.status || 'PENDING'}`)}
                   </span>
                 </div>
                 <div className="text-sm text-purple-500 mb-2">
-                  {rpt.reference_id || rpt.referenceId}
+                  {rpt.referenceId}
+                  {rpt.duplicateOf && (
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      {t('reports.follows')} {rpt.duplicateOf.referenceId}
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center gap-2 text-xs text-gray-400">
                   <MapPin className="w-3 h-3" />
                   <span>
-                    {rpt.nearest_station || rpt.location?.nearestStation || 'Unknown'}
+                    {rpt.location.nearestStation || 'Unknown'}
                   </span>
+                  {rpt.identity === 'anonymous' && (
+                    <span className="ml-auto">{t('reports.anonymous')}</span>
+                  )}
                 </div>
+                {rpt.escalations?.map(escalation => (
+                  <div
+                    key={`${escalation.authority}-${escalation.deadline}`}
+                    className="mt-2 flex items-start gap-1.5 text-xs text-amber-600 dark:text-amber-400"
+                  >
+                    <AlarmClock className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                    <span>
+                      {escalation.authority} {t(escalation.deadline === 'ACKNOWLEDGE' ? 'sla.missedAck' : 'sla.missedResolve')}
+                      {escalation.escalatedTo && ` · ${t('sla.escalatedTo')} ${escalation.escalatedTo}`}
+                    </span>
+                  </div>
+                ))}
+                {rpt.canReopen && disputingId !== rpt.id && (
+                  <button
+                    onClick={() => startDispute(rpt.id)}
+                    className="mt-3 flex items-center gap-1.5 text-xs font-medium text-orange-500 hover:text-orange-600"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                    {t('reports.dispute')}
+                  </button>
+                )}
+                {disputingId === rpt.id && (
+                  <div className="mt-3 space-y-2">
+                    <textarea
+                      value={disputeReason}
+                      onChange={e => setDisputeReason(e.target.value)}
+                      maxLength={500}
+                      rows={3}
+                      placeholder={t('reports.disputePlaceholder')}
+                      className="w-full px-3 py-2 rounded-lg bg-white dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                    {disputeError && <p className="text-xs text-red-600 dark:text-red-400">{disputeError}</p>}
+                    <div className="flex gap-2">
+                      <button
+                        onClick={submitDispute}
+                        disabled={submitting || !disputeReason.trim()}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-purple-500 hover:bg-purple-600 text-white disabled:opacity-50"
+                      >
+                        {submitting && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                        {t('reports.disputeSubmit')}
+                      </button>
+                      <button
+                        onClick={() => startDispute(null)}
+                        className="px-3 py-1.5 rounded-lg text-xs font-medium text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                      >
+                        {t('common.cancel')}
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {followUpKeys[rpt.id] && (
+                  <button
+                    onClick={() => onOpenFollowUp(followUpKeys[rpt.id])}
+                    className="mt-3 flex items-center gap-1.5 text-xs font-medium text-purple-500 hover:text-purple-600"
+                  >
+                    <MessageSquare className="w-3.5 h-3.5" />
+                    {t('followUp.messages')}
+                  </button>
+                )}
               </motion.div>
             ))}
           </div>
         )}
 
+        <button
+          onClick={() => onOpenFollowUp()}
+          className="mt-6 w-full flex items-center justify-center gap-2 text-sm text-gray-500 hover:text-purple-500"
+        >
+          <KeyRound className="w-4 h-4" />
+          {t('followUp.enterKey')}
+        </button>
+
         <Footer variant="minimal" className="mt-8" />
       </main>
 
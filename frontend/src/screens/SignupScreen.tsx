@@ -143,7 +143,8 @@ export default function SignupScreen({ onNavigate, onBack }: SignupScreenProps)
                   className="w-full pl-10 pr-12 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 focus:ring-2 focus:ring-primary focus:border-transparent transition-all"
                   placeholder="••••••••"
                   required
-                  minLength={6}
+                  minLength={10}
+                  maxLength={128}
                 />
                 <button
                   type="button"
@@ -157,6 +158,7 @@ export default function SignupScreen({ onNavigate, onBack }: SignupScreenProps)
                   )}
                 </button>
               </div>
+              <p className="mt-1.5 text-xs text-gray-500">{t('auth.passwordHint')}</p>
             </div>
 
             <div>
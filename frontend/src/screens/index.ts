@@ -19,3 +19,5 @@ export { default as EmergencyScreen } from './EmergencyScreen.js';
 export { default as ReportsListScreen } from './ReportsListScreen.js';
 export { default as NearbyScreen } from './NearbyScreen.js';
 export { default as ProfileScreen } from './ProfileScreen.js';
+export { default as ExplorerScreen } from './ExplorerScreen.js';
+export { default as FollowUpScreen } from './FollowUpScreen.js';
@@ -18,6 +18,9 @@ const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:4000/api'
 
 // ─── Auth Types ──────────────────────────────────────────────
 
+// Account roles, granted by an admin (see backend AccessControl.ts)
+export type StaffRole = 'CITIZEN' | 'OFFICER' | 'SUPERVISOR' | 'ADMIN';
+
 export interface LoginResponse {
   success: boolean;
   message: string;
@@ -25,12 +28,16 @@ export interface LoginResponse {
     user: {
       id: string;
       name: string;
-      email: string;
+      email: string | null;
       phone?: string;
+      role: StaffRole;
+      authority: string | null;
       verified: boolean;
       createdAt: string;
     };
     token: string;
+    refreshToken: string;
+    expiresIn: number;
   };
 }
 
@@ -50,13 +57,34 @@ export interface SignupResponse {
       name: string;
       email: string;
       phone?: string;
+      role: StaffRole;
+      authority: string | null;
       verified: boolean;
       createdAt: string;
     };
     token: string;
+    refreshToken: string;
+    expiresIn: number;
   };
 }
 
+export interface OtpRequestResponse {
+  success: boolean;
+  message: string;
+  data: {
+    phone: string;          // Normalised, e.g. +919876543210
+    expiresIn: number;      // Seconds the code stays valid
+    resendIn: number;       // Seconds before another code may be requested
+  };
+}
+
+export interface OtpVerifyResponse {
+  success: boolean;
+  message: string;
+  // A number without an account needs a name first (same code, sent again with name)
+  data: LoginResponse['data'] | { registrationRequired: true };
+}
+
 export interface FileUploadResponse {
   success: boolean;
   message: string;
@@ -66,6 +94,7 @@ export interface FileUploadResponse {
     filename: string;
     mimetype: string;
     size: number;
+    fileHash: string;       // SHA-256 of the stored bytes
   };
 }
 
@@ -84,56 +113,525 @@ export interface SubmitReportPayload {
     lat?: number;
     lng?: number;
   };
-  evidence?: string[];      // Array of evidence hashes or URLs
+  evidence?: string[];      // File ids returned by /files/upload
   authorities?: string[];   // Authorities to route to
   aiSummary?: string;
   isEmergency?: boolean;
 }
 
+export interface SubmissionReceipt {
+  payload: {
+    type: 'JAAGRUK_SUBMISSION_RECEIPT';
+    reportId: string;
+    referenceId: string;
+    blockIndex: number;
+    blockHash: string;
+    descriptionHash: string;
+    acceptedAt: string;
+  };
+  algorithm: 'Ed25519';
+  keyId: string;
+  signature: string;
+}
+
+export interface PendingReceipt {
+  payload: {
+    type: 'JAAGRUK_PENDING_RECEIPT';
+    reportId: string;
+    referenceId: string;
+    jobId: string;
+    descriptionHash: string;
+    acceptedAt: string;
+  };
+  algorithm: 'Ed25519';
+  keyId: string;
+  signature: string;
+}
+
+export type MiningState = 'QUEUED' | 'MINING' | 'COMMITTED' | 'FAILED';
+
+/**
+ * An open report that may be the same issue as the caller's
+ * ("me too"). Nothing about who filed it or what they wrote.
+ */
+export interface DuplicateSuggestion {
+  reportId: string;
+  referenceId: string;
+  category: string;
+  area: string;
+  nearestStation: string;
+  status: string;
+  reportedAt: string;
+  linkedReports: number;        // Reports already linked to it
+  distanceMeters: number | null;
+  score: number;                // 0–1
+}
+
+// The block is mined in the background; poll getReportReceipt() for it
 export interface SubmitReportResponse {
   success: boolean;
   message: string;
   data: {
     reportId: string;
     referenceId: string;
-    blockIndex: number;
-    blockHash: string;
     status: string;
-    chainLength: number;
+    mining: {
+      jobId: string;
+      state: MiningState;
+      position: number | null;
+    };
     submittedAt: string;
+    receipt: PendingReceipt;
+    descriptionReadableBy: string[];   // Routed authorities with a vault key
+    claimToken?: string;      // Anonymous reports only — keep it on this device
+    possibleDuplicates: DuplicateSuggestion[];
   };
 }
 
+// ─── Follow-up Types ─────────────────────────────────────────
+
+export interface AuthorityKeyInfo {
+  keyId: string;
+  authority: string;
+  publicKeyPem: string;
+  active: boolean;
+  createdAt: string;
+  retiredAt: string | null;
+}
+
+export type FollowUpSender = 'REPORTER' | 'OFFICER';
+
+export interface FollowUpKeyGrant {
+  authority: string;
+  keyId: string;
+  algorithm: string;
+  ephemeralPublicKey: string;
+  iv: string;
+  authTag: string;
+  wrappedKey: string;
+}
+
+/**
+ * One end-to-end encrypted message; only the reporter and the
+ * routed authority can decrypt it.
+ */
+export interface FollowUpMessage {
+  id: string;
+  sender: FollowUpSender;
+  iv: string;
+  ciphertext: string;
+  createdAt: string;
+}
+
+export interface FollowUpThreadResponse {
+  success: boolean;
+  data: {
+    reportId: string;
+    referenceId: string;
+    status: string;
+    messages: FollowUpMessage[];
+  };
+}
+
+/**
+ * A deadline an authority missed, and where the report went next
+ * (escalatedTo is null when no escalation path is configured).
+ */
+export interface SlaEscalation {
+  authority: string;
+  deadline: 'ACKNOWLEDGE' | 'RESOLVE';
+  dueAt: string;
+  escalatedTo: string | null;
+  escalatedAt: string;
+}
+
+/**
+ * One step of a report's lifecycle, oldest first (status_history).
+ */
+export interface ReportStatusChange {
+  status: CaseStatus;
+  previousStatus: CaseStatus | null;
+  actor: string;                // User ID, CITIZEN or ANONYMOUS
+  actorRole: string | null;
+  reasonCode: DismissalReason | null;
+  reason: string | null;
+  blockIndex: number | null;    // Status event block (null for the submission)
+  blockHash: string | null;
+  changedAt: string;
+}
+
+/**
+ * One of the caller's own reports (GET /me/reports).
+ */
+export interface MyReport {
+  id: string;
+  referenceId: string;
+  category: string;
+  urgency: string;
+  status: string;
+  identity: 'name' | 'anonymous';
+  location: { area: string; address: string; nearestStation: string };
+  isEmergency: boolean;
+  aiSummary: string | null;
+  blockIndex: number | null;
+  blockHash: string | null;
+  escalations: SlaEscalation[];
+  statusHistory: ReportStatusChange[];
+  canReopen: boolean;           // Closed, so the reporter may dispute it
+  duplicateOf: { reportId: string; referenceId: string; status: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ─── Authority Console Types ─────────────────────────────────
+
+export type CaseStatus = 'PENDING' | 'UNDER_REVIEW' | 'IN_PROGRESS' | 'RESOLVED' | 'DISMISSED' | 'REOPENED';
+
+export type DismissalReason =
+  | 'DUPLICATE'
+  | 'INSUFFICIENT_INFORMATION'
+  | 'OUT_OF_JURISDICTION'
+  | 'NO_ACTION_REQUIRED'
+  | 'FALSE_REPORT';
+
+/**
+ * A report row as staff see it (GET /reports), in the backend's
+ * column names.
+ */
+export interface StaffReport {
+  id: string;
+  reference_id: string;
+  block_index: number | null;
+  block_hash: string | null;
+  category: string;
+  urgency: string;
+  identity_type: 'name' | 'anonymous';
+  citizen_id: string | null;
+  status: CaseStatus;
+  location_area: string;
+  location_address: string;
+  nearest_station: string;
+  location_lat: number | null;
+  location_lng: number | null;
+  is_emergency: number;
+  ai_summary: string | null;
+  quarantined_at: number | null;
+  quarantine_reason: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface ReportFilters {
+  status?: string;
+  urgency?: string;
+  category?: string;
+  station?: string;
+  authority?: string;       // Admins only; officers always see their own
+  limit?: number;
+  offset?: number;
+}
+
+export interface StaffEvidence {
+  id: string;
+  file_hash: string;
+  file_name: string | null;
+  file_type: string | null;
+  file_size: number | null;
+  leaf_index: number | null;
+  uploaded_at: number;
+}
+
+export interface AuditEntry {
+  id: number;
+  event_type: string;
+  actor: string | null;
+  details: string | null;
+  ip_address: string | null;
+  timestamp: number;          // Unix seconds
+}
+
+export interface ClusterLink {
+  reportId: string;
+  referenceId: string;
+  source: 'REPORTER' | 'STAFF';
+  score: number | null;
+  linkedAt: string;
+}
+
+/**
+ * A report's duplicate cluster: the primary it follows, or the
+ * reports that follow it.
+ */
+export interface ReportCluster {
+  duplicateOf: ClusterLink | null;
+  linked: (ClusterLink & { status: CaseStatus })[];
+}
+
+export interface SimilarReport extends DuplicateSuggestion {
+  aiSummary: string | null;
+  signals: { proximity: number; category: number; text: number; recency: number };
+}
+
+export interface StaffReportDetail extends StaffReport {
+  allowedTransitions: CaseStatus[];   // What staff may move it to next
+  statusHistory: ReportStatusChange[];
+  duplicates: ReportCluster;
+  evidence: StaffEvidence[];
+  auditLog: AuditEntry[];
+}
+
+/**
+ * One authority's handling of a report (GET /cases/:reportId).
+ */
+export interface CaseInfo {
+  authority: string;
+  routedAt: string;
+  acknowledged: boolean;
+  acknowledgedAt: string | null;
+  assignee: { id: string; name: string | null } | null;
+  assignedAt: string | null;
+  ackDueAt: string;             // SLA deadlines, from when this authority got the case
+  resolveDueAt: string;
+}
+
+export interface CaseNote {
+  id: string;
+  authority: string;
+  author: { id: string; name: string | null };
+  body: string;
+  createdAt: string;
+}
+
+export interface CaseFileResponse {
+  success: boolean;
+  data: {
+    reportId: string;
+    referenceId: string;
+    status: CaseStatus;
+    sla: { ackMinutes: number; resolveMinutes: number; source: 'policy' | 'default' };
+    cases: CaseInfo[];
+    escalations: SlaEscalation[];
+    notes: CaseNote[];
+  };
+}
+
+export interface AssignableOfficer {
+  id: string;
+  name: string;
+  role: StaffRole;
+}
+
+export type ReportReceiptResponse =
+  | {
+      success: true;
+      state: 'QUEUED' | 'MINING';
+      data: { reportId: string; referenceId: string; jobId: string; position: number | null };
+    }
+  | {
+      success: true;
+      state: 'COMMITTED';
+      data: {
+        reportId: string;
+        referenceId: string;
+        blockIndex: number;
+        blockHash: string;
+        chainLength: number;
+        receipt: SubmissionReceipt;
+      };
+    };
+
+export interface MerkleProof {
+  leaf: string;
+  leafIndex: number;
+  treeSize: number;
+  root: string;
+  path: Array<{ position: 'left' | 'right'; hash: string }>;
+}
+
+export interface EvidenceProofResponse {
+  success: boolean;
+  pending?: boolean;        // Report not mined yet (HTTP 202)
+  message?: string;
+  data?: {
+    fileId: string;
+    fileName: string;
+    fileHash: string;       // SHA-256 of the file bytes
+    salt: string;           // Only this file's salt is released
+    evidenceRoot: string;   // As recorded in the report's block
+    evidenceProof: MerkleProof;
+    blockIndex: number;
+    blockHash: string;
+    blockProof: MerkleProof;
+  };
+}
+
+export interface StatusHistoryEntry {
+  status: string;
+  previousStatus: string | null;
+  reasonCode: string | null;
+  reasonHash: string | null;    // SHA-256 of the reason; the text is not public
+  timestamp: string;
+  blockIndex: number;
+  blockHash: string;
+}
+
 export interface VerifyReportResponse {
   success: boolean;
   verified: boolean;
   chainIntegrity: 'VALID' | 'COMPROMISED';
   blockDetails?: {
+    version: number;
     index: number;
     hash: string;
     previousHash: string;
     timestamp: string;
     nonce: number;
     dataHash: string;
+    signature: { keyId: string; value: string } | null;
   };
+  merkleProof?: MerkleProof;
+  onChainStatus?: string;
+  statusHistory?: StatusHistoryEntry[];
   message: string;
 }
 
+export interface MerkleRootResponse {
+  success: boolean;
+  root: string;
+  treeSize: number;
+  latestBlockIndex: number;
+  latestBlockHash: string;
+  publishedAt: string;
+}
+
 export interface BlockchainHealthResponse {
   success: boolean;
   status: 'HEALTHY' | 'COMPROMISED';
   chainLength: number;
   latestBlockHash: string;
   latestBlockIndex: number;
+  merkleRoot: string;
   lastUpdated: string;
   message: string;
 }
 
+// ─── Block Explorer ──────────────────────────────────────────
+
+/**
+ * Public view of a block — no citizenId or street address.
+ */
+export interface PublicBlock {
+  version: number;          // Block format the hash was computed with
+  index: number;
+  type: 'GENESIS' | 'REPORT' | 'STATUS_EVENT';
+  timestamp: number;
+  hash: string;
+  previousHash: string;
+  merkleRoot: string | null;
+  nonce: number;
+  signedBy: string | null;
+  data: {
+    reportId: string;
+    timestamp: number;
+    status: string;
+    // Report blocks
+    category?: string;
+    urgency?: string;
+    area?: string;
+    nearestStation?: string;
+    descriptionHash?: string;
+    evidenceHashes?: string[];
+    evidenceRoot?: string | null;
+    evidenceCount?: number;
+    identity?: 'name' | 'anonymous';
+    authorityRouted?: string[];
+    // Status event blocks
+    reportBlockIndex?: number;
+    reportBlockHash?: string;
+    previousStatus?: string;
+    reasonCode?: string;
+    reasonHash?: string;
+  };
+}
+
+export interface ChainPageResponse {
+  success: boolean;
+  length: number;
+  page: number;
+  limit: number;
+  order: 'asc' | 'desc';
+  totalPages: number;
+  merkleRoot: string;
+  data: PublicBlock[];
+}
+
+export interface LedgerLookup {
+  referenceId?: string;
+  block: PublicBlock;
+  statusEvents: PublicBlock[];
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export interface RefreshResponse {
+  success: boolean;
+  message: string;
+  data: SessionTokens & { expiresIn: number };
+}
+
+// ─── Session ─────────────────────────────────────────────────
+// Access tokens live 15 minutes. When an authenticated request comes
+// back 401, the refresh token is traded for a new pair once and the
+// request retried; the listener hears about the new pair, or null if
+// the session is over.
+
+let session: SessionTokens | null = null;
+let sessionListener: ((tokens: SessionTokens | null) => void) | null = null;
+let pendingRefresh: Promise<SessionTokens | null> | null = null;
+
+export function setSession(
+  tokens: SessionTokens | null,
+  onChange?: (tokens: SessionTokens | null) => void
+): void {
+  session = tokens;
+  sessionListener = onChange ?? null;
+}
+
+function renewSession(): Promise<SessionTokens | null> {
+  if (!session) return Promise.resolve(null);
+  // Concurrent 401s share one refresh; a second would present a rotated-out token
+  if (!pendingRefresh) {
+    const { refreshToken } = session;
+    pendingRefresh = fetch(`${API_BASE_URL}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    })
+      .then(async response => {
+        const data = await response.json();
+        const renewed: SessionTokens | null = response.ok
+          ? { token: data.data.token, refreshToken: data.data.refreshToken }
+          : null;
+        session = renewed;
+        sessionListener?.(renewed);
+        return renewed;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+}
+
 // ─── Core Fetch Helper ───────────────────────────────────────
 
 async function apiFetch<T>(
   endpoint: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  retryExpired = true
 ): Promise<T> {
   const url = `${API_BASE_URL}${endpoint}`;
 
@@ -150,6 +648,17 @@ async function apiFetch<T>(
       },
     });
 
+    const authorization = (options.headers as Record<string, string> | undefined)?.Authorization;
+    if (response.status === 401 && retryExpired && authorization?.startsWith('Bearer ')) {
+      const renewed = await renewSession();
+      if (renewed) {
+        return apiFetch<T>(endpoint, {
+          ...options,
+          headers: { ...options.headers, Authorization: `Bearer ${renewed.token}` },
+        }, false);
+      }
+    }
+
     const data = await response.json();
 
     if (!response.ok) {
@@ -173,40 +682,230 @@ export const apiService = {
    * Submit a new incident report.
    * The backend will:
    * 1. Hash the description for privacy
-   * 2. Mine a new blockchain block
-   * 3. Save to SQLite
-   * 4. Route to authorities
+   * 2. Save to SQLite
+   * 3. Route to authorities
+   * 4. Queue a new blockchain block (mined in the background)
    */
-  async submitReport(payload: SubmitReportPayload): Promise<SubmitReportResponse> {
+  async submitReport(payload: SubmitReportPayload, token?: string | null): Promise<SubmitReportResponse> {
     return apiFetch<SubmitReportResponse>('/reports', {
       method: 'POST',
+      ...(token && { headers: { Authorization: `Bearer ${token}` } }),
       body: JSON.stringify(payload),
     });
   },
 
   /**
-   * Fetch all reports (for admin dashboard).
+   * Vault public keys of all authorities (active and retired).
    */
-  async getReports(filters?: {
-    status?: string;
-    urgency?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<{ success: boolean; count: number; data: any[] }> {
+  async getAuthorityKeys(): Promise<{ success: boolean; count: number; data: AuthorityKeyInfo[] }> {
+    return apiFetch('/authorities/keys');
+  },
+
+  /**
+   * Open the follow-up channel of an anonymous report. Use
+   * startFollowUp() in followUpChannel.ts rather than calling this.
+   */
+  async openFollowUp(payload: {
+    reportId: string;
+    claimToken: string;
+    accessKeyHash: string;
+    grants: FollowUpKeyGrant[];
+  }): Promise<{ success: boolean; message: string; data: { reportId: string; authorities: string[] } }> {
+    return apiFetch('/followups', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+  },
+
+  /**
+   * The encrypted follow-up thread, as the reporter.
+   */
+  async getFollowUpThread(reportId: string, accessKey: string): Promise<FollowUpThreadResponse> {
+    return apiFetch<FollowUpThreadResponse>(`/followups/${encodeURIComponent(reportId)}`, {
+      headers: { 'X-Follow-Up-Key': accessKey },
+    });
+  },
+
+  async sendFollowUpMessage(
+    reportId: string,
+    accessKey: string,
+    message: { iv: string; ciphertext: string }
+  ): Promise<{ success: boolean; data: FollowUpMessage }> {
+    return apiFetch(`/followups/${encodeURIComponent(reportId)}/messages`, {
+      method: 'POST',
+      headers: { 'X-Follow-Up-Key': accessKey },
+      body: JSON.stringify(message),
+    });
+  },
+
+  /**
+   * The caller's own reports: named ones via the access token, and
+   * anonymous ones this device filed via their claim tokens.
+   */
+  async getMyReports(token: string | null, claimTokens: string[]): Promise<{ success: boolean; count: number; data: MyReport[] }> {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    if (claimTokens.length > 0) headers['X-Report-Claims'] = claimTokens.join(',');
+    return apiFetch('/me/reports', { headers });
+  },
+
+  /**
+   * Dispute the outcome of one of the caller's resolved or dismissed
+   * reports, moving it to REOPENED. Anonymous reports are proven by
+   * their claim token, as in getMyReports().
+   */
+  async reopenReport(
+    token: string | null,
+    claimTokens: string[],
+    reportId: string,
+    reason: string
+  ): Promise<{ success: boolean; message: string; data: MyReport }> {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    if (claimTokens.length > 0) headers['X-Report-Claims'] = claimTokens.join(',');
+    return apiFetch(`/me/reports/${encodeURIComponent(reportId)}/reopen`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ reason }),
+    });
+  },
+
+  /**
+   * "Me too": link one of the caller's reports to an earlier open
+   * report of the same issue (one of its possibleDuplicates).
+   */
+  async linkMyReport(
+    token: string | null,
+    claimTokens: string[],
+    reportId: string,
+    primaryId: string
+  ): Promise<{ success: boolean; message: string; data: MyReport }> {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    if (claimTokens.length > 0) headers['X-Report-Claims'] = claimTokens.join(',');
+    return apiFetch(`/me/reports/${encodeURIComponent(reportId)}/link`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ primaryId }),
+    });
+  },
+
+  /**
+   * Poll how far a submitted report is from being on-chain.
+   * Throws if mining failed.
+   */
+  async getReportReceipt(reportId: string): Promise<ReportReceiptResponse> {
+    return apiFetch<ReportReceiptResponse>(`/reports/${encodeURIComponent(reportId)}/receipt`);
+  },
+
+  /**
+   * Prove one evidence file belongs to a report without revealing
+   * the report's other files.
+   */
+  async getEvidenceProof(reportId: string, fileId: string): Promise<EvidenceProofResponse> {
+    return apiFetch<EvidenceProofResponse>(
+      `/reports/${encodeURIComponent(reportId)}/evidence/${encodeURIComponent(fileId)}/proof`
+    );
+  },
+
+  /**
+   * Poll until the report's block is mined and return the final
+   * signed receipt. Gives up after timeoutMs.
+   */
+  async waitForReceipt(
+    reportId: string,
+    { intervalMs = 1000, timeoutMs = 120000 }: { intervalMs?: number; timeoutMs?: number } = {}
+  ): Promise<Extract<ReportReceiptResponse, { state: 'COMMITTED' }>['data']> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const response = await this.getReportReceipt(reportId);
+      if (response.state === 'COMMITTED') return response.data;
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for the report to be recorded on the blockchain.');
+      }
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+  },
+
+  /**
+   * Fetch reports (officers: routed to their authority; admins: all).
+   */
+  async getReports(token: string, filters?: ReportFilters): Promise<{ success: boolean; count: number; data: StaffReport[] }> {
     const params = new URLSearchParams();
-    if (filters?.status) params.append('status', filters.status);
-    if (filters?.urgency) params.append('urgency', filters.urgency);
-    if (filters?.limit) params.append('limit', String(filters.limit));
-    if (filters?.offset) params.append('offset', String(filters.offset));
+    for (const [key, value] of Object.entries(filters ?? {})) {
+      if (value !== undefined && value !== '') params.append(key, String(value));
+    }
+
+    return apiFetch(`/reports?${params.toString()}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  },
+
+  /**
+   * Get a specific report by ID or reference ID, with its evidence
+   * list and audit trail (staff only).
+   */
+  async getReport(token: string, id: string): Promise<{ success: boolean; data: StaffReportDetail }> {
+    return apiFetch(`/reports/${encodeURIComponent(id)}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  },
+
+  /**
+   * Download an evidence file (staff only; every access is audited).
+   */
+  async downloadEvidence(token: string, reportId: string, fileId: string): Promise<Blob> {
+    const response = await fetch(`${API_BASE_URL}/reports/${encodeURIComponent(reportId)}/evidence/${fileId}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || 'Evidence download failed');
+    }
+    return response.blob();
+  },
+
+  /**
+   * Cases (one per routed authority) and internal notes for a report.
+   */
+  async getCase(token: string, reportId: string): Promise<CaseFileResponse> {
+    return apiFetch(`/cases/${encodeURIComponent(reportId)}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  },
+
+  /**
+   * Act on one authority's case. `authority` picks the case for
+   * admins; officers and supervisors always act on their own.
+   */
+  async updateCase(
+    token: string,
+    reportId: string,
+    action: 'acknowledge' | 'assign' | 'reassign' | 'transfer',
+    body: { authority: string; officerId?: string; toAuthority?: string; reason?: string }
+  ): Promise<{ success: boolean; message?: string; data: CaseInfo }> {
+    return apiFetch(`/cases/${encodeURIComponent(reportId)}/${action}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body),
+    });
+  },
 
-    return apiFetch(`/reports?${params.toString()}`);
+  async addCaseNote(token: string, reportId: string, authority: string, body: string): Promise<{ success: boolean; data: CaseNote }> {
+    return apiFetch(`/cases/${encodeURIComponent(reportId)}/notes`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ authority, body }),
+    });
   },
 
   /**
-   * Get a specific report by ID or reference ID.
+   * Officers a case of this authority can be assigned to (supervisor, admin).
    */
-  async getReport(id: string): Promise<{ success: boolean; data: any }> {
-    return apiFetch(`/reports/${id}`);
+  async getAssignableOfficers(token: string, authority: string): Promise<{ success: boolean; count: number; data: AssignableOfficer[] }> {
+    return apiFetch(`/users/officers?authority=${encodeURIComponent(authority)}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
   },
 
   /**
@@ -214,19 +913,57 @@ export const apiService = {
    * Citizens can use this to confirm their report is immutably recorded.
    */
   async verifyReport(reportId: string): Promise<VerifyReportResponse> {
-    return apiFetch<VerifyReportResponse>(`/reports/${reportId}/verify`);
+    return apiFetch<VerifyReportResponse>(`/reports/${encodeURIComponent(reportId)}/verify`);
   },
 
   /**
-   * Update report status (admin operation).
+   * Update report status (officer or admin operation).
+   * Each change is appended to the blockchain as a status event block.
+   * Dismissing needs a reasonCode; REOPENED is left to the reporter.
    */
   async updateReportStatus(
+    token: string,
     reportId: string,
-    status: 'PENDING' | 'UNDER_REVIEW' | 'RESOLVED' | 'DISMISSED'
-  ): Promise<{ success: boolean; message: string }> {
+    status: CaseStatus,
+    reason?: string,
+    reasonCode?: DismissalReason
+  ): Promise<{ success: boolean; message: string; data: { status: string; blockIndex: number; blockHash: string } }> {
     return apiFetch(`/reports/${reportId}/status`, {
       method: 'PATCH',
-      body: JSON.stringify({ status }),
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ status, reason, reasonCode }),
+    });
+  },
+
+  /**
+   * Possible duplicates of a report among those the caller can see.
+   */
+  async getSimilarReports(token: string, reportId: string): Promise<{ success: boolean; count: number; data: SimilarReport[] }> {
+    return apiFetch(`/reports/${encodeURIComponent(reportId)}/similar`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  },
+
+  /**
+   * Link a report to a primary as its duplicate. Reports already
+   * linked to it move along; status changes of the primary carry over.
+   */
+  async linkReports(
+    token: string,
+    reportId: string,
+    primaryId: string
+  ): Promise<{ success: boolean; message: string; data: { reportId: string; primaryId: string; movedReports: number } }> {
+    return apiFetch(`/reports/${encodeURIComponent(reportId)}/link`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ primaryId }),
+    });
+  },
+
+  async unlinkReport(token: string, reportId: string): Promise<{ success: boolean; message: string }> {
+    return apiFetch(`/reports/${encodeURIComponent(reportId)}/link`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${token}` },
     });
   },
 
@@ -237,6 +974,67 @@ export const apiService = {
     return apiFetch<BlockchainHealthResponse>('/reports/blockchain/health');
   },
 
+  /**
+   * Get the currently published Merkle root of the ledger.
+   * Inclusion proofs from verifyReport() are checked against this.
+   */
+  async getMerkleRoot(): Promise<MerkleRootResponse> {
+    return apiFetch<MerkleRootResponse>('/reports/blockchain/merkle-root');
+  },
+
+  /**
+   * Get the server's public signing keys (current and retired).
+   */
+  async getSigningKeys(): Promise<{
+    success: boolean;
+    activeKeyId: string;
+    data: Array<{ keyId: string; algorithm: 'Ed25519'; publicKeyPem: string; createdAt: string; retiredAt: string | null; active: boolean }>;
+  }> {
+    return apiFetch('/reports/blockchain/keys');
+  },
+
+  /**
+   * Check a signed submission receipt against the server's keys and ledger.
+   */
+  async verifyReceipt(receipt: SubmissionReceipt | PendingReceipt): Promise<{ success: boolean; signatureValid: boolean; blockMatches: boolean | null; message: string }> {
+    return apiFetch('/reports/receipts/verify', {
+      method: 'POST',
+      body: JSON.stringify(receipt),
+    });
+  },
+
+  // ─── Block Explorer ──────────────────────────────────────────
+
+  /**
+   * One page of the public ledger, newest block first.
+   */
+  async getChainPage(page = 1, limit = 20): Promise<ChainPageResponse> {
+    return apiFetch<ChainPageResponse>(`/blockchain/chain?page=${page}&limit=${limit}`);
+  },
+
+  async getBlockByIndex(index: number): Promise<{ success: boolean; data: PublicBlock }> {
+    return apiFetch(`/blockchain/blocks/${index}`);
+  },
+
+  async getBlockByHash(hash: string): Promise<{ success: boolean; data: PublicBlock }> {
+    return apiFetch(`/blockchain/blocks/hash/${hash}`);
+  },
+
+  /**
+   * A report's block and status events, by reference ID.
+   */
+  async getReportOnLedger(referenceId: string): Promise<{ success: boolean; data: LedgerLookup }> {
+    return apiFetch(`/blockchain/reports/${encodeURIComponent(referenceId)}`);
+  },
+
+  /**
+   * Look up a block index, block hash or reference ID.
+   * Rejects with "Nothing on the ledger matches..." if there is no match.
+   */
+  async searchLedger(query: string): Promise<{ success: boolean; type: 'index' | 'hash' | 'reference'; data: LedgerLookup }> {
+    return apiFetch(`/blockchain/search?q=${encodeURIComponent(query)}`);
+  },
+
   /**
    * Check if the backend API is running.
    */
@@ -266,6 +1064,47 @@ export const apiService = {
     });
   },
 
+  /**
+   * Text a 6-digit login code to an Indian mobile number
+   */
+  async requestOtp(phone: string): Promise<OtpRequestResponse> {
+    return apiFetch<OtpRequestResponse>('/auth/otp/request', {
+      method: 'POST',
+      body: JSON.stringify({ phone }),
+    });
+  },
+
+  /**
+   * Log in with a texted code; name is required for a new number
+   */
+  async verifyOtp(phone: string, code: string, name?: string): Promise<OtpVerifyResponse> {
+    return apiFetch<OtpVerifyResponse>('/auth/otp/verify', {
+      method: 'POST',
+      body: JSON.stringify({ phone, code, ...(name && { name }) }),
+    });
+  },
+
+  /**
+   * Trade a refresh token for a new token pair.
+   * apiFetch does this on its own when an access token expires.
+   */
+  async refreshSession(refreshToken: string): Promise<RefreshResponse> {
+    return apiFetch<RefreshResponse>('/auth/refresh', {
+      method: 'POST',
+      body: JSON.stringify({ refreshToken }),
+    });
+  },
+
+  /**
+   * End the session on the server; its tokens stop working at once
+   */
+  async logout(refreshToken: string): Promise<{ success: boolean; message: string }> {
+    return apiFetch('/auth/logout', {
+      method: 'POST',
+      body: JSON.stringify({ refreshToken }),
+    });
+  },
+
   /**
    * Get current user profile
    */
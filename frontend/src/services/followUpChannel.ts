@@ -0,0 +1,180 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Follow-up Channel — Browser Side of the Anonymous Thread
+ * ============================================================
+ *
+ * Everything secret happens here, with Web Crypto: the follow-up
+ * secret never leaves the browser, and the server only ever sees a
+ * hash of the access key, wrapped thread keys and ciphertext.
+ *
+ * Must match backend/src/services/FollowUpChannel.ts:
+ *   accessKey = HKDF-SHA256(S, info = "JAAGRUK follow-up access v1|" + reportId)
+ *   threadKey = HKDF-SHA256(S, info = "JAAGRUK follow-up thread v1|" + reportId)
+ *   grant     = ECIES-P256 (HKDF info "JAAGRUK follow-up key v1|reportId|keyId"), AAD = reportId
+ *   message   = AES-256-GCM(threadKey), AAD = reportId + "|" + sender
+ */
+
+import { apiService, AuthorityKeyInfo, FollowUpKeyGrant, FollowUpSender } from './apiService.js';
+
+const ACCESS_INFO = 'JAAGRUK follow-up access v1';
+const THREAD_INFO = 'JAAGRUK follow-up thread v1';
+const GRANT_INFO = 'JAAGRUK follow-up key v1';
+const GRANT_ALGORITHM = 'ECIES-P256-HKDF-SHA256-AES-256-GCM';
+const TAG_BYTES = 16;
+
+const encoder = new TextEncoder();
+
+// ─── Encoding Helpers ────────────────────────────────────────
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const padded = text.replace(/-/g, '+').replace(/_/g, '/');
+  return fromBase64(padded + '='.repeat((4 - (padded.length % 4)) % 4));
+}
+
+function pemToDer(pem: string): Uint8Array<ArrayBuffer> {
+  return fromBase64(pem.replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '').replace(/\s+/g, ''));
+}
+
+async function hkdf(secret: Uint8Array<ArrayBuffer>, info: string): Promise<Uint8Array<ArrayBuffer>> {
+  const base = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(info) },
+    base,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+// ─── Follow-up Keys ──────────────────────────────────────────
+
+/**
+ * The string the reporter keeps: "<reportId>.<secret>".
+ */
+export function parseFollowUpKey(followUpKey: string): { reportId: string; secret: Uint8Array<ArrayBuffer> } | null {
+  const match = followUpKey.trim().match(/^([0-9a-f-]{36})\.([A-Za-z0-9_-]{43})$/i);
+  return match ? { reportId: match[1].toLowerCase(), secret: fromBase64Url(match[2]) } : null;
+}
+
+export interface FollowUpSession {
+  reportId: string;
+  accessKey: string;          // Sent as X-Follow-Up-Key
+  threadKey: CryptoKey;
+}
+
+async function deriveSession(reportId: string, secret: Uint8Array<ArrayBuffer>): Promise<FollowUpSession & { rawThreadKey: Uint8Array<ArrayBuffer> }> {
+  const accessKey = toBase64Url(await hkdf(secret, `${ACCESS_INFO}|${reportId}`));
+  const rawThreadKey = await hkdf(secret, `${THREAD_INFO}|${reportId}`);
+  const threadKey = await crypto.subtle.importKey('raw', rawThreadKey, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return { reportId, accessKey, threadKey, rawThreadKey };
+}
+
+/**
+ * Re-derives the reporter's keys from a saved follow-up key.
+ */
+export async function openFollowUpSession(followUpKey: string): Promise<FollowUpSession | null> {
+  const parsed = parseFollowUpKey(followUpKey);
+  if (!parsed) return null;
+  const { rawThreadKey, ...session } = await deriveSession(parsed.reportId, parsed.secret);
+  rawThreadKey.fill(0);
+  return session;
+}
+
+async function wrapForAuthority(
+  reportId: string,
+  rawThreadKey: Uint8Array<ArrayBuffer>,
+  recipient: AuthorityKeyInfo
+): Promise<FollowUpKeyGrant> {
+  const authorityKey = await crypto.subtle.importKey(
+    'spki', pemToDer(recipient.publicKeyPem), { name: 'ECDH', namedCurve: 'P-256' }, false, []
+  );
+  const ephemeral = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const shared = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: authorityKey }, ephemeral.privateKey, 256));
+  const kekBytes = await hkdf(shared, `${GRANT_INFO}|${reportId}|${recipient.keyId}`);
+  const kek = await crypto.subtle.importKey('raw', kekBytes, 'AES-GCM', false, ['encrypt']);
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const sealed = new Uint8Array(await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(reportId) }, kek, rawThreadKey
+  ));
+
+  return {
+    authority: recipient.authority,
+    keyId: recipient.keyId,
+    algorithm: GRANT_ALGORITHM,
+    ephemeralPublicKey: toBase64(new Uint8Array(await crypto.subtle.exportKey('spki', ephemeral.publicKey))),
+    iv: toBase64(iv),
+    authTag: toBase64(sealed.subarray(sealed.length - TAG_BYTES)),
+    wrappedKey: toBase64(sealed.subarray(0, sealed.length - TAG_BYTES)),
+  };
+}
+
+/**
+ * Opens the follow-up channel for a freshly filed anonymous report
+ * and returns the follow-up key to show the reporter — once. Returns
+ * null if none of the routed authorities has a vault key yet.
+ */
+export async function startFollowUp(reportId: string, claimToken: string, authorities: string[]): Promise<string | null> {
+  const keys = await apiService.getAuthorityKeys();
+  const recipients = keys.data.filter(k => k.active && authorities.includes(k.authority));
+  if (recipients.length === 0) return null;
+
+  const secret = crypto.getRandomValues(new Uint8Array(32));
+  const { accessKey, rawThreadKey } = await deriveSession(reportId, secret);
+  const grants = await Promise.all(recipients.map(r => wrapForAuthority(reportId, rawThreadKey, r)));
+  rawThreadKey.fill(0);
+
+  const accessKeyHash = Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(accessKey))))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  await apiService.openFollowUp({ reportId, claimToken, accessKeyHash, grants });
+
+  return `${reportId}.${toBase64Url(secret)}`;
+}
+
+// ─── Messages ────────────────────────────────────────────────
+
+export async function encryptFollowUpMessage(
+  session: FollowUpSession,
+  text: string
+): Promise<{ iv: string; ciphertext: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const sender: FollowUpSender = 'REPORTER';
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(`${session.reportId}|${sender}`) },
+    session.threadKey,
+    encoder.encode(text)
+  );
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Null if the message was altered or does not belong to this thread.
+ */
+export async function decryptFollowUpMessage(
+  session: FollowUpSession,
+  message: { sender: FollowUpSender; iv: string; ciphertext: string }
+): Promise<string | null> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(message.iv), additionalData: encoder.encode(`${session.reportId}|${message.sender}`) },
+      session.threadKey,
+      fromBase64(message.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * ============================================================
+ * JAAGRUK - YOUR VOICE
+ * Merkle Proof Verifier — Client-side Inclusion Check
+ * ============================================================
+ *
+ * Re-computes a Merkle inclusion proof in the browser with Web
+ * Crypto, so a citizen can confirm their block is part of the
+ * ledger against a published root without trusting the server.
+ *
+ * Must match backend/src/blockchain/MerkleTree.ts:
+ *   leaf = SHA-256(0x00 || leafBytes)
+ *   node = SHA-256(0x01 || leftBytes || rightBytes)
+ */
+
+import type { MerkleProof } from './apiService.js';
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sha256Hex(prefix: string, ...hexParts: string[]): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', hexToBytes(prefix + hexParts.join('')));
+  return bytesToHex(digest);
+}
+
+// ─── Verification ────────────────────────────────────────────
+
+/**
+ * Returns true if the proof's leaf hashes up to the given root.
+ * Pass a root obtained independently (e.g. a published checkpoint)
+ * for a trust-free check; defaults to the root carried in the proof.
+ */
+export async function verifyMerkleProof(proof: MerkleProof, root: string = proof.root): Promise<boolean> {
+  let running = await sha256Hex('00', proof.leaf);
+  for (const step of proof.path) {
+    running = step.position === 'left'
+      ? await sha256Hex('01', step.hash, running)
+      : await sha256Hex('01', running, step.hash);
+  }
+  return running === root;
+}
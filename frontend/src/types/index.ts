@@ -24,6 +24,9 @@ export type Screen =
   | 'REPORTS_LIST'
   | 'REPORT_DETAIL'
   | 'NEARBY'
+  | 'EXPLORER'
+  | 'FOLLOW_UP'
+  | 'CONSOLE'
   | 'PROFILE'
   | 'SETTINGS'
   | 'LANGUAGE_SELECT';
@@ -61,6 +64,7 @@ export interface EvidenceFile {
   filename: string;
   mimetype: string;
   size: number;
+  hash?: string;          // SHA-256 of the uploaded bytes
   uploadedAt: string;
 }
 
@@ -103,7 +107,7 @@ export interface ChatMessage {
 
 // ─── Report Status ───────────────────────────────────────────
 
-export type ReportStatus = 'PENDING' | 'UNDER_REVIEW' | 'IN_PROGRESS' | 'RESOLVED' | 'DISMISSED';
+export type ReportStatus = 'PENDING' | 'UNDER_REVIEW' | 'IN_PROGRESS' | 'RESOLVED' | 'DISMISSED' | 'REOPENED';
 
 // ─── User Report ─────────────────────────────────────────────
 